@@ -0,0 +1,38 @@
+import admin from 'firebase-admin';
+
+// Server-side Firebase Admin. On Vercel the service account JSON is supplied
+// in FIREBASE_SERVICE_ACCOUNT; locally GOOGLE_APPLICATION_CREDENTIALS works too.
+export function getAdmin() {
+  if (admin.apps.length === 0) {
+    const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+    admin.initializeApp(
+      serviceAccount ? { credential: admin.credential.cert(JSON.parse(serviceAccount)) } : undefined
+    );
+  }
+  return admin;
+}
+
+// Resolves the caller from the Firebase ID token in the Authorization header.
+// Returns null when the token is missing or invalid.
+export async function getCaller(req) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) return null;
+  try {
+    const decoded = await getAdmin().auth().verifyIdToken(token);
+    const userDoc = await getAdmin().firestore().collection('users').doc(decoded.uid).get();
+    const data = userDoc.exists ? userDoc.data() : {};
+    return {
+      uid: decoded.uid,
+      email: decoded.email || null,
+      name: data.name || decoded.email || decoded.uid,
+      role: data.role || null,
+      adminRole: data.adminRole || null,
+      agentId: data.agentId || null,
+      brokerId: data.brokerId || null
+    };
+  } catch (error) {
+    console.error('Error verifying caller:', error);
+    return null;
+  }
+}
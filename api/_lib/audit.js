@@ -0,0 +1,18 @@
+import { getAdmin } from './admin.js';
+
+// Server-side counterpart of src/lib/audit.ts for writes made with the Admin
+// SDK. Values are recorded as given, so leave credentials out of `after`.
+export function writeAudit(actor, action, ref, before, after) {
+  const admin = getAdmin();
+  return admin.firestore().collection('auditLog').add({
+    actorUid: actor.uid,
+    actorEmail: actor.email || null,
+    action,
+    path: ref.path,
+    collection: ref.parent.id,
+    docId: ref.id,
+    before: before || null,
+    after: after || null,
+    at: admin.firestore.FieldValue.serverTimestamp()
+  });
+}
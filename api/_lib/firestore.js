@@ -0,0 +1,11 @@
+// Firestore caps `in` filters at 30 values
+const IN_QUERY_LIMIT = 30;
+
+// Documents whose `field` is any of `values`, one `in` query per 30 values
+export async function chunkedIn(db, collection, field, values) {
+  const snapshots = [];
+  for (let i = 0; i < values.length; i += IN_QUERY_LIMIT) {
+    snapshots.push(db.collection(collection).where(field, 'in', values.slice(i, i + IN_QUERY_LIMIT)).get());
+  }
+  return (await Promise.all(snapshots)).flatMap((snapshot) => snapshot.docs);
+}
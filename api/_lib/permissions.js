@@ -0,0 +1,32 @@
+// Server copy of the role table in src/lib/permissions.ts (functions here
+// are plain JS and cannot import the TypeScript module).
+const ROLE_PERMISSIONS = {
+  owner: [
+    'viewReports',
+    'manageAccounts',
+    'manageClickers',
+    'manageAssignments',
+    'viewCredentials',
+    'editTerms',
+    'recordPayments',
+    'runImports',
+    'changeTaxRate',
+    'manageStaff',
+    'approveEntries',
+    'purgeDeleted'
+  ],
+  bookkeeper: ['viewReports', 'editTerms', 'recordPayments', 'runImports', 'changeTaxRate', 'approveEntries'],
+  assignmentManager: ['manageClickers', 'manageAssignments'],
+  auditor: ['viewReports']
+};
+
+// Admins created before roles existed have no adminRole and stay owners. An
+// adminRole that is not in the table grants nothing, as in firestore.rules.
+export function hasPermission(caller, permission) {
+  if (!caller || caller.role !== 'admin') return false;
+  if (!caller.adminRole) return ROLE_PERMISSIONS.owner.includes(permission);
+  const permissions = Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, caller.adminRole)
+    ? ROLE_PERMISSIONS[caller.adminRole]
+    : [];
+  return permissions.includes(permission);
+}
@@ -0,0 +1,157 @@
+// Dashboard rollups. `rollups/{date}` holds one day's totals overall and per
+// account, agent, broker and clicker, so the dashboard reads one document per
+// day instead of every entry in the range.
+//
+// The audit log is the trigger: every entry write appends an `auditLog`
+// record in the same batch, so catching up means reading the records written
+// since `rollupState/cursor` and rebuilding each day they touched from that
+// day's entries. Rebuilding a whole day (rather than adding deltas) keeps the
+// rollups equal to a fresh sum however often a day is processed.
+//
+// Records written in one batch share a timestamp, so the log is read in
+// (at, document id) order and the cursor keeps both; paging on `at` alone
+// would skip the rest of a batch that straddles a page boundary.
+//
+// /api/rollups runs the catch-up on a schedule (vercel.json) and after
+// browsers write. The first full build, and any rebuild after the rollup
+// rules change, is scripts/rebuild_rollups.mjs; it is too long for a request.
+
+import { chunkedIn } from './firestore.js';
+
+const AMOUNT_FIELDS = ['profitLoss', 'clickerAmount', 'accHolderAmount', 'brokerAmount', 'funderWayAmount', 'referralAmount'];
+
+// Changing who an account pays moves its entries between agents and brokers
+const ACCOUNT_LINKS = ['agentId', 'brokerId', 'brokeredById', 'fundedById', 'referredById'];
+
+const AUDIT_PAGE_SIZE = 500;
+
+// Bounds one catch-up so a backlog can't outlast the request; the cursor
+// stops where it got to and the next run carries on from there
+const AUDIT_PAGES_PER_RUN = 10;
+
+const emptyTotals = () => Object.fromEntries([['entries', 0], ...AMOUNT_FIELDS.map((field) => [field, 0])]);
+
+function addEntry(totals, entry) {
+  totals.entries += 1;
+  AMOUNT_FIELDS.forEach((field) => {
+    totals[field] += Number(entry[field]) || 0;
+  });
+  return totals;
+}
+
+const addTo = (group, key, entry) => key && addEntry(group[key] || (group[key] = emptyTotals()), entry);
+
+// What each broker earns on an entry; mirrors entryObligations in
+// src/lib/settlements.ts
+function brokerEarnings(account, entry) {
+  const earned = new Map();
+  const add = (brokerId, amount) => {
+    if (brokerId) earned.set(brokerId, (earned.get(brokerId) || 0) + (Number(amount) || 0));
+  };
+  add(account.brokeredById || account.brokerId, entry.brokerAmount);
+  add(account.fundedById, entry.funderWayAmount);
+  add(account.referredById, entry.referralAmount);
+  return earned;
+}
+
+// Only approved work is owed to anyone; entries from before the workflow have
+// no status and count as approved. Same rule as isPayable in
+// src/lib/settlements.ts, so the rollups agree with balances and statements.
+const isPayable = (entry) => ['approved', 'settled'].includes(entry.status || 'approved');
+
+// Entries in the recycle bin and work not yet approved don't count
+const counts = (entry) => !entry.deletedAt && isPayable(entry);
+
+// One day's rollup from its entries and a map of their accounts
+export function sumDay(date, entries, accounts) {
+  const rollup = { date, totals: emptyTotals(), accounts: {}, agents: {}, brokers: {}, clickers: {} };
+  entries.filter(counts).forEach((entry) => {
+    const account = accounts.get(entry.accountId) || {};
+    addEntry(rollup.totals, entry);
+    addTo(rollup.accounts, entry.accountId, entry);
+    addTo(rollup.agents, account.agentId, entry);
+    const clicker = addTo(rollup.clickers, entry.playerUid, entry);
+    // Entries saved before splits were stored have no clickerAmount; the
+    // dashboard works theirs out from the clicker's terms
+    if (clicker && typeof entry.clickerAmount !== 'number') {
+      clicker.unsplitEntryIds = [...(clicker.unsplitEntryIds || []), entry.id];
+    }
+    // Brokers also get what they earned, since one broker can hold more than
+    // one role on an account
+    brokerEarnings(account, entry).forEach((earned, brokerId) => {
+      const totals = addTo(rollup.brokers, brokerId, entry);
+      totals.earned = (totals.earned || 0) + earned;
+    });
+  });
+  return rollup;
+}
+
+// Rebuilds one day from its entries
+export async function rollupDay(db, date) {
+  const ref = db.collection('rollups').doc(date);
+  const entries = (await db.collection('entries').where('date', '==', date).get())
+    .docs.map((entry) => ({ id: entry.id, ...entry.data() }))
+    .filter(counts);
+  if (entries.length === 0) {
+    await ref.delete();
+    return;
+  }
+
+  const accountIds = Array.from(new Set(entries.map((entry) => entry.accountId).filter(Boolean)));
+  const accountDocs = accountIds.length > 0
+    ? await db.getAll(...accountIds.map((id) => db.collection('accounts').doc(id)))
+    : [];
+  const accounts = new Map(accountDocs.filter((account) => account.exists).map((account) => [account.id, account.data()]));
+
+  await ref.set({ ...sumDay(date, entries, accounts), updatedAt: new Date() });
+}
+
+// Brings the rollups up to date with the audit records since the cursor, up
+// to AUDIT_PAGES_PER_RUN pages of them. Returns the days that were rebuilt,
+// or null when there is no cursor because the rollups were never built.
+export async function catchUpRollups(db, FieldPath) {
+  const cursorRef = db.collection('rollupState').doc('cursor');
+  const cursor = await cursorRef.get();
+  if (!cursor.exists) return null;
+
+  let { at, docId = null } = cursor.data();
+  const log = db.collection('auditLog').orderBy('at').orderBy(FieldPath.documentId());
+  const dates = new Set();
+  const entryIds = new Set();
+  const accountIds = new Set();
+  for (let pages = 0; pages < AUDIT_PAGES_PER_RUN; pages += 1) {
+    // Going over a record again only rebuilds its day again, so a cursor
+    // without a document id starts at its time rather than after it
+    const page = await (docId ? log.startAfter(at, docId) : log.startAt(at)).limit(AUDIT_PAGE_SIZE).get();
+    page.docs.forEach((record) => {
+      const { collection, docId, before, after } = record.data();
+      if (collection === 'entries') {
+        // An update only records the fields it changed, so the entry's date
+        // may have to be read from the entry itself
+        [before?.date, after?.date].filter(Boolean).forEach((date) => dates.add(date));
+        entryIds.add(docId);
+      } else if (collection === 'accounts' && ACCOUNT_LINKS.some((field) => (before && field in before) || (after && field in after))) {
+        accountIds.add(docId);
+      }
+    });
+    if (page.docs.length > 0) {
+      const last = page.docs[page.docs.length - 1];
+      at = last.data().at;
+      docId = last.id;
+    }
+    if (page.docs.length < AUDIT_PAGE_SIZE) break;
+  }
+
+  if (entryIds.size > 0) {
+    const current = await db.getAll(...Array.from(entryIds).map((id) => db.collection('entries').doc(id)));
+    current.filter((entry) => entry.exists && entry.data().date).forEach((entry) => dates.add(entry.data().date));
+  }
+  (await chunkedIn(db, 'entries', 'accountId', Array.from(accountIds)))
+    .forEach((entry) => entry.data().date && dates.add(entry.data().date));
+
+  for (const date of dates) {
+    await rollupDay(db, date);
+  }
+  await cursorRef.set({ at, docId, updatedAt: new Date() });
+  return Array.from(dates);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { sumDay } from './rollups.js';
+import { partyBalances } from '../../src/lib/settlements';
+import { buildStatement } from '../../src/lib/statements';
+
+const DATE = '2025-01-15';
+
+const accounts = [
+  { id: 'a1', agentId: 'holder1', brokeredById: 'broker1', fundedById: 'broker1', referredById: 'broker2' },
+  { id: 'a2', agentId: 'holder1', brokerId: 'broker2' }
+];
+
+const amounts = (clickerAmount, accHolderAmount, brokerAmount, funderWayAmount = 0, referralAmount = 0) => ({
+  profitLoss: clickerAmount + accHolderAmount + brokerAmount + funderWayAmount + referralAmount,
+  clickerAmount,
+  accHolderAmount,
+  brokerAmount,
+  funderWayAmount,
+  referralAmount
+});
+
+const entries = [
+  { id: 'approved', date: DATE, accountId: 'a1', playerUid: 'c1', status: 'approved', ...amounts(100, 50, 20, 10, 5) },
+  { id: 'legacy', date: DATE, accountId: 'a2', playerUid: 'c2', ...amounts(80, 40, 15) },
+  { id: 'settled', date: DATE, accountId: 'a1', playerUid: 'c2', status: 'settled', ...amounts(60, 30, 12, 6, 3) },
+  { id: 'draft', date: DATE, accountId: 'a1', playerUid: 'c1', status: 'draft', ...amounts(1000, 500, 200, 100, 50) },
+  { id: 'submitted', date: DATE, accountId: 'a2', playerUid: 'c2', status: 'submitted', ...amounts(900, 400, 150) },
+  { id: 'deleted', date: DATE, accountId: 'a1', playerUid: 'c1', status: 'approved', deletedAt: new Date(), ...amounts(700, 300, 100) }
+];
+
+const rollup = sumDay(DATE, entries, new Map(accounts.map(({ id, ...account }) => [id, account])));
+
+// What the rollup says each party earned that day
+const rolledUp = (partyType, partyId) => {
+  if (partyType === 'clicker') return rollup.clickers[partyId]?.clickerAmount;
+  if (partyType === 'accHolder') return rollup.agents[partyId]?.accHolderAmount;
+  return rollup.brokers[partyId]?.earned;
+};
+
+describe('rollups and the ledger', () => {
+  const balances = partyBalances(entries, accounts, []);
+
+  it('count only approved and settled entries outside the recycle bin', () => {
+    expect(rollup.totals.entries).toBe(3);
+    expect(rollup.totals.clickerAmount).toBe(240);
+    expect(new Set(balances.flatMap((balance) => balance.entryIds))).toEqual(new Set(['approved', 'legacy', 'settled']));
+  });
+
+  it.each([
+    ['clicker', 'c1', 100],
+    ['clicker', 'c2', 140],
+    ['accHolder', 'holder1', 120],
+    ['broker', 'broker1', 48],
+    ['broker', 'broker2', 23]
+  ])('agree on what %s %s is owed', (partyType, partyId, owed) => {
+    const balance = balances.find((b) => b.partyType === partyType && b.partyId === partyId);
+    const statement = buildStatement(partyType, partyId, partyId, DATE, DATE, entries, accounts, []);
+    expect(balance?.owed).toBe(owed);
+    expect(statement.totalOwed).toBe(owed);
+    expect(rolledUp(partyType, partyId)).toBe(owed);
+  });
+
+  it('agree in total', () => {
+    const owed = balances.reduce((sum, balance) => sum + balance.owed, 0);
+    const { clickerAmount, accHolderAmount, brokerAmount, funderWayAmount, referralAmount } = rollup.totals;
+    expect(clickerAmount + accHolderAmount + brokerAmount + funderWayAmount + referralAmount).toBe(owed);
+  });
+});
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+
+// Only these PPH fields are secret. The username is deliberately not vaulted:
+// it stays in plaintext on `accounts/*` as the account's display name, which
+// every admin role and the assigned clicker can read (see firestore.rules).
+// Without the password it doesn't open the site.
+export const VAULT_FIELDS = ['password', 'websiteURL', 'ip'];
+
+function vaultKey() {
+  const key = Buffer.from(process.env.VAULT_KEY || '', 'base64');
+  if (key.length !== 32) {
+    throw new Error('VAULT_KEY must be a base64 encoded 32 byte key');
+  }
+  return key;
+}
+
+export function pickCredentials(source) {
+  const credentials = {};
+  VAULT_FIELDS.forEach((field) => {
+    if (typeof source?.[field] === 'string' && source[field].trim()) {
+      credentials[field] = source[field].trim();
+    }
+  });
+  return credentials;
+}
+
+export function encryptCredentials(credentials) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', vaultKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+  return {
+    algorithm: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  };
+}
+
+export function decryptCredentials(record) {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', vaultKey(), Buffer.from(record.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(record.tag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(record.ciphertext, 'base64')),
+    decipher.final()
+  ]);
+  return JSON.parse(plaintext.toString('utf8'));
+}
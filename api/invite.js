@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { getAdmin } from './_lib/admin.js';
+import { writeAudit } from './_lib/audit.js';
+import { hasPermission } from './_lib/permissions.js';
+
+// Invite redemption for pending clickers and portal logins for account holders
+// and brokers. Invites are stored under the SHA-256
+// of their code, so a code is only ever checked here, never read back.
+//
+// GET  ?code=...                     name, email and expiry of a usable invite
+// POST ?code=...  { password }       creates the login, activates the clicker or links the
+//                                    holder or broker record, uses up the invite
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Portal invites carry a role and the id of the record the login belongs to
+const PORTAL_PARTIES = {
+  agent: { collection: 'agents', idField: 'agentId' },
+  broker: { collection: 'brokers', idField: 'brokerId' }
+};
+
+const hashCode = (code) => crypto.createHash('sha256').update(code).digest('hex');
+
+function usableInvite(snapshot) {
+  if (!snapshot.exists) return { error: 'This invite link is not valid', status: 404 };
+  const invite = snapshot.data();
+  if (invite.usedAt) return { error: 'This invite link has already been used', status: 410 };
+  if (invite.expiresAt.toDate() < new Date()) return { error: 'This invite link has expired', status: 410 };
+  return { invite };
+}
+
+// A clicker invite is only good while its pending clicker is; one moved to the
+// recycle bin (or removed for good) can't be redeemed
+async function pendingPlayer(db, invite) {
+  const player = await db.collection('players').doc(invite.playerId).get();
+  if (!player.exists || player.data().deletedAt) {
+    return { error: 'This invite link is no longer valid', status: 410 };
+  }
+  return { player };
+}
+
+export default async function handler(req, res) {
+  const code = typeof req.query.code === 'string' ? req.query.code : '';
+  if (!code) {
+    res.status(400).json({ error: 'Invite code is required' });
+    return;
+  }
+
+  const admin = getAdmin();
+  const db = admin.firestore();
+  const inviteRef = db.collection('invites').doc(hashCode(code));
+
+  try {
+    if (req.method === 'GET') {
+      const { invite, error, status } = usableInvite(await inviteRef.get());
+      if (error) {
+        res.status(status).json({ error });
+        return;
+      }
+      const pending = invite.role === undefined ? await pendingPlayer(db, invite) : {};
+      if (pending.error) {
+        res.status(pending.status).json({ error: pending.error });
+        return;
+      }
+      res.status(200).json({ name: invite.name, email: invite.email, expiresAt: invite.expiresAt.toDate().toISOString() });
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.status(405).json({ error: 'Method not allowed' });
+      return;
+    }
+
+    const password = (req.body || {}).password;
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      return;
+    }
+
+    // Claim the invite first so two requests with the same code cannot both succeed
+    const claimed = await db.runTransaction(async (tx) => {
+      const result = usableInvite(await tx.get(inviteRef));
+      if (result.invite) tx.update(inviteRef, { usedAt: admin.firestore.FieldValue.serverTimestamp() });
+      return result;
+    });
+    if (claimed.error) {
+      res.status(claimed.status).json({ error: claimed.error });
+      return;
+    }
+
+    const invite = claimed.invite;
+
+    // A portal login sees its holder's or broker's data, so the invite only
+    // counts if whoever issued it may still manage accounts
+    if (invite.role !== undefined) {
+      const issuer = invite.createdBy ? await db.collection('users').doc(invite.createdBy).get() : null;
+      if (!PORTAL_PARTIES[invite.role] || !issuer?.exists || !hasPermission(issuer.data(), 'manageAccounts')) {
+        await inviteRef.update({ usedAt: null });
+        res.status(403).json({ error: 'This invite link is not valid' });
+        return;
+      }
+    }
+
+    let player = null;
+    if (invite.role === undefined) {
+      const pending = await pendingPlayer(db, invite);
+      if (pending.error) {
+        await inviteRef.update({ usedAt: null });
+        res.status(pending.status).json({ error: pending.error });
+        return;
+      }
+      player = pending.player;
+    }
+
+    let user;
+    try {
+      user = await admin.auth().createUser({ email: invite.email, password, displayName: invite.name });
+    } catch (error) {
+      await inviteRef.update({ usedAt: null });
+      const message = error.code === 'auth/email-already-exists'
+        ? 'A login already exists for this email. Sign in instead.'
+        : 'Could not create the login';
+      res.status(400).json({ error: message });
+      return;
+    }
+
+    // The new login is the actor for everything its invite sets up
+    const actor = { uid: user.uid, email: invite.email };
+    const userRef = db.collection('users').doc(user.uid);
+    const portal = PORTAL_PARTIES[invite.role];
+    if (portal) {
+      const userData = {
+        uid: user.uid,
+        email: invite.email,
+        name: invite.name,
+        role: invite.role,
+        [portal.idField]: invite[portal.idField],
+        createdAt: new Date(),
+        activatedAt: new Date()
+      };
+      await userRef.set(userData);
+      await writeAudit(actor, 'create', userRef, null, userData);
+      const partyRef = db.collection(portal.collection).doc(invite[portal.idField]);
+      const link = { portalUid: user.uid, portalInviteExpiresAt: null, updatedAt: new Date() };
+      await partyRef.update(link);
+      await writeAudit(actor, 'update', partyRef, null, link);
+      await inviteRef.update({ usedBy: user.uid });
+      res.status(200).json({ email: invite.email });
+      return;
+    }
+
+    const playerRef = player.ref;
+    const playerData = player.data();
+    const userData = {
+      uid: user.uid,
+      email: invite.email,
+      name: playerData.name || invite.name,
+      role: 'player',
+      percentage: typeof playerData.percentage === 'number' ? playerData.percentage : 0,
+      createdAt: new Date(),
+      activatedAt: new Date()
+    };
+    await userRef.set(userData);
+    await writeAudit(actor, 'create', userRef, null, userData);
+    await inviteRef.update({ usedBy: user.uid });
+    await playerRef.delete();
+    await writeAudit(actor, 'delete', playerRef, playerData, null);
+
+    res.status(200).json({ email: invite.email });
+  } catch (error) {
+    console.error('Error handling invite request:', error);
+    res.status(500).json({ error: 'Invite request failed' });
+  }
+}
@@ -0,0 +1,130 @@
+import { getAdmin, getCaller } from './_lib/admin.js';
+import { chunkedIn } from './_lib/firestore.js';
+
+// Read-only data for the account holder and broker portals. Neither can query
+// Firestore themselves (entries carry no party ids for rules to check), so
+// this collects their accounts, entries and payments and leaves out
+// credentials and every other party's share.
+//
+// GET   the signed-in holder's or broker's record, accounts, entries and payments
+
+const ACCOUNT_FIELDS = ['type', 'username', 'name', 'status', 'startDate', 'depositAmount', 'sharePercentage', 'promoAmount'];
+const ENTRY_FIELDS = ['accountId', 'date', 'startingBalance', 'endingBalance', 'refillAmount', 'withdrawal', 'profitLoss'];
+const SETTLEMENT_FIELDS = ['partyType', 'partyId', 'amount', 'method', 'date', 'entryIds', 'recordedByName'];
+
+// How each portal role finds its accounts and which entry amounts are its
+// own. `earnings` mirrors entryObligations in src/lib/settlements.ts: it
+// returns the account links that point at this party, keyed by the entry
+// amount each one earns.
+const PORTALS = {
+  agent: {
+    collection: 'agents',
+    idField: 'agentId',
+    partyType: 'accHolder',
+    accountFields: ['agentId'],
+    earnings: (account, id) => ({
+      accHolderAmount: account.agentId === id ? { agentId: id } : null
+    })
+  },
+  broker: {
+    collection: 'brokers',
+    idField: 'brokerId',
+    partyType: 'broker',
+    accountFields: ['brokerId', 'brokeredById', 'fundedById', 'referredById'],
+    earnings: (account, id) => ({
+      brokerAmount: (account.brokeredById || account.brokerId) === id ? { brokeredById: id } : null,
+      funderWayAmount: account.fundedById === id ? { fundedById: id } : null,
+      referralAmount: account.referredById === id ? { referredById: id } : null
+    })
+  }
+};
+
+// Records in the recycle bin (src/lib/recycle.ts) are left out of the portal
+const notDeleted = (snapshot) => !snapshot.data().deletedAt;
+
+// Only approved work is owed to anyone (src/lib/workflow.ts); entries from
+// before the workflow have no status and count as approved
+const isPayable = (snapshot) => ['approved', 'settled'].includes(snapshot.data().status || 'approved');
+
+const pick = (id, data, fields) => {
+  const picked = { id };
+  fields.forEach((field) => {
+    if (data[field] !== undefined) picked[field] = data[field];
+  });
+  return picked;
+};
+
+async function accountsLinkedTo(db, fields, id) {
+  const snapshots = await Promise.all(
+    fields.map((field) => db.collection('accounts').where(field, '==', id).get())
+  );
+  const byId = new Map();
+  snapshots.forEach((snapshot) =>
+    snapshot.docs.filter(notDeleted).forEach((account) => byId.set(account.id, account.data()))
+  );
+  return byId;
+}
+
+async function entriesForAccounts(db, accountIds) {
+  return (await chunkedIn(db, 'entries', 'accountId', accountIds)).filter(notDeleted).filter(isPayable);
+}
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const caller = await getCaller(req);
+  if (!caller) {
+    res.status(401).json({ error: 'Sign in required' });
+    return;
+  }
+  const portal = PORTALS[caller.role];
+  const partyId = portal && caller[portal.idField];
+  if (!partyId) {
+    res.status(403).json({ error: 'Not allowed' });
+    return;
+  }
+
+  const db = getAdmin().firestore();
+  try {
+    const holder = await db.collection(portal.collection).doc(partyId).get();
+    if (!holder.exists || holder.data().deletedAt) {
+      res.status(404).json({ error: 'Your record was not found' });
+      return;
+    }
+
+    const accountData = await accountsLinkedTo(db, portal.accountFields, partyId);
+    const earnings = new Map();
+    const accounts = [];
+    accountData.forEach((data, id) => {
+      const earned = portal.earnings(data, partyId);
+      earnings.set(id, Object.keys(earned).filter((amount) => earned[amount]));
+      // Only the links that pay this party are passed on, so the ledger
+      // helpers in the browser attribute nothing to anyone else
+      accounts.push(Object.assign(pick(id, data, ACCOUNT_FIELDS), ...Object.values(earned).filter(Boolean)));
+    });
+
+    const entryDocs = await entriesForAccounts(db, accounts.map((account) => account.id));
+    const entries = entryDocs.map((entry) => {
+      const data = entry.data();
+      return pick(entry.id, data, ENTRY_FIELDS.concat(earnings.get(data.accountId) || []));
+    });
+
+    const settlementsSnapshot = await db.collection('settlements')
+      .where('partyType', '==', portal.partyType)
+      .where('partyId', '==', partyId)
+      .get();
+
+    res.status(200).json({
+      holder: { id: holder.id, name: holder.data().name || '' },
+      accounts,
+      entries,
+      settlements: settlementsSnapshot.docs.map((settlement) => pick(settlement.id, settlement.data(), SETTLEMENT_FIELDS))
+    });
+  } catch (error) {
+    console.error('Error loading portal:', error);
+    res.status(500).json({ error: 'Could not load your accounts' });
+  }
+}
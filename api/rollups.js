@@ -0,0 +1,49 @@
+import { getAdmin, getCaller } from './_lib/admin.js';
+import { catchUpRollups } from './_lib/rollups.js';
+
+// Keeps the dashboard rollups (see _lib/rollups.js) in step with entries.
+// Vercel Cron calls this every few minutes (vercel.json), sending CRON_SECRET
+// as a bearer token, so writes are caught up even when no browser asks.
+// Browsers also call it shortly after they write an entry or change who an
+// account pays, so their own changes show sooner. Catching up is safe to
+// repeat, so anyone who can write entries may run it.
+//
+// GET    (cron) catches up; returns { dates }
+// POST   catches up; returns { dates }
+//
+// Before the first catch-up the rollups must be built with
+// `npm run rebuild:rollups`; until then this answers 409.
+export default async function handler(req, res) {
+  if (req.method === 'GET') {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+      res.status(401).json({ error: 'Not allowed' });
+      return;
+    }
+  } else if (req.method === 'POST') {
+    const caller = await getCaller(req);
+    if (!caller) {
+      res.status(401).json({ error: 'Sign in required' });
+      return;
+    }
+    if (caller.role !== 'admin' && caller.role !== 'player') {
+      res.status(403).json({ error: 'Not allowed' });
+      return;
+    }
+  } else {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const dates = await catchUpRollups(getAdmin().firestore(), getAdmin().firestore.FieldPath);
+    if (!dates) {
+      res.status(409).json({ error: 'Rollups have not been built yet; run npm run rebuild:rollups' });
+      return;
+    }
+    res.status(200).json({ dates });
+  } catch (error) {
+    console.error('Error updating rollups:', error);
+    res.status(500).json({ error: 'Could not update rollups' });
+  }
+}
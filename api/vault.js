@@ -0,0 +1,115 @@
+import { getAdmin, getCaller } from './_lib/admin.js';
+import { hasPermission } from './_lib/permissions.js';
+import { writeAudit } from './_lib/audit.js';
+import { decryptCredentials, encryptCredentials, pickCredentials } from './_lib/vault-crypto.js';
+
+// PPH credential vault. Ciphertext lives in `vault/{accountId}`, which clients
+// cannot read; the key only exists in this function's environment. Every
+// store, reveal and removal is written to `vaultAccessLog`.
+//
+// POST { action: 'store', accountId, credentials }  manageAccounts; merges over what is stored
+// POST { action: 'reveal', accountId }               viewCredentials, or the clicker assigned to the account
+// POST { action: 'remove', accountId }               manageAccounts
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const caller = await getCaller(req);
+  if (!caller) {
+    res.status(401).json({ error: 'Sign in required' });
+    return;
+  }
+
+  const { action, accountId, credentials } = req.body || {};
+  if (typeof accountId !== 'string' || !accountId) {
+    res.status(400).json({ error: 'accountId is required' });
+    return;
+  }
+
+  const db = getAdmin().firestore();
+  const FieldValue = getAdmin().firestore.FieldValue;
+  const accountSnap = await db.collection('accounts').doc(accountId).get();
+  if (!accountSnap.exists) {
+    res.status(404).json({ error: 'Account not found' });
+    return;
+  }
+
+  const isAssignedClicker = accountSnap.data().assignedToPlayerUid === caller.uid;
+  const allowed = action === 'reveal'
+    ? hasPermission(caller, 'viewCredentials') || isAssignedClicker
+    : hasPermission(caller, 'manageAccounts');
+  if (!allowed) {
+    res.status(403).json({ error: 'Not allowed' });
+    return;
+  }
+
+  const vaultRef = db.collection('vault').doc(accountId);
+  const log = () => db.collection('vaultAccessLog').add({
+    accountId,
+    action,
+    uid: caller.uid,
+    name: caller.name,
+    role: caller.role,
+    at: FieldValue.serverTimestamp()
+  });
+
+  try {
+    switch (action) {
+      case 'store': {
+        const existing = await vaultRef.get();
+        const merged = {
+          ...(existing.exists ? decryptCredentials(existing.data()) : {}),
+          ...pickCredentials(credentials)
+        };
+        await vaultRef.set({
+          ...encryptCredentials(merged),
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: caller.uid
+        });
+        const accountRef = db.collection('accounts').doc(accountId);
+        const hadCredentials = (await accountRef.get()).get('hasVaultCredentials') || false;
+        await accountRef.update({
+          hasVaultCredentials: true,
+          password: FieldValue.delete(),
+          websiteURL: FieldValue.delete(),
+          ip: FieldValue.delete()
+        });
+        // The audit trail only notes that credentials changed, never what they are
+        await writeAudit(caller, 'update', accountRef, { hasVaultCredentials: hadCredentials }, { hasVaultCredentials: true });
+        await log();
+        res.status(200).json({ ok: true });
+        return;
+      }
+      case 'reveal': {
+        const stored = await vaultRef.get();
+        if (!stored.exists) {
+          res.status(404).json({ error: 'No credentials stored for this account' });
+          return;
+        }
+        const revealed = decryptCredentials(stored.data());
+        await log();
+        res.status(200).json({ credentials: revealed });
+        return;
+      }
+      case 'remove': {
+        await vaultRef.delete();
+        const accountRef = db.collection('accounts').doc(accountId);
+        const account = await accountRef.get();
+        if (account.exists) {
+          await accountRef.update({ hasVaultCredentials: false });
+          await writeAudit(caller, 'update', accountRef, { hasVaultCredentials: account.get('hasVaultCredentials') || false }, { hasVaultCredentials: false });
+        }
+        await log();
+        res.status(200).json({ ok: true });
+        return;
+      }
+      default:
+        res.status(400).json({ error: `Unknown action: ${action}` });
+    }
+  } catch (error) {
+    console.error('Error handling vault request:', error);
+    res.status(500).json({ error: 'Vault request failed' });
+  }
+}
@@ -3,6 +3,9 @@
   1) Place your Firebase Admin service account json at ./serviceAccountKey.json
      -or- set GOOGLE_APPLICATION_CREDENTIALS to its absolute path.
   2) Run: npm run seed:admins
+     Admins are seeded as owners. Give any of them a narrower role with
+     name=role arguments, e.g. npm run seed:admins -- cs1=bookkeeper cs2=auditor
+     (roles: owner, bookkeeper, assignmentManager, auditor; see src/lib/permissions.ts)
 */
 
 const fs = require('fs');
@@ -30,6 +33,14 @@ async function main() {
 
   const admins = ['cs1', 'cs2', 'cs3', 'vjack'];
   const password = '11111111';
+  const adminRoles = ['owner', 'bookkeeper', 'assignmentManager', 'auditor'];
+  const roleOverrides = Object.fromEntries(process.argv.slice(2).map((arg) => arg.split('=')));
+  for (const [name, adminRole] of Object.entries(roleOverrides)) {
+    if (!admins.includes(name) || !adminRoles.includes(adminRole)) {
+      console.error(`Unknown admin or role: ${name}=${adminRole}`);
+      process.exit(1);
+    }
+  }
 
   for (const name of admins) {
     const email = `${name}@gmail.com`;
@@ -53,10 +64,11 @@ async function main() {
         uid: userRecord.uid,
         email,
         role: 'admin',
+        adminRole: roleOverrides[name] || 'owner',
         name,
         createdAt: admin.firestore.FieldValue.serverTimestamp()
       }, { merge: true });
-      console.log(`Upserted Firestore user doc for ${email} with role=admin`);
+      console.log(`Upserted Firestore user doc for ${email} with role=admin, adminRole=${roleOverrides[name] || 'owner'}`);
     } catch (err) {
       console.error(`Failed for ${email}:`, err && err.message ? err.message : err);
     }
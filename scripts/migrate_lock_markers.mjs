@@ -0,0 +1,53 @@
+/*
+  Writes the `lockedDates/{date}` markers for period locks made before
+  firestore.rules checked them. New locks write their own (src/lib/workflow.ts).
+  Usage:
+  1) Place your Firebase Admin service account json at ./serviceAccountKey.json
+     -or- set GOOGLE_APPLICATION_CREDENTIALS to its absolute path.
+  2) Run: npm run migrate:locks
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import admin from 'firebase-admin';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function initAdmin() {
+  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || path.resolve(__dirname, '../serviceAccountKey.json');
+  if (!fs.existsSync(credentialsPath)) {
+    console.error('Service account JSON not found. Set GOOGLE_APPLICATION_CREDENTIALS or add serviceAccountKey.json.');
+    process.exit(1);
+  }
+  const serviceAccount = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+  if (admin.apps.length === 0) {
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+  }
+}
+
+async function main() {
+  initAdmin();
+  const db = admin.firestore();
+
+  const locks = await db.collection('periodLocks').get();
+  let written = 0;
+  for (const lock of locks.docs) {
+    const { from, to } = lock.data();
+    const days = eachDayOfInterval({ start: parseISO(from), end: parseISO(to) }).map((day) => format(day, 'yyyy-MM-dd'));
+    const writer = db.bulkWriter();
+    days.forEach((date) => writer.set(db.collection('lockedDates').doc(date), { lockId: lock.id }));
+    await writer.close();
+    written += days.length;
+    console.log(`Marked ${days.length} days for lock ${lock.id} (${from} to ${to})`);
+  }
+  console.log(`Done. ${written} locked days marked.`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
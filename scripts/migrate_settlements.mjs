@@ -0,0 +1,136 @@
+/*
+  Turns the Yes/No "settled" flags entries carried before the settlements
+  ledger (`clickerSettled`, `accHolderSettled`, `brokerSettled`) into
+  settlement records, so work that was already paid stops showing as owed.
+  Each flagged party gets one payment for what the entry owes it, dated and
+  described by the entry's legacy `payments` when it has any. Entries that
+  end up paid in full move from approved to settled. Safe to run twice: the
+  records have fixed ids.
+  `companySettled` has no ledger party and is ignored. Legacy payments on
+  entries with no flag set can't be tied to a party and are only listed.
+  Usage:
+  1) Place your Firebase Admin service account json at ./serviceAccountKey.json
+     -or- set GOOGLE_APPLICATION_CREDENTIALS to its absolute path.
+  2) Run: npm run migrate:settlements
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import admin from 'firebase-admin';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const SETTLED_FLAGS = {
+  clicker: 'clickerSettled',
+  accHolder: 'accHolderSettled',
+  broker: 'brokerSettled'
+};
+
+// Same list as SETTLEMENT_METHODS in src/lib/settlements.ts
+const METHODS = ['Cash', 'Zelle', 'Venmo', 'CashApp', 'PayPal', 'Crypto', 'Bank Transfer', 'Other'];
+
+function initAdmin() {
+  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || path.resolve(__dirname, '../serviceAccountKey.json');
+  if (!fs.existsSync(credentialsPath)) {
+    console.error('Service account JSON not found. Set GOOGLE_APPLICATION_CREDENTIALS or add serviceAccountKey.json.');
+    process.exit(1);
+  }
+  const serviceAccount = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+  if (admin.apps.length === 0) {
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+  }
+}
+
+// What an entry owes each party, as entryObligations in src/lib/settlements.ts
+// works it out. The legacy broker flag covered the Broker Way party.
+function obligations(entry, account) {
+  const owed = [];
+  const add = (partyType, partyId, amount, flagged) => {
+    if (!partyId || !amount) return;
+    const existing = owed.find((o) => o.partyType === partyType && o.partyId === partyId);
+    if (existing) {
+      existing.amount += amount;
+      existing.flagged = existing.flagged || flagged;
+    } else {
+      owed.push({ partyType, partyId, amount, flagged });
+    }
+  };
+  const flagged = (partyType) => entry[SETTLED_FLAGS[partyType]] === 'Yes';
+
+  add('clicker', entry.playerUid, entry.clickerAmount, flagged('clicker'));
+  if (account) {
+    add('accHolder', account.agentId, entry.accHolderAmount, flagged('accHolder'));
+    add('broker', account.brokeredById || account.brokerId, entry.brokerAmount, flagged('broker'));
+    add('broker', account.fundedById, entry.funderWayAmount, false);
+    add('broker', account.referredById, entry.referralAmount, false);
+  }
+  return owed;
+}
+
+async function main() {
+  initAdmin();
+  const db = admin.firestore();
+
+  const accounts = new Map((await db.collection('accounts').get()).docs.map((account) => [account.id, account.data()]));
+  const paidByEntry = new Map();
+  (await db.collection('settlements').get()).docs.forEach((settlement) => {
+    const { partyType, partyId, entryIds = [] } = settlement.data();
+    entryIds.forEach((entryId) => {
+      if (!paidByEntry.has(entryId)) paidByEntry.set(entryId, new Set());
+      paidByEntry.get(entryId).add(`${partyType}:${partyId}`);
+    });
+  });
+
+  const entries = (await db.collection('entries').get()).docs.filter((entry) => !entry.data().deletedAt);
+  const writer = db.bulkWriter();
+  let recorded = 0;
+  let settled = 0;
+  const unmatched = [];
+
+  for (const entry of entries) {
+    const data = entry.data();
+    const owed = obligations(data, accounts.get(data.accountId));
+    const legacyPayments = Array.isArray(data.payments) ? data.payments : [];
+    const lastPayment = legacyPayments[legacyPayments.length - 1];
+    const paid = paidByEntry.get(entry.id) || new Set();
+
+    const toRecord = owed.filter((o) => o.flagged && !paid.has(`${o.partyType}:${o.partyId}`));
+    if (legacyPayments.length > 0 && !owed.some((o) => o.flagged)) unmatched.push(entry.id);
+    toRecord.forEach((o) => {
+      writer.set(db.collection('settlements').doc(`legacy-${entry.id}-${o.partyType}`), {
+        partyType: o.partyType,
+        partyId: o.partyId,
+        amount: o.amount,
+        method: METHODS.includes(lastPayment?.method) ? lastPayment.method : 'Other',
+        date: lastPayment?.date || data.settledDate || data.date,
+        entryIds: [entry.id],
+        recordedBy: 'migration',
+        recordedByName: 'Legacy settled flag',
+        notes: `Marked settled on the entry before the ledger${legacyPayments.length > 1 ? ` (${legacyPayments.length} payments)` : ''}`,
+        createdAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      paid.add(`${o.partyType}:${o.partyId}`);
+      recorded += 1;
+    });
+
+    const status = data.status || 'approved';
+    if (toRecord.length > 0 && status === 'approved' && owed.every((o) => paid.has(`${o.partyType}:${o.partyId}`))) {
+      writer.update(entry.ref, { status: 'settled' });
+      settled += 1;
+    }
+  }
+
+  await writer.close();
+  if (unmatched.length > 0) {
+    console.log(`Legacy payments with no settled party, check by hand: ${unmatched.join(', ')}`);
+  }
+  console.log(`Done. ${recorded} settlements recorded, ${settled} entries moved to settled.`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
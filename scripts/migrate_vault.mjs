@@ -0,0 +1,66 @@
+/*
+  Moves plaintext PPH credentials off `accounts` documents into the encrypted vault.
+  Usage:
+  1) Place your Firebase Admin service account json at ./serviceAccountKey.json
+     -or- set GOOGLE_APPLICATION_CREDENTIALS to its absolute path.
+  2) Set VAULT_KEY to the same base64 key the /api/vault function uses.
+  3) Run: npm run migrate:vault
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import admin from 'firebase-admin';
+import { encryptCredentials, decryptCredentials, pickCredentials } from '../api/_lib/vault-crypto.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function initAdmin() {
+  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || path.resolve(__dirname, '../serviceAccountKey.json');
+  if (!fs.existsSync(credentialsPath)) {
+    console.error('Service account JSON not found. Set GOOGLE_APPLICATION_CREDENTIALS or add serviceAccountKey.json.');
+    process.exit(1);
+  }
+  const serviceAccount = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+  if (admin.apps.length === 0) {
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+  }
+}
+
+async function main() {
+  initAdmin();
+  const db = admin.firestore();
+  const FieldValue = admin.firestore.FieldValue;
+
+  const snapshot = await db.collection('accounts').get();
+  let moved = 0;
+  for (const accountDoc of snapshot.docs) {
+    const credentials = pickCredentials(accountDoc.data());
+    if (Object.keys(credentials).length === 0) continue;
+
+    const vaultRef = db.collection('vault').doc(accountDoc.id);
+    const existing = await vaultRef.get();
+    const merged = { ...(existing.exists ? decryptCredentials(existing.data()) : {}), ...credentials };
+    await vaultRef.set({
+      ...encryptCredentials(merged),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy: 'migration'
+    });
+    await accountDoc.ref.update({
+      hasVaultCredentials: true,
+      password: FieldValue.delete(),
+      websiteURL: FieldValue.delete(),
+      ip: FieldValue.delete()
+    });
+    moved += 1;
+    console.log(`Moved credentials for account ${accountDoc.id}`);
+  }
+  console.log(`Done. ${moved} accounts moved to the vault.`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+/*
+  Builds the dashboard rollups (`rollups/{date}`) from scratch: every day that
+  has entries, or a rollup left from before, is rebuilt from that day's
+  entries. Run it once before /api/rollups starts catching up, and again
+  whenever the rollup rules change. Safe to run twice.
+  The catch-up cursor is taken before the rebuild starts, so anything written
+  while it runs is caught up afterwards.
+  Usage:
+  1) Place your Firebase Admin service account json at ./serviceAccountKey.json
+     -or- set GOOGLE_APPLICATION_CREDENTIALS to its absolute path.
+  2) Run: npm run rebuild:rollups
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import admin from 'firebase-admin';
+import { rollupDay } from '../api/_lib/rollups.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function initAdmin() {
+  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || path.resolve(__dirname, '../serviceAccountKey.json');
+  if (!fs.existsSync(credentialsPath)) {
+    console.error('Service account JSON not found. Set GOOGLE_APPLICATION_CREDENTIALS or add serviceAccountKey.json.');
+    process.exit(1);
+  }
+  const serviceAccount = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+  if (admin.apps.length === 0) {
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+  }
+}
+
+async function main() {
+  initAdmin();
+  const db = admin.firestore();
+  // With no document id the next catch-up starts at this time, so records
+  // stamped with it are read too
+  const startedAt = admin.firestore.Timestamp.now();
+
+  const [entries, existing] = await Promise.all([
+    db.collection('entries').select('date').get(),
+    db.collection('rollups').select().get()
+  ]);
+  const dates = Array.from(new Set([
+    ...entries.docs.map((entry) => entry.data().date).filter(Boolean),
+    ...existing.docs.map((rollup) => rollup.id)
+  ])).sort();
+
+  for (const [index, date] of dates.entries()) {
+    await rollupDay(db, date);
+    if ((index + 1) % 50 === 0) console.log(`${index + 1} of ${dates.length} days rebuilt`);
+  }
+
+  await db.collection('rollupState').doc('cursor').set({ at: startedAt, docId: null, updatedAt: new Date() });
+  console.log(`Done. ${dates.length} days rebuilt.`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
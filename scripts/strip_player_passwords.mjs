@@ -0,0 +1,51 @@
+/*
+  Removes the plaintext `password` left on pending clickers (`players/*`) from
+  before invite links. Issuing an invite now clears it (src/lib/invites.ts);
+  this clears the rest in one go.
+  Usage:
+  1) Place your Firebase Admin service account json at ./serviceAccountKey.json
+     -or- set GOOGLE_APPLICATION_CREDENTIALS to its absolute path.
+  2) Run: npm run migrate:player-passwords
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import admin from 'firebase-admin';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function initAdmin() {
+  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || path.resolve(__dirname, '../serviceAccountKey.json');
+  if (!fs.existsSync(credentialsPath)) {
+    console.error('Service account JSON not found. Set GOOGLE_APPLICATION_CREDENTIALS or add serviceAccountKey.json.');
+    process.exit(1);
+  }
+  const serviceAccount = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+  if (admin.apps.length === 0) {
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount)
+    });
+  }
+}
+
+async function main() {
+  initAdmin();
+  const db = admin.firestore();
+  const FieldValue = admin.firestore.FieldValue;
+
+  const snapshot = await db.collection('players').get();
+  let stripped = 0;
+  for (const playerDoc of snapshot.docs) {
+    if (!('password' in playerDoc.data())) continue;
+    await playerDoc.ref.update({ password: FieldValue.delete(), updatedAt: new Date() });
+    stripped += 1;
+    console.log(`Removed the password from pending clicker ${playerDoc.id}`);
+  }
+  console.log(`Done. ${stripped} pending clickers cleaned.`);
+}
+
+main().then(() => process.exit(0)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -4,25 +4,42 @@ import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import Layout from './components/Layout';
 import Login from './pages/Login';
+import AcceptInvite from './pages/AcceptInvite';
 import { useAuth } from './contexts/AuthContext';
+import { homePath } from './lib/permissions';
 // Admin Pages
 import AdminDashboard from './pages/admin/Dashboard';
 import Agents from './pages/admin/Agents';
 import Brokers from './pages/admin/Broker';
 import Accounts from './pages/admin/Accounts';
+import AccountDetail from './pages/admin/AccountDetail';
 import Players from './pages/admin/Players';
 import Assignments from './pages/admin/Assignments';
+import Settlements from './pages/admin/Settlements';
+import Review from './pages/admin/Review';
+import Import from './pages/admin/Import';
+import Imports from './pages/admin/Imports';
+import Staff from './pages/admin/Staff';
+import Activity from './pages/admin/Activity';
+import RecycleBin from './pages/admin/RecycleBin';
 
 // Player Pages
 import PlayerDashboard from './pages/player/Dashboard';
 import AccountEntry from './pages/player/AccountEntry';
 
+// Account Holder Pages
+import AgentDashboard from './pages/agent/Dashboard';
+
+// Broker Pages
+import BrokerDashboard from './pages/broker/Dashboard';
+
 function App() {
   return (
     <AuthProvider>
       <Router>
         <Routes>
           <Route path="/login" element={<Login />} />
+          <Route path="/invite/:code" element={<AcceptInvite />} />
           <Route
             path="/"
             element={
@@ -36,7 +53,7 @@ function App() {
           <Route
             path="/admin/dashboard"
             element={
-              <ProtectedRoute requiredRole="admin">
+              <ProtectedRoute requiredRole="admin" requiredPermission="viewReports">
                 <Layout>
                   <AdminDashboard />
                 </Layout>
@@ -73,6 +90,16 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/admin/accounts/:id"
+            element={
+              <ProtectedRoute requiredRole="admin">
+                <Layout>
+                  <AccountDetail />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/admin/players"
             element={
@@ -93,6 +120,76 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/admin/settlements"
+            element={
+              <ProtectedRoute requiredRole="admin" requiredPermission="viewReports">
+                <Layout>
+                  <Settlements />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/review"
+            element={
+              <ProtectedRoute requiredRole="admin" requiredPermission="approveEntries">
+                <Layout>
+                  <Review />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/import"
+            element={
+              <ProtectedRoute requiredRole="admin" requiredPermission="runImports">
+                <Layout>
+                  <Import />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/imports"
+            element={
+              <ProtectedRoute requiredRole="admin" requiredPermission="viewReports">
+                <Layout>
+                  <Imports />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/staff"
+            element={
+              <ProtectedRoute requiredRole="admin" requiredPermission="manageStaff">
+                <Layout>
+                  <Staff />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/activity"
+            element={
+              <ProtectedRoute requiredRole="admin" requiredPermission="viewReports">
+                <Layout>
+                  <Activity />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/admin/recycle-bin"
+            element={
+              <ProtectedRoute requiredRole="admin">
+                <Layout>
+                  <RecycleBin />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           
           {/* Player Routes */}
           <Route
@@ -115,6 +212,30 @@ function App() {
               </ProtectedRoute>
             }
           />
+
+          {/* Account Holder Routes */}
+          <Route
+            path="/agent/dashboard"
+            element={
+              <ProtectedRoute requiredRole="agent">
+                <Layout>
+                  <AgentDashboard />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Broker Routes */}
+          <Route
+            path="/broker/dashboard"
+            element={
+              <ProtectedRoute requiredRole="broker">
+                <Layout>
+                  <BrokerDashboard />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </Router>
     </AuthProvider>
@@ -125,10 +246,8 @@ function App() {
 function RoleBasedRedirect() {
   const { userData } = useAuth();
   
-  if (userData?.role === 'admin') {
-    return <Navigate to="/admin/dashboard" replace />;
-  } else if (userData?.role === 'player') {
-    return <Navigate to="/player/dashboard" replace />;
+  if (userData) {
+    return <Navigate to={homePath(userData)} replace />;
   }
   
   // Fallback - shouldn't reach here if auth is working properly
@@ -0,0 +1,23 @@
+import { ACCOUNT_STATUS_LABELS, AccountStatus, WithAccountStatus, accountStatus } from '../lib/lifecycle';
+
+const STATUS_STYLES: Record<AccountStatus, string> = {
+  unused: 'bg-gray-500/20 text-gray-300',
+  assigned: 'bg-blue-500/20 text-blue-400',
+  active: 'bg-green-500/20 text-green-400',
+  paused: 'bg-yellow-500/20 text-yellow-400',
+  limited: 'bg-orange-500/20 text-orange-400',
+  closed: 'bg-red-500/20 text-red-400'
+};
+
+interface AccountStatusBadgeProps {
+  account: WithAccountStatus;
+}
+
+export default function AccountStatusBadge({ account }: AccountStatusBadgeProps) {
+  const status = accountStatus(account);
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {ACCOUNT_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { ACCOUNT_STATUS_LABELS, WithAccountStatus, statusHistory } from '../lib/lifecycle';
+import { loadUsers } from '../lib/repository';
+
+interface AccountStatusHistoryProps {
+  account: WithAccountStatus;
+}
+
+export default function AccountStatusHistory({ account }: AccountStatusHistoryProps) {
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const changes = statusHistory(account);
+
+  useEffect(() => {
+    loadUsers()
+      .then((users) => setNames(new Map(users.map((user) => [user.uid, user.name || user.email || user.uid]))))
+      .catch((error) => console.error('Error loading users:', error));
+  }, []);
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-400">No status changes have been recorded for this account yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {changes.map((change, i) => (
+        <li key={`${change.changedAt.getTime()}-${i}`} className="bg-white/5 rounded-lg p-3 border border-purple-500/10 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-white font-medium">
+              {change.from ? `${ACCOUNT_STATUS_LABELS[change.from]} → ` : ''}{ACCOUNT_STATUS_LABELS[change.to]}
+            </span>
+            <span className="text-gray-400 text-xs">{change.changedAt.toLocaleString()}</span>
+          </div>
+          <p className="text-gray-300 mt-1">{change.reason}</p>
+          {change.changedBy && (
+            <p className="text-gray-500 text-xs mt-1">by {names.get(change.changedBy) || change.changedBy}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { doc } from 'firebase/firestore';
+import { Activity, X } from 'lucide-react';
+import { db } from '../firebase';
+import { auditedUpdate } from '../lib/audit';
+import { ACCOUNT_STATUS_LABELS, ACCOUNT_TRANSITIONS, AccountStatus, WithAccountStatus, accountStatus, accountStatusUpdate } from '../lib/lifecycle';
+import AccountStatusBadge from './AccountStatusBadge';
+import AccountStatusHistory from './AccountStatusHistory';
+
+interface AccountStatusModalProps {
+  account: WithAccountStatus & { id: string };
+  title: string;
+  canChange: boolean;
+  onClose: () => void;
+}
+
+export default function AccountStatusModal({ account, title, canChange, onClose }: AccountStatusModalProps) {
+  const nextStatuses = ACCOUNT_TRANSITIONS[accountStatus(account)];
+  const [to, setTo] = useState<AccountStatus | ''>('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!to) return;
+    setSaving(true);
+    setError('');
+    try {
+      await auditedUpdate(doc(db, 'accounts', account.id), accountStatusUpdate(account, to, reason));
+      onClose();
+    } catch (error) {
+      console.error('Error changing account status:', error);
+      setError(error instanceof Error ? error.message : 'Could not change the status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white flex items-center">
+            <Activity className="w-6 h-6 mr-2 text-cyan-400" />
+            Status: {title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-6 flex items-center space-x-2 text-sm text-gray-400">
+          <span>Currently</span>
+          <AccountStatusBadge account={account} />
+        </div>
+
+        {canChange && nextStatuses.length > 0 && (
+          <form onSubmit={handleSubmit} className="space-y-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Change to</label>
+              <select
+                value={to}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTo(e.target.value as AccountStatus | '')}
+                className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                required
+              >
+                <option value="" className="bg-gray-800 text-white">Choose a status</option>
+                {nextStatuses.map((status) => (
+                  <option key={status} value={status} className="bg-gray-800 text-white">{ACCOUNT_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Reason</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                placeholder="e.g. Site limited the account to minimum stakes"
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving || !to || !reason.trim()}
+                className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-2 px-6 rounded-lg transition-all duration-200 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Change Status'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-300 mb-3">Status History</h3>
+        <AccountStatusHistory account={account} />
+      </div>
+    </div>
+  );
+}
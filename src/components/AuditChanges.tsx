@@ -0,0 +1,24 @@
+import { AuditRecord, auditChanges, formatAuditValue } from '../lib/audit';
+
+interface AuditChangesProps {
+  record: AuditRecord;
+}
+
+export default function AuditChanges({ record }: AuditChangesProps) {
+  const changes = auditChanges(record);
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No field changes recorded</p>;
+  }
+
+  return (
+    <ul className="text-xs space-y-1">
+      {changes.map(({ field, before, after }) => (
+        <li key={field} className="grid grid-cols-3 gap-2">
+          <span className="text-gray-400 truncate">{field}</span>
+          <span className="text-red-300/80 break-all">{record.action === 'create' ? '' : formatAuditValue(before)}</span>
+          <span className="text-green-300 break-all">{record.action === 'delete' ? '' : formatAuditValue(after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
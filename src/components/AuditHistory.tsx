@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react';
+import { History, X } from 'lucide-react';
+import { AUDIT_ACTION_LABELS, AuditRecord, fetchDocumentHistory } from '../lib/audit';
+import AuditChanges from './AuditChanges';
+
+interface AuditHistoryProps {
+  path: string;
+  title: string;
+  onClose: () => void;
+}
+
+export default function AuditHistory({ path, title, onClose }: AuditHistoryProps) {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDocumentHistory(path)
+      .then(setRecords)
+      .catch((error) => console.error('Error fetching history:', error))
+      .finally(() => setLoading(false));
+  }, [path]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white flex items-center">
+            <History className="w-6 h-6 mr-2 text-cyan-400" />
+            History: {title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        {loading ? (
+          <div className="text-center py-8 text-gray-400">Loading history...</div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-8 text-gray-400">No changes have been recorded for this yet.</div>
+        ) : (
+          <ol className="space-y-4">
+            {records.map((record) => (
+              <li key={record.id} className="bg-white/5 rounded-lg p-4 border border-purple-500/10">
+                <div className="flex items-center justify-between mb-2 text-sm">
+                  <span className="text-white font-medium">
+                    {AUDIT_ACTION_LABELS[record.action]} by {record.actorEmail || record.actorUid}
+                  </span>
+                  <span className="text-gray-400">{record.at.toLocaleString()}</span>
+                </div>
+                <AuditChanges record={record} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
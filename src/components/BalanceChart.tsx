@@ -0,0 +1,54 @@
+import { money } from '../lib/commission';
+
+interface BalancePoint {
+  date: string;
+  balance: number;
+}
+
+interface BalanceChartProps {
+  points: BalancePoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+// Ending balance per entry date, oldest on the left
+export default function BalanceChart({ points }: BalanceChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-400">No entries to chart yet.</p>;
+  }
+
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+  const balances = sorted.map((point) => point.balance);
+  const min = Math.min(0, ...balances);
+  const max = Math.max(...balances);
+  const range = max - min || 1;
+  const x = (i: number) => (sorted.length === 1 ? WIDTH / 2 : PADDING + (i * (WIDTH - 2 * PADDING)) / (sorted.length - 1));
+  const y = (balance: number) => HEIGHT - PADDING - ((balance - min) * (HEIGHT - 2 * PADDING)) / range;
+  const line = sorted.map((point, i) => `${x(i)},${y(point.balance)}`).join(' ');
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-400 mb-2">
+        <span>Low {money(Math.min(...balances))}</span>
+        <span>High {money(max)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+        {min < 0 && (
+          <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} className="stroke-gray-600" strokeDasharray="4 4" />
+        )}
+        <polyline points={line} fill="none" className="stroke-cyan-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {sorted.map((point, i) => (
+          <circle key={`${point.date}-${i}`} cx={x(i)} cy={y(point.balance)} r={3} className="fill-purple-400">
+            <title>{`${point.date}: ${money(point.balance)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-2">
+        <span>{sorted[0].date}</span>
+        <span>{sorted[sorted.length - 1].date}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Lock } from 'lucide-react';
+import { ENTRY_STATUS_LABELS, EntryStatus, WorkflowEntry, entryStatus } from '../lib/workflow';
+
+const STATUS_STYLES: Record<EntryStatus, string> = {
+  draft: 'bg-gray-500/20 text-gray-300',
+  submitted: 'bg-yellow-500/20 text-yellow-400',
+  approved: 'bg-green-500/20 text-green-400',
+  settled: 'bg-cyan-500/20 text-cyan-400'
+};
+
+interface EntryStatusBadgeProps {
+  entry: WorkflowEntry;
+}
+
+export default function EntryStatusBadge({ entry }: EntryStatusBadgeProps) {
+  const status = entryStatus(entry);
+  return (
+    <span className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {entry.periodLockId && <Lock className="w-3 h-3" />}
+      <span>{ENTRY_STATUS_LABELS[status]}</span>
+    </span>
+  );
+}
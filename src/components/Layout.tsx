@@ -11,15 +11,30 @@ import {
   Zap,
   Menu,
   X,
-  Briefcase
+  Briefcase,
+  Wallet,
+  FileSpreadsheet,
+  ShieldCheck,
+  History,
+  Trash2,
+  ClipboardCheck
 } from 'lucide-react';
+import { ADMIN_ROLES, Permission, adminRoleOf } from '../lib/permissions';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
+interface NavItem {
+  path: string;
+  icon: typeof LayoutDashboard;
+  label: string;
+  permission?: Permission;
+}
+
 export default function Layout({ children }: LayoutProps) {
-  const { userData, logout } = useAuth();
+  const { userData, logout, can } = useAuth();
+  const adminRole = adminRoleOf(userData);
   const location = useLocation();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
@@ -29,20 +44,38 @@ export default function Layout({ children }: LayoutProps) {
     navigate('/login');
   };
 
-  const adminNavItems = [
-    { path: '/admin/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
+  const adminNavItems: NavItem[] = [
+    { path: '/admin/dashboard', icon: LayoutDashboard, label: 'Dashboard', permission: 'viewReports' },
     { path: '/admin/agents', icon: Users, label: 'Account Holders' },
     { path: '/admin/brokers', icon: Briefcase, label: 'Brokers' },
     { path: '/admin/accounts', icon: CreditCard, label: 'Accounts' },
     { path: '/admin/players', icon: UserPlus, label: 'Clickers' },
     { path: '/admin/assignments', icon: Settings, label: 'Assignments' },
+    { path: '/admin/review', icon: ClipboardCheck, label: 'Review', permission: 'approveEntries' },
+    { path: '/admin/settlements', icon: Wallet, label: 'Settlements', permission: 'viewReports' },
+    { path: '/admin/imports', icon: FileSpreadsheet, label: 'Imports', permission: 'viewReports' },
+    { path: '/admin/activity', icon: History, label: 'Activity', permission: 'viewReports' },
+    { path: '/admin/recycle-bin', icon: Trash2, label: 'Recycle Bin' },
+    { path: '/admin/staff', icon: ShieldCheck, label: 'Staff', permission: 'manageStaff' },
   ];
 
   const playerNavItems = [
     { path: '/player/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
   ];
 
-  const navItems = userData?.role === 'admin' ? adminNavItems : playerNavItems;
+  const agentNavItems = [
+    { path: '/agent/dashboard', icon: LayoutDashboard, label: 'My Accounts' },
+  ];
+
+  const brokerNavItems = [
+    { path: '/broker/dashboard', icon: LayoutDashboard, label: 'My Accounts' },
+  ];
+
+  const navItems = userData?.role === 'admin'
+    ? adminNavItems.filter(item => !item.permission || can(item.permission))
+    : userData?.role === 'agent' ? agentNavItems
+    : userData?.role === 'broker' ? brokerNavItems
+    : playerNavItems;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-cyberpunk-black via-cyberpunk-violet to-cyberpunk-black">
@@ -100,7 +133,9 @@ export default function Layout({ children }: LayoutProps) {
             <div className="bg-white/5 backdrop-blur-sm rounded-lg p-4 mb-4">
               <p className="text-sm text-gray-300">Logged in as</p>
               <p className="text-cyberpunk-blue font-medium truncate">{userData?.name || userData?.email}</p>
-              <p className="text-xs text-cyberpunk-pink capitalize">{userData?.role}</p>
+              <p className="text-xs text-cyberpunk-pink capitalize">
+                {adminRole ? ADMIN_ROLES[adminRole].label : userData?.role === 'agent' ? 'Account Holder' : userData?.role}
+              </p>
             </div>
             <button
               onClick={handleLogout}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { differenceInSeconds, format, formatDistanceToNow } from 'date-fns';
+
+interface LiveIndicatorProps {
+  updatedAt: Date | null;
+}
+
+// Shows that a page is following live data, and how fresh it is
+export default function LiveIndicator({ updatedAt }: LiveIndicatorProps) {
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!updatedAt) return null;
+
+  const label = differenceInSeconds(new Date(), updatedAt) < 60
+    ? 'just now'
+    : formatDistanceToNow(updatedAt, { addSuffix: true });
+
+  return (
+    <span
+      className="inline-flex items-center space-x-2 text-xs text-gray-400"
+      title={`Last change ${format(updatedAt, 'yyyy-MM-dd HH:mm:ss')}`}
+    >
+      <span className="w-2 h-2 rounded-full bg-green-400 animate-pulse" />
+      <span>Updated {label}</span>
+    </span>
+  );
+}
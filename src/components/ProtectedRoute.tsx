@@ -1,14 +1,16 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { Permission, UserRole, homePath } from '../lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'admin' | 'player';
+  requiredRole?: UserRole;
+  requiredPermission?: Permission;
 }
 
-export default function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
-  const { currentUser, userData, loading } = useAuth();
+export default function ProtectedRoute({ children, requiredRole, requiredPermission }: ProtectedRouteProps) {
+  const { currentUser, userData, loading, can } = useAuth();
 
   // Show loading while auth state is being determined
   if (loading) {
@@ -36,8 +38,12 @@ export default function ProtectedRoute({ children, requiredRole }: ProtectedRout
   // Check role-based access
   if (requiredRole && userData.role !== requiredRole) {
     // Redirect based on user's actual role
-    const redirectPath = userData.role === 'admin' ? '/admin/dashboard' : '/player/dashboard';
-    return <Navigate to={redirectPath} replace />;
+    return <Navigate to={homePath(userData)} replace />;
+  }
+
+  // Staff without the permission a page needs go back to their home page
+  if (requiredPermission && !can(requiredPermission)) {
+    return <Navigate to={homePath(userData)} replace />;
   }
 
   return <>{children}</>;
@@ -0,0 +1,31 @@
+import { History } from 'lucide-react';
+import { TermsVersion } from '../lib/terms';
+
+interface TermsHistoryProps {
+  history?: TermsVersion[];
+  describe: (version: TermsVersion) => string;
+}
+
+export default function TermsHistory({ history, describe }: TermsHistoryProps) {
+  if (!history || history.length === 0) return null;
+
+  // Newest first, so the terms in force today sit at the top
+  const versions = [...history].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-medium text-gray-300 mb-2 flex items-center">
+        <History className="w-4 h-4 mr-1" />
+        Terms History
+      </h4>
+      <ul className="text-xs text-gray-400 space-y-1">
+        {versions.map((version) => (
+          <li key={version.effectiveFrom || 'original'} className="flex items-start justify-between space-x-2">
+            <span>{version.effectiveFrom ? `From ${version.effectiveFrom}` : 'Original terms'}</span>
+            <span className="text-gray-300 text-right">{describe(version)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { ExternalLink, KeyRound, EyeOff } from 'lucide-react';
+import { revealCredentials, VaultCredentials as Credentials } from '../lib/vault';
+
+interface VaultCredentialsProps {
+  accountId: string;
+}
+
+// Credentials stay hidden until asked for; each reveal is logged by the vault.
+export default function VaultCredentials({ accountId }: VaultCredentialsProps) {
+  const [credentials, setCredentials] = useState<Credentials | null>(null);
+  const [revealing, setRevealing] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleReveal = async () => {
+    setRevealing(true);
+    setError('');
+    try {
+      setCredentials(await revealCredentials(accountId));
+    } catch (err) {
+      console.error('Error revealing credentials:', err);
+      setError(err instanceof Error ? err.message : 'Could not reveal credentials');
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  if (!credentials) {
+    return (
+      <div>
+        <button
+          onClick={handleReveal}
+          disabled={revealing}
+          className="flex items-center space-x-2 text-cyan-400 hover:text-cyan-300 transition-colors text-sm disabled:opacity-50"
+        >
+          <KeyRound className="w-4 h-4" />
+          <span>{revealing ? 'Revealing...' : 'Reveal credentials'}</span>
+        </button>
+        {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/5 rounded-lg p-3 space-y-1 text-sm">
+      {credentials.websiteURL && (
+        <div className="flex items-center space-x-2">
+          <ExternalLink className="w-4 h-4 text-gray-400" />
+          <a
+            href={credentials.websiteURL}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-cyan-400 hover:text-cyan-300 transition-colors truncate"
+          >
+            {credentials.websiteURL}
+          </a>
+        </div>
+      )}
+      {credentials.password && (
+        <div className="text-gray-300">Password: <span className="font-mono">{credentials.password}</span></div>
+      )}
+      {credentials.ip && <div className="text-gray-300">IP: {credentials.ip}</div>}
+      <button
+        onClick={() => setCredentials(null)}
+        className="flex items-center space-x-1 text-xs text-gray-400 hover:text-white transition-colors pt-1"
+      >
+        <EyeOff className="w-3 h-3" />
+        <span>Hide (this reveal was logged)</span>
+      </button>
+    </div>
+  );
+}
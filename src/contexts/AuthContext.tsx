@@ -2,14 +2,22 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, onAuthStateChanged, signInWithEmailAndPassword, signOut, createUserWithEmailAndPassword } from 'firebase/auth';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { auth, db } from '../firebase';
+import { TermsVersion } from '../lib/terms';
+import { AdminRole, Permission, UserRole, hasPermission } from '../lib/permissions';
+import { isDeleted } from '../lib/recycle';
 
 
 interface UserData {
   uid: string;
   email: string;
-  role: 'admin' | 'player';
+  role: UserRole;
+  adminRole?: AdminRole;
+  // Set on portal logins; the agents or brokers document they belong to
+  agentId?: string;
+  brokerId?: string;
   name?: string;
   percentage?: number;
+  termsHistory?: TermsVersion[];
 }
 
 interface AuthContextType {
@@ -18,6 +26,7 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   createUser: (email: string, password: string, name: string, role: 'admin' | 'player') => Promise<void>;
+  can: (permission: Permission) => boolean;
   loading: boolean;
 }
 
@@ -42,7 +51,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     
     // Get user data from Firestore
     const userDoc = await getDoc(doc(db, 'users', user.uid));
-    if (userDoc.exists()) {
+    if (userDoc.exists() && !isDeleted(userDoc.data())) {
       setUserData(userDoc.data() as UserData);
     }
   }
@@ -76,8 +85,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setCurrentUser(user);
         // Get user data from Firestore
         const userDoc = await getDoc(doc(db, 'users', user.uid));
-        if (userDoc.exists()) {
+        if (userDoc.exists() && !isDeleted(userDoc.data())) {
           setUserData(userDoc.data() as UserData);
+        } else if (userDoc.exists()) {
+          // In the recycle bin; signs in to nothing until restored
+          setUserData(null);
         } else {
           // User exists in auth but not in Firestore - this shouldn't happen
           console.error('User exists in auth but not in Firestore');
@@ -99,6 +111,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     login,
     logout,
     createUser,
+    can: (permission: Permission) => hasPermission(userData, permission),
     loading
   };
 
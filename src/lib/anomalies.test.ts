@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PROFIT_THRESHOLD, EntryFlag, flagEntries, FlaggableEntry } from './anomalies';
+
+vi.mock('../firebase', () => ({ auth: {}, db: {} }));
+
+const accounts = [
+  { id: 'a1', status: 'active' },
+  { id: 'a2', status: 'paused' },
+  { id: 'a3', status: 'inactive' }
+];
+
+const entry = (id: string, date: string, fields: Partial<FlaggableEntry> = {}): FlaggableEntry => ({
+  id,
+  accountId: 'a1',
+  date,
+  startingBalance: 1000,
+  endingBalance: 1000,
+  profitLoss: 0,
+  ...fields
+});
+
+const flagsFor = (target: FlaggableEntry, others: FlaggableEntry[] = [], threshold = DEFAULT_PROFIT_THRESHOLD): EntryFlag[] =>
+  (flagEntries([target], [target, ...others], accounts, threshold).get(target.id) || []).map((detail) => detail.flag);
+
+describe('flagEntries', () => {
+  it('flags nothing on an ordinary entry', () => {
+    expect(flagsFor(entry('e2', '2025-01-02'), [entry('e1', '2025-01-01')])).toEqual([]);
+  });
+
+  describe('balance gap', () => {
+    it('compares with the latest earlier entry on the account', () => {
+      const earlier = [entry('e0', '2024-12-30', { endingBalance: 700 }), entry('e1', '2025-01-01', { endingBalance: 900 })];
+      const [detail] = flagEntries([entry('e2', '2025-01-02')], [entry('e2', '2025-01-02'), ...earlier], accounts, 1000).get('e2')!;
+      expect(detail).toEqual({ flag: 'balanceGap', message: 'Starts at $1,000 but the 2025-01-01 entry ended at $900' });
+    });
+
+    it.each([
+      { name: 'under a cent', endingBalance: 999.995, flagged: false },
+      { name: 'a cent', endingBalance: 999.99, flagged: true }
+    ])('flags a gap of $name: $flagged', ({ endingBalance, flagged }) => {
+      expect(flagsFor(entry('e2', '2025-01-02'), [entry('e1', '2025-01-01', { endingBalance })]).includes('balanceGap')).toBe(flagged);
+    });
+
+    it('ignores later entries and other accounts', () => {
+      const others = [entry('e3', '2025-01-03', { endingBalance: 5 }), entry('x1', '2025-01-01', { accountId: 'a9', endingBalance: 5 })];
+      expect(flagsFor(entry('e2', '2025-01-02'), others)).toEqual([]);
+    });
+
+    it('does not flag the first entry on an account', () => {
+      expect(flagsFor(entry('e1', '2025-01-01', { startingBalance: 250 }))).toEqual([]);
+    });
+  });
+
+  it.each([
+    { name: 'starting', fields: { startingBalance: -1 } },
+    { name: 'ending', fields: { endingBalance: -0.01 } }
+  ])('flags a negative $name balance', ({ fields }) => {
+    expect(flagsFor(entry('e1', '2025-01-01', fields))).toEqual(['negativeBalance']);
+  });
+
+  describe('large profit', () => {
+    it.each([
+      { profitLoss: 1000, threshold: 1000, flagged: false },
+      { profitLoss: 1000.01, threshold: 1000, flagged: true },
+      { profitLoss: 600, threshold: 500, flagged: true },
+      { profitLoss: -5000, threshold: 500, flagged: false }
+    ])('profit $profitLoss against a $threshold threshold is flagged: $flagged', ({ profitLoss, threshold, flagged }) => {
+      expect(flagsFor(entry('e1', '2025-01-01', { profitLoss }), [], threshold).includes('largeProfit')).toBe(flagged);
+    });
+
+    it('says what the threshold was', () => {
+      const [detail] = flagEntries([entry('e1', '2025-01-01', { profitLoss: 2500 })], [], accounts, 2000).get('e1')!;
+      expect(detail.message).toBe('Profit of $2,500 is over the $2,000 threshold');
+    });
+  });
+
+  it('flags every entry sharing an account and date', () => {
+    const twins = [entry('e1', '2025-01-01'), entry('e2', '2025-01-01'), entry('e3', '2025-01-01', { accountId: 'a9' })];
+    const flags = flagEntries(twins, twins, accounts, 1000);
+    expect(flags.get('e1')).toEqual([{ flag: 'duplicate', message: '2 entries for this account on 2025-01-01' }]);
+    expect(flags.get('e2')?.map((detail) => detail.flag)).toEqual(['duplicate']);
+    expect(flags.get('e3')).toEqual([]);
+  });
+
+  it.each([
+    { name: 'a paused account', accountId: 'a2' },
+    { name: 'a legacy inactive account', accountId: 'a3' }
+  ])('flags an entry on $name', ({ accountId }) => {
+    const [detail] = flagEntries([entry('e1', '2025-01-01', { accountId })], [], accounts, 1000).get('e1')!;
+    expect(detail).toEqual({ flag: 'inactiveAccount', message: 'The account is paused' });
+  });
+});
@@ -0,0 +1,94 @@
+// Automatic checks on entries waiting for review. Each flag points at
+// something a reviewer should look at before approving; none of them block
+// approval on their own.
+
+import { money } from './commission';
+import { ACCOUNT_STATUS_LABELS, STOPPED_STATUSES, WithAccountStatus, accountStatus } from './lifecycle';
+
+export type EntryFlag = 'balanceGap' | 'negativeBalance' | 'largeProfit' | 'duplicate' | 'inactiveAccount';
+
+export const ENTRY_FLAG_LABELS: Record<EntryFlag, string> = {
+  balanceGap: 'Balance gap',
+  negativeBalance: 'Negative balance',
+  largeProfit: 'Large profit',
+  duplicate: 'Duplicate',
+  inactiveAccount: 'Stopped account'
+};
+
+// Stored in settings/review
+export const DEFAULT_PROFIT_THRESHOLD = 1000;
+
+export interface FlaggableEntry {
+  id: string;
+  accountId: string;
+  date: string;
+  startingBalance?: number;
+  endingBalance?: number;
+  profitLoss?: number;
+}
+
+export interface EntryFlagDetail {
+  flag: EntryFlag;
+  message: string;
+}
+
+// Balances are typed in by hand, so anything under a cent is rounding.
+// Counted in whole cents, as 1000 - 999.99 comes out just under 0.01.
+const differs = (a: number, b: number) => Math.round(Math.abs(a - b) * 100) >= 1;
+
+// Flags each of `entries` against the rest of the book. `allEntries` should
+// hold every live entry, so previous balances and duplicates are found
+// whatever status they are in.
+export function flagEntries(
+  entries: FlaggableEntry[],
+  allEntries: FlaggableEntry[],
+  accounts: (WithAccountStatus & { id: string })[],
+  profitThreshold: number
+): Map<string, EntryFlagDetail[]> {
+  const accountsById = new Map(accounts.map((account) => [account.id, account]));
+  const byAccount = new Map<string, FlaggableEntry[]>();
+  allEntries.forEach((entry) => {
+    byAccount.set(entry.accountId, [...(byAccount.get(entry.accountId) || []), entry]);
+  });
+
+  return new Map(entries.map((entry) => {
+    const flags: EntryFlagDetail[] = [];
+    const sameAccount = byAccount.get(entry.accountId) || [];
+
+    const previous = sameAccount
+      .filter((other) => other.date < entry.date)
+      .sort((a, b) => b.date.localeCompare(a.date))[0];
+    if (previous && differs(Number(entry.startingBalance) || 0, Number(previous.endingBalance) || 0)) {
+      flags.push({
+        flag: 'balanceGap',
+        message: `Starts at ${money(Number(entry.startingBalance) || 0)} but the ${previous.date} entry ended at ${money(Number(previous.endingBalance) || 0)}`
+      });
+    }
+
+    if ((Number(entry.startingBalance) || 0) < 0 || (Number(entry.endingBalance) || 0) < 0) {
+      flags.push({ flag: 'negativeBalance', message: 'A balance is below zero' });
+    }
+
+    if ((Number(entry.profitLoss) || 0) > profitThreshold) {
+      flags.push({
+        flag: 'largeProfit',
+        message: `Profit of ${money(Number(entry.profitLoss))} is over the ${money(profitThreshold)} threshold`
+      });
+    }
+
+    const duplicates = sameAccount.filter((other) => other.id !== entry.id && other.date === entry.date);
+    if (duplicates.length > 0) {
+      flags.push({
+        flag: 'duplicate',
+        message: `${duplicates.length + 1} entries for this account on ${entry.date}`
+      });
+    }
+
+    const status = accountStatus(accountsById.get(entry.accountId) || {});
+    if (STOPPED_STATUSES.includes(status)) {
+      flags.push({ flag: 'inactiveAccount', message: `The account is ${ACCOUNT_STATUS_LABELS[status].toLowerCase()}` });
+    }
+
+    return [entry.id, flags];
+  }));
+}
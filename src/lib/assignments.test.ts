@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { latestEntry } from './assignments';
+
+vi.mock('../firebase', () => ({ auth: {}, db: {} }));
+
+const at = (time: string) => Timestamp.fromDate(new Date(`2025-03-10T${time}:00Z`));
+
+describe('latestEntry', () => {
+  it('takes the latest date', () => {
+    const entries = [
+      { id: 'b', date: '2025-03-09', createdAt: at('18:00'), endingBalance: 900 },
+      { id: 'a', date: '2025-03-10', createdAt: at('08:00'), endingBalance: 1000 }
+    ];
+    expect(latestEntry(entries)?.endingBalance).toBe(1000);
+  });
+
+  it.each([
+    { name: 'outgoing clicker listed first', order: [0, 1] },
+    { name: 'incoming clicker listed first', order: [1, 0] }
+  ])('takes the entry saved last on a same-day handover ($name)', ({ order }) => {
+    const handoverDay = [
+      { id: 'zz-outgoing', date: '2025-03-10', createdAt: at('09:00'), endingBalance: 800 },
+      { id: 'aa-incoming', date: '2025-03-10', createdAt: at('17:30'), endingBalance: 1200 }
+    ];
+    expect(latestEntry(order.map((i) => handoverDay[i]))?.endingBalance).toBe(1200);
+  });
+
+  it('reads createdAt saved as a Date', () => {
+    const entries = [
+      { id: 'b', date: '2025-03-10', createdAt: new Date('2025-03-10T17:00:00Z'), endingBalance: 1200 },
+      { id: 'a', date: '2025-03-10', createdAt: at('09:00'), endingBalance: 800 }
+    ];
+    expect(latestEntry(entries)?.endingBalance).toBe(1200);
+  });
+
+  it('falls back to the id when entries carry no save time', () => {
+    const entries = [
+      { id: 'a', date: '2025-03-10', endingBalance: 800 },
+      { id: 'b', date: '2025-03-10', endingBalance: 1200 }
+    ];
+    expect(latestEntry(entries)?.id).toBe('b');
+    expect(latestEntry([...entries].reverse())?.id).toBe('b');
+  });
+
+  it('is undefined for an account with no entries', () => {
+    expect(latestEntry([])).toBeUndefined();
+  });
+});
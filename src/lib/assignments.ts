@@ -0,0 +1,271 @@
+// Assignment history. Every spell a clicker spends running an account is an
+// `assignments` record with the first and last day they were responsible, so
+// the account's assignedToPlayerUid is only the current holder and the
+// history survives reassignment. Assigning an account that already has a
+// clicker is a handover: the outgoing record ends the day before and the new
+// one carries over the account's last ending balance as its starting point.
+// Assignments made by a spreadsheet import carry its `importBatchId`, and
+// records it closed carry `closedByImportBatchId`, so rolling the import back
+// can undo them.
+
+import {
+  collection,
+  deleteField,
+  doc,
+  DocumentData,
+  getDocs,
+  query,
+  Timestamp,
+  where,
+  WriteBatch,
+  writeBatch
+} from 'firebase/firestore';
+import { format, parseISO, subDays } from 'date-fns';
+import { auth, db } from '../firebase';
+import { commitInBatches, recordAudit } from './audit';
+import { accountStatus, accountStatusUpdate, WithAccountStatus } from './lifecycle';
+import { notDeleted } from './recycle';
+
+export interface Assignment {
+  id: string;
+  accountId: string;
+  playerUid: string;
+  // Both inclusive. `from` is null for a clicker who held the account before
+  // history was kept, `to` is null while the assignment is current.
+  from: string | null;
+  to: string | null;
+  startingBalance: number | null;
+  handedOverFrom: string | null;
+  note: string;
+  assignedBy: string;
+  createdAt: Date | null;
+}
+
+type AssignableAccount = WithAccountStatus & { id: string };
+
+function assignmentFrom(id: string, data: DocumentData): Assignment {
+  return {
+    id,
+    accountId: data.accountId,
+    playerUid: data.playerUid,
+    from: data.from || null,
+    to: data.to || null,
+    startingBalance: typeof data.startingBalance === 'number' ? data.startingBalance : null,
+    handedOverFrom: data.handedOverFrom || null,
+    note: data.note || '',
+    assignedBy: data.assignedBy || '',
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : null
+  };
+}
+
+// Oldest first
+export async function fetchAssignments(accountId?: string): Promise<Assignment[]> {
+  const ref = collection(db, 'assignments');
+  const snapshot = await getDocs(accountId ? query(ref, where('accountId', '==', accountId)) : ref);
+  return snapshot.docs
+    .map((record) => assignmentFrom(record.id, record.data()))
+    .sort((a, b) => (a.from || '').localeCompare(b.from || ''));
+}
+
+// The signed-in clicker's open assignment on an account, if any
+export async function fetchCurrentAssignment(accountId: string, playerUid: string): Promise<Assignment | null> {
+  const snapshot = await getDocs(query(
+    collection(db, 'assignments'),
+    where('accountId', '==', accountId),
+    where('playerUid', '==', playerUid),
+    where('to', '==', null)
+  ));
+  const record = snapshot.docs[0];
+  return record ? assignmentFrom(record.id, record.data()) : null;
+}
+
+// Who was responsible for an account on a yyyy-MM-dd date
+export function clickerOnDate(assignments: Assignment[], accountId: string, date: string): Assignment | undefined {
+  return assignments.find((assignment) =>
+    assignment.accountId === accountId
+    && (!assignment.from || assignment.from <= date)
+    && (!assignment.to || date <= assignment.to)
+  );
+}
+
+export interface BalanceEntry {
+  id: string;
+  date?: string;
+  createdAt?: unknown;
+  endingBalance?: number;
+}
+
+const savedAt = (value: unknown) =>
+  value instanceof Timestamp ? value.toMillis() : value instanceof Date ? value.getTime() : 0;
+
+// The account's latest entry. A handover day can have an entry from each
+// clicker, so entries on the same date go by when they were saved, then by id
+// so the pick doesn't depend on the order Firestore returned them in.
+export function latestEntry<T extends BalanceEntry>(entries: T[]): T | undefined {
+  return [...entries].sort((a, b) =>
+    String(b.date || '').localeCompare(String(a.date || ''))
+    || savedAt(b.createdAt) - savedAt(a.createdAt)
+    || b.id.localeCompare(a.id)
+  )[0];
+}
+
+// The ending balance of the account's latest entry, whoever made it
+export async function lastEndingBalance(accountId: string): Promise<number | null> {
+  const entries = (await getDocs(query(collection(db, 'entries'), where('accountId', '==', accountId))))
+    .docs
+    .filter(notDeleted)
+    .map((entry) => ({ id: entry.id, ...entry.data() }) as BalanceEntry);
+  const latest = latestEntry(entries);
+  return latest ? latest.endingBalance || 0 : null;
+}
+
+const dayBefore = (date: string) => format(subDays(parseISO(date), 1), 'yyyy-MM-dd');
+
+async function openAssignments(accountId: string) {
+  return (await getDocs(query(
+    collection(db, 'assignments'),
+    where('accountId', '==', accountId),
+    where('to', '==', null)
+  ))).docs;
+}
+
+// Closes whatever assignment is open on the account so its last day is
+// `lastDay`. A record that started the day after `lastDay` is left empty,
+// which is how a same-day correction drops out of the report. An account
+// assigned before history was kept gets a record for its current clicker with
+// an unknown start, so the report still names them.
+async function closeCurrent(
+  batch: WriteBatch,
+  account: AssignableAccount,
+  lastDay: string,
+  assignedBy: string,
+  importBatchId?: string
+) {
+  const open = await openAssignments(account.id);
+  open.forEach((record) => {
+    const from = record.data().from;
+    if (from && lastDay < dayBefore(from)) {
+      throw new Error(`The current assignment started on ${from}; pick that day or later.`);
+    }
+    const close = { to: lastDay, ...(importBatchId ? { closedByImportBatchId: importBatchId } : {}) };
+    batch.update(record.ref, close);
+    recordAudit(batch, 'update', record.ref, { to: null }, close);
+  });
+
+  if (open.length === 0 && account.assignedToPlayerUid) {
+    const ref = doc(collection(db, 'assignments'));
+    const data = {
+      accountId: account.id,
+      playerUid: account.assignedToPlayerUid,
+      from: null,
+      to: lastDay,
+      startingBalance: null,
+      handedOverFrom: null,
+      note: 'Assigned before assignment history was kept',
+      assignedBy,
+      createdAt: new Date(),
+      ...(importBatchId ? { importBatchId } : {})
+    };
+    batch.set(ref, data);
+    recordAudit(batch, 'create', ref, null, data);
+  }
+}
+
+function signedIn() {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+  return user;
+}
+
+// Gives the account to `playerUid` from `date` on. When someone else holds
+// it this is a handover and the new record starts from the last ending
+// balance. The account, the records and their audit entries are one batch.
+export async function assignAccount(
+  account: AssignableAccount,
+  playerUid: string,
+  playerName: string,
+  date: string,
+  note = '',
+  importBatchId?: string
+): Promise<void> {
+  const user = signedIn();
+  if (account.assignedToPlayerUid === playerUid) {
+    throw new Error(`${playerName} already runs this account.`);
+  }
+
+  const previous = account.assignedToPlayerUid || null;
+  const batch = writeBatch(db);
+  await closeCurrent(batch, account, dayBefore(date), user.uid, importBatchId);
+
+  const ref = doc(collection(db, 'assignments'));
+  const data = {
+    accountId: account.id,
+    playerUid,
+    from: date,
+    to: null,
+    startingBalance: previous ? await lastEndingBalance(account.id) : null,
+    handedOverFrom: previous,
+    note: note.trim(),
+    assignedBy: user.uid,
+    createdAt: new Date(),
+    ...(importBatchId ? { importBatchId } : {})
+  };
+  batch.set(ref, data);
+  recordAudit(batch, 'create', ref, null, data);
+
+  const accountRef = doc(db, 'accounts', account.id);
+  const update = {
+    assignedToPlayerUid: playerUid,
+    ...(accountStatus(account) === 'unused' ? accountStatusUpdate(account, 'assigned', `Assigned to ${playerName}`) : {})
+  };
+  batch.update(accountRef, update);
+  recordAudit(batch, 'update', accountRef, { assignedToPlayerUid: previous }, update);
+  await batch.commit();
+}
+
+// Takes the account off its clicker; `date` is their last day on it. An
+// account nobody has worked yet goes back to unused; one with entries keeps
+// its status.
+export async function unassignAccount(account: AssignableAccount, date: string): Promise<void> {
+  const user = signedIn();
+  const batch = writeBatch(db);
+  await closeCurrent(batch, account, date, user.uid);
+
+  const accountRef = doc(db, 'accounts', account.id);
+  const update = {
+    assignedToPlayerUid: null,
+    ...(accountStatus(account) === 'assigned' ? accountStatusUpdate(account, 'unused', 'Unassigned') : {})
+  };
+  batch.update(accountRef, update);
+  recordAudit(batch, 'update', accountRef, { assignedToPlayerUid: account.assignedToPlayerUid || null }, update);
+  await batch.commit();
+}
+
+// Undoes what an import did to the assignment history: records it opened are
+// removed and records it closed are open again. The import's own rollback
+// restores the accounts. A record this import opened that a later import
+// closed has to wait for that import to be rolled back first.
+export async function undoImportAssignments(importBatchId: string): Promise<void> {
+  const ref = collection(db, 'assignments');
+  const [opened, closed] = await Promise.all([
+    getDocs(query(ref, where('importBatchId', '==', importBatchId))),
+    getDocs(query(ref, where('closedByImportBatchId', '==', importBatchId)))
+  ]);
+  const laterImport = opened.docs.find((record) => {
+    const closedBy = record.data().closedByImportBatchId;
+    return closedBy && closedBy !== importBatchId;
+  });
+  if (laterImport) {
+    throw new Error('A later import handed over an account this import assigned. Roll that import back first.');
+  }
+
+  const openedIds = new Set(opened.docs.map((record) => record.id));
+  await commitInBatches(opened.docs, (batch, record) => {
+    batch.delete(record.ref);
+    recordAudit(batch, 'delete', record.ref, record.data(), null);
+  });
+  await commitInBatches(closed.docs.filter((record) => !openedIds.has(record.id)), (batch, record) => {
+    batch.update(record.ref, { to: null, closedByImportBatchId: deleteField() });
+    recordAudit(batch, 'update', record.ref, { to: record.data().to, closedByImportBatchId: importBatchId }, { to: null, closedByImportBatchId: null });
+  });
+}
@@ -0,0 +1,179 @@
+// Append-only audit trail. Every write to the ledger goes through these
+// wrappers instead of addDoc/updateDoc/setDoc/deleteDoc, which commit the
+// change and an `auditLog` record in the same batch, so a change is never
+// saved without its record. Firestore rules let people append records for
+// themselves only, and nobody can edit or delete one.
+
+import {
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  QueryDocumentSnapshot,
+  SetOptions,
+  Timestamp,
+  WriteBatch,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { auth, db } from '../firebase';
+import { WRITE_BATCH_SIZE } from './importer';
+import { forgetCached } from './repository';
+import { scheduleRollupRefresh } from './rollups';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditRecord {
+  id: string;
+  actorUid: string;
+  actorEmail: string | null;
+  action: AuditAction;
+  path: string;
+  collection: string;
+  docId: string;
+  before: DocumentData | null;
+  after: DocumentData | null;
+  at: Date;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted'
+};
+
+// A field removed with deleteField() is recorded as null, and so is one that
+// was never set, since neither can be stored as a value.
+function auditValues(data: DocumentData | null | undefined, keys?: string[]): DocumentData | null {
+  if (!data) return null;
+  const values: DocumentData = {};
+  (keys || Object.keys(data)).forEach((key) => {
+    const value = data[key];
+    values[key] = value === undefined || value instanceof FieldValue ? null : value;
+  });
+  return values;
+}
+
+// Adds the audit record for one change to a batch the caller commits.
+// `before` and `after` only need the fields that changed. Every write passes
+// through here, so it also drops cached reads of the collection and, for
+// entries and accounts, brings the dashboard rollups up to date.
+export function recordAudit(
+  batch: WriteBatch,
+  action: AuditAction,
+  ref: DocumentReference,
+  before: DocumentData | null | undefined,
+  after: DocumentData | null | undefined
+) {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+  forgetCached(ref.parent.id);
+  if (ref.parent.id === 'entries' || ref.parent.id === 'accounts') scheduleRollupRefresh();
+  batch.set(doc(collection(db, 'auditLog')), {
+    actorUid: user.uid,
+    actorEmail: user.email,
+    action,
+    path: ref.path,
+    collection: ref.parent.id,
+    docId: ref.id,
+    before: auditValues(before),
+    after: auditValues(after),
+    at: serverTimestamp()
+  });
+}
+
+// For changes too large for one batch. Each item writes its change and audit
+// record into the same batch, so a change is still never saved without it.
+export async function commitInBatches<T>(items: T[], write: (batch: WriteBatch, item: T) => void): Promise<void> {
+  for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    items.slice(i, i + WRITE_BATCH_SIZE).forEach((item) => write(batch, item));
+    await batch.commit();
+  }
+}
+
+export async function auditedAdd(ref: CollectionReference, data: DocumentData): Promise<DocumentReference> {
+  const created = doc(ref);
+  const batch = writeBatch(db);
+  batch.set(created, data);
+  recordAudit(batch, 'create', created, null, data);
+  await batch.commit();
+  return created;
+}
+
+export async function auditedUpdate(ref: DocumentReference, data: DocumentData): Promise<void> {
+  const before = (await getDoc(ref)).data();
+  const batch = writeBatch(db);
+  batch.update(ref, data);
+  recordAudit(batch, 'update', ref, auditValues(before, Object.keys(data)), data);
+  await batch.commit();
+}
+
+export async function auditedSet(ref: DocumentReference, data: DocumentData, options: SetOptions = {}): Promise<void> {
+  const snapshot = await getDoc(ref);
+  const before = snapshot.data();
+  const batch = writeBatch(db);
+  batch.set(ref, data, options);
+  recordAudit(
+    batch,
+    snapshot.exists() ? 'update' : 'create',
+    ref,
+    before && auditValues(before, 'merge' in options && options.merge ? Object.keys(data) : undefined),
+    data
+  );
+  await batch.commit();
+}
+
+export async function auditedDelete(ref: DocumentReference): Promise<void> {
+  const before = (await getDoc(ref)).data();
+  const batch = writeBatch(db);
+  batch.delete(ref);
+  recordAudit(batch, 'delete', ref, before, null);
+  await batch.commit();
+}
+
+export function auditRecordFrom(snapshot: QueryDocumentSnapshot): AuditRecord {
+  const data = snapshot.data();
+  return {
+    id: snapshot.id,
+    actorUid: data.actorUid,
+    actorEmail: data.actorEmail || null,
+    action: data.action,
+    path: data.path,
+    collection: data.collection,
+    docId: data.docId,
+    before: data.before || null,
+    after: data.after || null,
+    // Null for a moment on a record this browser just wrote
+    at: data.at?.toDate() || new Date()
+  };
+}
+
+export async function fetchDocumentHistory(path: string): Promise<AuditRecord[]> {
+  const snapshot = await getDocs(query(collection(db, 'auditLog'), where('path', '==', path)));
+  return snapshot.docs.map(auditRecordFrom).sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+// Fields a record changed, leaving out the updatedAt stamp every write carries
+export function auditChanges(record: AuditRecord): { field: string; before: unknown; after: unknown }[] {
+  const fields = new Set([...Object.keys(record.before || {}), ...Object.keys(record.after || {})]);
+  fields.delete('updatedAt');
+  return Array.from(fields)
+    .sort()
+    .map((field) => ({ field, before: record.before?.[field] ?? null, after: record.after?.[field] ?? null }))
+    .filter((change) => record.action !== 'update' || formatAuditValue(change.before) !== formatAuditValue(change.after));
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (value instanceof Timestamp) return value.toDate().toLocaleString();
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
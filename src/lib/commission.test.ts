@@ -0,0 +1,345 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeProfitLoss,
+  computeSplits,
+  pickOverrides,
+  ScenarioRule,
+  splitFields,
+  SplitAccount,
+  SplitAgent,
+  SplitBroker,
+  SplitRoles,
+  SplitSettings
+} from './commission';
+
+// $1,000 profit and 10% tax, so $900 net after tax, unless a case says otherwise
+const entry = { date: '2025-01-15', startingBalance: 1000, endingBalance: 2000 };
+const settings: SplitSettings = { taxRate: 10 };
+
+const split = (
+  account: SplitAccount,
+  options: { agent?: SplitAgent | null; broker?: SplitBroker | null; roles?: SplitRoles; settings?: SplitSettings; date?: string } = {}
+) =>
+  computeSplits(
+    { ...entry, date: options.date ?? entry.date },
+    account,
+    options.agent ?? null,
+    options.broker ?? null,
+    options.settings ?? settings,
+    options.roles
+  );
+
+const scenarioBroker: SplitBroker = {
+  commissionType: 'percentage',
+  commissionPercentage: 1,
+  specialScenarios: [
+    { key: 'brokeredOnly', commissionType: 'percentage', commissionPercentage: 5, flatCommission: 0, base: 'gross' },
+    { key: 'brokeredReferral', commissionType: 'percentage', commissionPercentage: 6, flatCommission: 0, base: 'gross' },
+    { key: 'brokeredReferralFunded', commissionType: 'percentage', commissionPercentage: 7, flatCommission: 0, base: 'gross' },
+    { key: 'brokeredFunded', commissionType: 'percentage', commissionPercentage: 8, flatCommission: 0, base: 'gross' }
+  ]
+};
+
+describe('computeProfitLoss', () => {
+  it.each([
+    { name: 'plain gain', input: { startingBalance: 1000, endingBalance: 1500 }, promo: 0, expected: 500 },
+    { name: 'loss', input: { startingBalance: 1000, endingBalance: 400 }, promo: 0, expected: -600 },
+    { name: 'withdrawal counts as profit', input: { startingBalance: 1000, endingBalance: 800, withdrawal: 500 }, promo: 0, expected: 300 },
+    { name: 'refill is not profit', input: { startingBalance: 1000, endingBalance: 1500, refillAmount: 200 }, promo: 0, expected: 300 },
+    { name: 'promo is part of the starting balance', input: { startingBalance: 1000, endingBalance: 1500 }, promo: 100, expected: 400 },
+    { name: 'strings and blanks from forms', input: { startingBalance: '1000', endingBalance: '1250.5', withdrawal: '' }, promo: 0, expected: 250.5 }
+  ])('$name', ({ input, promo, expected }) => {
+    expect(computeProfitLoss(input, { promoAmount: promo })).toBe(expected);
+  });
+});
+
+describe('computeSplits', () => {
+  describe('tax and clicker', () => {
+    it.each([
+      { name: 'account rate', account: { playerPercentage: 40 }, settings: { taxRate: 10, clickerPercentage: 50 }, expected: 360 },
+      { name: 'clicker rate', account: {}, settings: { taxRate: 10, clickerPercentage: 50 }, expected: 450 },
+      { name: 'default rate', account: {}, settings: { taxRate: 10 }, expected: 270 },
+      { name: 'zero account rate falls back', account: { playerPercentage: 0 }, settings: { taxRate: 10, clickerPercentage: 50 }, expected: 450 }
+    ])('pays the clicker at the $name', ({ account, settings, expected }) => {
+      const splits = split(account, { settings });
+      expect(splits.taxableAmount).toBe(100);
+      expect(splits.netAfterTax).toBe(900);
+      expect(splits.clickerAmount).toBe(expected);
+    });
+
+  });
+
+  describe('account holder', () => {
+    it.each([
+      { name: 'percentage and flat', agent: { commissionPercentage: 20, flatCommission: 5 }, expected: 205 },
+      { name: 'percentage only', agent: { commissionPercentage: 15 }, expected: 150 },
+      { name: 'no holder', agent: null, expected: 0 }
+    ])('$name', ({ agent, expected }) => {
+      expect(split({}, { agent }).accHolderAmount).toBe(expected);
+    });
+  });
+
+  describe('broker way', () => {
+    it.each([
+      { name: 'percentage', broker: { commissionType: 'percentage', commissionPercentage: 10 } as SplitBroker, expected: 100 },
+      { name: 'flat', broker: { commissionType: 'flat', flatCommission: 50 } as SplitBroker, expected: 50 },
+      { name: 'both', broker: { commissionType: 'both', commissionPercentage: 10, flatCommission: 25 } as SplitBroker, expected: 125 },
+      { name: 'no commission type', broker: { commissionPercentage: 10 } as SplitBroker, expected: 0 }
+    ])('default terms: $name', ({ broker, expected }) => {
+      expect(split({ brokerId: 'b1' }, { broker }).brokerAmount).toBe(expected);
+    });
+
+  });
+
+  describe('broker scenarios', () => {
+    it.each([
+      { name: 'no referral or funding', account: {}, expected: 50, scenario: 'Accounts Brokered (No Referral & No Funding)' },
+      { name: 'an account referral %', account: { referralPercentage: 2 }, expected: 60, scenario: 'Accounts Brokered (With a Referral But No Funding)' },
+      { name: 'a referrer and a funder', account: { referredById: 'r1', fundedById: 'f1' }, expected: 70, scenario: 'Accounts Brokered (With a Referral & Funding)' },
+      { name: 'a funder only', account: { fundedById: 'f1' }, expected: 80, scenario: 'Accounts Brokered & Funded' }
+    ])('scenario for $name', ({ account, expected, scenario }) => {
+      const splits = split({ brokerId: 'b1', ...account }, { broker: scenarioBroker });
+      expect(splits.brokerAmount).toBe(expected);
+      expect(splits.scenario).toBe(scenario);
+    });
+
+    it('reads legacy scenario labels with the broker default terms', () => {
+      const broker: SplitBroker = {
+        commissionType: 'percentage',
+        commissionPercentage: 12,
+        specialScenarios: ['Accounts Brokered (No Referral & No Funding)']
+      };
+      const splits = split({ brokerId: 'b1' }, { broker });
+      expect(splits.brokerAmount).toBe(120);
+      expect(splits.scenario).toBe('Accounts Brokered (No Referral & No Funding)');
+    });
+
+    it('prices a scenario on net after tax when it says so', () => {
+      const broker: SplitBroker = {
+        commissionType: 'percentage',
+        specialScenarios: [{ key: 'brokeredOnly', commissionType: 'percentage', commissionPercentage: 10, flatCommission: 0, base: 'net' }]
+      };
+      expect(split({ brokerId: 'b1' }, { broker }).brokerAmount).toBe(90);
+    });
+
+    it.each([
+      { name: 'flat', rule: { commissionType: 'flat', commissionPercentage: 0, flatCommission: 35, base: 'gross' }, expected: 35 },
+      { name: 'both on gross', rule: { commissionType: 'both', commissionPercentage: 3, flatCommission: 20, base: 'gross' }, expected: 50 },
+      { name: 'both on net', rule: { commissionType: 'both', commissionPercentage: 10, flatCommission: 20, base: 'net' }, expected: 110 }
+    ] as { name: string; rule: Omit<ScenarioRule, 'key'>; expected: number }[])('prices a $name scenario on its own terms', ({ rule, expected }) => {
+      const broker: SplitBroker = { commissionType: 'percentage', commissionPercentage: 1, specialScenarios: [{ key: 'brokeredFunded', ...rule }] };
+      expect(split({ brokerId: 'b1', fundedById: 'f1' }, { broker }).brokerAmount).toBe(expected);
+    });
+
+    it('falls back to the broker terms when no scenario fits the account', () => {
+      const broker: SplitBroker = { ...scenarioBroker, specialScenarios: scenarioBroker.specialScenarios!.slice(3) };
+      const splits = split({ brokerId: 'b1' }, { broker });
+      expect(splits.brokerAmount).toBe(10);
+      expect(splits.scenario).toBeNull();
+      expect(splits.lines.find((line) => line.party === 'broker')?.rule).toBe('1% of gross (broker terms)');
+    });
+
+    it('names the scenario on the Broker Way line', () => {
+      const splits = split({ brokerId: 'b1', fundedById: 'f1' }, { broker: scenarioBroker });
+      expect(splits.lines.find((line) => line.party === 'broker')?.rule).toBe('8% of gross (scenario: Accounts Brokered & Funded)');
+    });
+
+    it('ignores labels it does not know', () => {
+      const broker: SplitBroker = { commissionType: 'percentage', commissionPercentage: 12, specialScenarios: ['Something else'] };
+      const splits = split({ brokerId: 'b1' }, { broker });
+      expect(splits.brokerAmount).toBe(120);
+      expect(splits.scenario).toBeNull();
+    });
+  });
+
+  describe('funder way', () => {
+    const fundedBy: SplitBroker = { commissionType: 'percentage', commissionPercentage: 4 };
+
+    it.each([
+      { name: 'the funder terms', account: { fundedById: 'f1' }, roles: { fundedBy }, expected: 40 },
+      { name: 'nothing without a funder', account: {}, roles: { fundedBy }, expected: 0 },
+      { name: 'nothing when the funder is not loaded', account: { fundedById: 'f1' }, roles: {}, expected: 0 }
+    ] as { name: string; account: SplitAccount; roles: SplitRoles; expected: number }[])('pays $name', ({ account, roles, expected }) => {
+      expect(split(account, { roles }).funderWayAmount).toBe(expected);
+    });
+  });
+
+  describe('referral way', () => {
+    const referredBy: SplitBroker = { referralPercentage: 3, referralFlat: 10 };
+
+    it.each([
+      { name: 'the referrer terms', account: { referredById: 'r1' }, expected: 40 },
+      { name: 'the account referral % over the referrer terms', account: { referredById: 'r1', referralPercentage: 2 }, expected: 20 },
+      { name: 'the account referral % with no referrer', account: { referralPercentage: 2 }, expected: 20 },
+      { name: 'nothing without a referral', account: {}, expected: 0 }
+    ] as { name: string; account: SplitAccount; expected: number }[])('pays $name', ({ account, expected }) => {
+      expect(split(account, { roles: { referredBy } }).referralAmount).toBe(expected);
+    });
+  });
+
+  describe('account roles and overrides', () => {
+    const roles: SplitRoles = {
+      brokeredBy: { commissionType: 'percentage', commissionPercentage: 1 },
+      fundedBy: { commissionType: 'percentage', commissionPercentage: 4 },
+      referredBy: { referralPercentage: 3, referralFlat: 10 }
+    };
+    const parties = { brokeredById: 'b1', fundedById: 'f1', referredById: 'r1' };
+
+    it.each([
+      { name: 'flat', overrides: { brokeredOverrideMode: 'flat', brokeredOverrideFlat: 40 }, expected: 40 },
+      { name: 'percentage of net', overrides: { brokeredOverrideMode: 'percentage', brokeredOverrideType: 'net', brokeredOverridePct: 10 }, expected: 90 },
+      { name: 'both', overrides: { brokeredOverrideMode: 'both', brokeredOverridePct: 2, brokeredOverrideFlat: 5 }, expected: 25 }
+    ] as { name: string; overrides: SplitAccount; expected: number }[])('an account override ($name) beats the scenario', ({ overrides, expected }) => {
+      const splits = split({ brokerId: 'b1', ...overrides }, { broker: scenarioBroker });
+      expect(splits.brokerAmount).toBe(expected);
+      expect(splits.scenario).toBeNull();
+    });
+
+    it.each([
+      { name: 'the brokered-by role', account: { brokerId: 'b1', brokeredById: 'b2' }, roles: { brokeredBy: { commissionType: 'percentage', commissionPercentage: 9 } as SplitBroker }, expected: 90 },
+      { name: 'the broker when it holds the role', account: { brokerId: 'b1', brokeredById: 'b1' }, roles: {}, expected: 100 },
+      { name: 'nobody when the role is not loaded', account: { brokerId: 'b1', brokeredById: 'b2' }, roles: {}, expected: 0 }
+    ])('is paid to $name', ({ account, roles, expected }) => {
+      const broker: SplitBroker = { commissionType: 'percentage', commissionPercentage: 10 };
+      expect(split(account, { broker, roles }).brokerAmount).toBe(expected);
+    });
+
+    it.each([
+      { name: 'brokered, percentage of gross by default', overrides: { brokeredOverrideMode: 'percentage', brokeredOverridePct: 10 }, field: 'brokerAmount', expected: 100 },
+      { name: 'brokered, percentage of net', overrides: { brokeredOverrideMode: 'percentage', brokeredOverrideType: 'net', brokeredOverridePct: 10 }, field: 'brokerAmount', expected: 90 },
+      { name: 'funded, flat', overrides: { fundedOverrideMode: 'flat', fundedOverrideFlat: 40 }, field: 'funderWayAmount', expected: 40 },
+      { name: 'funded, percentage of net', overrides: { fundedOverrideMode: 'percentage', fundedOverrideType: 'net', fundedOverridePct: 10 }, field: 'funderWayAmount', expected: 90 },
+      { name: 'funded, both on gross', overrides: { fundedOverrideMode: 'both', fundedOverridePct: 2, fundedOverrideFlat: 5 }, field: 'funderWayAmount', expected: 25 },
+      { name: 'referred, flat over the account referral %', overrides: { referralPercentage: 2, referredOverrideMode: 'flat', referredOverrideFlat: 15 }, field: 'referralAmount', expected: 15 },
+      { name: 'referred, both on net', overrides: { referredOverrideMode: 'both', referredOverrideType: 'net', referredOverridePct: 5, referredOverrideFlat: 10 }, field: 'referralAmount', expected: 55 }
+    ] as { name: string; overrides: SplitAccount; field: 'brokerAmount' | 'funderWayAmount' | 'referralAmount'; expected: number }[])(
+      'pays the override for $name',
+      ({ overrides, field, expected }) => {
+        expect(split({ ...parties, ...overrides }, { roles })[field]).toBe(expected);
+      }
+    );
+
+    it('only changes the role it is set for', () => {
+      const splits = split({ ...parties, fundedOverrideMode: 'flat', fundedOverrideFlat: 40 }, { roles });
+      expect(splits.brokerAmount).toBe(10);
+      expect(splits.funderWayAmount).toBe(40);
+      expect(splits.referralAmount).toBe(40);
+    });
+
+    it('ignores a referral override when nobody referred the account', () => {
+      const account: SplitAccount = { referralPercentage: 2, referredOverrideMode: 'flat', referredOverrideFlat: 15 };
+      expect(split(account, { roles }).referralAmount).toBe(20);
+    });
+
+    it('pays each role to its own party', () => {
+      const splits = split(parties, { roles });
+      expect(splits.lines.filter((line) => ['broker', 'funder', 'referral'].includes(line.party)).map((line) => [line.label, line.amount]))
+        .toEqual([['Broker Way', 10], ['Funder Way', 40], ['Referral Way', 40]]);
+    });
+  });
+
+  describe('company and rounding', () => {
+    it('gives the company what is left', () => {
+      const splits = split(
+        { brokerId: 'b1', fundedById: 'f1', referralPercentage: 2 },
+        {
+          agent: { commissionPercentage: 20 },
+          broker: { commissionType: 'percentage', commissionPercentage: 10 },
+          roles: { fundedBy: { commissionType: 'flat', flatCommission: 30 } }
+        }
+      );
+      // 1000 - 100 tax - 270 clicker - 200 holder - 100 broker - 30 funder - 20 referral
+      expect(splits.companyAmount).toBe(280);
+      expect(splits.lines.map((line) => line.party)).toEqual(['tax', 'clicker', 'accHolder', 'broker', 'funder', 'referral', 'company']);
+    });
+
+    it.each([
+      { name: 'odd cents', startingBalance: 1000, endingBalance: 1333.33, taxRate: 7.5, playerPercentage: 33.3 },
+      { name: 'a loss', startingBalance: 1000, endingBalance: 876.54, taxRate: 12.5, playerPercentage: 45 },
+      { name: 'a tiny gain', startingBalance: 100, endingBalance: 100.01, taxRate: 10, playerPercentage: 30 }
+    ])('keeps full precision and still adds up on $name', ({ startingBalance, endingBalance, taxRate, playerPercentage }) => {
+      const splits = computeSplits(
+        { startingBalance, endingBalance },
+        { playerPercentage, brokerId: 'b1' },
+        { commissionPercentage: 17, flatCommission: 0.35 },
+        { commissionType: 'both', commissionPercentage: 3.3, flatCommission: 1.1 },
+        { taxRate }
+      );
+      const profit = endingBalance - startingBalance;
+      // Nothing is rounded here; pages round when they display
+      expect(splits.taxableAmount).toBe((profit * taxRate) / 100);
+      expect(splits.clickerAmount).toBe((profit - (profit * taxRate) / 100) * (playerPercentage / 100));
+      const total = splits.lines.reduce((sum, line) => sum + line.amount, 0);
+      expect(total).toBeCloseTo(splits.profitLoss, 10);
+    });
+  });
+});
+
+describe('terms in force on the entry date', () => {
+  // Every party's deal changes on 2025-02-01
+  const dated = {
+    agent: { commissionPercentage: 30, termsHistory: [{ effectiveFrom: '', commissionPercentage: 10 }, { effectiveFrom: '2025-02-01', commissionPercentage: 30 }] },
+    broker: {
+      commissionType: 'percentage',
+      commissionPercentage: 15,
+      termsHistory: [{ effectiveFrom: '', commissionPercentage: 10 }, { effectiveFrom: '2025-02-01', commissionPercentage: 15 }]
+    } as SplitBroker,
+    roles: {
+      fundedBy: {
+        commissionType: 'percentage',
+        commissionPercentage: 6,
+        termsHistory: [{ effectiveFrom: '', commissionPercentage: 4 }, { effectiveFrom: '2025-02-01', commissionPercentage: 6 }]
+      } as SplitBroker
+    },
+    settings: { taxRate: 10, clickerPercentage: 35, clickerTerms: [{ effectiveFrom: '', percentage: 20 }, { effectiveFrom: '2025-02-01', percentage: 35 }] }
+  };
+  const account: SplitAccount = { brokerId: 'b1', fundedById: 'f1' };
+
+  it.each([
+    { date: '2025-01-15', clicker: 180, accHolder: 100, broker: 100, funder: 40 },
+    { date: '2025-03-01', clicker: 315, accHolder: 300, broker: 150, funder: 60 }
+  ])('prices every party on the terms in force on $date', ({ date, clicker, accHolder, broker, funder }) => {
+    const splits = split(account, { ...dated, date });
+    expect(splits.clickerAmount).toBe(clicker);
+    expect(splits.accHolderAmount).toBe(accHolder);
+    expect(splits.brokerAmount).toBe(broker);
+    expect(splits.funderWayAmount).toBe(funder);
+  });
+
+  it.each([
+    { date: '2025-01-31', clicker: 180, accHolder: 100, broker: 100 },
+    { date: '2025-02-01', clicker: 315, accHolder: 300, broker: 150 }
+  ])('switches terms when only the date moves, on $date', ({ date, clicker, accHolder, broker }) => {
+    const splits = split(account, { ...dated, date });
+    expect(splits.profitLoss).toBe(1000);
+    expect(splits.clickerAmount).toBe(clicker);
+    expect(splits.accHolderAmount).toBe(accHolder);
+    expect(splits.brokerAmount).toBe(broker);
+  });
+
+  it('uses the oldest terms for an entry dated before the first change', () => {
+    const agent = { commissionPercentage: 40, termsHistory: [{ effectiveFrom: '2025-02-01', commissionPercentage: 30 }, { effectiveFrom: '2025-03-01', commissionPercentage: 40 }] };
+    expect(split({}, { agent, date: '2025-01-10' }).accHolderAmount).toBe(300);
+  });
+
+  it('uses the current fields for a party with no history', () => {
+    expect(split({}, { agent: { commissionPercentage: 25 }, date: '2020-01-01' }).accHolderAmount).toBe(250);
+  });
+});
+
+describe('pickOverrides', () => {
+  it('copies only the override fields that are set', () => {
+    expect(pickOverrides({ brokeredOverrideMode: 'flat', brokeredOverrideFlat: 10, fundedOverridePct: null, username: 'x' }))
+      .toEqual({ brokeredOverrideMode: 'flat', brokeredOverrideFlat: 10 });
+  });
+});
+
+describe('splitFields', () => {
+  it('keeps only what is saved on the entry', () => {
+    const fields = splitFields(split({}));
+    expect(Object.keys(fields).sort()).toEqual([
+      'accHolderAmount', 'brokerAmount', 'clickerAmount', 'companyAmount',
+      'funderWayAmount', 'profitLoss', 'referralAmount', 'taxableAmount'
+    ]);
+  });
+});
@@ -0,0 +1,430 @@
+// Commission engine shared by every screen that computes or re-computes an
+// entry's split. Keep this module pure: callers load the account, agent,
+// broker and settings and pass them in, so the same inputs always give the
+// same numbers regardless of which page did the editing.
+
+import { termsAsOf, TermsVersion, WithTermsHistory } from './terms';
+
+export interface SplitEntryInput {
+  date?: string;
+  startingBalance?: number | string;
+  endingBalance?: number | string;
+  withdrawal?: number | string;
+  refillAmount?: number | string;
+}
+
+export type CommissionType = 'percentage' | 'flat' | 'both';
+export type CommissionBase = 'gross' | 'net';
+
+export interface SplitAccount {
+  promoAmount?: number;
+  playerPercentage?: number;
+  referralPercentage?: number;
+  brokerId?: string | null;
+  brokeredById?: string | null;
+  fundedById?: string | null;
+  referredById?: string | null;
+  brokeredOverrideMode?: CommissionType | '';
+  brokeredOverrideType?: CommissionBase | '';
+  brokeredOverridePct?: number;
+  brokeredOverrideFlat?: number;
+  fundedOverrideMode?: CommissionType | '';
+  fundedOverrideType?: CommissionBase | '';
+  fundedOverridePct?: number;
+  fundedOverrideFlat?: number;
+  referredOverrideMode?: CommissionType | '';
+  referredOverrideType?: CommissionBase | '';
+  referredOverridePct?: number;
+  referredOverrideFlat?: number;
+}
+
+const OVERRIDE_KEYS = [
+  'brokeredOverrideMode', 'brokeredOverrideType', 'brokeredOverridePct', 'brokeredOverrideFlat',
+  'fundedOverrideMode', 'fundedOverrideType', 'fundedOverridePct', 'fundedOverrideFlat',
+  'referredOverrideMode', 'referredOverrideType', 'referredOverridePct', 'referredOverrideFlat'
+] as const;
+
+type OverrideFields = Pick<SplitAccount, typeof OVERRIDE_KEYS[number]>;
+
+// Copies the per-account role overrides off a raw account document.
+export function pickOverrides(data: Record<string, unknown>): OverrideFields {
+  const picked: Record<string, unknown> = {};
+  OVERRIDE_KEYS.forEach((key) => {
+    if (data[key] !== undefined && data[key] !== null) picked[key] = data[key];
+  });
+  return picked as OverrideFields;
+}
+
+export interface SplitAgent extends WithTermsHistory {
+  commissionPercentage?: number;
+  flatCommission?: number;
+}
+
+export type ScenarioKey =
+  | 'brokeredOnly'
+  | 'brokeredReferral'
+  | 'brokeredReferralFunded'
+  | 'brokeredFunded'
+  | 'brokeredNoReferral'
+  | 'brokeredWithReferral';
+
+export interface BrokerScenario {
+  key: ScenarioKey;
+  label: string;
+  // null means the scenario does not care whether the role is filled
+  referred: boolean | null;
+  funded: boolean | null;
+}
+
+// Ordered most specific first; the first enabled scenario that matches the
+// account's roles is the one that applies.
+export const BROKER_SCENARIOS: BrokerScenario[] = [
+  { key: 'brokeredOnly', label: 'Accounts Brokered (No Referral & No Funding)', referred: false, funded: false },
+  { key: 'brokeredReferral', label: 'Accounts Brokered (With a Referral But No Funding)', referred: true, funded: false },
+  { key: 'brokeredReferralFunded', label: 'Accounts Brokered (With a Referral & Funding)', referred: true, funded: true },
+  { key: 'brokeredFunded', label: 'Accounts Brokered & Funded', referred: null, funded: true },
+  { key: 'brokeredNoReferral', label: 'Accounts Brokered (No Referral)', referred: false, funded: null },
+  { key: 'brokeredWithReferral', label: 'Accounts Brokered (With a Referral)', referred: true, funded: null }
+];
+
+export interface ScenarioRule {
+  key: ScenarioKey;
+  commissionType: CommissionType;
+  commissionPercentage: number;
+  flatCommission: number;
+  base: CommissionBase;
+}
+
+export interface SplitBroker extends WithTermsHistory {
+  name?: string;
+  commissionType?: CommissionType;
+  commissionPercentage?: number;
+  flatCommission?: number;
+  referralPercentage?: number;
+  referralFlat?: number;
+  // Older brokers stored the scenario labels as plain strings
+  specialScenarios?: (ScenarioRule | string)[];
+}
+
+// The brokers filling each role on the account. brokeredBy falls back to the
+// broker passed for brokerId when the account has no separate brokeredById.
+export interface SplitRoles {
+  brokeredBy?: SplitBroker | null;
+  fundedBy?: SplitBroker | null;
+  referredBy?: SplitBroker | null;
+}
+
+export interface SplitSettings {
+  taxRate: number;
+  // The clicker's own percentage from their user record, used when the
+  // account does not carry a playerPercentage of its own.
+  clickerPercentage?: number;
+  // The clicker's dated percentage history; the version in force on the
+  // entry date replaces clickerPercentage.
+  clickerTerms?: TermsVersion[];
+}
+
+export type SplitParty = 'tax' | 'clicker' | 'accHolder' | 'broker' | 'funder' | 'referral' | 'company';
+
+export interface SplitLine {
+  party: SplitParty;
+  label: string;
+  amount: number;
+  rule: string;
+}
+
+export interface SplitBreakdown {
+  profitLoss: number;
+  taxableAmount: number;
+  netAfterTax: number;
+  clickerAmount: number;
+  accHolderAmount: number;
+  brokerAmount: number;
+  funderWayAmount: number;
+  referralAmount: number;
+  companyAmount: number;
+  // Label of the broker scenario that set the Broker Way terms, if any
+  scenario: string | null;
+  lines: SplitLine[];
+}
+
+export const DEFAULT_CLICKER_PERCENTAGE = 30;
+
+const num = (value: number | string | undefined | null): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+// Dollar amounts as the pages and rule labels show them, e.g. "$1,234.5"
+export const money = (value?: number) => `$${(value || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+// Gross profit for an entry: the account-level promo is treated as part of the
+// starting balance so it is never counted as profit.
+export function computeProfitLoss(entry: SplitEntryInput, account?: SplitAccount | null): number {
+  const effectiveStarting = num(entry.startingBalance) + num(account?.promoAmount);
+  return num(entry.endingBalance) - effectiveStarting + num(entry.withdrawal) - num(entry.refillAmount);
+}
+
+function clickerLine(netAfterTax: number, account: SplitAccount, settings: SplitSettings): SplitLine {
+  const accountPct = account.playerPercentage;
+  const userPct = settings.clickerPercentage;
+  let pct = DEFAULT_CLICKER_PERCENTAGE;
+  let source = 'default';
+  if (typeof accountPct === 'number' && accountPct > 0) {
+    pct = accountPct;
+    source = 'account';
+  } else if (typeof userPct === 'number' && userPct > 0) {
+    pct = userPct;
+    source = 'clicker';
+  }
+  return {
+    party: 'clicker',
+    label: 'Clicker',
+    amount: netAfterTax * (pct / 100),
+    rule: `${pct}% of net after tax (${source} rate)`
+  };
+}
+
+function accHolderLine(profitLoss: number, agent: SplitAgent | null): SplitLine {
+  if (!agent) {
+    return { party: 'accHolder', label: 'Account Holder', amount: 0, rule: 'No account holder on file' };
+  }
+  const pct = num(agent.commissionPercentage);
+  const flat = num(agent.flatCommission);
+  return {
+    party: 'accHolder',
+    label: 'Account Holder',
+    amount: (profitLoss * pct) / 100 + flat,
+    rule: `${pct}% of gross + ${money(flat)} flat`
+  };
+}
+
+interface Terms {
+  mode: CommissionType;
+  pct: number;
+  flat: number;
+  base: CommissionBase;
+  source: string;
+}
+
+type OverrideRole = 'brokered' | 'funded' | 'referred';
+
+// Per-account override for a role, or null when the admin left it on Auto.
+function overrideTerms(account: SplitAccount, role: OverrideRole): Terms | null {
+  const mode = account[`${role}OverrideMode`];
+  if (!mode) return null;
+  return {
+    mode,
+    pct: num(account[`${role}OverridePct`]),
+    flat: num(account[`${role}OverrideFlat`]),
+    base: account[`${role}OverrideType`] || 'gross',
+    source: 'account override'
+  };
+}
+
+function brokerTerms(broker: SplitBroker): Terms | null {
+  if (!broker.commissionType) return null;
+  return {
+    mode: broker.commissionType,
+    pct: num(broker.commissionPercentage),
+    flat: num(broker.flatCommission),
+    base: 'gross',
+    source: 'broker terms'
+  };
+}
+
+// Reads a broker's scenarios into structured rules. Legacy string entries
+// carry no terms of their own, so they inherit the broker's default terms.
+export function normalizeScenarios(broker: SplitBroker): ScenarioRule[] {
+  return (broker.specialScenarios || []).flatMap((raw): ScenarioRule[] => {
+    if (typeof raw !== 'string') return raw?.key ? [raw] : [];
+    const scenario = BROKER_SCENARIOS.find((s) => s.label === raw);
+    if (!scenario) return [];
+    return [{
+      key: scenario.key,
+      commissionType: broker.commissionType || 'percentage',
+      commissionPercentage: num(broker.commissionPercentage),
+      flatCommission: num(broker.flatCommission),
+      base: 'gross'
+    }];
+  });
+}
+
+const matches = (want: boolean | null, has: boolean) => want === null || want === has;
+
+// Picks the broker scenario for the roles filled on the account.
+export function matchScenario(broker: SplitBroker, account: SplitAccount): { scenario: BrokerScenario; rule: ScenarioRule } | null {
+  const rules = normalizeScenarios(broker);
+  if (rules.length === 0) return null;
+  const referred = Boolean(account.referredById || num(account.referralPercentage));
+  const funded = Boolean(account.fundedById);
+  for (const scenario of BROKER_SCENARIOS) {
+    const rule = rules.find((r) => r.key === scenario.key);
+    if (rule && matches(scenario.referred, referred) && matches(scenario.funded, funded)) {
+      return { scenario, rule };
+    }
+  }
+  return null;
+}
+
+function scenarioTerms(broker: SplitBroker, account: SplitAccount): Terms | null {
+  const match = matchScenario(broker, account);
+  if (!match) return null;
+  return {
+    mode: match.rule.commissionType,
+    pct: num(match.rule.commissionPercentage),
+    flat: num(match.rule.flatCommission),
+    base: match.rule.base || 'gross',
+    source: `scenario: ${match.scenario.label}`
+  };
+}
+
+function referralTerms(broker: SplitBroker): Terms | null {
+  const pct = num(broker.referralPercentage);
+  const flat = num(broker.referralFlat);
+  if (!pct && !flat) return null;
+  return {
+    mode: pct && flat ? 'both' : pct ? 'percentage' : 'flat',
+    pct,
+    flat,
+    base: 'gross',
+    source: 'broker referral terms'
+  };
+}
+
+function termsLine(party: SplitParty, label: string, terms: Terms, profitLoss: number, netAfterTax: number): SplitLine {
+  const base = terms.base === 'net' ? netAfterTax : profitLoss;
+  const baseLabel = terms.base === 'net' ? 'net after tax' : 'gross';
+  const pctAmount = (base * terms.pct) / 100;
+  switch (terms.mode) {
+    case 'percentage':
+      return { party, label, amount: pctAmount, rule: `${terms.pct}% of ${baseLabel} (${terms.source})` };
+    case 'flat':
+      return { party, label, amount: terms.flat, rule: `${money(terms.flat)} flat (${terms.source})` };
+    case 'both':
+      return {
+        party,
+        label,
+        amount: pctAmount + terms.flat,
+        rule: `${terms.pct}% of ${baseLabel} + ${money(terms.flat)} flat (${terms.source})`
+      };
+  }
+}
+
+const emptyLine = (party: SplitParty, label: string, rule: string): SplitLine => ({ party, label, amount: 0, rule });
+
+function brokeredByFor(account: SplitAccount, broker: SplitBroker | null, roles: SplitRoles): SplitBroker | null {
+  if (account.brokeredById) {
+    return roles.brokeredBy ?? (account.brokeredById === account.brokerId ? broker : null);
+  }
+  return account.brokerId ? broker : null;
+}
+
+// An account override beats the broker's scenario, which beats the broker's
+// default terms.
+function brokerWayLine(
+  profitLoss: number,
+  netAfterTax: number,
+  account: SplitAccount,
+  brokeredBy: SplitBroker | null
+): SplitLine {
+  const label = 'Broker Way';
+  if (!brokeredBy) return emptyLine('broker', label, 'No broker on account');
+  const terms = overrideTerms(account, 'brokered') || scenarioTerms(brokeredBy, account) || brokerTerms(brokeredBy);
+  if (!terms) return emptyLine('broker', label, 'Broker has no commission type');
+  return termsLine('broker', label, terms, profitLoss, netAfterTax);
+}
+
+function funderWayLine(profitLoss: number, netAfterTax: number, account: SplitAccount, roles: SplitRoles): SplitLine {
+  const label = 'Funder Way';
+  if (!account.fundedById || !roles.fundedBy) return emptyLine('funder', label, 'No funder on account');
+  const terms = overrideTerms(account, 'funded') || brokerTerms(roles.fundedBy);
+  if (!terms) return emptyLine('funder', label, 'Funder has no commission type');
+  return termsLine('funder', label, terms, profitLoss, netAfterTax);
+}
+
+function referralWayLine(profitLoss: number, netAfterTax: number, account: SplitAccount, roles: SplitRoles): SplitLine {
+  const label = 'Referral Way';
+  const override = account.referredById ? overrideTerms(account, 'referred') : null;
+  if (override) return termsLine('referral', label, override, profitLoss, netAfterTax);
+
+  // The account-level referral percentage predates the referred-by role and
+  // still applies whether or not a referrer is linked.
+  const pct = num(account.referralPercentage);
+  if (pct) {
+    return { party: 'referral', label, amount: (profitLoss * pct) / 100, rule: `${pct}% of gross (account referral %)` };
+  }
+
+  const terms = account.referredById && roles.referredBy ? referralTerms(roles.referredBy) : null;
+  if (!terms) return emptyLine('referral', label, 'No referral on account');
+  return termsLine('referral', label, terms, profitLoss, netAfterTax);
+}
+
+export function computeSplits(
+  entry: SplitEntryInput,
+  account: SplitAccount,
+  agent: SplitAgent | null,
+  broker: SplitBroker | null,
+  settings: SplitSettings,
+  roles: SplitRoles = {}
+): SplitBreakdown {
+  // Every party is priced on the terms in force on the entry's date
+  const asOf = entry.date;
+  agent = agent && termsAsOf(agent, asOf);
+  broker = broker && termsAsOf(broker, asOf);
+  roles = {
+    brokeredBy: roles.brokeredBy && termsAsOf(roles.brokeredBy, asOf),
+    fundedBy: roles.fundedBy && termsAsOf(roles.fundedBy, asOf),
+    referredBy: roles.referredBy && termsAsOf(roles.referredBy, asOf)
+  };
+  const clickerPercentage = termsAsOf(
+    { percentage: settings.clickerPercentage, termsHistory: settings.clickerTerms },
+    asOf
+  ).percentage;
+  settings = { ...settings, clickerPercentage: typeof clickerPercentage === 'number' ? clickerPercentage : undefined };
+
+  const profitLoss = computeProfitLoss(entry, account);
+  const taxRate = num(settings.taxRate);
+  const taxableAmount = (profitLoss * taxRate) / 100;
+  const netAfterTax = profitLoss - taxableAmount;
+
+  const tax: SplitLine = { party: 'tax', label: 'Tax', amount: taxableAmount, rule: `${taxRate}% of gross` };
+  const clicker = clickerLine(netAfterTax, account, settings);
+  const accHolder = accHolderLine(profitLoss, agent);
+  const brokeredBy = brokeredByFor(account, broker, roles);
+  const brokerWay = brokerWayLine(profitLoss, netAfterTax, account, brokeredBy);
+  const funderWay = funderWayLine(profitLoss, netAfterTax, account, roles);
+  const referralWay = referralWayLine(profitLoss, netAfterTax, account, roles);
+
+  const companyAmount = profitLoss - taxableAmount - clicker.amount - accHolder.amount
+    - brokerWay.amount - funderWay.amount - referralWay.amount;
+  const company: SplitLine = { party: 'company', label: 'Company', amount: companyAmount, rule: 'Remainder after all other lines' };
+
+  return {
+    profitLoss,
+    taxableAmount,
+    netAfterTax,
+    clickerAmount: clicker.amount,
+    accHolderAmount: accHolder.amount,
+    brokerAmount: brokerWay.amount,
+    funderWayAmount: funderWay.amount,
+    referralAmount: referralWay.amount,
+    companyAmount,
+    scenario: brokeredBy && !overrideTerms(account, 'brokered') ? matchScenario(brokeredBy, account)?.scenario.label ?? null : null,
+    lines: [tax, clicker, accHolder, brokerWay, funderWay, referralWay, company]
+  };
+}
+
+// The subset of a breakdown that is persisted on the entry document.
+export function splitFields(splits: SplitBreakdown) {
+  return {
+    profitLoss: splits.profitLoss,
+    clickerAmount: splits.clickerAmount,
+    accHolderAmount: splits.accHolderAmount,
+    brokerAmount: splits.brokerAmount,
+    funderWayAmount: splits.funderWayAmount,
+    companyAmount: splits.companyAmount,
+    taxableAmount: splits.taxableAmount,
+    referralAmount: splits.referralAmount
+  };
+}
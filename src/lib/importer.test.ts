@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { autoMapColumns, ExistingData, ImportCollection, parseImportFile, planImport, PlannedDoc } from './importer';
+import { vjackRow, VjackEntry } from './vjack';
+
+const existing: ExistingData = {
+  agents: [],
+  brokers: [],
+  users: [{ id: 'u1', uid: 'u1', name: 'Clk', percentage: 50 }],
+  pendingPlayers: [],
+  accounts: [],
+  entries: [],
+  settlements: []
+};
+
+const newIds = () => {
+  let next = 0;
+  return (collection: ImportCollection) => `${collection}-${++next}`;
+};
+
+const planned = (docs: PlannedDoc[], collection: ImportCollection) => docs.filter((d) => d.collection === collection);
+
+// Writes rows the way the dashboard export does and reads them back the way
+// the import wizard does
+async function throughSheet(rows: Record<string, string | number>[]) {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'VJACK');
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return parseImportFile(new File([data], 'vjack.xlsx'));
+}
+
+describe('a VJACK export read back by the import', () => {
+  const exported: VjackEntry = {
+    date: '2025-01-15',
+    accHolderName: 'Jane Doe',
+    accNumber: '4521',
+    startDate: '2025-01-01',
+    brokerName: 'Bob Broker',
+    playerName: 'Clk',
+    promoAmount: 0,
+    startingBalance: 1000,
+    endingBalance: 2000,
+    refillAmount: 0,
+    withdrawal: 0,
+    profitLoss: 1000,
+    taxableAmount: 100,
+    companyAmount: 300,
+    clickerAmount: 450,
+    accHolderAmount: 100,
+    referralAmount: 0,
+    brokerAmount: 50,
+    payments: [
+      { amount: 450, method: 'Zelle', date: '2025-01-20', payee: 'Clk' },
+      { amount: 100, method: 'Cash', date: '2025-01-25', payee: 'Jane Doe' }
+    ],
+    totalOwed: 600,
+    notes: ''
+  };
+
+  it('keeps each payment on its own date and against its payee', async () => {
+    const sheet = await throughSheet([vjackRow(exported, 0)]);
+    const plan = planImport(sheet, autoMapColumns(sheet.header), existing, newIds());
+    const [agent] = planned(plan.docs, 'agents');
+
+    expect(plan.issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+    expect(planned(plan.docs, 'settlements').map((s) => s.data)).toEqual([
+      expect.objectContaining({ partyType: 'clicker', partyId: 'u1', amount: 450, method: 'Zelle', date: '2025-01-20' }),
+      expect.objectContaining({ partyType: 'accHolder', partyId: agent.id, amount: 100, method: 'Cash', date: '2025-01-25' })
+    ]);
+  });
+
+  it('puts the broker back in the Brokered By role', async () => {
+    const sheet = await throughSheet([vjackRow(exported, 0)]);
+    const plan = planImport(sheet, autoMapColumns(sheet.header), existing, newIds());
+    const [broker] = planned(plan.docs, 'brokers');
+    const [account] = planned(plan.docs, 'accounts');
+
+    expect(broker.data.name).toBe('Bob Broker');
+    expect(account.data.brokeredById).toBe(broker.id);
+    expect(account.data).not.toHaveProperty('brokerId');
+    expect(planned(plan.docs, 'entries')[0].data).toMatchObject({ profitLoss: 1000, clickerAmount: 450, brokerAmount: 50 });
+  });
+
+  it('assigns the account to the named clicker', async () => {
+    const sheet = await throughSheet([vjackRow(exported, 0)]);
+    const plan = planImport(sheet, autoMapColumns(sheet.header), existing, newIds());
+    const [account] = planned(plan.docs, 'accounts');
+
+    expect(plan.assignments).toEqual([
+      expect.objectContaining({ accountId: account.id, playerUid: 'u1', playerName: 'Clk', date: '2025-01-01' })
+    ]);
+  });
+});
+
+describe('an imported row with no gross profit', () => {
+  it('works profit out with the withdrawal and promo, as entries do', () => {
+    const header = ['Acc holder name', 'Start date', 'End Date', 'Starting balance', 'Promo $', 'Ending Balance', 'Refill $', 'Total Recived'];
+    const sheet = { header, rows: [['Jane Doe', '2025-01-01', '2025-01-15', '1000', '100', '1500', '200', '400']] };
+    const plan = planImport(sheet, autoMapColumns(header), existing, newIds());
+
+    // 1500 - (1000 + 100) + 400 - 200
+    expect(planned(plan.docs, 'entries')[0].data.profitLoss).toBe(600);
+  });
+});
@@ -0,0 +1,623 @@
+// Spreadsheet import planning. Parsing, column mapping and validation are
+// pure so the wizard can show a dry run of exactly what will be written; the
+// Firestore writes only happen once the admin confirms the plan.
+
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import type { DocumentData } from 'firebase/firestore';
+import { computeProfitLoss } from './commission';
+import { partyKey, Settlement, SettlementPartyType } from './settlements';
+import { parsePaymentMethod } from './vjack';
+
+type RefillSlot = 1 | 2 | 3;
+type PaymentSlot = 1 | 2 | 3 | 4;
+
+export type ImportFieldKey =
+  | 'accHolderName'
+  | 'accNumber'
+  | 'startDate'
+  | 'brokeredBy'
+  | 'fundedBy'
+  | 'referredBy'
+  | 'startingBalance'
+  | 'promoAmount'
+  | 'clickerName'
+  | 'endDate'
+  | 'endingBalance'
+  | 'withdrawalSubmitted'
+  | `refill${RefillSlot}By`
+  | `refill${RefillSlot}Amount`
+  | 'grossProfit'
+  | 'taxAmount'
+  | 'companyAmount'
+  | 'clickerAmount'
+  | 'accHolderAmount'
+  | 'referralAmount'
+  | 'brokerAmount'
+  | 'funderWayAmount'
+  | 'accHolderPromo150'
+  | 'companyFunded'
+  | 'initialsReturnedOut'
+  | 'settledDate'
+  | `payment${PaymentSlot}Amount`
+  | `payment${PaymentSlot}Method`
+  | 'withdrawal'
+  | 'notes';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  aliases: string[];
+  required?: boolean;
+}
+
+// Aliases follow the VJACK sheet written by the dashboard export. Repeated
+// headers are numbered on import, so the second 'Refill $' is 'Refill $ (2)'.
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'accHolderName', label: 'Account Holder', aliases: ['Acc holder name', 'Acc holder', 'Account Holder', 'Accs Holder name'], required: true },
+  { key: 'accNumber', label: 'Account Number', aliases: ['Number'] },
+  { key: 'startDate', label: 'Start Date', aliases: ['Start date', 'Start Date', 'Start'] },
+  { key: 'brokeredBy', label: 'Brokered By', aliases: ['Brokered By', 'Broker', 'Brokered'] },
+  { key: 'fundedBy', label: 'Funded By', aliases: ['Funded By', 'Funder', 'Funded'] },
+  { key: 'referredBy', label: 'Referred By', aliases: ['Referred By', 'Referral By', 'Referral'] },
+  { key: 'startingBalance', label: 'Starting Balance', aliases: ['Starting balance', 'Accs Holder existing balance'] },
+  { key: 'promoAmount', label: 'Promo Amount', aliases: ['Promo $', 'Promo'] },
+  { key: 'clickerName', label: 'Clicker Name', aliases: ['Clicker Name', 'Clicker'] },
+  { key: 'endDate', label: 'Entry Date', aliases: ['End Date', 'End date', 'End'] },
+  { key: 'withdrawalSubmitted', label: 'Withdrawal Submitted', aliases: ['Withdrawal submitted'] },
+  { key: 'endingBalance', label: 'Ending Balance', aliases: ['Ending Balance', 'Ending balance'] },
+  { key: 'refill1By', label: 'Refill 1 By', aliases: ['Refill By 1'] },
+  { key: 'refill1Amount', label: 'Refill 1 Amount', aliases: ['Refill $'] },
+  { key: 'refill2By', label: 'Refill 2 By', aliases: ['Refill By 2'] },
+  { key: 'refill2Amount', label: 'Refill 2 Amount', aliases: ['Refill $ (2)'] },
+  { key: 'refill3By', label: 'Refill 3 By', aliases: ['Refill By 2 (2)', 'Refill By 3'] },
+  { key: 'refill3Amount', label: 'Refill 3 Amount', aliases: ['Refill $ (3)'] },
+  { key: 'grossProfit', label: 'Gross Profit', aliases: ['Gross Profit', 'Gross'] },
+  { key: 'taxAmount', label: 'Tax', aliases: ['30% tax', 'Tax'] },
+  { key: 'companyAmount', label: 'Company Way', aliases: ['JACK', 'Company Way'] },
+  { key: 'clickerAmount', label: 'Clicker Way', aliases: ['Clicker Way 50% Fix', 'Clicker Way'] },
+  { key: 'accHolderAmount', label: 'Account Holder Way', aliases: ['Accs Holder Way'] },
+  { key: 'accHolderPromo150', label: 'Account Holder Promo', aliases: ['Accs Holder promo $150'] },
+  { key: 'referralAmount', label: 'Referral Way', aliases: ['Referral Way'] },
+  { key: 'brokerAmount', label: 'Broker Way', aliases: ['Broker Way'] },
+  { key: 'funderWayAmount', label: 'Funder Way', aliases: ['Funder Way'] },
+  { key: 'companyFunded', label: 'Company Funded', aliases: ['Company Funded'] },
+  { key: 'initialsReturnedOut', label: 'Initials Returned Out', aliases: ['initials Returned Out'] },
+  { key: 'settledDate', label: 'Payment Date', aliases: ['Settled Date'] },
+  { key: 'payment1Amount', label: 'Payment 1 Amount', aliases: ['Payment $'] },
+  { key: 'payment1Method', label: 'Payment 1 Method', aliases: ['Payment Methods'] },
+  { key: 'payment2Amount', label: 'Payment 2 Amount', aliases: ['Payment $ (2)'] },
+  { key: 'payment2Method', label: 'Payment 2 Method', aliases: ['Payment Methods (2)'] },
+  { key: 'payment3Amount', label: 'Payment 3 Amount', aliases: ['Payment $ (3)'] },
+  { key: 'payment3Method', label: 'Payment 3 Method', aliases: ['Payment Methods (3)'] },
+  { key: 'payment4Amount', label: 'Payment 4 Amount', aliases: ['Payment $ (4)'] },
+  { key: 'payment4Method', label: 'Payment 4 Method', aliases: ['Payment Methods (4)'] },
+  { key: 'withdrawal', label: 'Total Received', aliases: ['Total Recived', 'Total Received'] },
+  { key: 'notes', label: 'Notes', aliases: ['Notes , in between settlement', 'Notes'] }
+];
+
+const REFILL_SLOTS: RefillSlot[] = [1, 2, 3];
+const PAYMENT_SLOTS: PaymentSlot[] = [1, 2, 3, 4];
+
+export type ColumnMapping = Record<ImportFieldKey, string[]>;
+
+export interface ParsedSheet {
+  header: string[];
+  rows: string[][];
+}
+
+// Reads CSV, TSV and XLSX alike; SheetJS sniffs the delimiter for text files.
+export async function parseImportFile(file: File): Promise<ParsedSheet> {
+  const data = await file.arrayBuffer();
+  const workbook = XLSX.read(data, { type: 'array', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const table = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false });
+  const [header = [], ...rows] = table;
+  const seen = new Map<string, number>();
+  return {
+    header: header.map((h) => {
+      const name = String(h).replace(/\uFEFF/g, '').trim();
+      const count = (seen.get(name) || 0) + 1;
+      seen.set(name, count);
+      return count > 1 ? `${name} (${count})` : name;
+    }),
+    rows: rows.map((row) => row.map((cell) => String(cell ?? '').trim()))
+  };
+}
+
+export function autoMapColumns(header: string[]): ColumnMapping {
+  const lower = header.map((h) => h.toLowerCase());
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach((field) => {
+    const match = field.aliases.map((a) => lower.indexOf(a.toLowerCase())).find((i) => i >= 0);
+    mapping[field.key] = match !== undefined ? [header[match]] : [];
+  });
+  return mapping;
+}
+
+// Parses money cells like "$1,200", "(300)" or "-45.5". Returns null for a
+// non-empty cell that holds no number at all.
+export function parseMoney(raw: string): number | null {
+  const s = (raw || '').trim();
+  if (!s) return 0;
+  const sign = s.includes('(') && s.includes(')') ? -1 : 1;
+  const cleaned = s.replace(/[^0-9.-]/g, '');
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? null : sign * num;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+};
+
+// Accepts yyyy-MM-dd, M/D/YYYY and the sheet's "12th Jan 2024" style. Returns
+// null when the cell cannot be read as a date.
+export function parseSheetDate(raw: string): string | null {
+  const s = (raw || '').trim();
+  if (!s) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+
+  const slash = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (slash) {
+    const year = Number(slash[3]) < 100 ? 2000 + Number(slash[3]) : Number(slash[3]);
+    return format(new Date(year, Number(slash[1]) - 1, Number(slash[2])), 'yyyy-MM-dd');
+  }
+
+  const parts = s.replace(/(\d)(st|nd|rd|th)/gi, '$1').split(/[\s,]+/).filter(Boolean);
+  const day = parseInt(parts[0], 10);
+  const month = parts[1] ? MONTHS[parts[1].slice(0, 3).toLowerCase()] : undefined;
+  if (isNaN(day) || month === undefined) return null;
+  const maybeYear = parts[2] ? parseInt(parts[2], 10) : NaN;
+  const year = maybeYear > 1990 && maybeYear < 2100 ? maybeYear : new Date().getFullYear();
+  return format(new Date(year, month, day), 'yyyy-MM-dd');
+}
+
+export const safeId = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const toImportEmail = (name: string) => `${name.toLowerCase().replace(/[^a-z0-9]+/g, '').slice(0, 64)}@vjack.com`;
+
+export type ImportCollection = 'agents' | 'brokers' | 'players' | 'users' | 'accounts' | 'entries' | 'settlements';
+
+export const IMPORT_COLLECTION_LABELS: Record<ImportCollection, string> = {
+  agents: 'Account Holders',
+  brokers: 'Brokers',
+  players: 'Pending Clickers',
+  users: 'Clickers',
+  accounts: 'Accounts',
+  entries: 'Entries',
+  settlements: 'Ledger Payments'
+};
+
+// Firestore caps a write batch at 500 operations, and every document write
+// is paired with its audit record
+export const WRITE_BATCH_SIZE = 200;
+
+export interface PlannedDoc {
+  collection: ImportCollection;
+  id: string;
+  action: 'create' | 'update';
+  label: string;
+  rows: number[];
+  data: DocumentData;
+}
+
+export interface RowIssue {
+  row: number;
+  field?: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+// A clicker the sheet names for an account that someone else (or nobody)
+// runs. These are applied after the documents, through assignAccount, so the
+// assignment history records the handover.
+export interface PlannedAssignment {
+  accountId: string;
+  accountLabel: string;
+  playerUid: string;
+  playerName: string;
+  date: string;
+  rows: number[];
+}
+
+export interface ImportPlan {
+  docs: PlannedDoc[];
+  assignments: PlannedAssignment[];
+  issues: RowIssue[];
+  rowCount: number;
+  skippedRows: number;
+}
+
+export interface ImportDocRef {
+  collection: ImportCollection;
+  id: string;
+}
+
+// One confirmed import run, stored in `imports/{batchId}`. Every document the
+// run writes carries `importBatchId`; whatever a document held before the run
+// merged over it is kept in `imports/{batchId}/previous` for rollback.
+export interface ImportManifest {
+  id?: string;
+  fileName: string;
+  rowCount: number;
+  created: ImportDocRef[];
+  modified: ImportDocRef[];
+  status: 'pending' | 'committed' | 'rolledBack';
+  createdBy: string;
+  createdByName?: string;
+  createdAt?: Date;
+  rolledBackBy?: string;
+  rolledBackByName?: string;
+  rolledBackAt?: Date;
+}
+
+export const previousSnapshotId = (ref: ImportDocRef) => `${ref.collection}__${ref.id}`;
+
+export interface ExistingData {
+  agents: { id: string; name: string }[];
+  brokers: { id: string; name: string }[];
+  users: { id: string; uid: string; name: string; percentage?: number }[];
+  pendingPlayers: { id: string; name: string }[];
+  // Accounts are matched on holder, number and start date, the same way the
+  // VJACK export identifies them, so re-importing an export updates in place
+  accounts: { id: string; agentId?: string; number: string; startDate: string; assignedToPlayerUid?: string | null }[];
+  entries: { id: string; accountId: string; date: string }[];
+  settlements: Pick<Settlement, 'partyType' | 'partyId' | 'entryIds'>[];
+}
+
+// Builds the full write plan without touching Firestore. `newId` supplies ids
+// for documents that would otherwise be created with addDoc.
+export function planImport(
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  existing: ExistingData,
+  newId: (collection: ImportCollection) => string
+): ImportPlan {
+  const docs = new Map<string, PlannedDoc>();
+  const issues: RowIssue[] = [];
+  const byName = (list: { id: string; name: string }[]) =>
+    new Map(list.map((item) => [(item.name || '').trim().toLowerCase(), item.id]));
+  const agentIds = byName(existing.agents);
+  const brokerIds = byName(existing.brokers);
+  const pendingPlayerIds = byName(existing.pendingPlayers);
+  const usersByName = new Map(existing.users.map((u) => [(u.name || '').trim().toLowerCase(), u]));
+  const accountKey = (agentId: string, number: string, startDate: string) =>
+    `${agentId}|${number.toLowerCase()}|${startDate}`;
+  const accountIds = new Map(
+    existing.accounts
+      .filter((a) => a.agentId)
+      .map((a) => [accountKey(a.agentId!, a.number, a.startDate), a.id])
+  );
+  const existingAccountIds = new Set(existing.accounts.map((a) => a.id));
+  const clickerOf = new Map(existing.accounts.map((a) => [a.id, a.assignedToPlayerUid || null]));
+  const assignments: PlannedAssignment[] = [];
+  const entryIds = new Map(existing.entries.map((e) => [`${e.accountId}|${e.date}`, e.id]));
+  const existingEntryIds = new Set(existing.entries.map((e) => e.id));
+  const settledKeys = new Set(
+    existing.settlements.flatMap((s) => (s.entryIds || []).map((id) => `${partyKey(s.partyType, s.partyId)}|${id}`))
+  );
+  const fileRows = new Map<string, number>();
+  let skippedRows = 0;
+
+  const plan = (planned: PlannedDoc) => {
+    const key = `${planned.collection}/${planned.id}`;
+    const current = docs.get(key);
+    if (current) {
+      current.rows.push(...planned.rows);
+      current.data = { ...current.data, ...planned.data };
+    } else {
+      docs.set(key, planned);
+    }
+  };
+
+  sheet.rows.forEach((cells, index) => {
+    const rowNumber = index + 2; // header is row 1
+    const rowIssues: RowIssue[] = [];
+    const cell = (key: ImportFieldKey) => {
+      const column = mapping[key]?.[0];
+      const i = column ? sheet.header.indexOf(column) : -1;
+      return i >= 0 ? (cells[i] || '').trim() : '';
+    };
+    const amount = (key: ImportFieldKey): number => {
+      const raw = cell(key);
+      const value = parseMoney(raw);
+      if (value === null) {
+        rowIssues.push({ row: rowNumber, field: mapping[key][0], message: `"${raw}" is not a number`, severity: 'error' });
+        return 0;
+      }
+      return value;
+    };
+
+    if (cells.every((c) => !c)) return;
+
+    const accHolderName = cell('accHolderName');
+    if (!accHolderName) {
+      issues.push({ row: rowNumber, field: 'Account Holder', message: 'Missing account holder name', severity: 'error' });
+      skippedRows += 1;
+      return;
+    }
+
+    const dateFor = (key: ImportFieldKey, label: string) => {
+      const raw = cell(key);
+      const parsed = parseSheetDate(raw);
+      if (parsed) return parsed;
+      if (raw) {
+        rowIssues.push({ row: rowNumber, field: label, message: `"${raw}" is not a date`, severity: 'error' });
+      } else {
+        rowIssues.push({ row: rowNumber, field: label, message: 'No date given; using today', severity: 'warning' });
+      }
+      return format(new Date(), 'yyyy-MM-dd');
+    };
+
+    const accNumber = cell('accNumber');
+    const startDate = dateFor('startDate', 'Start Date');
+    const endDate = dateFor('endDate', 'Entry Date');
+    const startingBalance = amount('startingBalance');
+    const promoAmount = amount('promoAmount');
+    const endingBalance = amount('endingBalance');
+    const refills = REFILL_SLOTS
+      .map((slot) => ({ by: cell(`refill${slot}By`), amount: amount(`refill${slot}Amount`) }))
+      .filter((refill) => refill.by || refill.amount);
+    const refillAmount = refills.reduce((sum, refill) => sum + refill.amount, 0);
+    const grossProfit = amount('grossProfit');
+    const taxAmount = amount('taxAmount');
+    const companyAmount = amount('companyAmount');
+    const clickerAmount = amount('clickerAmount');
+    const accHolderAmount = amount('accHolderAmount');
+    const referralAmount = amount('referralAmount');
+    const brokerAmount = amount('brokerAmount');
+    const funderWayAmount = amount('funderWayAmount');
+    const accHolderPromo150 = amount('accHolderPromo150');
+    const companyFunded = amount('companyFunded');
+    const withdrawal = amount('withdrawal');
+    const withdrawalSubmitted = cell('withdrawalSubmitted') ? parseSheetDate(cell('withdrawalSubmitted')) || cell('withdrawalSubmitted') : '';
+    const payments = PAYMENT_SLOTS
+      .map((slot) => ({ slot, amount: amount(`payment${slot}Amount`), ...parsePaymentMethod(cell(`payment${slot}Method`)) }))
+      .filter((payment) => payment.amount);
+    // Each method cell carries its own date; 'Settled Date' is only the last
+    const settledDate = payments.length > 0 && cell('settledDate') ? dateFor('settledDate', 'Payment Date') : endDate;
+    const paymentDates = payments.map((payment) => {
+      if (!payment.date) return settledDate;
+      const parsed = parseSheetDate(payment.date);
+      if (!parsed) {
+        rowIssues.push({ row: rowNumber, field: `Payment ${payment.slot} Method`, message: `"${payment.date}" is not a date`, severity: 'error' });
+      }
+      return parsed || settledDate;
+    });
+
+    const rowKey = [accHolderName.toLowerCase(), accNumber.toLowerCase(), startDate, endDate].join('|');
+    const firstRow = fileRows.get(rowKey);
+    if (firstRow) {
+      rowIssues.push({ row: rowNumber, message: `Same account and date as row ${firstRow}`, severity: 'error' });
+    }
+
+    issues.push(...rowIssues);
+    if (rowIssues.some((issue) => issue.severity === 'error')) {
+      skippedRows += 1;
+      return;
+    }
+    fileRows.set(rowKey, rowNumber);
+
+    // Agent
+    const agentKey = accHolderName.toLowerCase();
+    let agentId = agentIds.get(agentKey);
+    if (!agentId) {
+      agentId = newId('agents');
+      agentIds.set(agentKey, agentId);
+      plan({
+        collection: 'agents',
+        id: agentId,
+        action: 'create',
+        label: accHolderName,
+        rows: [rowNumber],
+        data: { name: accHolderName, commissionPercentage: 0, flatCommission: 0, phone: accNumber, createdAt: new Date() }
+      });
+    }
+
+    // Brokers for each role share one lookup, as a broker can fill any role
+    const brokerFor = (key: ImportFieldKey) => {
+      const name = cell(key);
+      if (!name) return null;
+      const brokerKey = name.toLowerCase();
+      let brokerId = brokerIds.get(brokerKey);
+      if (!brokerId) {
+        brokerId = newId('brokers');
+        brokerIds.set(brokerKey, brokerId);
+        plan({
+          collection: 'brokers',
+          id: brokerId,
+          action: 'create',
+          label: name,
+          rows: [rowNumber],
+          data: { name, commissionType: 'both', commissionPercentage: 0, flatCommission: 0, specialScenarios: [], createdAt: new Date() }
+        });
+      }
+      return brokerId;
+    };
+    const brokeredById = brokerFor('brokeredBy');
+    const fundedById = brokerFor('fundedBy');
+    const referredById = brokerFor('referredBy');
+    // 'Brokered By' is the party the export names for the Broker Way, so it
+    // fills that role only. A column left out of the mapping leaves its role
+    // as it is.
+    const mapped = (key: ImportFieldKey) => mapping[key]?.length > 0;
+    const roles = {
+      ...(mapped('brokeredBy') ? { brokeredById } : {}),
+      ...(mapped('fundedBy') ? { fundedById } : {}),
+      ...(mapped('referredBy') ? { referredById } : {})
+    };
+
+    // Clicker: an existing user by name, otherwise a pending player record
+    const clickerName = cell('clickerName');
+    const clickerUser = clickerName ? usersByName.get(clickerName.toLowerCase()) : undefined;
+    const assignedToPlayerUid = clickerUser?.uid || null;
+    if (clickerName && !clickerUser) {
+      const playerKey = clickerName.toLowerCase();
+      if (!pendingPlayerIds.has(playerKey)) {
+        const playerId = newId('players');
+        pendingPlayerIds.set(playerKey, playerId);
+        issues.push({ row: rowNumber, field: 'Clicker Name', message: `No clicker named "${clickerName}"; a pending clicker will be created and needs an invite from the Clickers page`, severity: 'warning' });
+        plan({
+          collection: 'players',
+          id: playerId,
+          action: 'create',
+          label: clickerName,
+          rows: [rowNumber],
+          data: {
+            name: clickerName,
+            email: toImportEmail(clickerName),
+            role: 'player',
+            status: 'pending',
+            percentage: 50,
+            createdAt: new Date()
+          }
+        });
+      }
+    }
+    if (clickerUser && (typeof clickerUser.percentage !== 'number' || clickerUser.percentage <= 0)) {
+      plan({
+        collection: 'users',
+        id: clickerUser.id,
+        action: 'update',
+        label: clickerUser.name,
+        rows: [rowNumber],
+        data: { percentage: 50, updatedAt: new Date() }
+      });
+    }
+
+    // Identity and status are only set on new accounts; an exported account
+    // read back keeps its type, name and lifecycle status.
+    const key = accountKey(agentId, accNumber, startDate);
+    const accountDocId = accountIds.get(key) || `import-${safeId(accHolderName)}-${safeId(accNumber || 'na')}-${startDate}`;
+    accountIds.set(key, accountDocId);
+    const accountExists = existingAccountIds.has(accountDocId);
+    const accountName = accNumber ? `${accHolderName} (${accNumber})` : accHolderName;
+    plan({
+      collection: 'accounts',
+      id: accountDocId,
+      action: accountExists ? 'update' : 'create',
+      label: accountName,
+      rows: [rowNumber],
+      data: {
+        ...(accountExists ? {} : {
+          type: 'legal',
+          name: accountName,
+          status: assignedToPlayerUid ? 'active' : 'unused',
+          // See src/lib/lifecycle.ts; whoever ran the import is on the batch
+          statusHistory: [{ from: null, to: assignedToPlayerUid ? 'active' : 'unused', reason: 'Imported', changedAt: new Date() }],
+          assignedToPlayerUid: null,
+          createdAt: new Date()
+        }),
+        agentId,
+        ...roles,
+        startDate,
+        depositAmount: startingBalance,
+        promoAmount
+      }
+    });
+
+    // Only a named clicker changes who runs the account; a blank cell leaves
+    // it with whoever has it. A new account is theirs from its start date.
+    const currentClicker = clickerOf.get(accountDocId) || null;
+    if (clickerUser && currentClicker !== clickerUser.uid) {
+      clickerOf.set(accountDocId, clickerUser.uid);
+      assignments.push({
+        accountId: accountDocId,
+        accountLabel: accountName,
+        playerUid: clickerUser.uid,
+        playerName: clickerUser.name,
+        date: accountExists || currentClicker ? endDate : startDate,
+        rows: [rowNumber]
+      });
+    }
+
+    const entryDocId = entryIds.get(`${accountDocId}|${endDate}`) || `import-${accountDocId}-${endDate}`;
+    const entryExists = existingEntryIds.has(entryDocId);
+    const clickerUid = assignedToPlayerUid || 'import';
+    plan({
+      collection: 'entries',
+      id: entryDocId,
+      action: entryExists ? 'update' : 'create',
+      label: `${accHolderName} ${endDate}`,
+      rows: [rowNumber],
+      data: {
+        ...(entryExists ? {} : { createdAt: new Date() }),
+        accountId: accountDocId,
+        playerUid: clickerUid,
+        date: endDate,
+        startingBalance,
+        endingBalance,
+        refillAmount,
+        refills,
+        withdrawal,
+        withdrawalSubmitted,
+        profitLoss: grossProfit || computeProfitLoss({ startingBalance, endingBalance, withdrawal, refillAmount }, { promoAmount }),
+        clickerAmount,
+        accHolderAmount,
+        accHolderPromo150,
+        companyAmount,
+        companyFunded,
+        taxableAmount: taxAmount,
+        referralAmount,
+        brokerAmount,
+        funderWayAmount,
+        initialsReturnedOut: cell('initialsReturnedOut'),
+        accountStatus: assignedToPlayerUid ? 'active' : 'unused',
+        complianceReview: 'N/A',
+        notes: cell('notes')
+      }
+    });
+
+    // Payments go back in the ledger against whoever the method cell names.
+    // Anything the ledger already covers for this entry is left alone.
+    const payees: { name: string; partyType: SettlementPartyType; partyId: string | null }[] = [
+      { name: clickerName, partyType: 'clicker', partyId: assignedToPlayerUid },
+      { name: accHolderName, partyType: 'accHolder', partyId: agentId },
+      { name: cell('brokeredBy'), partyType: 'broker', partyId: brokeredById },
+      { name: cell('fundedBy'), partyType: 'broker', partyId: fundedById },
+      { name: cell('referredBy'), partyType: 'broker', partyId: referredById }
+    ];
+    payments.forEach((payment, i) => {
+      const payee = payees.find((p) => p.name && p.name.toLowerCase() === payment.payee.toLowerCase());
+      if (!payee?.partyId) {
+        issues.push({
+          row: rowNumber,
+          field: `Payment ${payment.slot}`,
+          message: payment.payee
+            ? `"${payment.payee}" is not a party on this row; payment not recorded`
+            : 'Payment method does not name who was paid; payment not recorded',
+          severity: 'warning'
+        });
+        return;
+      }
+      if (settledKeys.has(`${partyKey(payee.partyType, payee.partyId)}|${entryDocId}`)) return;
+      plan({
+        collection: 'settlements',
+        id: `${entryDocId}-payment-${payment.slot}`,
+        action: 'create',
+        label: `${payment.payee} ${payment.method} ${payment.amount}`,
+        rows: [rowNumber],
+        data: {
+          partyType: payee.partyType,
+          partyId: payee.partyId,
+          amount: payment.amount,
+          method: payment.method,
+          date: paymentDates[i],
+          entryIds: [entryDocId],
+          recordedBy: 'import',
+          recordedByName: 'Spreadsheet import',
+          notes: '',
+          createdAt: new Date()
+        }
+      });
+    });
+  });
+
+  return {
+    docs: Array.from(docs.values()),
+    assignments: assignments.sort((a, b) => a.date.localeCompare(b.date)),
+    issues: issues.sort((a, b) => a.row - b.row),
+    rowCount: sheet.rows.length,
+    skippedRows
+  };
+}
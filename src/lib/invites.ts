@@ -0,0 +1,121 @@
+// Single-use invite codes for pending clickers and for account holders and
+// brokers joining their portal. Only a SHA-256 hash of the
+// code is stored, as `invites/{hash}`, so the code itself exists only in the
+// link the admin hands over. Redeeming runs server-side in /api/invite, which
+// creates the login with the password the invitee picks.
+
+import { collection, deleteField, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { addDays } from 'date-fns';
+import { db } from '../firebase';
+import { recordAudit } from './audit';
+
+export const INVITE_TTL_DAYS = 7;
+
+export interface InvitePreview {
+  name: string;
+  email: string;
+  expiresAt: string;
+}
+
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashInviteCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const inviteLink = (code: string) => `${window.location.origin}/invite/${code}`;
+
+// Portal logins and the record each one is linked to
+const PORTAL_PARTIES = {
+  agent: { collection: 'agents', idField: 'agentId' },
+  broker: { collection: 'brokers', idField: 'brokerId' }
+} as const;
+
+type PortalParty = (typeof PORTAL_PARTIES)[keyof typeof PORTAL_PARTIES];
+
+// Writes a new invite and revokes any earlier one for the same person,
+// identified by `ownerField` (playerId, agentId or brokerId). `stampExpiry`
+// records the expiry on the record the invite is for, so its card can show it,
+// and removes its `clear` fields from that record.
+async function writeInvite(
+  ownerField: 'playerId' | PortalParty['idField'],
+  fields: Record<string, unknown> & { name: string; email: string },
+  stampExpiry: { collection: string; id: string; field: string; clear?: string[] },
+  createdBy: string
+): Promise<{ code: string; expiresAt: Date }> {
+  const code = generateInviteCode();
+  const expiresAt = addDays(new Date(), INVITE_TTL_DAYS);
+  const previous = await getDocs(query(collection(db, 'invites'), where(ownerField, '==', fields[ownerField])));
+
+  const batch = writeBatch(db);
+  previous.docs.forEach((invite) => batch.delete(invite.ref));
+  batch.set(doc(db, 'invites', await hashInviteCode(code)), {
+    ...fields,
+    createdBy,
+    createdAt: new Date(),
+    expiresAt,
+    usedAt: null
+  });
+  const stamp = {
+    [stampExpiry.field]: expiresAt,
+    ...Object.fromEntries((stampExpiry.clear || []).map((field) => [field, deleteField()])),
+    updatedAt: new Date()
+  };
+  const stampRef = doc(db, stampExpiry.collection, stampExpiry.id);
+  batch.update(stampRef, stamp);
+  recordAudit(batch, 'update', stampRef, null, stamp);
+  await batch.commit();
+
+  return { code, expiresAt };
+}
+
+// Issues a fresh invite for a pending clicker and revokes any earlier one.
+// Pending clickers made before invites carry a plaintext `password`, which the
+// invite replaces; scripts/strip_player_passwords.mjs clears the rest.
+export const issueInvite = (player: { id: string; name: string; email: string }, createdBy: string) =>
+  writeInvite(
+    'playerId',
+    { playerId: player.id, name: player.name, email: player.email },
+    { collection: 'players', id: player.id, field: 'inviteExpiresAt', clear: ['password'] },
+    createdBy
+  );
+
+// Issues a portal login invite for an account holder or broker and revokes any earlier one
+export function issuePortalInvite(
+  role: keyof typeof PORTAL_PARTIES,
+  party: { id: string; name: string; email: string },
+  createdBy: string
+) {
+  const { collection: partyCollection, idField } = PORTAL_PARTIES[role];
+  return writeInvite(
+    idField,
+    { role, [idField]: party.id, name: party.name, email: party.email },
+    { collection: partyCollection, id: party.id, field: 'portalInviteExpiresAt' },
+    createdBy
+  );
+}
+
+async function callInvite<T>(init: RequestInit, code: string): Promise<T> {
+  const response = await fetch(`/api/invite?code=${encodeURIComponent(code)}`, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Invite request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export const lookupInvite = (code: string) => callInvite<InvitePreview>({ method: 'GET' }, code);
+
+export const redeemInvite = (code: string, password: string) =>
+  callInvite<{ email: string }>(
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password })
+    },
+    code
+  );
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { auth } from '../firebase';
+import {
+  ACCOUNT_STATUSES,
+  ACCOUNT_TRANSITIONS,
+  AccountStatus,
+  accountStatus,
+  accountStatusUpdate,
+  canChangeStatus,
+  initialAccountStatus,
+  statusHistory
+} from './lifecycle';
+
+vi.mock('../firebase', () => ({ auth: { currentUser: { uid: 'staff1' } }, db: {} }));
+
+const signedIn = auth as { currentUser: { uid: string } | null };
+
+afterEach(() => {
+  signedIn.currentUser = { uid: 'staff1' };
+});
+
+describe('accountStatus', () => {
+  it.each([
+    { name: 'a stored status', account: { status: 'limited' }, expected: 'limited' },
+    { name: 'a legacy inactive account', account: { status: 'inactive' }, expected: 'paused' },
+    { name: 'a legacy unused account with a clicker', account: { status: 'unused', assignedToPlayerUid: 'c1' }, expected: 'assigned' },
+    { name: 'an unused account', account: { status: 'unused' }, expected: 'unused' },
+    { name: 'an account with no status', account: {}, expected: 'unused' },
+    { name: 'an unknown status with a clicker', account: { status: 'odd', assignedToPlayerUid: 'c1' }, expected: 'assigned' }
+  ])('reads $name', ({ account, expected }) => {
+    expect(accountStatus(account)).toBe(expected);
+  });
+});
+
+describe('canChangeStatus', () => {
+  const allowed = ACCOUNT_STATUSES.flatMap((from) => ACCOUNT_TRANSITIONS[from].map((to) => [from, to]));
+
+  it.each(allowed)('lets %s go to %s', (from, to) => {
+    expect(canChangeStatus(from, to)).toBe(true);
+  });
+
+  it.each([
+    ['unused', 'active'],
+    ['unused', 'paused'],
+    ['active', 'unused'],
+    ['active', 'assigned'],
+    ['closed', 'active'],
+    ['closed', 'unused'],
+    ['paused', 'paused']
+  ] as [AccountStatus, AccountStatus][])('does not let %s go to %s', (from, to) => {
+    expect(canChangeStatus(from, to)).toBe(false);
+  });
+});
+
+describe('accountStatusUpdate', () => {
+  it('moves the account and notes who did it and why', () => {
+    const update = accountStatusUpdate({ status: 'active' }, 'paused', '  Clicker away  ');
+    expect(update.status).toBe('paused');
+    expect(update.updatedAt).toBeInstanceOf(Date);
+    expect(update.statusHistory).toBeDefined();
+  });
+
+  it('starts from the status read off a legacy account', () => {
+    expect(accountStatusUpdate({ status: 'inactive' }, 'active', 'Back on').status).toBe('active');
+    expect(() => accountStatusUpdate({ status: 'unused', assignedToPlayerUid: 'c1' }, 'assigned', 'Again')).toThrow(
+      'An account cannot go from Assigned to Assigned'
+    );
+  });
+
+  it('refuses a move the lifecycle does not allow', () => {
+    expect(() => accountStatusUpdate({ status: 'closed' }, 'active', 'Reopen')).toThrow('An account cannot go from Closed to Active');
+  });
+
+  it('needs a reason', () => {
+    expect(() => accountStatusUpdate({ status: 'active' }, 'paused', '   ')).toThrow('Give a reason for the status change');
+  });
+
+  it('needs someone signed in', () => {
+    signedIn.currentUser = null;
+    expect(() => accountStatusUpdate({ status: 'active' }, 'paused', 'Away')).toThrow('Sign in required');
+  });
+});
+
+describe('initialAccountStatus', () => {
+  it('records where a new account started', () => {
+    const fields = initialAccountStatus('unused', 'Created');
+    expect(fields.status).toBe('unused');
+    expect(fields.statusHistory).toEqual([
+      expect.objectContaining({ from: null, to: 'unused', reason: 'Created', changedBy: 'staff1' })
+    ]);
+  });
+});
+
+describe('statusHistory', () => {
+  it('lists changes newest first, whether saved as Timestamps or Dates', () => {
+    const history = statusHistory({
+      statusHistory: [
+        { from: null, to: 'unused', reason: 'Created', changedBy: 'a', changedAt: Timestamp.fromDate(new Date('2025-01-01T00:00:00Z')) },
+        { from: 'assigned', to: 'active', reason: 'First entry', changedBy: 'c1', changedAt: new Date('2025-01-03T00:00:00Z') },
+        { from: 'unused', to: 'assigned', changedAt: Timestamp.fromDate(new Date('2025-01-02T00:00:00Z')) }
+      ]
+    });
+    expect(history.map((change) => change.to)).toEqual(['active', 'assigned', 'unused']);
+    expect(history[1]).toMatchObject({ from: 'unused', reason: '', changedBy: '' });
+  });
+});
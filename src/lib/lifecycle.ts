@@ -0,0 +1,104 @@
+// Account lifecycle. An account starts unused, is assigned to a clicker, goes
+// active with its first entry, and may be paused, limited by the site or
+// closed. Status only changes through accountStatusUpdate, which checks the
+// move is allowed and appends it to the account's statusHistory with a reason,
+// so pages that list accounts read the stored status and never write it.
+
+import { arrayUnion, DocumentData, Timestamp } from 'firebase/firestore';
+import { auth } from '../firebase';
+
+export type AccountStatus = 'unused' | 'assigned' | 'active' | 'paused' | 'limited' | 'closed';
+
+export const ACCOUNT_STATUSES: AccountStatus[] = ['unused', 'assigned', 'active', 'paused', 'limited', 'closed'];
+
+export const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+  unused: 'Unused',
+  assigned: 'Assigned',
+  active: 'Active',
+  paused: 'Paused',
+  limited: 'Limited',
+  closed: 'Closed'
+};
+
+// Where each status can go next. Closing is final short of reopening the
+// account as paused, which needs a reason like any other move.
+export const ACCOUNT_TRANSITIONS: Record<AccountStatus, AccountStatus[]> = {
+  unused: ['assigned', 'closed'],
+  assigned: ['unused', 'active', 'paused', 'closed'],
+  active: ['paused', 'limited', 'closed'],
+  paused: ['active', 'limited', 'closed'],
+  limited: ['active', 'paused', 'closed'],
+  closed: ['paused']
+};
+
+// Statuses an account is no longer being worked in
+export const STOPPED_STATUSES: AccountStatus[] = ['paused', 'limited', 'closed'];
+
+// Statuses a clicker may move their account out of; limited and closed are
+// for staff to lift (firestore.rules enforce the same)
+export const CLICKER_MOVABLE_STATUSES: AccountStatus[] = ['assigned', 'active', 'paused'];
+
+export interface StatusChange {
+  from: AccountStatus | null;
+  to: AccountStatus;
+  reason: string;
+  changedBy: string;
+  changedAt: Date;
+}
+
+export interface WithAccountStatus {
+  status?: string;
+  assignedToPlayerUid?: string | null;
+  statusHistory?: DocumentData[];
+}
+
+// Accounts saved before the lifecycle were 'inactive' when a clicker stopped
+// working them, and stayed 'unused' after being assigned
+export function accountStatus(account: WithAccountStatus): AccountStatus {
+  if (account.status === 'inactive') return 'paused';
+  if (ACCOUNT_STATUSES.includes(account.status as AccountStatus) && account.status !== 'unused') {
+    return account.status as AccountStatus;
+  }
+  return account.assignedToPlayerUid ? 'assigned' : 'unused';
+}
+
+export const canChangeStatus = (from: AccountStatus, to: AccountStatus) => ACCOUNT_TRANSITIONS[from].includes(to);
+
+// Newest first
+export function statusHistory(account: WithAccountStatus): StatusChange[] {
+  return (account.statusHistory || [])
+    .map((change) => ({
+      from: change.from || null,
+      to: change.to,
+      reason: change.reason || '',
+      changedBy: change.changedBy || '',
+      changedAt: change.changedAt instanceof Timestamp ? change.changedAt.toDate() : new Date(change.changedAt)
+    }))
+    .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+}
+
+function statusChange(from: AccountStatus | null, to: AccountStatus, reason: string) {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+  return { from, to, reason, changedBy: user.uid, changedAt: new Date() };
+}
+
+// Fields for a new account
+export function initialAccountStatus(to: AccountStatus, reason: string): DocumentData {
+  return { status: to, statusHistory: [statusChange(null, to, reason)] };
+}
+
+// Fields that move an account to `to`, for the caller to write along with
+// anything else it changes. Throws when the lifecycle does not allow the move.
+export function accountStatusUpdate(account: WithAccountStatus, to: AccountStatus, reason: string): DocumentData {
+  const from = accountStatus(account);
+  if (!canChangeStatus(from, to)) {
+    throw new Error(`An account cannot go from ${ACCOUNT_STATUS_LABELS[from]} to ${ACCOUNT_STATUS_LABELS[to]}`);
+  }
+  if (!reason.trim()) throw new Error('Give a reason for the status change');
+  return {
+    status: to,
+    statusHistory: arrayUnion(statusChange(from, to, reason.trim())),
+    updatedAt: new Date()
+  };
+}
@@ -0,0 +1,57 @@
+// Live reads. Pages that several people work in at once subscribe to the
+// collections they show instead of refetching after their own writes, so an
+// entry saved by a clicker or an assignment made by another admin shows up
+// without a reload.
+
+import { useEffect, useRef, useState } from 'react';
+import { onSnapshot, Query, QuerySnapshot } from 'firebase/firestore';
+
+// Calls onChange with the latest snapshot of every query, once all of them
+// have loaded and again whenever any of them changes. Updates are applied one
+// at a time and in order, since onChange usually loads more data before it
+// sets state. The listeners are replaced whenever `key` changes, so anything
+// the queries or onChange depend on (a date filter, the signed-in user) goes
+// into it. Returns when the data was last updated.
+export function useLiveQueries(
+  key: string,
+  queries: Query[],
+  onChange: (snapshots: QuerySnapshot[]) => void | Promise<void>
+): Date | null {
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const queriesRef = useRef(queries);
+  const onChangeRef = useRef(onChange);
+  queriesRef.current = queries;
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    let active = true;
+    let applying = Promise.resolve();
+    const latest: (QuerySnapshot | undefined)[] = queriesRef.current.map(() => undefined);
+
+    const unsubscribes = queriesRef.current.map((liveQuery, i) =>
+      onSnapshot(
+        liveQuery,
+        (snapshot) => {
+          latest[i] = snapshot;
+          if (latest.some((s) => !s)) return;
+          const snapshots = [...latest] as QuerySnapshot[];
+          applying = applying
+            .then(async () => {
+              if (!active) return;
+              await onChangeRef.current(snapshots);
+              if (active) setUpdatedAt(new Date());
+            })
+            .catch((error) => console.error('Error applying live update:', error));
+        },
+        (error) => console.error('Error listening for updates:', error)
+      )
+    );
+
+    return () => {
+      active = false;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [key]);
+
+  return updatedAt;
+}
@@ -0,0 +1,77 @@
+// Staff permissions. Every admin user carries an adminRole that names a set
+// of permissions; admins created before roles existed have none and keep
+// full access as owners. firestore.rules and api/_lib/permissions.js repeat
+// the role table, so change all three together.
+
+export const PERMISSIONS = {
+  viewReports: 'View the dashboard, settlements and import history',
+  manageAccounts: 'Add, edit and delete accounts, account holders and brokers',
+  manageClickers: 'Add, invite and remove clickers',
+  manageAssignments: 'Assign accounts to clickers',
+  viewCredentials: 'Reveal PPH credentials',
+  editTerms: 'Change commission terms',
+  recordPayments: 'Record and delete payments',
+  runImports: 'Run and roll back spreadsheet imports',
+  changeTaxRate: 'Change the tax rate',
+  manageStaff: 'Change staff roles',
+  approveEntries: 'Approve entries and lock periods',
+  purgeDeleted: 'Permanently delete items from the recycle bin'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ADMIN_ROLES = {
+  owner: {
+    label: 'Owner',
+    permissions: Object.keys(PERMISSIONS) as Permission[]
+  },
+  bookkeeper: {
+    label: 'Bookkeeper',
+    permissions: ['viewReports', 'editTerms', 'recordPayments', 'runImports', 'changeTaxRate', 'approveEntries'] as Permission[]
+  },
+  assignmentManager: {
+    label: 'Assignment Manager',
+    permissions: ['manageClickers', 'manageAssignments'] as Permission[]
+  },
+  auditor: {
+    label: 'Read-only Auditor',
+    permissions: ['viewReports'] as Permission[]
+  }
+};
+
+export type AdminRole = keyof typeof ADMIN_ROLES;
+
+export const DEFAULT_ADMIN_ROLE: AdminRole = 'owner';
+
+// Clickers are 'player'; account holders ('agent') and brokers only see their portal
+export type UserRole = 'admin' | 'player' | 'agent' | 'broker';
+
+interface StaffUser {
+  role: UserRole;
+  adminRole?: AdminRole;
+}
+
+// Only a missing adminRole means owner. One that is not in the table (a typo,
+// or a role since removed) is null and grants nothing, as in firestore.rules.
+export function adminRoleOf(user: StaffUser | null | undefined): AdminRole | null {
+  if (user?.role !== 'admin') return null;
+  if (!user.adminRole) return DEFAULT_ADMIN_ROLE;
+  return Object.prototype.hasOwnProperty.call(ADMIN_ROLES, user.adminRole) ? user.adminRole : null;
+}
+
+export function hasPermission(user: StaffUser | null | undefined, permission: Permission): boolean {
+  const adminRole = adminRoleOf(user);
+  return adminRole ? ADMIN_ROLES[adminRole].permissions.includes(permission) : false;
+}
+
+// Where "/" sends staff, and where pages they cannot open send them back to
+export function adminHomePath(user: StaffUser | null | undefined): string {
+  return hasPermission(user, 'viewReports') ? '/admin/dashboard' : '/admin/assignments';
+}
+
+// Where "/" sends anyone signed in, and where pages outside their role send them
+export function homePath(user: StaffUser | null | undefined): string {
+  if (user?.role === 'admin') return adminHomePath(user);
+  if (user?.role === 'agent') return '/agent/dashboard';
+  return user?.role === 'broker' ? '/broker/dashboard' : '/player/dashboard';
+}
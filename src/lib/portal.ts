@@ -0,0 +1,75 @@
+// Client side of the account holder and broker portals. Neither has Firestore
+// access of their own; /api/portal returns their accounts, entries and
+// payments with credentials and every other party's share already left out.
+
+import { auth } from '../firebase';
+import { Settlement, SettlementPartyType } from './settlements';
+import { Statement, buildStatement } from './statements';
+
+export interface PortalAccount {
+  id: string;
+  type?: 'pph' | 'legal';
+  username?: string;
+  name?: string;
+  status?: string;
+  startDate?: string;
+  // Only the links that point at the signed-in party are returned
+  agentId?: string;
+  brokeredById?: string;
+  fundedById?: string;
+  referredById?: string;
+  depositAmount?: number;
+  sharePercentage?: number;
+  promoAmount?: number;
+}
+
+export interface PortalEntry {
+  id: string;
+  accountId: string;
+  date: string;
+  startingBalance?: number;
+  endingBalance?: number;
+  refillAmount?: number;
+  withdrawal?: number;
+  profitLoss?: number;
+  // Only the amounts the signed-in party earns are returned
+  accHolderAmount?: number;
+  brokerAmount?: number;
+  funderWayAmount?: number;
+  referralAmount?: number;
+}
+
+export interface PortalData {
+  holder: { id: string; name: string };
+  accounts: PortalAccount[];
+  entries: PortalEntry[];
+  settlements: Pick<Settlement, 'id' | 'partyType' | 'partyId' | 'amount' | 'method' | 'date' | 'entryIds' | 'recordedByName'>[];
+}
+
+export async function fetchPortal(): Promise<PortalData> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+
+  const response = await fetch('/api/portal', {
+    headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Portal request failed (${response.status})`);
+  }
+  return data as PortalData;
+}
+
+// The same statement staff download from Settlements, built from portal data
+export function portalStatement(partyType: SettlementPartyType, portal: PortalData, from: string, to: string): Statement {
+  return buildStatement(
+    partyType,
+    portal.holder.id,
+    portal.holder.name,
+    from,
+    to,
+    portal.entries.map((entry) => ({ ...entry, playerUid: '' })),
+    portal.accounts,
+    portal.settlements.map((settlement) => ({ ...settlement, recordedBy: settlement.recordedByName || '' }))
+  );
+}
@@ -0,0 +1,202 @@
+// Recycle bin. Account holders, brokers, accounts, clickers and entries are
+// never removed when someone deletes them: they get a deletedAt stamp, drop
+// out of every list and stay readable, so names on older records still
+// resolve. Deleting something other records hang off either takes them along
+// (an account holder's accounts, an account's entries), marked deletedWith so
+// they come back together, or is refused until the links are changed. Only
+// the purgeDeleted permission removes anything for good.
+
+import {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  Query,
+  collection,
+  deleteField,
+  getDoc,
+  getDocs,
+  query,
+  where
+} from 'firebase/firestore';
+import { auth, db } from '../firebase';
+import { commitInBatches, recordAudit } from './audit';
+import { loadEntriesForAccounts } from './repository';
+import { removeCredentials } from './vault';
+
+export type RecyclableCollection = 'agents' | 'brokers' | 'accounts' | 'users' | 'players' | 'entries';
+
+export const RECYCLE_LABELS: Record<RecyclableCollection, { one: string; many: string }> = {
+  agents: { one: 'account holder', many: 'account holders' },
+  brokers: { one: 'broker', many: 'brokers' },
+  accounts: { one: 'account', many: 'accounts' },
+  users: { one: 'clicker', many: 'clickers' },
+  players: { one: 'invited clicker', many: 'invited clickers' },
+  entries: { one: 'entry', many: 'entries' }
+};
+
+// Collections whose documents can be taken along with something else
+const CASCADED_COLLECTIONS: RecyclableCollection[] = ['accounts', 'entries'];
+
+// Every account field that can point at a broker
+const BROKER_LINK_FIELDS = ['brokerId', 'brokeredById', 'fundedById', 'referredById'];
+
+export interface DeletePlan {
+  ref: DocumentReference;
+  cascade: DocumentReference[];
+  blockers: string[];
+}
+
+export const isDeleted = (data: DocumentData | undefined) => Boolean(data?.deletedAt);
+
+// For snapshot.docs.filter(notDeleted) on every list the recycle bin hides from
+export const notDeleted = (snapshot: { data(): DocumentData }) => !isDeleted(snapshot.data());
+
+const liveDocs = async (q: Query) => (await getDocs(q)).docs.filter(notDeleted);
+
+export const countLabel = (name: RecyclableCollection, count: number) =>
+  `${count} ${count === 1 ? RECYCLE_LABELS[name].one : RECYCLE_LABELS[name].many}`;
+
+// "2 accounts and 31 entries"
+export function describeCounts(refs: DocumentReference[]): string {
+  const counts = new Map<RecyclableCollection, number>();
+  refs.forEach((ref) => {
+    const name = ref.parent.id as RecyclableCollection;
+    counts.set(name, (counts.get(name) || 0) + 1);
+  });
+  return Array.from(counts, ([name, count]) => countLabel(name, count)).join(' and ');
+}
+
+// Entries in a locked period (src/lib/workflow.ts) can't change at all
+function blockLockedEntries(plan: DeletePlan, entries: DocumentSnapshot[]) {
+  const locked = entries.filter((entry) => entry.data()?.periodLockId);
+  if (locked.length > 0) {
+    plan.blockers.push(`${countLabel('entries', locked.length)} ${locked.length === 1 ? 'is' : 'are'} in a locked period. Unlock it first.`);
+  }
+}
+
+// Works out what deleting a document would take along, or why it can't be
+// deleted yet. The caller shows this before anything is written.
+export async function planDelete(ref: DocumentReference): Promise<DeletePlan> {
+  const plan: DeletePlan = { ref, cascade: [], blockers: [] };
+
+  switch (ref.parent.id as RecyclableCollection) {
+    case 'agents': {
+      const accounts = await liveDocs(query(collection(db, 'accounts'), where('agentId', '==', ref.id)));
+      const entries = await loadEntriesForAccounts(accounts.map((account) => account.id));
+      plan.cascade = [...accounts, ...entries].map((snapshot) => snapshot.ref);
+      blockLockedEntries(plan, entries);
+      break;
+    }
+    case 'accounts': {
+      const entries = await loadEntriesForAccounts([ref.id]);
+      plan.cascade = entries.map((snapshot) => snapshot.ref);
+      blockLockedEntries(plan, entries);
+      break;
+    }
+    case 'entries': {
+      blockLockedEntries(plan, [await getDoc(ref)]);
+      break;
+    }
+    case 'brokers': {
+      const linked = await Promise.all(
+        BROKER_LINK_FIELDS.map((field) => liveDocs(query(collection(db, 'accounts'), where(field, '==', ref.id))))
+      );
+      const accountIds = new Set(linked.flat().map((account) => account.id));
+      if (accountIds.size > 0) {
+        plan.blockers.push(`${countLabel('accounts', accountIds.size)} still ${accountIds.size === 1 ? 'names' : 'name'} this broker. Change them first.`);
+      }
+      break;
+    }
+    case 'users':
+    case 'players': {
+      // Accounts are assigned by auth uid, or by document id for a clicker
+      // who has not accepted their invite yet
+      const uid = (await getDoc(ref)).data()?.uid;
+      const ids = Array.from(new Set([ref.id, uid].filter(Boolean)));
+      const assigned = await liveDocs(query(collection(db, 'accounts'), where('assignedToPlayerUid', 'in', ids)));
+      if (assigned.length > 0) {
+        plan.blockers.push(`${countLabel('accounts', assigned.length)} ${assigned.length === 1 ? 'is' : 'are'} still assigned. Unassign them first.`);
+      }
+      break;
+    }
+  }
+
+  return plan;
+}
+
+// Confirms a plan with the person deleting: refused outright while it has
+// blockers, otherwise spelling out what goes to the recycle bin with it.
+export function confirmDelete(plan: DeletePlan, what: string): boolean {
+  if (plan.blockers.length > 0) {
+    window.alert(`Can't delete ${what}. ${plan.blockers.join(' ')}`);
+    return false;
+  }
+  return window.confirm(
+    plan.cascade.length > 0
+      ? `Move ${what} to the recycle bin? ${describeCounts(plan.cascade)} will go with it and come back if it is restored.`
+      : `Move ${what} to the recycle bin?`
+  );
+}
+
+const clearedStamp = (data: DocumentData) => Object.fromEntries(Object.keys(data).map((key) => [key, null]));
+
+// Dependents go first so the document itself only shows up in the bin once
+// everything it took along is hidden too.
+export async function moveToRecycleBin(plan: DeletePlan): Promise<void> {
+  if (plan.blockers.length > 0) throw new Error(plan.blockers.join(' '));
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+
+  const stamp = { deletedAt: new Date(), deletedBy: user.uid };
+  const writes = [
+    ...plan.cascade.map((ref) => ({ ref, data: { ...stamp, deletedWith: plan.ref.path } })),
+    { ref: plan.ref, data: stamp }
+  ];
+  await commitInBatches(writes, (batch, { ref, data }) => {
+    batch.update(ref, data);
+    recordAudit(batch, 'update', ref, clearedStamp(data), data);
+  });
+}
+
+// Everything that went to the bin along with a document
+export async function fetchDeletedWith(ref: DocumentReference): Promise<DocumentSnapshot[]> {
+  const results = await Promise.all(
+    CASCADED_COLLECTIONS.map((name) => getDocs(query(collection(db, name), where('deletedWith', '==', ref.path))))
+  );
+  return results.flatMap((snapshot) => snapshot.docs);
+}
+
+export async function restoreFromRecycleBin(ref: DocumentReference): Promise<void> {
+  const group = [...(await fetchDeletedWith(ref)).map((snapshot) => snapshot.ref), ref];
+  const cleared = { deletedAt: deleteField(), deletedBy: deleteField(), deletedWith: deleteField() };
+  const snapshots = await Promise.all(group.map((target) => getDoc(target)));
+  await commitInBatches(snapshots, (batch, snapshot) => {
+    const data = snapshot.data() || {};
+    batch.update(snapshot.ref, cleared);
+    recordAudit(
+      batch,
+      'update',
+      snapshot.ref,
+      { deletedAt: data.deletedAt ?? null, deletedBy: data.deletedBy ?? null, deletedWith: data.deletedWith ?? null },
+      cleared
+    );
+  });
+}
+
+// Removes a document and everything deleted with it for good, along with
+// any vault credentials the accounts among them still hold.
+export async function purgeFromRecycleBin(ref: DocumentReference): Promise<void> {
+  const root = await getDoc(ref);
+  if (!isDeleted(root.data())) throw new Error('Only items in the recycle bin can be purged');
+  const group = [...(await fetchDeletedWith(ref)), root];
+
+  for (const snapshot of group) {
+    if (snapshot.ref.parent.id === 'accounts' && snapshot.data()?.hasVaultCredentials) {
+      await removeCredentials(snapshot.id);
+    }
+  }
+  await commitInBatches(group, (batch, snapshot) => {
+    batch.delete(snapshot.ref);
+    recordAudit(batch, 'delete', snapshot.ref, snapshot.data(), null);
+  });
+}
@@ -0,0 +1,132 @@
+// Shared reads. Pages used to look up each account's agent, broker and
+// clicker with a query of their own, so load cost grew with the number of
+// accounts. These load a collection once and hand out lookups by id, and
+// fetch entries for many accounts with `in` queries.
+//
+// Loads are cached for a minute. Every audited write clears the cache for
+// its collection (see recordAudit), so a page sees its own changes at once;
+// changes made by someone else show up within the minute.
+
+import { collection, doc, DocumentData, getDoc, getDocs, query, QueryDocumentSnapshot, where } from 'firebase/firestore';
+import { db } from '../firebase';
+
+export interface AgentRecord extends DocumentData {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface BrokerRecord extends DocumentData {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface UserRecord extends DocumentData {
+  id: string;
+  uid: string;
+  role?: string;
+  name?: string;
+  email?: string;
+}
+
+// Firestore caps `in` and `array-contains-any` filters at 30 values
+const IN_QUERY_LIMIT = 30;
+
+const CACHE_MS = 60 * 1000;
+
+const cache = new Map<string, { loadedAt: number; value: Promise<unknown> }>();
+
+function cached<T>(key: string, load: () => Promise<T>, fresh = false): Promise<T> {
+  const hit = cache.get(key);
+  if (!fresh && hit && Date.now() - hit.loadedAt < CACHE_MS) return hit.value as Promise<T>;
+
+  const value = load();
+  cache.set(key, { loadedAt: Date.now(), value });
+  value.catch(() => cache.delete(key));
+  return value;
+}
+
+// Keys start with the collection name, e.g. `agents`, `users?role=player` or
+// `brokers/abc` for a single document
+export function forgetCached(collectionName: string) {
+  Array.from(cache.keys())
+    .filter((key) => key.split(/[/?]/)[0] === collectionName)
+    .forEach((key) => cache.delete(key));
+}
+
+const toRecord = (snapshot: QueryDocumentSnapshot) => ({ id: snapshot.id, ...snapshot.data() });
+
+// Lists keep records that are in the recycle bin, so names still resolve for
+// the accounts and entries that point at them. Filter with isDeleted where
+// only live records belong.
+export const loadAgents = (fresh = false) =>
+  cached('agents', async () => (await getDocs(collection(db, 'agents'))).docs.map(toRecord) as AgentRecord[], fresh);
+
+export const loadBrokers = (fresh = false) =>
+  cached('brokers', async () => (await getDocs(collection(db, 'brokers'))).docs.map(toRecord) as BrokerRecord[], fresh);
+
+export const loadUsers = (fresh = false) =>
+  cached('users', async () =>
+    (await getDocs(collection(db, 'users'))).docs.map((user) => ({ uid: user.id, ...toRecord(user) })) as UserRecord[],
+  fresh);
+
+export const loadClickers = (fresh = false) =>
+  cached('users?role=player', async () =>
+    (await getDocs(query(collection(db, 'users'), where('role', '==', 'player'))))
+      .docs.map((user) => ({ uid: user.id, ...toRecord(user) })) as UserRecord[],
+  fresh);
+
+export const indexBy = <T extends DocumentData>(records: T[], key: keyof T = 'id') =>
+  new Map(records.map((record) => [String(record[key]), record]));
+
+// One document by id. Clickers may get an account's agent and brokers but
+// not list them, so their pages look records up this way.
+export const loadRecord = (collectionName: string, id: string) =>
+  cached(`${collectionName}/${id}`, async () => {
+    const snapshot = await getDoc(doc(db, collectionName, id));
+    return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as DocumentData & { id: string }) : null;
+  });
+
+export async function loadRecords(collectionName: string, ids: (string | null | undefined)[]) {
+  const unique = Array.from(new Set(ids.filter((id): id is string => Boolean(id))));
+  const records = await Promise.all(unique.map((id) => loadRecord(collectionName, id)));
+  return new Map(unique.map((id, i) => [id, records[i]]));
+}
+
+// Documents whose `field` matches any of `values`, one query per 30 values.
+// A document matching in more than one query (array-contains-any on an
+// array field) comes back once.
+export async function chunkedIn(
+  collectionName: string,
+  field: string,
+  values: string[],
+  op: 'in' | 'array-contains-any' = 'in'
+): Promise<QueryDocumentSnapshot[]> {
+  const snapshots = [];
+  for (let i = 0; i < values.length; i += IN_QUERY_LIMIT) {
+    snapshots.push(getDocs(query(collection(db, collectionName), where(field, op, values.slice(i, i + IN_QUERY_LIMIT)))));
+  }
+  const byId = new Map((await Promise.all(snapshots)).flatMap((snapshot) => snapshot.docs).map((record) => [record.id, record]));
+  return Array.from(byId.values());
+}
+
+// Entries for the given accounts, less those in the recycle bin. This checks
+// deletedAt itself rather than import recycle.ts, which imports this file by
+// way of audit.ts.
+export async function loadEntriesForAccounts(accountIds: string[]): Promise<QueryDocumentSnapshot[]> {
+  return (await chunkedIn('entries', 'accountId', accountIds)).filter((entry) => !entry.data().deletedAt);
+}
+
+// Ledger payments covering any of the given entries
+export const loadSettlementsForEntries = (entryIds: string[]) =>
+  chunkedIn('settlements', 'entryIds', entryIds, 'array-contains-any');
+
+export async function countEntriesByAccount(accountIds: string[]): Promise<Map<string, number>> {
+  const counts = new Map(accountIds.map((id) => [id, 0]));
+  (await loadEntriesForAccounts(accountIds)).forEach((entry) => {
+    const accountId = entry.data().accountId;
+    counts.set(accountId, (counts.get(accountId) || 0) + 1);
+  });
+  return counts;
+}
@@ -0,0 +1,119 @@
+// Client side of the dashboard rollups. /api/rollups keeps `rollups/{date}`
+// in step with entries by replaying the audit log; the browser asks it to
+// catch up shortly after its own writes, so the dashboard reads a handful of
+// day documents instead of every entry in the range.
+//
+// A scheduled run on the server (vercel.json) catches up every few minutes
+// as well, so a write whose tab closed before the refresh went out, or one
+// made outside this app, still reaches the rollups; the admin dashboard also
+// asks for a catch-up when it loads.
+
+import { auth } from '../firebase';
+
+export interface RollupTotals {
+  entries: number;
+  profitLoss: number;
+  clickerAmount: number;
+  accHolderAmount: number;
+  brokerAmount: number;
+  funderWayAmount: number;
+  referralAmount: number;
+  // Brokers only: what the broker earned across all their roles
+  earned?: number;
+  // Clickers only: entries with no stored clickerAmount
+  unsplitEntryIds?: string[];
+}
+
+export interface DayRollup {
+  date: string;
+  totals: RollupTotals;
+  accounts: Record<string, RollupTotals>;
+  agents: Record<string, RollupTotals>;
+  brokers: Record<string, RollupTotals>;
+  clickers: Record<string, RollupTotals>;
+}
+
+export type RangeRollup = Omit<DayRollup, 'date'>;
+
+const REFRESH_DELAY_MS = 2000;
+
+export const emptyRollupTotals = (): RollupTotals => ({
+  entries: 0,
+  profitLoss: 0,
+  clickerAmount: 0,
+  accHolderAmount: 0,
+  brokerAmount: 0,
+  funderWayAmount: 0,
+  referralAmount: 0
+});
+
+function addTotals(sum: RollupTotals, day: RollupTotals) {
+  sum.entries += day.entries || 0;
+  sum.profitLoss += day.profitLoss || 0;
+  sum.clickerAmount += day.clickerAmount || 0;
+  sum.accHolderAmount += day.accHolderAmount || 0;
+  sum.brokerAmount += day.brokerAmount || 0;
+  sum.funderWayAmount += day.funderWayAmount || 0;
+  sum.referralAmount += day.referralAmount || 0;
+  if (day.earned !== undefined) sum.earned = (sum.earned || 0) + day.earned;
+  if (day.unsplitEntryIds) sum.unsplitEntryIds = [...(sum.unsplitEntryIds || []), ...day.unsplitEntryIds];
+}
+
+function addGroup(sum: Record<string, RollupTotals>, day: Record<string, RollupTotals> | undefined) {
+  Object.entries(day || {}).forEach(([id, totals]) => {
+    addTotals(sum[id] || (sum[id] = emptyRollupTotals()), totals);
+  });
+}
+
+// Totals for a date range from its day rollups
+export function sumRollups(days: DayRollup[]): RangeRollup {
+  const range: RangeRollup = { totals: emptyRollupTotals(), accounts: {}, agents: {}, brokers: {}, clickers: {} };
+  days.forEach((day) => {
+    addTotals(range.totals, day.totals);
+    addGroup(range.accounts, day.accounts);
+    addGroup(range.agents, day.agents);
+    addGroup(range.brokers, day.brokers);
+    addGroup(range.clickers, day.clickers);
+  });
+  return range;
+}
+
+// `keepalive` lets the request finish after the page is gone
+export async function refreshRollups(keepalive = false): Promise<string[]> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+
+  const response = await fetch('/api/rollups', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await user.getIdToken()}` },
+    keepalive
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Rollup request failed (${response.status})`);
+  }
+  return data.dates || [];
+}
+
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Called for every audited write, before its batch commits. Waiting until
+// writes stop lets an import or a bulk approval catch up once; anything
+// committed after the catch-up is picked up by the next one.
+export function scheduleRollupRefresh() {
+  clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = undefined;
+    refreshRollups().catch((error) => console.error('Error refreshing rollups:', error));
+  }, REFRESH_DELAY_MS);
+}
+
+// Sends a refresh that is still waiting when the tab is hidden or closed
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState !== 'hidden' || refreshTimer === undefined) return;
+    clearTimeout(refreshTimer);
+    refreshTimer = undefined;
+    refreshRollups(true).catch((error) => console.error('Error refreshing rollups:', error));
+  });
+}
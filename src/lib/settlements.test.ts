@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { isFullySettled, LedgerAccount, LedgerEntry, partyBalances, Settlement, unsettledEntryIds } from './settlements';
+
+const account: LedgerAccount = { id: 'a1', agentId: 'holder1', brokeredById: 'broker1' };
+
+const entry = (id: string, amounts: Partial<LedgerEntry> = {}): LedgerEntry => ({
+  id,
+  accountId: 'a1',
+  playerUid: 'c1',
+  clickerAmount: 100,
+  accHolderAmount: 50,
+  brokerAmount: 20,
+  ...amounts
+});
+
+const payment = (partyType: Settlement['partyType'], partyId: string, amount: number, entryIds: string[]): Settlement => ({
+  partyType,
+  partyId,
+  amount,
+  method: 'Cash',
+  date: '2025-01-20',
+  entryIds,
+  recordedBy: 'admin'
+});
+
+const balanceOf = (entries: LedgerEntry[], settlements: Settlement[], partyType: Settlement['partyType'], partyId: string) =>
+  partyBalances(entries, [account], settlements).find((b) => b.partyType === partyType && b.partyId === partyId);
+
+describe('partyBalances', () => {
+  it('owes each party its split of every entry', () => {
+    const entries = [entry('e1'), entry('e2')];
+    expect(balanceOf(entries, [], 'clicker', 'c1')).toEqual({
+      partyType: 'clicker', partyId: 'c1', owed: 200, paid: 0, outstanding: 200, entryIds: ['e1', 'e2']
+    });
+    expect(balanceOf(entries, [], 'accHolder', 'holder1')?.owed).toBe(100);
+    expect(balanceOf(entries, [], 'broker', 'broker1')?.owed).toBe(40);
+  });
+
+  it('leaves the rest outstanding after a partial payment', () => {
+    const balance = balanceOf([entry('e1'), entry('e2')], [payment('clicker', 'c1', 120, [])], 'clicker', 'c1');
+    expect(balance).toMatchObject({ owed: 200, paid: 120, outstanding: 80 });
+  });
+
+  it('goes negative when a party is overpaid', () => {
+    const balance = balanceOf([entry('e1')], [payment('clicker', 'c1', 150, ['e1'])], 'clicker', 'c1');
+    expect(balance).toMatchObject({ owed: 100, paid: 150, outstanding: -50 });
+  });
+
+  it('adds up a broker paid for more than one role on an entry', () => {
+    const funded = { ...account, fundedById: 'broker1' };
+    const balance = partyBalances([entry('e1', { funderWayAmount: 30 })], [funded], [])
+      .find((b) => b.partyType === 'broker' && b.partyId === 'broker1');
+    expect(balance).toMatchObject({ owed: 50, entryIds: ['e1'] });
+  });
+
+  it('ignores entries in the recycle bin but keeps payments made for them', () => {
+    const entries = [entry('e1'), entry('e2', { deletedAt: new Date() })];
+    const balance = balanceOf(entries, [payment('clicker', 'c1', 100, ['e2'])], 'clicker', 'c1');
+    expect(balance).toMatchObject({ owed: 100, paid: 100, outstanding: 0, entryIds: ['e1'] });
+  });
+
+  it('ignores work that is not approved yet', () => {
+    const entries = [entry('e1'), entry('e2', { status: 'draft' }), entry('e3', { status: 'submitted' })];
+    expect(balanceOf(entries, [], 'clicker', 'c1')).toMatchObject({ owed: 100, entryIds: ['e1'] });
+  });
+});
+
+describe('unsettledEntryIds', () => {
+  const entries = [entry('e1'), entry('e2'), entry('e3')];
+
+  it('lists entries no payment to the party names', () => {
+    const settlements = [payment('clicker', 'c1', 100, ['e1']), payment('accHolder', 'holder1', 50, ['e2'])];
+    expect(unsettledEntryIds(balanceOf(entries, settlements, 'clicker', 'c1')!, settlements)).toEqual(['e2', 'e3']);
+  });
+
+  // The entries a payment names are the ones it settles; its amount only
+  // moves the balance, so part-paying an entry means leaving it off
+  it('keeps an entry open when a partial payment leaves it off', () => {
+    const settlements = [payment('clicker', 'c1', 60, [])];
+    expect(unsettledEntryIds(balanceOf(entries, settlements, 'clicker', 'c1')!, settlements)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('closes every entry an overpayment names', () => {
+    const settlements = [payment('clicker', 'c1', 500, ['e1', 'e2', 'e3'])];
+    expect(unsettledEntryIds(balanceOf(entries, settlements, 'clicker', 'c1')!, settlements)).toEqual([]);
+  });
+
+  it('never lists entries in the recycle bin', () => {
+    const withDeleted = [...entries, entry('e4', { deletedAt: new Date() })];
+    expect(unsettledEntryIds(balanceOf(withDeleted, [], 'clicker', 'c1')!, [])).toEqual(['e1', 'e2', 'e3']);
+  });
+});
+
+describe('isFullySettled', () => {
+  const paidInFull = [
+    payment('clicker', 'c1', 100, ['e1']),
+    payment('accHolder', 'holder1', 50, ['e1']),
+    payment('broker', 'broker1', 20, ['e1'])
+  ];
+
+  it('is true once every party the entry owes has been paid for it', () => {
+    expect(isFullySettled(entry('e1'), account, paidInFull)).toBe(true);
+  });
+
+  it('is false while any party is still unpaid', () => {
+    expect(isFullySettled(entry('e1'), account, paidInFull.slice(0, 2))).toBe(false);
+  });
+
+  it('is false when a partial payment leaves the entry off', () => {
+    const settlements = [...paidInFull.slice(0, 2), payment('broker', 'broker1', 10, [])];
+    expect(isFullySettled(entry('e1'), account, settlements)).toBe(false);
+  });
+
+  it('is true when one overpayment covers the entry with others', () => {
+    const settlements = [...paidInFull.slice(0, 2), payment('broker', 'broker1', 999, ['e0', 'e1'])];
+    expect(isFullySettled(entry('e1'), account, settlements)).toBe(true);
+  });
+
+  it('does not count a payment to a different party', () => {
+    const settlements = [...paidInFull.slice(0, 2), payment('broker', 'broker2', 20, ['e1'])];
+    expect(isFullySettled(entry('e1'), account, settlements)).toBe(false);
+  });
+
+  it('is false for an entry in the recycle bin, which owes nothing', () => {
+    expect(isFullySettled(entry('e1', { deletedAt: new Date() }), account, paidInFull)).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+// Settlement ledger. Payments live in the `settlements` collection; what each
+// party is owed comes from the split amounts already saved on entries, so a
+// party's balance is always owed minus what the ledger says was paid.
+
+// The entry workflow's states; see src/lib/workflow.ts
+export type EntryStatus = 'draft' | 'submitted' | 'approved' | 'settled';
+
+export type SettlementPartyType = 'clicker' | 'accHolder' | 'broker';
+
+export const SETTLEMENT_PARTY_LABELS: Record<SettlementPartyType, string> = {
+  clicker: 'Clicker',
+  accHolder: 'Account Holder',
+  broker: 'Broker'
+};
+
+export const SETTLEMENT_METHODS = ['Cash', 'Zelle', 'Venmo', 'CashApp', 'PayPal', 'Crypto', 'Bank Transfer', 'Other'];
+
+export interface Settlement {
+  id?: string;
+  partyType: SettlementPartyType;
+  partyId: string;
+  amount: number;
+  method: string;
+  date: string;
+  entryIds: string[];
+  recordedBy: string;
+  recordedByName?: string;
+  notes?: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  accountId: string;
+  playerUid: string;
+  status?: EntryStatus;
+  deletedAt?: unknown;
+  clickerAmount?: number;
+  accHolderAmount?: number;
+  brokerAmount?: number;
+  funderWayAmount?: number;
+  referralAmount?: number;
+}
+
+export interface LedgerAccount {
+  id: string;
+  agentId?: string;
+  brokerId?: string | null;
+  brokeredById?: string | null;
+  fundedById?: string | null;
+  referredById?: string | null;
+}
+
+export interface PartyBalance {
+  partyType: SettlementPartyType;
+  partyId: string;
+  owed: number;
+  paid: number;
+  outstanding: number;
+  entryIds: string[];
+}
+
+// Only approved work is owed to anyone, so only it counts toward balances.
+// Entries from before the workflow have no status; they were already accepted.
+export const isPayable = (entry: { status?: EntryStatus }) => ['approved', 'settled'].includes(entry.status || 'approved');
+
+export const partyKey = (partyType: SettlementPartyType, partyId: string) => `${partyType}:${partyId}`;
+
+// What an entry owes each party. A broker can be owed on the same entry for
+// more than one role (brokered, funded, referred), so broker amounts add up.
+// Entries in the recycle bin and work not yet approved owe nothing.
+export function entryObligations(
+  entry: LedgerEntry,
+  account: LedgerAccount | undefined
+): { partyType: SettlementPartyType; partyId: string; amount: number }[] {
+  const owed: { partyType: SettlementPartyType; partyId: string; amount: number }[] = [];
+  if (entry.deletedAt || !isPayable(entry)) return owed;
+  const add = (partyType: SettlementPartyType, partyId: string | null | undefined, amount?: number) => {
+    if (!partyId || !amount) return;
+    const existing = owed.find((o) => o.partyType === partyType && o.partyId === partyId);
+    if (existing) existing.amount += amount;
+    else owed.push({ partyType, partyId, amount });
+  };
+
+  add('clicker', entry.playerUid, entry.clickerAmount);
+  if (account) {
+    add('accHolder', account.agentId, entry.accHolderAmount);
+    add('broker', account.brokeredById || account.brokerId, entry.brokerAmount);
+    add('broker', account.fundedById, entry.funderWayAmount);
+    add('broker', account.referredById, entry.referralAmount);
+  }
+  return owed;
+}
+
+export function partyBalances(
+  entries: LedgerEntry[],
+  accounts: LedgerAccount[],
+  settlements: Settlement[]
+): PartyBalance[] {
+  const accountsById = new Map(accounts.map((a) => [a.id, a]));
+  const balances = new Map<string, PartyBalance>();
+  const balanceFor = (partyType: SettlementPartyType, partyId: string) => {
+    const key = partyKey(partyType, partyId);
+    let balance = balances.get(key);
+    if (!balance) {
+      balance = { partyType, partyId, owed: 0, paid: 0, outstanding: 0, entryIds: [] };
+      balances.set(key, balance);
+    }
+    return balance;
+  };
+
+  entries.forEach((entry) => {
+    entryObligations(entry, accountsById.get(entry.accountId)).forEach(({ partyType, partyId, amount }) => {
+      const balance = balanceFor(partyType, partyId);
+      balance.owed += amount;
+      balance.entryIds.push(entry.id);
+    });
+  });
+
+  settlements.forEach((settlement) => {
+    balanceFor(settlement.partyType, settlement.partyId).paid += Number(settlement.amount) || 0;
+  });
+
+  return Array.from(balances.values()).map((balance) => ({
+    ...balance,
+    outstanding: balance.owed - balance.paid
+  }));
+}
+
+// Entries for a party that no ledger payment has covered yet.
+export function unsettledEntryIds(balance: PartyBalance, settlements: Settlement[]): string[] {
+  const covered = new Set(
+    settlements
+      .filter((s) => s.partyType === balance.partyType && s.partyId === balance.partyId)
+      .flatMap((s) => s.entryIds || [])
+  );
+  return balance.entryIds.filter((id) => !covered.has(id));
+}
+
+// Whether the ledger has paid every party an entry owes
+export function isFullySettled(entry: LedgerEntry, account: LedgerAccount | undefined, settlements: Settlement[]): boolean {
+  const paid = new Set(
+    settlements
+      .filter((s) => (s.entryIds || []).includes(entry.id))
+      .map((s) => partyKey(s.partyType, s.partyId))
+  );
+  const owed = entryObligations(entry, account);
+  return owed.length > 0 && owed.every((o) => paid.has(partyKey(o.partyType, o.partyId)));
+}
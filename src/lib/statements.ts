@@ -0,0 +1,177 @@
+// Payout statements for a single party over a date range. The numbers come
+// from the same saved entry splits and settlement ledger the dashboard and
+// Settlements page read, so a statement always agrees with them.
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import {
+  entryObligations,
+  LedgerAccount,
+  LedgerEntry,
+  Settlement,
+  SETTLEMENT_PARTY_LABELS,
+  SettlementPartyType
+} from './settlements';
+
+export interface StatementEntry extends LedgerEntry {
+  date: string;
+}
+
+export interface StatementAccount extends LedgerAccount {
+  type?: 'pph' | 'legal';
+  username?: string;
+  name?: string;
+}
+
+export interface StatementLine {
+  entryId: string;
+  date: string;
+  accountName: string;
+  amount: number;
+}
+
+export interface Statement {
+  partyType: SettlementPartyType;
+  partyId: string;
+  partyName: string;
+  from: string;
+  to: string;
+  // Balance carried in from everything dated before `from`
+  openingBalance: number;
+  lines: StatementLine[];
+  payments: Settlement[];
+  totalOwed: number;
+  totalPaid: number;
+  closingBalance: number;
+}
+
+const inRange = (date: string, from: string, to: string) => date >= from && date <= to;
+
+const accountLabel = (account?: StatementAccount) =>
+  (account?.type === 'legal' ? account?.name : account?.username) || account?.name || 'Unknown account';
+
+export function buildStatement(
+  partyType: SettlementPartyType,
+  partyId: string,
+  partyName: string,
+  from: string,
+  to: string,
+  entries: StatementEntry[],
+  accounts: StatementAccount[],
+  settlements: Settlement[]
+): Statement {
+  const accountsById = new Map(accounts.map((a) => [a.id, a]));
+  let owedBefore = 0;
+  const lines: StatementLine[] = [];
+
+  entries.forEach((entry) => {
+    if (!entry.date || entry.date > to) return;
+    const account = accountsById.get(entry.accountId);
+    const amount = entryObligations(entry, account)
+      .filter((o) => o.partyType === partyType && o.partyId === partyId)
+      .reduce((sum, o) => sum + o.amount, 0);
+    if (!amount) return;
+    if (entry.date < from) {
+      owedBefore += amount;
+    } else {
+      lines.push({ entryId: entry.id, date: entry.date, accountName: accountLabel(account), amount });
+    }
+  });
+
+  const partySettlements = settlements.filter((s) => s.partyType === partyType && s.partyId === partyId && s.date <= to);
+  const paidBefore = partySettlements
+    .filter((s) => s.date < from)
+    .reduce((sum, s) => sum + (Number(s.amount) || 0), 0);
+  const payments = partySettlements.filter((s) => inRange(s.date, from, to));
+
+  const openingBalance = owedBefore - paidBefore;
+  const totalOwed = lines.reduce((sum, line) => sum + line.amount, 0);
+  const totalPaid = payments.reduce((sum, s) => sum + (Number(s.amount) || 0), 0);
+
+  return {
+    partyType,
+    partyId,
+    partyName,
+    from,
+    to,
+    openingBalance,
+    lines: lines.sort((a, b) => a.date.localeCompare(b.date)),
+    payments: [...payments].sort((a, b) => a.date.localeCompare(b.date)),
+    totalOwed,
+    totalPaid,
+    closingBalance: openingBalance + totalOwed - totalPaid
+  };
+}
+
+const money = (value: number) => value.toFixed(2);
+
+const fileBase = (statement: Statement) =>
+  `Statement_${statement.partyName.replace(/[^a-z0-9]+/gi, '_')}_${statement.from}_${statement.to}`;
+
+export function downloadStatementXlsx(statement: Statement) {
+  const summary = [
+    { Field: 'Party', Value: `${statement.partyName} (${SETTLEMENT_PARTY_LABELS[statement.partyType]})` },
+    { Field: 'Period', Value: `${statement.from} to ${statement.to}` },
+    { Field: 'Opening Balance', Value: money(statement.openingBalance) },
+    { Field: 'Owed This Period', Value: money(statement.totalOwed) },
+    { Field: 'Paid This Period', Value: money(statement.totalPaid) },
+    { Field: 'Closing Balance', Value: money(statement.closingBalance) }
+  ];
+  const entries = statement.lines.map((line) => ({
+    Date: line.date,
+    Account: line.accountName,
+    Amount: Number(money(line.amount))
+  }));
+  const payments = statement.payments.map((payment) => ({
+    Date: payment.date,
+    Method: payment.method,
+    Entries: payment.entryIds?.length || 0,
+    'Recorded By': payment.recordedByName || payment.recordedBy,
+    Amount: Number(money(Number(payment.amount) || 0))
+  }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summary), 'Summary');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(entries), 'Entries');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(payments), 'Payments');
+  XLSX.writeFile(wb, `${fileBase(statement)}.xlsx`);
+}
+
+export function downloadStatementPdf(statement: Statement) {
+  const pdf = new jsPDF();
+  const lastY = () => (pdf as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+  pdf.setFontSize(16);
+  pdf.text(`Payout Statement: ${statement.partyName}`, 14, 18);
+  pdf.setFontSize(10);
+  pdf.text(`${SETTLEMENT_PARTY_LABELS[statement.partyType]} | ${statement.from} to ${statement.to}`, 14, 25);
+  pdf.text(`Generated ${format(new Date(), 'yyyy-MM-dd HH:mm')}`, 14, 30);
+
+  autoTable(pdf, {
+    startY: 36,
+    head: [['Date', 'Account', 'Amount']],
+    body: [
+      ['', 'Opening balance', money(statement.openingBalance)],
+      ...statement.lines.map((line) => [line.date, line.accountName, money(line.amount)])
+    ],
+    foot: [['', 'Owed this period', money(statement.totalOwed)]]
+  });
+
+  autoTable(pdf, {
+    startY: lastY() + 8,
+    head: [['Paid On', 'Method', 'Recorded By', 'Amount']],
+    body: statement.payments.map((payment) => [
+      payment.date,
+      payment.method,
+      payment.recordedByName || payment.recordedBy,
+      money(Number(payment.amount) || 0)
+    ]),
+    foot: [['', '', 'Paid this period', money(statement.totalPaid)]]
+  });
+
+  pdf.setFontSize(12);
+  pdf.text(`Closing balance owed: $${money(statement.closingBalance)}`, 14, lastY() + 10);
+  pdf.save(`${fileBase(statement)}.pdf`);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AGENT_TERM_FIELDS, appendTermsVersion, termsAsOf, TermsVersion, versionAsOf } from './terms';
+
+type Agent = { commissionPercentage: number; flatCommission?: number; termsHistory?: TermsVersion[] };
+
+const history = [
+  { effectiveFrom: '2025-03-01', commissionPercentage: 30 },
+  { effectiveFrom: '', commissionPercentage: 10 },
+  { effectiveFrom: '2025-02-01', commissionPercentage: 20 }
+];
+
+describe('versionAsOf', () => {
+  it.each([
+    { date: '2025-01-31', expected: 10 },
+    { date: '2025-02-01', expected: 20 },
+    { date: '2025-02-28', expected: 20 },
+    { date: '2025-03-01', expected: 30 }
+  ])('picks the version in force on $date, whatever order the history is in', ({ date, expected }) => {
+    expect(versionAsOf(history, date)?.commissionPercentage).toBe(expected);
+  });
+
+  it('picks the latest version when no date is given', () => {
+    expect(versionAsOf(history)?.commissionPercentage).toBe(30);
+  });
+
+  it('falls back to the oldest version before the first dated change', () => {
+    expect(versionAsOf(history.filter((v) => v.effectiveFrom), '2025-01-01')?.commissionPercentage).toBe(20);
+  });
+
+  it('is null without a history', () => {
+    expect(versionAsOf(undefined, '2025-01-01')).toBeNull();
+    expect(versionAsOf([], '2025-01-01')).toBeNull();
+  });
+});
+
+describe('termsAsOf', () => {
+  it('lays the version in force over the current fields', () => {
+    const agent = { name: 'Jane', commissionPercentage: 30, flatCommission: 5, termsHistory: history };
+    expect(termsAsOf(agent, '2025-02-10')).toMatchObject({ name: 'Jane', commissionPercentage: 20, flatCommission: 5 });
+  });
+
+  it('leaves a party without history as it is', () => {
+    const agent: Agent = { commissionPercentage: 30 };
+    expect(termsAsOf(agent, '2025-02-10')).toBe(agent);
+  });
+});
+
+describe('appendTermsVersion', () => {
+  it('seeds the history with the terms in force until now', () => {
+    const agent: Agent = { commissionPercentage: 10, flatCommission: 0 };
+    const next = appendTermsVersion(agent, { commissionPercentage: 15, flatCommission: 0 }, AGENT_TERM_FIELDS, '2025-04-01');
+    expect(next).toEqual([
+      { effectiveFrom: '', commissionPercentage: 10, flatCommission: 0 },
+      expect.objectContaining({ effectiveFrom: '2025-04-01', commissionPercentage: 15, flatCommission: 0 })
+    ]);
+  });
+
+  it('adds nothing when the terms in force are unchanged', () => {
+    const party = { commissionPercentage: 30, termsHistory: history };
+    expect(appendTermsVersion(party, { commissionPercentage: 20 }, ['commissionPercentage'], '2025-02-15')).toEqual(history);
+  });
+
+  it('replaces a version with the same date and keeps the history in date order', () => {
+    const party = { commissionPercentage: 30, termsHistory: history };
+    const next = appendTermsVersion(party, { commissionPercentage: 25 }, ['commissionPercentage'], '2025-02-01');
+    expect(next.map((v) => [v.effectiveFrom, v.commissionPercentage])).toEqual([['', 10], ['2025-02-01', 25], ['2025-03-01', 30]]);
+  });
+});
@@ -0,0 +1,87 @@
+// Effective-dated commission terms. Agents, brokers and clickers keep a
+// termsHistory array on their document; recalculating an entry uses the
+// version in force on the entry's date instead of whatever the party's
+// fields say today.
+
+export interface TermsVersion {
+  // yyyy-MM-dd; an empty string marks the terms in force before any dated change
+  effectiveFrom: string;
+  recordedAt?: unknown;
+  [field: string]: unknown;
+}
+
+export interface WithTermsHistory {
+  termsHistory?: TermsVersion[];
+}
+
+export const AGENT_TERM_FIELDS = ['commissionPercentage', 'flatCommission'];
+export const BROKER_TERM_FIELDS = [
+  'commissionType',
+  'commissionPercentage',
+  'flatCommission',
+  'referralPercentage',
+  'referralFlat',
+  'specialScenarios'
+];
+export const CLICKER_TERM_FIELDS = ['percentage'];
+
+const byEffectiveFrom = (a: TermsVersion, b: TermsVersion) => a.effectiveFrom.localeCompare(b.effectiveFrom);
+
+function pickTerms(source: object, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  fields.forEach((field) => {
+    const value = (source as Record<string, unknown>)[field];
+    if (value !== undefined) picked[field] = value;
+  });
+  return picked;
+}
+
+function versionTerms(version: TermsVersion): Record<string, unknown> {
+  const terms: Record<string, unknown> = { ...version };
+  delete terms.effectiveFrom;
+  delete terms.recordedAt;
+  return terms;
+}
+
+// The version in force on a date, or null when the party has no history.
+export function versionAsOf(history: TermsVersion[] | undefined, date?: string): TermsVersion | null {
+  if (!history || history.length === 0) return null;
+  const sorted = [...history].sort(byEffectiveFrom);
+  if (!date) return sorted[sorted.length - 1];
+  let current: TermsVersion | null = null;
+  for (const version of sorted) {
+    if (version.effectiveFrom <= date) current = version;
+  }
+  // Entries dated before the first recorded change use the oldest terms we have
+  return current || sorted[0];
+}
+
+// The party as it stood on a date: the in-force version's terms laid over the
+// party's current fields.
+export function termsAsOf<T extends WithTermsHistory>(party: T, date?: string): T {
+  const version = versionAsOf(party.termsHistory, date);
+  return version ? { ...party, ...versionTerms(version) } : party;
+}
+
+// Returns the history to save after an edit. The first edit seeds the history
+// with the terms the party had until now, and an edit that leaves the terms
+// unchanged adds nothing.
+export function appendTermsVersion(
+  party: WithTermsHistory & object,
+  next: object,
+  fields: string[],
+  effectiveFrom: string
+): TermsVersion[] {
+  const history = [...(party.termsHistory || [])];
+  if (history.length === 0) {
+    history.push({ effectiveFrom: '', ...pickTerms(party, fields) });
+  }
+  const nextTerms = pickTerms(next, fields);
+  const inForce = pickTerms(termsAsOf({ ...party, termsHistory: history }, effectiveFrom), fields);
+  if (JSON.stringify(nextTerms) === JSON.stringify(inForce)) return history;
+
+  return [
+    ...history.filter((version) => version.effectiveFrom !== effectiveFrom),
+    { effectiveFrom, ...nextTerms, recordedAt: new Date() }
+  ].sort(byEffectiveFrom);
+}
@@ -0,0 +1,43 @@
+// Client side of the PPH credential vault. Credentials are encrypted and
+// decrypted by the /api/vault function; the browser only ever sees plaintext
+// for a reveal it explicitly asked for, and each reveal is logged server-side.
+
+import { auth } from '../firebase';
+
+export interface VaultCredentials {
+  password?: string;
+  websiteURL?: string;
+  ip?: string;
+}
+
+async function callVault<T>(body: Record<string, unknown>): Promise<T> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+
+  const response = await fetch('/api/vault', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await user.getIdToken()}`
+    },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Vault request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+// Blank fields are ignored, so an edit only replaces what was filled in.
+export const storeCredentials = (accountId: string, credentials: VaultCredentials) =>
+  callVault<{ ok: boolean }>({ action: 'store', accountId, credentials });
+
+export const revealCredentials = async (accountId: string) =>
+  (await callVault<{ credentials: VaultCredentials }>({ action: 'reveal', accountId })).credentials;
+
+export const removeCredentials = (accountId: string) =>
+  callVault<{ ok: boolean }>({ action: 'remove', accountId });
+
+export const hasCredentials = (credentials: VaultCredentials) =>
+  Boolean(credentials.password || credentials.websiteURL || credentials.ip);
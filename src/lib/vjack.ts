@@ -0,0 +1,185 @@
+// The 48-column VJACK overview sheet. The dashboard export writes it and the
+// import wizard reads it back, so both sides share the column names and the
+// conventions for the cells that pack more than one value.
+
+import { format } from 'date-fns';
+import { entryObligations, LedgerAccount, LedgerEntry, Settlement, SettlementPartyType } from './settlements';
+
+// The sheet repeats some headers with trailing spaces to tell them apart.
+// Import trims and numbers them instead, e.g. 'Refill $ ' reads as 'Refill $ (2)'.
+export const VJACK_REFILL_SLOTS = [
+  { by: 'Refill By 1', amount: 'Refill $' },
+  { by: 'Refill By 2', amount: 'Refill $ ' },
+  { by: 'Refill By 2 ', amount: 'Refill $  ' }
+];
+
+export const VJACK_PAYMENT_SLOTS = [
+  { amount: 'Payment $', method: 'Payment Methods ' },
+  { amount: 'Payment $  ', method: 'Payment Methods  ' },
+  { amount: 'Payment $   ', method: 'Payment Methods   ' },
+  { amount: 'Payment $    ', method: 'Payment Methods    ' }
+];
+
+export interface Refill {
+  by: string;
+  amount: number;
+}
+
+export interface VjackPayment {
+  amount: number;
+  method: string;
+  date: string;
+  payee: string;
+}
+
+export interface VjackEntry {
+  date: string;
+  accHolderName?: string;
+  accNumber?: string;
+  startDate?: string;
+  brokerName?: string;
+  fundedByName?: string;
+  referredByName?: string;
+  playerName: string;
+  promoAmount?: number;
+  withdrawalSubmitted?: string;
+  startingBalance: number;
+  endingBalance: number;
+  refillAmount: number;
+  refills?: Refill[];
+  withdrawal: number;
+  profitLoss: number;
+  taxableAmount: number;
+  companyAmount: number;
+  clickerAmount: number;
+  accHolderAmount: number;
+  accHolderPromo150?: number;
+  referralAmount: number;
+  brokerAmount?: number;
+  funderWayAmount?: number;
+  companyFunded?: number;
+  initialsReturnedOut?: string;
+  payments: VjackPayment[];
+  // Total of every obligation on the entry, settled or not
+  totalOwed: number;
+  notes: string;
+}
+
+type Dated = Date | { toDate: () => Date };
+
+// Legal accounts carry their number in the name, e.g. "Jane Doe (4521)"
+export function accountNumber(account: { type?: string; name?: string; username?: string }): string {
+  if (account.type === 'pph') return account.username || '';
+  const match = typeof account.name === 'string' ? account.name.match(/\(([^)]+)\)/) : null;
+  return match ? match[1] : '';
+}
+
+export function accountStartDate(account: { startDate?: string; createdAt?: Dated }): string {
+  if (account.startDate) return account.startDate;
+  const created = account.createdAt;
+  if (!created) return '';
+  return format(created instanceof Date ? created : created.toDate(), 'yyyy-MM-dd');
+}
+
+// Payment method cells name who was paid and when, e.g.
+// "Zelle (Jane Doe), 2024-01-12", so the payment can be put back in the
+// ledger against the right party and on its own date on import. 'Settled
+// Date' only holds the last one.
+export const formatPaymentMethod = (payment: Pick<VjackPayment, 'method' | 'payee'> & { date?: string }) =>
+  [payment.payee ? `${payment.method} (${payment.payee})` : payment.method, payment.date].filter(Boolean).join(', ');
+
+export function parsePaymentMethod(cell: string): { method: string; payee: string; date: string } {
+  const dated = cell.trim().match(/^(.*?),\s*(\d{4}-\d{2}-\d{2})$/);
+  const rest = dated ? dated[1] : cell.trim();
+  const date = dated ? dated[2] : '';
+  const match = rest.match(/^(.*?)\s*\(([^)]*)\)$/);
+  return match ? { method: match[1], payee: match[2].trim(), date } : { method: rest, payee: '', date };
+}
+
+// Ledger payments that cover this entry, each counted at what the entry owed
+// that party since a single payment can settle several entries at once.
+export function entryPayments(
+  entry: LedgerEntry,
+  account: LedgerAccount | undefined,
+  settlements: Settlement[],
+  payeeName: (partyType: SettlementPartyType, partyId: string) => string
+): VjackPayment[] {
+  const obligations = entryObligations(entry, account);
+  return settlements
+    .filter((s) => (s.entryIds || []).includes(entry.id))
+    .map((s) => ({
+      amount: obligations.find((o) => o.partyType === s.partyType && o.partyId === s.partyId)?.amount || 0,
+      method: s.method,
+      date: s.date,
+      payee: payeeName(s.partyType, s.partyId)
+    }))
+    .filter((payment) => payment.amount)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The sheet has four payment columns. An entry paid in more instalments
+// can't be written without losing some, so the export refuses it instead.
+export const overflowsPaymentSlots = (entry: Pick<VjackEntry, 'payments'>) =>
+  entry.payments.length > VJACK_PAYMENT_SLOTS.length;
+
+export function vjackRow(entry: VjackEntry, index: number): Record<string, string | number> {
+  if (overflowsPaymentSlots(entry)) {
+    throw new Error(`Entry ${entry.date} for ${entry.accHolderName || 'an account'} has ${entry.payments.length} payments; the sheet holds ${VJACK_PAYMENT_SLOTS.length}.`);
+  }
+  const refills = entry.refills?.length
+    ? entry.refills
+    : entry.refillAmount ? [{ by: '', amount: entry.refillAmount }] : [];
+  const totalPaid = entry.payments.reduce((sum, p) => sum + p.amount, 0);
+  const lastPayment = entry.payments[entry.payments.length - 1];
+
+  const row: Record<string, string | number> = {
+    'Sr No': index + 1,
+    'Acc holder name': entry.accHolderName || '',
+    'Number': entry.accNumber || '',
+    'Funded By': entry.fundedByName || '',
+    'Brokered By': entry.brokerName || '',
+    'Referred By': entry.referredByName || '',
+    'Start date': entry.startDate || '',
+    'End Date': entry.date || '',
+    'Withdrawal submitted': entry.withdrawalSubmitted || '',
+    'Starting balance': entry.startingBalance || 0
+  };
+  VJACK_REFILL_SLOTS.forEach((slot, i) => {
+    row[slot.by] = refills[i]?.by || '';
+    row[slot.amount] = refills[i]?.amount || '';
+  });
+  Object.assign(row, {
+    'Promo $': entry.promoAmount || 0,
+    'Accs Holder existing balance': entry.startingBalance || 0,
+    'Ending Balance': entry.endingBalance || 0,
+    'Gross Profit': entry.profitLoss || 0,
+    '30% tax': entry.taxableAmount || 0,
+    'JACK': entry.companyAmount || 0,
+    'Net Profit': (entry.profitLoss || 0) - (entry.taxableAmount || 0),
+    'Settled $': totalPaid || '',
+    'Settled Date': lastPayment?.date || '',
+    'Company Way': entry.companyAmount || 0,
+    'Clicker Name': entry.playerName || '',
+    'Clicker Way 50% Fix': entry.clickerAmount || 0,
+    'Accs Holder Way': entry.accHolderAmount || 0,
+    'Accs Holder promo $150': entry.accHolderPromo150 || '',
+    'Referral Way': entry.referralAmount || 0,
+    'Broker Way': entry.brokerAmount || 0,
+    'Funder Way': entry.funderWayAmount || 0,
+    'Company Funded': entry.companyFunded || '',
+    'initials Returned Out ': entry.initialsReturnedOut || ''
+  });
+  VJACK_PAYMENT_SLOTS.forEach((slot, i) => {
+    const payment = entry.payments[i];
+    row[slot.amount] = payment?.amount || '';
+    row[slot.method] = payment ? formatPaymentMethod(payment) : '';
+  });
+  Object.assign(row, {
+    'Date ': entry.date || '',
+    'Total Recived': entry.withdrawal || 0,
+    'Total Paid': totalPaid,
+    'ALL clear': entry.totalOwed > 0 && totalPaid >= entry.totalOwed ? 'Yes' : '',
+    'Notes , in between settlement ': entry.notes || ''
+  });
+  return row;
+}
@@ -0,0 +1,169 @@
+// Entry approval workflow. Clickers save entries as drafts and submit them
+// for review; staff with approveEntries approve them or send them back, and
+// an entry becomes settled once the ledger has paid every party it owes.
+// Approved and settled entries are read-only to clickers. Locking a date range
+// stamps its entries with the lock's id and writes a `lockedDates/{date}`
+// marker for each of its days; firestore.rules refuse any change to a stamped
+// entry, and any clicker entry dated on a marked day, until it is unlocked.
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where
+} from 'firebase/firestore';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { auth, db } from '../firebase';
+import { auditedDelete, auditedSet, commitInBatches, recordAudit } from './audit';
+import { notDeleted } from './recycle';
+import { EntryStatus, isFullySettled, isPayable, LedgerAccount, LedgerEntry, Settlement } from './settlements';
+
+// Both live with the ledger, which needs them too
+export type { EntryStatus };
+export { isPayable };
+
+export const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  settled: 'Settled'
+};
+
+export interface WorkflowEntry {
+  date?: string;
+  status?: EntryStatus;
+  periodLockId?: string | null;
+  reviewNote?: string;
+}
+
+export interface PeriodLock {
+  id: string;
+  from: string;
+  to: string;
+  lockedBy: string;
+  lockedByName?: string;
+  lockedAt: Date;
+}
+
+// Entries from before the workflow have no status; they were already accepted
+export const entryStatus = (entry: WorkflowEntry): EntryStatus => entry.status || 'approved';
+
+export const clickerCanEdit = (entry: WorkflowEntry) =>
+  !entry.periodLockId && ['draft', 'submitted'].includes(entryStatus(entry));
+
+export const lockCovering = (date: string | undefined, locks: PeriodLock[]) =>
+  date ? locks.find((lock) => lock.from <= date && date <= lock.to) : undefined;
+
+export async function fetchPeriodLocks(): Promise<PeriodLock[]> {
+  const snapshot = await getDocs(collection(db, 'periodLocks'));
+  return snapshot.docs
+    .map((lock) => ({
+      id: lock.id,
+      ...lock.data(),
+      lockedAt: lock.data().lockedAt?.toDate() || new Date()
+    }) as PeriodLock)
+    .sort((a, b) => b.from.localeCompare(a.from));
+}
+
+// Every yyyy-MM-dd day from `from` to `to`, both included
+const lockedDays = (from: string, to: string) =>
+  eachDayOfInterval({ start: parseISO(from), end: parseISO(to) }).map((day) => format(day, 'yyyy-MM-dd'));
+
+const reviewer = () => {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Sign in required');
+  return user;
+};
+
+// Approves submitted entries, or sends them back to the clicker as drafts
+// with a note saying what to fix.
+export async function reviewEntries(entryIds: string[], decision: 'approved' | 'draft', note = ''): Promise<void> {
+  const user = reviewer();
+  const snapshots = await Promise.all(entryIds.map((id) => getDoc(doc(db, 'entries', id))));
+  const review = { status: decision, reviewedBy: user.uid, reviewedAt: new Date(), reviewNote: note };
+  await commitInBatches(snapshots, (batch, snapshot) => {
+    const data = snapshot.data() || {};
+    batch.update(snapshot.ref, review);
+    recordAudit(
+      batch,
+      'update',
+      snapshot.ref,
+      { status: data.status ?? null, reviewedBy: data.reviewedBy ?? null, reviewedAt: data.reviewedAt ?? null, reviewNote: data.reviewNote ?? null },
+      review
+    );
+  });
+}
+
+// Moves approved entries to settled once every party they owe has been paid,
+// and back again when a payment is deleted.
+export async function syncSettledStatus(
+  entries: (LedgerEntry & WorkflowEntry)[],
+  accounts: LedgerAccount[],
+  settlements: Settlement[]
+): Promise<void> {
+  const accountsById = new Map(accounts.map((account) => [account.id, account]));
+  const changes = entries
+    .map((entry) => {
+      const status = entryStatus(entry);
+      if (status !== 'approved' && status !== 'settled') return null;
+      const next: EntryStatus = isFullySettled(entry, accountsById.get(entry.accountId), settlements) ? 'settled' : 'approved';
+      return next === status ? null : { entry, from: status, to: next };
+    })
+    .filter((change): change is NonNullable<typeof change> => change !== null);
+
+  await commitInBatches(changes, (batch, { entry, from, to }) => {
+    const ref = doc(db, 'entries', entry.id);
+    batch.update(ref, { status: to });
+    recordAudit(batch, 'update', ref, { status: entry.status ? from : null }, { status: to });
+  });
+}
+
+// Closes a date range. Everything in it has to be reviewed first, and ranges
+// can't overlap, so each entry belongs to at most one lock.
+export async function lockPeriod(from: string, to: string, lockedByName: string): Promise<void> {
+  const user = reviewer();
+  if (from > to) throw new Error('The start date is after the end date.');
+
+  const overlapping = (await fetchPeriodLocks()).find((lock) => lock.from <= to && from <= lock.to);
+  if (overlapping) throw new Error(`This overlaps the locked period ${overlapping.from} to ${overlapping.to}.`);
+
+  const entries = (await getDocs(query(
+    collection(db, 'entries'),
+    where('date', '>=', from),
+    where('date', '<=', to)
+  ))).docs.filter(notDeleted);
+  const waiting = entries.filter((entry) => !isPayable(entry.data()));
+  if (waiting.length > 0) {
+    throw new Error(`${waiting.length} entries in this range are still waiting for review.`);
+  }
+
+  const lockRef = doc(collection(db, 'periodLocks'));
+  await auditedSet(lockRef, { from, to, lockedBy: user.uid, lockedByName, lockedAt: new Date() });
+  await commitInBatches(lockedDays(from, to), (batch, date) => {
+    const marker = { lockId: lockRef.id };
+    const ref = doc(db, 'lockedDates', date);
+    batch.set(ref, marker);
+    recordAudit(batch, 'create', ref, null, marker);
+  });
+  await commitInBatches(entries, (batch, entry) => {
+    batch.update(entry.ref, { periodLockId: lockRef.id });
+    recordAudit(batch, 'update', entry.ref, { periodLockId: null }, { periodLockId: lockRef.id });
+  });
+}
+
+export async function unlockPeriod(lock: PeriodLock): Promise<void> {
+  const entries = await getDocs(query(collection(db, 'entries'), where('periodLockId', '==', lock.id)));
+  await commitInBatches(entries.docs, (batch, entry) => {
+    batch.update(entry.ref, { periodLockId: deleteField() });
+    recordAudit(batch, 'update', entry.ref, { periodLockId: lock.id }, { periodLockId: null });
+  });
+  const markers = await getDocs(query(collection(db, 'lockedDates'), where('lockId', '==', lock.id)));
+  await commitInBatches(markers.docs, (batch, marker) => {
+    batch.delete(marker.ref);
+    recordAudit(batch, 'delete', marker.ref, marker.data(), null);
+  });
+  await auditedDelete(doc(db, 'periodLocks', lock.id));
+}
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { Zap, Eye, EyeOff } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { InvitePreview, lookupInvite, redeemInvite } from '../lib/invites';
+
+export default function AcceptInvite() {
+  const { code = '' } = useParams<{ code: string }>();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { login, userData } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    lookupInvite(code)
+      .then(setInvite)
+      .catch((err) => setError(err instanceof Error ? err.message : 'This invite link is not valid'))
+      .finally(() => setLoading(false));
+  }, [code]);
+
+  useEffect(() => {
+    if (userData) {
+      navigate('/');
+    }
+  }, [userData, navigate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite) return;
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+    try {
+      const { email } = await redeemInvite(code, password);
+      await login(email, password);
+      // The auth state change will handle navigation
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not activate your account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyberpunk-black via-cyberpunk-violet to-cyberpunk-black flex items-center justify-center">
+      <div className="relative z-10 w-full max-w-md">
+        <div className="bg-cyberpunk-black/20 backdrop-blur-lg rounded-2xl p-8 border border-cyberpunk-pink/20">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <Zap className="w-12 h-12 text-cyberpunk-blue" />
+            </div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-cyberpunk-blue to-cyberpunk-pink bg-clip-text text-transparent mb-2">
+              vjac.co
+            </h1>
+            <p className="text-cyberpunk-yellow">
+              {invite ? `Welcome, ${invite.name}. Choose a password to finish setting up.` : 'Account invite'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-center text-gray-400">Checking your invite...</p>
+          ) : invite ? (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  value={invite.email}
+                  disabled
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-gray-400"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  New Password
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:border-transparent transition-all pr-12"
+                    placeholder="At least 8 characters"
+                    minLength={8}
+                    autoComplete="new-password"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-cyan-400 transition-colors"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Confirm Password
+                </label>
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:border-transparent transition-all"
+                  placeholder="Repeat your password"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={saving}
+                className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Activating...' : 'Activate Account'}
+              </button>
+              <p className="text-xs text-center text-gray-500">
+                This link expires {format(parseISO(invite.expiresAt), 'MMM d, yyyy')} and works once.
+              </p>
+            </form>
+          ) : (
+            <p className="text-center text-gray-400">
+              Ask your administrator for a new invite link, or <Link to="/login" className="text-cyan-400 hover:text-cyan-300">sign in</Link>.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,6 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { collection, getDocs, query, where, doc, setDoc, deleteDoc } from 'firebase/firestore';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
 import { useAuth } from '../contexts/AuthContext';
-import { db, auth } from '../firebase';
 import { Zap, Eye, EyeOff } from 'lucide-react';
 
 export default function Login() {
@@ -21,48 +18,10 @@ export default function Login() {
     setLoading(true);
 
     try {
-      // First try normal login
-      try {
-        await login(email, password);
-        // Navigation will be handled by useEffect in App.tsx based on user role
-      } catch (loginError) {
-        // If login fails, check if this is a pending player account
-        const pendingPlayerQuery = query(
-          collection(db, 'players'),
-          where('email', '==', email),
-          where('password', '==', password),
-          where('status', '==', 'pending')
-        );
-        const pendingPlayerSnapshot = await getDocs(pendingPlayerQuery);
-        
-        if (pendingPlayerSnapshot.docs.length > 0) {
-          // Found a pending player account, activate it
-          const playerData = pendingPlayerSnapshot.docs[0].data();
-          
-          // Create Firebase Auth account
-          const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-          const user = userCredential.user;
-          
-          // Create user document in Firestore
-          await setDoc(doc(db, 'users', user.uid), {
-            uid: user.uid,
-            email: user.email,
-            name: playerData.name,
-            role: 'player',
-            createdAt: new Date(),
-            activatedAt: new Date()
-          });
-          
-          // Delete the pending player record
-          await deleteDoc(pendingPlayerSnapshot.docs[0].ref);
-          
-          // The auth state change will handle navigation
-        } else {
-          throw loginError; // Re-throw the original login error
-        }
-      }
+      await login(email, password);
+      // Navigation will be handled by useEffect in App.tsx based on user role
     } catch (err) {
-      setError('Invalid email or password. If you are a new player, please contact your administrator.');
+      setError('Invalid email or password. New clickers activate their account from the invite link their administrator sent.');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,439 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { collection, documentId, query, Timestamp, where } from 'firebase/firestore';
+import { db } from '../../firebase';
+import { Assignment, fetchAssignments } from '../../lib/assignments';
+import { money } from '../../lib/commission';
+import { AUDIT_ACTION_LABELS, AuditRecord, fetchDocumentHistory } from '../../lib/audit';
+import { ACCOUNT_STATUS_LABELS, statusHistory, WithAccountStatus } from '../../lib/lifecycle';
+import { useLiveQueries } from '../../lib/live';
+import { notDeleted } from '../../lib/recycle';
+import { indexBy, loadAgents, loadBrokers, loadSettlementsForEntries, loadUsers } from '../../lib/repository';
+import { LedgerEntry, Settlement, SETTLEMENT_PARTY_LABELS, SettlementPartyType } from '../../lib/settlements';
+import { accountNumber, accountStartDate } from '../../lib/vjack';
+import { WorkflowEntry } from '../../lib/workflow';
+import { useAuth } from '../../contexts/AuthContext';
+import { ArrowLeft, CreditCard, History, Tag, Wallet } from 'lucide-react';
+import AccountStatusBadge from '../../components/AccountStatusBadge';
+import AccountStatusModal from '../../components/AccountStatusModal';
+import AuditChanges from '../../components/AuditChanges';
+import BalanceChart from '../../components/BalanceChart';
+import EntryStatusBadge from '../../components/EntryStatusBadge';
+import LiveIndicator from '../../components/LiveIndicator';
+import VaultCredentials from '../../components/VaultCredentials';
+
+interface AccountRecord extends WithAccountStatus {
+  id: string;
+  type?: 'pph' | 'legal';
+  username?: string;
+  name?: string;
+  deal?: string;
+  agentId?: string;
+  brokerId?: string;
+  brokeredById?: string;
+  fundedById?: string;
+  referredById?: string;
+  depositAmount?: number;
+  sharePercentage?: number;
+  promoAmount?: number;
+  hasVaultCredentials?: boolean;
+  startDate?: string;
+  createdAt?: Timestamp;
+}
+
+interface Entry extends LedgerEntry, WorkflowEntry {
+  date: string;
+  startingBalance?: number;
+  endingBalance?: number;
+  profitLoss?: number;
+  companyAmount?: number;
+  promoCode?: string;
+  promoAmount?: number;
+  accHolderPromo150?: number;
+}
+
+interface TimelineEvent {
+  at: Date;
+  title: string;
+  detail?: string;
+  by?: string;
+}
+
+export default function AccountDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { can } = useAuth();
+  const [account, setAccount] = useState<AccountRecord | null>(null);
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [auditRecords, setAuditRecords] = useState<AuditRecord[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [names, setNames] = useState<{ agents: Map<string, string>; brokers: Map<string, string>; users: Map<string, string> }>({
+    agents: new Map(),
+    brokers: new Map(),
+    users: new Map()
+  });
+  const [showStatus, setShowStatus] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  // The account and its entries are followed live; the payments covering
+  // those entries, assignments and the audit trail are read again whenever
+  // either changes
+  const updatedAt = useLiveQueries(
+    `account:${id}`,
+    [
+      query(collection(db, 'accounts'), where(documentId(), '==', id || '-')),
+      query(collection(db, 'entries'), where('accountId', '==', id || '-'))
+    ],
+    async ([accountSnapshot, entriesSnapshot]) => {
+      try {
+        const accountDoc = accountSnapshot.docs[0];
+        const liveEntries = entriesSnapshot.docs.filter(notDeleted).map(doc => ({ id: doc.id, ...doc.data() }) as Entry);
+
+        const [agents, brokers, users, settlementDocs, history, assignmentHistory] = await Promise.all([
+          loadAgents(),
+          loadBrokers(),
+          loadUsers(),
+          loadSettlementsForEntries(liveEntries.map(entry => entry.id)),
+          fetchDocumentHistory(`accounts/${id}`),
+          fetchAssignments(id)
+        ]);
+        setNames({
+          agents: new Map(agents.map(agent => [agent.id, agent.name || 'Unnamed'])),
+          brokers: new Map(brokers.map(broker => [broker.id, broker.name || 'Unnamed'])),
+          users: new Map(Array.from(indexBy(users, 'uid')).map(([uid, user]) => [uid, user.name || user.email || uid]))
+        });
+        setAccount(accountDoc ? { id: accountDoc.id, ...accountDoc.data() } as AccountRecord : null);
+        setEntries(liveEntries.sort((a, b) => b.date.localeCompare(a.date)));
+        setSettlements(
+          settlementDocs
+            .map(doc => ({ id: doc.id, ...doc.data() }) as Settlement)
+            .sort((a, b) => b.date.localeCompare(a.date))
+        );
+        setAuditRecords(history);
+        setAssignments(assignmentHistory);
+      } catch (error) {
+        console.error('Error fetching account:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-400">Loading account...</div>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <div className="space-y-4">
+        <Link to="/admin/accounts" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Accounts</span>
+        </Link>
+        <p className="text-gray-400">This account was not found.</p>
+      </div>
+    );
+  }
+
+  const title = account.type === 'legal' ? account.name : account.username;
+  const brokeredById = account.brokeredById || account.brokerId;
+  const partyName = (partyType: SettlementPartyType, partyId: string) =>
+    (partyType === 'clicker' ? names.users : partyType === 'accHolder' ? names.agents : names.brokers).get(partyId) || 'Unknown';
+
+  const clickerName = (uid: string | null) => (uid && names.users.get(uid)) || 'Unknown Clicker';
+
+  // Status changes and clicker assignments, newest first
+  const timeline: TimelineEvent[] = [
+    ...(account.createdAt ? [{ at: account.createdAt.toDate(), title: 'Created' }] : []),
+    ...statusHistory(account).map(change => ({
+      at: change.changedAt,
+      title: `${change.from ? `${ACCOUNT_STATUS_LABELS[change.from]} → ` : ''}${ACCOUNT_STATUS_LABELS[change.to]}`,
+      detail: change.reason,
+      by: change.changedBy ? names.users.get(change.changedBy) || change.changedBy : undefined
+    })),
+    ...assignments
+      .filter(assignment => assignment.createdAt && assignment.from)
+      .map(assignment => ({
+        at: assignment.createdAt as Date,
+        title: assignment.handedOverFrom
+          ? `Handed over from ${clickerName(assignment.handedOverFrom)} to ${clickerName(assignment.playerUid)}`
+          : `Assigned to ${clickerName(assignment.playerUid)}`,
+        detail: [`From ${assignment.from}`, assignment.note].filter(Boolean).join(' · '),
+        by: names.users.get(assignment.assignedBy) || assignment.assignedBy
+      }))
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+
+  const totalProfit = entries.reduce((sum, entry) => sum + (entry.profitLoss || 0), 0);
+  const promoEntries = entries.filter(entry => entry.promoCode || entry.promoAmount || entry.accHolderPromo150);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link to="/admin/accounts" className="inline-flex items-center space-x-2 text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Accounts</span>
+        </Link>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <div className="flex items-center space-x-3">
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                {title || account.id}
+              </h1>
+              <span className={`px-2 py-1 rounded-full text-xs ${account.type === 'legal' ? 'bg-orange-500/20 text-orange-400' : 'bg-purple-500/20 text-purple-400'}`}>
+                {account.type === 'legal' ? 'LEGAL' : 'PPH'}
+              </span>
+              <button onClick={() => setShowStatus(true)} title="Status and history">
+                <AccountStatusBadge account={account} />
+              </button>
+            </div>
+            <p className="text-gray-400 mt-1">
+              Account {accountNumber(account) || account.id}
+              {accountStartDate(account) && ` · started ${accountStartDate(account)}`}
+            </p>
+            <div className="mt-2"><LiveIndicator updatedAt={updatedAt} /></div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+            <CreditCard className="w-5 h-5 mr-2 text-cyan-400" />
+            Parties
+          </h2>
+          <dl className="grid grid-cols-2 gap-y-3 text-sm">
+            <dt className="text-gray-400">Account holder</dt>
+            <dd className="text-white">{(account.agentId && names.agents.get(account.agentId)) || 'Unknown'}</dd>
+            <dt className="text-gray-400">Brokered by</dt>
+            <dd className="text-white">{brokeredById ? names.brokers.get(brokeredById) || 'Unknown' : '—'}</dd>
+            <dt className="text-gray-400">Funded by</dt>
+            <dd className="text-white">{account.fundedById ? names.brokers.get(account.fundedById) || 'Unknown' : '—'}</dd>
+            <dt className="text-gray-400">Referred by</dt>
+            <dd className="text-white">{account.referredById ? names.brokers.get(account.referredById) || 'Unknown' : '—'}</dd>
+            <dt className="text-gray-400">Clicker</dt>
+            <dd className="text-white">{account.assignedToPlayerUid ? names.users.get(account.assignedToPlayerUid) || 'Unknown' : 'Unassigned'}</dd>
+            {account.type === 'legal' && (
+              <>
+                <dt className="text-gray-400">Deposit</dt>
+                <dd className="text-white">{money(account.depositAmount)}</dd>
+                <dt className="text-gray-400">Share</dt>
+                <dd className="text-white">{account.sharePercentage || 0}%</dd>
+              </>
+            )}
+            {account.deal && (
+              <>
+                <dt className="text-gray-400">Deal</dt>
+                <dd className="text-white">{account.deal}</dd>
+              </>
+            )}
+          </dl>
+          {account.type !== 'legal' && account.hasVaultCredentials && can('viewCredentials') && (
+            <div className="mt-4"><VaultCredentials accountId={account.id} /></div>
+          )}
+        </div>
+
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-white">Balance</h2>
+            <div className="text-right text-sm">
+              <p className="text-gray-400">{entries.length} entries</p>
+              <p className={totalProfit >= 0 ? 'text-green-400' : 'text-red-400'}>{money(totalProfit)} profit/loss</p>
+            </div>
+          </div>
+          <BalanceChart points={entries.map(entry => ({ date: entry.date, balance: entry.endingBalance || 0 }))} />
+        </div>
+      </div>
+
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-bold text-white mb-4">Lifecycle</h2>
+        {timeline.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing has been recorded for this account yet.</p>
+        ) : (
+          <ol className="relative border-l border-purple-500/20 ml-2 space-y-4">
+            {timeline.map((event, i) => (
+              <li key={`${event.at.getTime()}-${i}`} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-cyan-400" />
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white font-medium">{event.title}</span>
+                  <span className="text-gray-400 text-xs">{event.at.toLocaleString()}</span>
+                </div>
+                {event.detail && <p className="text-sm text-gray-300">{event.detail}</p>}
+                {event.by && <p className="text-xs text-gray-500">by {event.by}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-bold text-white mb-4">Clickers</h2>
+        {assignments.length === 0 ? (
+          <p className="text-sm text-gray-400">No assignments have been recorded for this account.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-purple-500/20">
+                  <th className="py-2 pr-4">Clicker</th>
+                  <th className="py-2 pr-4">From</th>
+                  <th className="py-2 pr-4">To</th>
+                  <th className="py-2 pr-4">Carried Over</th>
+                  <th className="py-2 pr-4">Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...assignments].reverse().map(assignment => (
+                  <tr key={assignment.id} className="border-b border-purple-500/10">
+                    <td className="py-2 pr-4 text-white">{clickerName(assignment.playerUid)}</td>
+                    <td className="py-2 pr-4 text-gray-300">{assignment.from || 'Before history'}</td>
+                    <td className="py-2 pr-4 text-gray-300">{assignment.to || 'Current'}</td>
+                    <td className="py-2 pr-4 text-gray-300">{assignment.startingBalance === null ? '-' : money(assignment.startingBalance)}</td>
+                    <td className="py-2 pr-4 text-gray-400">{assignment.note}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-bold text-white mb-4">Entries</h2>
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-400">No entries have been recorded for this account.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-purple-500/20">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Clicker</th>
+                  <th className="py-2 pr-4 text-right">Starting</th>
+                  <th className="py-2 pr-4 text-right">Ending</th>
+                  <th className="py-2 pr-4 text-right">Profit/Loss</th>
+                  <th className="py-2 pr-4 text-right">Clicker</th>
+                  <th className="py-2 pr-4 text-right">Holder</th>
+                  <th className="py-2 pr-4 text-right">Broker</th>
+                  <th className="py-2 pr-4 text-right">Funder</th>
+                  <th className="py-2 pr-4 text-right">Referral</th>
+                  <th className="py-2 text-right">Company</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-b border-purple-500/10 text-gray-300">
+                    <td className="py-2 pr-4 text-white">{entry.date}</td>
+                    <td className="py-2 pr-4"><EntryStatusBadge entry={entry} /></td>
+                    <td className="py-2 pr-4">{names.users.get(entry.playerUid) || 'Unknown'}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.startingBalance)}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.endingBalance)}</td>
+                    <td className={`py-2 pr-4 text-right font-medium ${(entry.profitLoss || 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {money(entry.profitLoss)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{money(entry.clickerAmount)}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.accHolderAmount)}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.brokerAmount)}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.funderWayAmount)}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.referralAmount)}</td>
+                    <td className="py-2 text-right">{money(entry.companyAmount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+            <Tag className="w-5 h-5 mr-2 text-cyan-400" />
+            Promos
+          </h2>
+          <p className="text-sm text-gray-400 mb-4">Account promo: <span className="text-white">{money(account.promoAmount)}</span></p>
+          {promoEntries.length === 0 ? (
+            <p className="text-sm text-gray-400">No entries used a promo.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {promoEntries.map(entry => (
+                <li key={entry.id} className="flex justify-between text-gray-300">
+                  <span>{entry.date}{entry.promoCode && ` · ${entry.promoCode}`}</span>
+                  <span className="text-white">
+                    {money(entry.promoAmount)}
+                    {entry.accHolderPromo150 ? ` (holder promo ${money(entry.accHolderPromo150)})` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+            <Wallet className="w-5 h-5 mr-2 text-cyan-400" />
+            Settlements
+          </h2>
+          {settlements.length === 0 ? (
+            <p className="text-sm text-gray-400">No payments cover this account's entries yet.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {settlements.map(settlement => {
+                // A payment can cover other accounts' entries too
+                const covered = settlement.entryIds.filter(entryId => entries.some(entry => entry.id === entryId)).length;
+                return (
+                  <li key={settlement.id} className="flex justify-between text-gray-300">
+                    <span>
+                      {settlement.date} · {SETTLEMENT_PARTY_LABELS[settlement.partyType]} {partyName(settlement.partyType, settlement.partyId)} · {settlement.method}
+                    </span>
+                    <span className="text-white">
+                      {money(settlement.amount)}
+                      <span className="text-gray-400"> · {covered} of {settlement.entryIds.length} entries here</span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+          <History className="w-5 h-5 mr-2 text-cyan-400" />
+          Audit History
+        </h2>
+        {auditRecords.length === 0 ? (
+          <p className="text-sm text-gray-400">No changes have been recorded for this account yet.</p>
+        ) : (
+          <ol className="space-y-4">
+            {auditRecords.map(record => (
+              <li key={record.id} className="bg-white/5 rounded-lg p-4 border border-purple-500/10">
+                <div className="flex items-center justify-between mb-2 text-sm">
+                  <span className="text-white font-medium">
+                    {AUDIT_ACTION_LABELS[record.action]} by {record.actorEmail || record.actorUid}
+                  </span>
+                  <span className="text-gray-400">{record.at.toLocaleString()}</span>
+                </div>
+                <AuditChanges record={record} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {showStatus && (
+        <AccountStatusModal
+          account={account}
+          title={title || account.id}
+          canChange={can('manageAccounts')}
+          onClose={() => setShowStatus(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,23 @@
 
 import React, { useState, useEffect } from 'react';
-import { collection, addDoc, getDocs, deleteDoc, doc, query, where, updateDoc, deleteField } from 'firebase/firestore';
+import { collection, getDocs, doc, query, where, deleteField, DocumentData, QuerySnapshot } from 'firebase/firestore';
+import { format } from 'date-fns';
 import { db } from '../../firebase';
-import { Plus, CreditCard, Trash2, Edit, ExternalLink, Save, X, BarChart3, Search, User, Briefcase } from 'lucide-react';
+import { auditedAdd, auditedUpdate } from '../../lib/audit';
+import { confirmDelete, isDeleted, moveToRecycleBin, notDeleted, planDelete } from '../../lib/recycle';
+import { indexBy, loadAgents, loadBrokers, loadClickers } from '../../lib/repository';
+import { ACCOUNT_STATUSES, AccountStatus, STOPPED_STATUSES, accountStatus, initialAccountStatus } from '../../lib/lifecycle';
+import { assignAccount } from '../../lib/assignments';
+import VaultCredentials from '../../components/VaultCredentials';
+import { useAuth } from '../../contexts/AuthContext';
+import { hasCredentials, storeCredentials } from '../../lib/vault';
+import { Plus, CreditCard, Trash2, Edit, Save, X, BarChart3, Search, User, Briefcase, History } from 'lucide-react';
+import AuditHistory from '../../components/AuditHistory';
+import AccountStatusBadge from '../../components/AccountStatusBadge';
+import AccountStatusModal from '../../components/AccountStatusModal';
+import LiveIndicator from '../../components/LiveIndicator';
+import { useLiveQueries } from '../../lib/live';
+import { Link } from 'react-router-dom';
 
 interface Account {
   id: string;
@@ -12,6 +27,7 @@ interface Account {
   password?: string;
   deal?: string;
   ip?: string;
+  hasVaultCredentials?: boolean;
   name?: string;
   sharePercentage?: number;
   depositAmount?: number;
@@ -21,7 +37,8 @@ interface Account {
   brokerName?: string;
   assignedToPlayerUid?: string;
   assignedToPlayerName?: string;
-  status: 'active' | 'inactive' | 'unused';
+  status: AccountStatus;
+  statusHistory?: DocumentData[];
   createdAt: Date;
   referralPercentage?: number;
   promoAmount?: number;
@@ -56,6 +73,7 @@ interface Broker {
 }
 
 export default function Accounts() {
+  const { can } = useAuth();
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [filteredAccounts, setFilteredAccounts] = useState<Account[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -64,6 +82,8 @@ export default function Accounts() {
   const [clickers, setClickers] = useState<{ id: string; label: string; source: 'user' | 'pending'; uid?: string }[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [historyFor, setHistoryFor] = useState<{ path: string; title: string } | null>(null);
+  const [statusFor, setStatusFor] = useState<Account | null>(null);
   const [newAccount, setNewAccount] = useState({
     type: 'pph' as 'pph' | 'legal',
     username: '',
@@ -79,7 +99,6 @@ export default function Accounts() {
     brokeredById: '',
     fundedById: '',
     referredById: '',
-    status: 'active' as 'active' | 'inactive' | 'unused',
     promoAmount: '',
     brokeredOverrideType: '' as '' | 'gross' | 'net',
     brokeredOverridePct: '',
@@ -95,18 +114,25 @@ export default function Accounts() {
     referredOverrideMode: '' as '' | 'percentage' | 'flat' | 'both'
   });
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'active' | 'inactive' | 'unused' | 'pph' | 'legal'>('all');
+  const [filter, setFilter] = useState<'all' | AccountStatus | 'pph' | 'legal'>('all');
   const [agentFilter, setAgentFilter] = useState<string>('all');
   const [brokerFilter, setBrokerFilter] = useState<string>('all');
   const [clickerFilter, setClickerFilter] = useState<string>('all');
 
   useEffect(() => {
-    fetchAccounts();
-    fetchAgents();
-    fetchBrokers();
     fetchClickers();
   }, []);
 
+  // Agents and brokers are listed with how many accounts they have, so they
+  // are rebuilt from the same snapshot
+  const updatedAt = useLiveQueries('accounts', [collection(db, 'accounts')], async ([accountsSnapshot]) => {
+    await Promise.all([
+      fetchAccounts(accountsSnapshot),
+      fetchAgents(accountsSnapshot),
+      fetchBrokers(accountsSnapshot)
+    ]);
+  });
+
   useEffect(() => {
     let filtered = accounts;
     
@@ -118,7 +144,7 @@ export default function Accounts() {
     }
     
     if (filter !== 'all') {
-      if (filter === 'active' || filter === 'inactive' || filter === 'unused') {
+      if (ACCOUNT_STATUSES.includes(filter as AccountStatus)) {
         filtered = filtered.filter(account => account.status === filter);
       } else if (filter === 'pph' || filter === 'legal') {
         filtered = filtered.filter(account => account.type === filter);
@@ -145,52 +171,34 @@ export default function Accounts() {
     setFilteredAccounts(filtered);
   }, [accounts, searchTerm, filter, agentFilter, brokerFilter, clickerFilter]);
 
-  const fetchAccounts = async () => {
+  const fetchAccounts = async (accountsSnapshot: QuerySnapshot) => {
     try {
-      const accountsSnapshot = await getDocs(collection(db, 'accounts'));
+      const accountDocs = accountsSnapshot.docs.filter(notDeleted);
+      const [agentsById, brokersById, clickersByUid] = await Promise.all([
+        loadAgents().then(agents => indexBy(agents)),
+        loadBrokers().then(brokers => indexBy(brokers)),
+        loadClickers().then(clickers => indexBy(clickers, 'uid'))
+      ]);
       const accountsData = await Promise.all(
-        accountsSnapshot.docs.map(async (accountDoc) => {
+        accountDocs.map(async (accountDoc) => {
           const accountData = accountDoc.data();
+          const agentName = agentsById.get(accountData.agentId)?.name || 'Unknown Agent';
           
-          // Fetch agent name
-          const agentDoc = await getDocs(query(collection(db, 'agents'), where('__name__', '==', accountData.agentId)));
-          const agentName = agentDoc.docs[0]?.data().name || 'Unknown Agent';
-          
-          // Fetch broker name if exists
           let brokerName = '';
           if (accountData.brokerId) {
-            const brokerDoc = await getDocs(query(collection(db, 'brokers'), where('__name__', '==', accountData.brokerId)));
-            brokerName = brokerDoc.docs[0]?.data().name || 'Unknown Broker';
+            brokerName = brokersById.get(accountData.brokerId)?.name || 'Unknown Broker';
           }
           
           let assignedToPlayerName = '';
           if (accountData.assignedToPlayerUid) {
-            const playerDoc = await getDocs(query(collection(db, 'users'), where('uid', '==', accountData.assignedToPlayerUid)));
-            assignedToPlayerName = playerDoc.docs[0]?.data().name || 'Unknown Player';
-          }
-          
-          // Determine status: assigned accounts are active; otherwise unused unless explicitly inactive
-          const entriesQuery = query(collection(db, 'entries'), where('accountId', '==', accountDoc.id));
-          const entriesSnapshot = await getDocs(entriesQuery);
-          
-          let status = accountData.status || 'unused';
-          if (accountData.assignedToPlayerUid) {
-            status = 'active';
-            if (accountData.status !== 'active') {
-              await updateDoc(doc(db, 'accounts', accountDoc.id), {
-                status: 'active',
-                updatedAt: new Date()
-              });
-            }
-          } else if (entriesSnapshot.size === 0) {
-            status = 'unused';
+            assignedToPlayerName = clickersByUid.get(accountData.assignedToPlayerUid)?.name || 'Unknown Player';
           }
           
           return {
             id: accountDoc.id,
             ...accountData,
             type: accountData.type || 'pph',
-            status,
+            status: accountStatus(accountData),
             agentName,
             brokerName,
             assignedToPlayerName,
@@ -206,21 +214,19 @@ export default function Accounts() {
     }
   };
 
-  const fetchAgents = async () => {
+  const fetchAgents = async (accountsSnapshot: QuerySnapshot) => {
     try {
-      const accountsSnapshot = await getDocs(collection(db, 'accounts'));
       const accountCounts: Record<string, number> = {};
       
-      accountsSnapshot.forEach(doc => {
+      accountsSnapshot.docs.filter(notDeleted).forEach(doc => {
         const agentId = doc.data().agentId;
         accountCounts[agentId] = (accountCounts[agentId] || 0) + 1;
       });
 
-      const agentsSnapshot = await getDocs(collection(db, 'agents'));
-      const agentsData = agentsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        name: doc.data().name,
-        accountCount: accountCounts[doc.id] || 0
+      const agentsData = (await loadAgents()).filter(agent => !isDeleted(agent)).map(agent => ({
+        id: agent.id,
+        name: agent.name || '',
+        accountCount: accountCounts[agent.id] || 0
       })).sort((a, b) => b.accountCount - a.accountCount);
       
       setAgents(agentsData);
@@ -229,23 +235,21 @@ export default function Accounts() {
     }
   };
 
-  const fetchBrokers = async () => {
+  const fetchBrokers = async (accountsSnapshot: QuerySnapshot) => {
     try {
-      const accountsSnapshot = await getDocs(collection(db, 'accounts'));
       const accountCounts: Record<string, number> = {};
       
-      accountsSnapshot.forEach(doc => {
+      accountsSnapshot.docs.filter(notDeleted).forEach(doc => {
         const brokerId = doc.data().brokerId;
         if (brokerId) {
           accountCounts[brokerId] = (accountCounts[brokerId] || 0) + 1;
         }
       });
 
-      const brokersSnapshot = await getDocs(collection(db, 'brokers'));
-      const brokersData = brokersSnapshot.docs.map(doc => ({
-        id: doc.id,
-        name: doc.data().name,
-        accountCount: accountCounts[doc.id] || 0
+      const brokersData = (await loadBrokers()).filter(broker => !isDeleted(broker)).map(broker => ({
+        id: broker.id,
+        name: broker.name || '',
+        accountCount: accountCounts[broker.id] || 0
       })).sort((a, b) => b.accountCount - a.accountCount);
       
       setBrokers(brokersData);
@@ -256,10 +260,9 @@ export default function Accounts() {
 
   const fetchClickers = async () => {
     try {
-      const usersSnap = await getDocs(query(collection(db, 'users'), where('role', '==', 'player')));
-      const active = usersSnap.docs.map((d) => ({ id: d.id, label: d.data().name || d.data().email || d.id, source: 'user' as const, uid: d.data().uid || d.id }));
+      const active = (await loadClickers()).filter((c) => !isDeleted(c)).map((c) => ({ id: c.id, label: c.name || c.email || c.id, source: 'user' as const, uid: c.uid }));
       const pendingSnap = await getDocs(collection(db, 'players'));
-      const pending = pendingSnap.docs.map((d) => ({ id: d.id, label: d.data().name || d.data().email || d.id, source: 'pending' as const }));
+      const pending = pendingSnap.docs.filter(notDeleted).map((d) => ({ id: d.id, label: d.data().name || d.data().email || d.id, source: 'pending' as const }));
       setClickers([
         ...active.sort((a,b)=>a.label.localeCompare(b.label)),
         ...pending.sort((a,b)=>a.label.localeCompare(b.label))
@@ -276,7 +279,6 @@ export default function Accounts() {
     const accountData: any = {
       type: newAccount.type,
       agentId: newAccount.agentId,
-      status: 'unused', // Always set new accounts as unused
       createdAt: new Date()
     };
 
@@ -311,11 +313,9 @@ export default function Accounts() {
 
     if (newAccount.type === 'pph') {
       if (!newAccount.username || !newAccount.websiteURL || !newAccount.password) return;
+      // Password, URL and IP go to the vault once the account exists
       accountData.username = newAccount.username.trim();
-      accountData.websiteURL = newAccount.websiteURL.trim();
-      accountData.password = newAccount.password.trim();
       accountData.deal = newAccount.deal.trim();
-      accountData.ip = newAccount.ip.trim();
     } else {
       if (!newAccount.name) return;
       accountData.name = newAccount.name.trim();
@@ -329,29 +329,44 @@ export default function Accounts() {
     try {
       // Assign clicker if selected
       const selectedClicker = (newAccount as any).assignedClickerId as string | undefined;
+      let clickerUid = '';
+      let clickerName = '';
       if (selectedClicker) {
         if (selectedClicker.startsWith('user:')) {
-          const uid = selectedClicker.replace('user:', '');
-          accountData.assignedToPlayerUid = uid;
+          clickerUid = selectedClicker.replace('user:', '');
+          clickerName = clickers.find(c => c.uid === clickerUid)?.label || 'a clicker';
         } else if (selectedClicker.startsWith('pending:')) {
           const pid = selectedClicker.replace('pending:', '');
           // Create users doc (no Auth) - will be linked to auth on first login
           // Fetch pending doc for name/email if available
           const pendingSnap = await getDocs(query(collection(db, 'players'), where('__name__', '==', pid)));
           const pdata = pendingSnap.docs[0]?.data() || {};
-          const userRef = await addDoc(collection(db, 'users'), {
+          const userRef = await auditedAdd(collection(db, 'users'), {
             email: pdata.email || '',
             name: pdata.name || 'Pending Clicker',
             role: 'player',
             createdAt: new Date()
           });
-          const uid = userRef.id;
-          await updateDoc(doc(db, 'users', uid), { uid });
-          accountData.assignedToPlayerUid = uid;
+          clickerUid = userRef.id;
+          clickerName = pdata.name || 'Pending Clicker';
+          await auditedUpdate(doc(db, 'users', clickerUid), { uid: clickerUid });
         }
       }
 
-      await addDoc(collection(db, 'accounts'), accountData);
+      // The account starts unused and the clicker is given it through the
+      // assignment history, so their first day is on record
+      Object.assign(accountData, initialAccountStatus('unused', 'Created'));
+      const accountRef = await auditedAdd(collection(db, 'accounts'), accountData);
+      if (clickerUid) {
+        await assignAccount({ id: accountRef.id, ...accountData }, clickerUid, clickerName, format(new Date(), 'yyyy-MM-dd'));
+      }
+      if (newAccount.type === 'pph') {
+        await storeCredentials(accountRef.id, {
+          password: newAccount.password,
+          websiteURL: newAccount.websiteURL,
+          ip: newAccount.ip
+        });
+      }
       setNewAccount({
         type: 'pph',
         username: '',
@@ -367,7 +382,6 @@ export default function Accounts() {
         brokeredById: '',
         fundedById: '',
         referredById: '',
-        status: 'active',
         promoAmount: '',
         brokeredOverrideType: '',
         brokeredOverridePct: '',
@@ -384,9 +398,6 @@ export default function Accounts() {
         assignedClickerId: ''
       } as any);
       setShowModal(false);
-      fetchAccounts();
-      fetchAgents();
-      fetchBrokers();
       fetchClickers();
     } catch (error) {
       console.error('Error adding account:', error);
@@ -404,16 +415,12 @@ export default function Accounts() {
       brokeredById: (editingAccount as any).brokeredById || null,
       fundedById: (editingAccount as any).fundedById || null,
       referredById: (editingAccount as any).referredById || null,
-      status: editingAccount.status,
       updatedAt: new Date(),
     };
 
     if (editingAccount.type === 'pph') {
       updateData.username = editingAccount.username?.trim();
-      updateData.websiteURL = editingAccount.websiteURL?.trim();
-      updateData.password = editingAccount.password?.trim();
       updateData.deal = editingAccount.deal?.trim();
-      updateData.ip = editingAccount.ip?.trim();
     } else {
       updateData.name = editingAccount.name?.trim();
       updateData.sharePercentage = editingAccount.sharePercentage;
@@ -504,51 +511,63 @@ export default function Accounts() {
     try {
       // Handle clicker reassignment if present
       const selectedClicker = (editingAccount as any).assignedClickerId as string | undefined;
+      let clickerUid = '';
+      let clickerName = '';
       if (selectedClicker) {
         if (selectedClicker.startsWith('user:')) {
-          const uid = selectedClicker.replace('user:', '');
-          updateData.assignedToPlayerUid = uid;
+          clickerUid = selectedClicker.replace('user:', '');
+          clickerName = clickers.find(c => c.uid === clickerUid)?.label || 'a clicker';
         } else if (selectedClicker.startsWith('pending:')) {
           const pid = selectedClicker.replace('pending:', '');
           const pendingSnap = await getDocs(query(collection(db, 'players'), where('__name__', '==', pid)));
           const pdata = pendingSnap.docs[0]?.data() || {};
-          const userRef = await addDoc(collection(db, 'users'), {
+          const userRef = await auditedAdd(collection(db, 'users'), {
             email: pdata.email || '',
             name: pdata.name || 'Pending Clicker',
             role: 'player',
             createdAt: new Date()
           });
-          const uid = userRef.id;
-          await updateDoc(doc(db, 'users', uid), { uid });
-          updateData.assignedToPlayerUid = uid;
+          clickerUid = userRef.id;
+          clickerName = pdata.name || 'Pending Clicker';
+          await auditedUpdate(doc(db, 'users', clickerUid), { uid: clickerUid });
         }
       }
 
-      await updateDoc(doc(db, 'accounts', editingAccount.id), updateData);
+      await auditedUpdate(doc(db, 'accounts', editingAccount.id), updateData);
+      // A different clicker is a handover from today
+      if (clickerUid && clickerUid !== editingAccount.assignedToPlayerUid) {
+        await assignAccount(editingAccount, clickerUid, clickerName, format(new Date(), 'yyyy-MM-dd'));
+      }
+      // Blank credential fields keep what the vault already holds
+      const credentials = {
+        password: editingAccount.password,
+        websiteURL: editingAccount.websiteURL,
+        ip: editingAccount.ip
+      };
+      if (editingAccount.type === 'pph' && hasCredentials(credentials)) {
+        await storeCredentials(editingAccount.id, credentials);
+      }
       setEditingAccount(null);
-      fetchAccounts();
     } catch (error) {
       console.error('Error updating account:', error);
     }
   };
 
+  // Vault credentials stay with the account until it is purged
   const handleDeleteAccount = async (accountId: string) => {
-    if (window.confirm('Are you sure you want to delete this account?')) {
-      try {
-        await deleteDoc(doc(db, 'accounts', accountId));
-        fetchAccounts();
-        fetchAgents();
-        fetchBrokers();
-      } catch (error) {
-        console.error('Error deleting account:', error);
-      }
+    try {
+      const plan = await planDelete(doc(db, 'accounts', accountId));
+      if (!confirmDelete(plan, 'this account')) return;
+      await moveToRecycleBin(plan);
+    } catch (error) {
+      console.error('Error deleting account:', error);
     }
   };
 
   const accountStats = {
     total: accounts.length,
     active: accounts.filter(a => a.status === 'active').length,
-    inactive: accounts.filter(a => a.status === 'inactive').length,
+    stopped: accounts.filter(a => STOPPED_STATUSES.includes(a.status)).length,
     unused: accounts.filter(a => a.status === 'unused').length,
     pph: accounts.filter(a => a.type === 'pph').length,
     legal: accounts.filter(a => a.type === 'legal').length
@@ -564,15 +583,18 @@ export default function Accounts() {
             Accounts Management
           </h1>
           <p className="text-gray-400 mt-1">Manage trading accounts and credentials</p>
+          <div className="mt-2"><LiveIndicator updatedAt={updatedAt} /></div>
         </div>
         
-        <button
-          onClick={() => setShowModal(true)}
-          className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add New Account</span>
-        </button>
+        {can('manageAccounts') && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add New Account</span>
+          </button>
+        )}
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
@@ -597,8 +619,8 @@ export default function Accounts() {
         <div className="bg-gradient-to-r from-red-500/10 to-pink-500/10 backdrop-blur-sm rounded-xl p-4 border border-red-500/20">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-400">Inactive</p>
-              <p className="text-2xl font-bold text-red-400">{accountStats.inactive}</p>
+              <p className="text-sm text-gray-400">Paused or Closed</p>
+              <p className="text-2xl font-bold text-red-400">{accountStats.stopped}</p>
             </div>
             <div className="w-3 h-3 bg-red-400 rounded-full"></div>
           </div>
@@ -719,7 +741,7 @@ export default function Accounts() {
       </div>
 
       <div className="flex space-x-4 flex-wrap gap-2">
-        {['all', 'active', 'inactive', 'unused', 'pph', 'legal'].map((filterOption) => (
+        {['all', ...ACCOUNT_STATUSES, 'pph', 'legal'].map((filterOption) => (
           <button
             key={filterOption}
             onClick={() => setFilter(filterOption as any)}
@@ -768,18 +790,6 @@ export default function Accounts() {
                       <option value="pph" className="bg-gray-800 text-white">PPH</option>
                       <option value="legal" className="bg-gray-800 text-white">Legal</option>
                     </select>
-                    <select
-                      value={editingAccount.status}
-                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => 
-                        setEditingAccount({ ...editingAccount, status: e.target.value as 'active' | 'inactive' | 'unused' })
-                      }
-                      className="appearance-none px-3 py-1 bg-white/5 border border-purple-500/20 rounded text-white text-sm pr-8 bg-no-repeat bg-[length:20px_20px] bg-[position:right_2px_center]"
-                      style={{ backgroundImage: dropdownArrowSvg }}
-                    >
-                      <option value="active" className="bg-gray-800 text-white">Active</option>
-                      <option value="inactive" className="bg-gray-800 text-white">Inactive</option>
-                      <option value="unused" className="bg-gray-800 text-white">Unused</option>
-                    </select>
                   </div>
 
                   {editingAccount.type === 'pph' ? (
@@ -795,7 +805,15 @@ export default function Accounts() {
                         type="url"
                         value={editingAccount.websiteURL || ''}
                         onChange={(e) => setEditingAccount({ ...editingAccount, websiteURL: e.target.value })}
-                        placeholder="Website URL"
+                        placeholder={editingAccount.hasVaultCredentials ? 'Website URL (blank keeps current)' : 'Website URL'}
+                        className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm"
+                      />
+                      <input
+                        type="password"
+                        value={editingAccount.password || ''}
+                        onChange={(e) => setEditingAccount({ ...editingAccount, password: e.target.value })}
+                        placeholder={editingAccount.hasVaultCredentials ? 'Password (blank keeps current)' : 'Password'}
+                        autoComplete="new-password"
                         className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm"
                       />
                       <input
@@ -809,7 +827,7 @@ export default function Accounts() {
                         type="text"
                         value={editingAccount.ip || ''}
                         onChange={(e) => setEditingAccount({ ...editingAccount, ip: e.target.value })}
-                        placeholder="IP Address"
+                        placeholder={editingAccount.hasVaultCredentials ? 'IP Address (blank keeps current)' : 'IP Address'}
                         className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm"
                       />
                     </>
@@ -882,6 +900,52 @@ export default function Accounts() {
                     </select>
                   </div>
 
+                  {(['brokered', 'funded', 'referred'] as const).map((role) => (
+                    <div key={role}>
+                      <label className="block text-sm text-gray-400 mb-1 capitalize">{role} Override</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <select
+                          value={editingAccount[`${role}OverrideMode`] || ''}
+                          onChange={(e) => setEditingAccount({ ...editingAccount, [`${role}OverrideMode`]: e.target.value } as Account)}
+                          className="appearance-none w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm pr-8 bg-no-repeat bg-[length:20px_20px] bg-[position:right_8px_center]"
+                          style={{ backgroundImage: dropdownArrowSvg }}
+                        >
+                          <option value="" className="bg-gray-800 text-white">Auto</option>
+                          <option value="percentage" className="bg-gray-800 text-white">Percentage</option>
+                          <option value="flat" className="bg-gray-800 text-white">Flat</option>
+                          <option value="both" className="bg-gray-800 text-white">Both</option>
+                        </select>
+                        <select
+                          value={editingAccount[`${role}OverrideType`] || ''}
+                          onChange={(e) => setEditingAccount({ ...editingAccount, [`${role}OverrideType`]: e.target.value } as Account)}
+                          className="appearance-none w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm pr-8 bg-no-repeat bg-[length:20px_20px] bg-[position:right_8px_center]"
+                          style={{ backgroundImage: dropdownArrowSvg }}
+                        >
+                          <option value="" className="bg-gray-800 text-white">Gross %</option>
+                          <option value="net" className="bg-gray-800 text-white">Net-after-tax %</option>
+                        </select>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={editingAccount[`${role}OverridePct`] ?? ''}
+                          onChange={(e) => setEditingAccount({ ...editingAccount, [`${role}OverridePct`]: e.target.value } as Account)}
+                          placeholder="%"
+                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm"
+                        />
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={editingAccount[`${role}OverrideFlat`] ?? ''}
+                          onChange={(e) => setEditingAccount({ ...editingAccount, [`${role}OverrideFlat`]: e.target.value } as Account)}
+                          placeholder="$ flat"
+                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm"
+                        />
+                      </div>
+                    </div>
+                  ))}
+
                   <div className="flex space-x-2">
                     <button
                       type="submit"
@@ -908,17 +972,13 @@ export default function Accounts() {
                       <div>
                         <div className="flex items-center space-x-2">
                           <h3 className="text-lg font-semibold text-white">
-                            {account.type === 'pph' ? account.username : account.name}
+                            <Link to={`/admin/accounts/${account.id}`} className="hover:text-cyan-400 transition-colors">
+                              {account.type === 'pph' ? account.username : account.name}
+                            </Link>
                           </h3>
-                          <span className={`px-2 py-1 rounded-full text-xs ${
-                            account.status === 'active' 
-                              ? 'bg-green-500/20 text-green-400' 
-                              : account.status === 'inactive'
-                              ? 'bg-red-500/20 text-red-400'
-                              : 'bg-yellow-500/20 text-yellow-400'
-                          }`}>
-                            {account.status.toUpperCase()}
-                          </span>
+                          <button onClick={() => setStatusFor(account)} title="Status and history">
+                            <AccountStatusBadge account={account} />
+                          </button>
                           <span className={`px-2 py-1 rounded-full text-xs ${
                             account.assignedToPlayerName 
                               ? 'bg-green-500/20 text-green-400'
@@ -938,42 +998,42 @@ export default function Accounts() {
                     </div>
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => setEditingAccount(account)}
+                        onClick={() => setHistoryFor({ path: `accounts/${account.id}`, title: account.username || account.name || account.id })}
                         className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                        title="History"
                       >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteAccount(account.id)}
-                        className="p-2 text-gray-400 hover:text-red-400 transition-colors"
-                      >
-                        <Trash2 className="w-4 h-4" />
+                        <History className="w-4 h-4" />
                       </button>
+                      {can('manageAccounts') && (
+                        <button
+                          onClick={() => setEditingAccount(account)}
+                          className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                      )}
+                      {can('manageAccounts') && (
+                        <button
+                          onClick={() => handleDeleteAccount(account.id)}
+                          className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                   
                   <div className="space-y-2 text-sm">
                     {account.type === 'pph' ? (
                       <>
-                        {account.websiteURL && (
-                          <div className="flex items-center space-x-2">
-                            <ExternalLink className="w-4 h-4 text-gray-400" />
-                            <a
-                              href={account.websiteURL}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-cyan-400 hover:text-cyan-300 transition-colors"
-                            >
-                              {account.websiteURL}
-                            </a>
-                          </div>
+                        {account.hasVaultCredentials ? (
+                          can('viewCredentials') && <VaultCredentials accountId={account.id} />
+                        ) : (account.password || account.websiteURL || account.ip) && (
+                          <div className="text-yellow-400 text-xs">Credentials still stored in plaintext. Edit and save to move them to the vault.</div>
                         )}
                         {account.deal && (
                           <div className="text-gray-400">Deal: {account.deal}</div>
                         )}
-                        {account.ip && (
-                          <div className="text-gray-400">IP: {account.ip}</div>
-                        )}
                         {account.referralPercentage && (
                           <div className="text-gray-400">Referral: {account.referralPercentage}%</div>
                         )}
@@ -1242,24 +1302,6 @@ export default function Accounts() {
                 </select>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Status
-                </label>
-                <select
-                  value={newAccount.status}
-                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => 
-                    setNewAccount({ ...newAccount, status: e.target.value as 'active' | 'inactive' | 'unused' })
-                  }
-                  className="appearance-none w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 pr-10 bg-no-repeat bg-[length:20px_20px] bg-[position:right_10px_center]"
-                  style={{ backgroundImage: dropdownArrowSvg }}
-                >
-                  <option value="active" className="bg-gray-800 text-white">Active</option>
-                  <option value="inactive" className="bg-gray-800 text-white">Inactive</option>
-                  <option value="unused" className="bg-gray-800 text-white">Unused</option>
-                </select>
-              </div>
-
               {/* Optional overrides if scenario matrix does not match */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
@@ -1419,6 +1461,19 @@ export default function Accounts() {
           </div>
         </div>
       )}
+
+      {historyFor && (
+        <AuditHistory path={historyFor.path} title={historyFor.title} onClose={() => setHistoryFor(null)} />
+      )}
+
+      {statusFor && (
+        <AccountStatusModal
+          account={statusFor}
+          title={statusFor.username || statusFor.name || statusFor.id}
+          canChange={can('manageAccounts')}
+          onClose={() => setStatusFor(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
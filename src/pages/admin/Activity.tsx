@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs, query, where, orderBy, limit } from 'firebase/firestore';
+import { db } from '../../firebase';
+import { Activity as ActivityIcon, History } from 'lucide-react';
+import { endOfDay, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { AUDIT_ACTION_LABELS, AuditAction, AuditRecord, auditRecordFrom } from '../../lib/audit';
+import { loadUsers } from '../../lib/repository';
+import AuditChanges from '../../components/AuditChanges';
+import AuditHistory from '../../components/AuditHistory';
+
+const dropdownArrowSvg = `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`;
+
+// The feed reads at most this many records for a date range; narrow the
+// dates to see further back
+const FEED_LIMIT = 500;
+
+const selectClassName = "w-full appearance-none px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 pr-10 bg-no-repeat bg-[length:20px_20px] bg-[position:right_10px_center]";
+
+export default function Activity() {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [range, setRange] = useState({
+    from: format(subDays(new Date(), 7), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+  const [collectionFilter, setCollectionFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState<'all' | AuditAction>('all');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [historyFor, setHistoryFor] = useState<AuditRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchUserNames();
+  }, []);
+
+  useEffect(() => {
+    const fetchActivity = async () => {
+      setLoading(true);
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, 'auditLog'),
+          where('at', '>=', startOfDay(parseISO(range.from))),
+          where('at', '<=', endOfDay(parseISO(range.to))),
+          orderBy('at', 'desc'),
+          limit(FEED_LIMIT)
+        ));
+        setRecords(snapshot.docs.map(auditRecordFrom));
+      } catch (error) {
+        console.error('Error fetching activity:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchActivity();
+  }, [range]);
+
+  const fetchUserNames = async () => {
+    try {
+      setUserNames(Object.fromEntries(
+        (await loadUsers()).map(user => [user.uid, user.name || user.email || user.id])
+      ));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const actorName = (record: AuditRecord) => userNames[record.actorUid] || record.actorEmail || record.actorUid;
+
+  const collections = Array.from(new Set(records.map(record => record.collection))).sort();
+  const actors = Array.from(new Set(records.map(record => record.actorUid)));
+
+  const filteredRecords = records.filter(record =>
+    (collectionFilter === 'all' || record.collection === collectionFilter) &&
+    (actionFilter === 'all' || record.action === actionFilter) &&
+    (actorFilter === 'all' || record.actorUid === actorFilter)
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+          Activity
+        </h1>
+        <p className="text-gray-400 mt-1">Every change made to the ledger, newest first</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">From</label>
+          <input
+            type="date"
+            value={range.from}
+            onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">To</label>
+          <input
+            type="date"
+            value={range.to}
+            onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Collection</label>
+          <select
+            value={collectionFilter}
+            onChange={(e) => setCollectionFilter(e.target.value)}
+            className={selectClassName}
+            style={{ backgroundImage: dropdownArrowSvg }}
+          >
+            <option value="all" className="bg-gray-800 text-white">All</option>
+            {collections.map(name => (
+              <option key={name} value={name} className="bg-gray-800 text-white">{name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Action</label>
+          <select
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value as 'all' | AuditAction)}
+            className={selectClassName}
+            style={{ backgroundImage: dropdownArrowSvg }}
+          >
+            <option value="all" className="bg-gray-800 text-white">All</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+              <option key={action} value={action} className="bg-gray-800 text-white">{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Changed By</label>
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className={selectClassName}
+            style={{ backgroundImage: dropdownArrowSvg }}
+          >
+            <option value="all" className="bg-gray-800 text-white">Anyone</option>
+            {actors.map(uid => (
+              <option key={uid} value={uid} className="bg-gray-800 text-white">{userNames[uid] || uid}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Feed */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="text-gray-400">Loading activity...</div>
+          </div>
+        ) : filteredRecords.length === 0 ? (
+          <div className="text-center py-8">
+            <ActivityIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-400">No changes match these filters.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {records.length === FEED_LIMIT && (
+              <p className="text-sm text-yellow-400">Showing the latest {FEED_LIMIT} changes in this range.</p>
+            )}
+            {filteredRecords.map(record => (
+              <div key={record.id} className="bg-white/5 rounded-lg p-4 border border-purple-500/10">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-sm">
+                    <span className="text-white font-medium">{actorName(record)}</span>
+                    <span className="text-gray-400"> {AUDIT_ACTION_LABELS[record.action].toLowerCase()} </span>
+                    <span className="text-cyan-400 font-mono">{record.path}</span>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-sm text-gray-400">{record.at.toLocaleString()}</span>
+                    <button
+                      onClick={() => setHistoryFor(record)}
+                      className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                      title="Document history"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <AuditChanges record={record} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {historyFor && (
+        <AuditHistory path={historyFor.path} title={historyFor.path} onClose={() => setHistoryFor(null)} />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { collection, addDoc, getDocs, deleteDoc, doc, updateDoc } from 'firebase/firestore';
+import { collection, doc } from 'firebase/firestore';
 import { db } from '../../firebase';
-import { Plus, Users, Trash2, Edit, Save, X, Search } from 'lucide-react';
+import { auditedAdd, auditedUpdate } from '../../lib/audit';
+import { confirmDelete, isDeleted, moveToRecycleBin, planDelete } from '../../lib/recycle';
+import { loadAgents } from '../../lib/repository';
+import { Plus, Users, Trash2, Edit, Save, X, Search, Link2, History } from 'lucide-react';
+import AuditHistory from '../../components/AuditHistory';
+import { format } from 'date-fns';
+import { AGENT_TERM_FIELDS, appendTermsVersion, termsAsOf, TermsVersion } from '../../lib/terms';
+import TermsHistory from '../../components/TermsHistory';
+import { useAuth } from '../../contexts/AuthContext';
+import { inviteLink, issuePortalInvite } from '../../lib/invites';
 
 interface Agent {
   id: string;
@@ -9,22 +18,32 @@ interface Agent {
   commissionPercentage: number;
   flatCommission?: number;
   phone?: string;
+  email?: string;
+  portalUid?: string;
+  portalInviteExpiresAt?: Date;
+  termsHistory?: TermsVersion[];
   createdAt: Date;
 }
 
 export default function Agents() {
+  const { userData, can } = useAuth();
   const [agents, setAgents] = useState<Agent[]>([]);
   const [filteredAgents, setFilteredAgents] = useState<Agent[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
+  const [historyFor, setHistoryFor] = useState<{ path: string; title: string } | null>(null);
   const [newAgent, setNewAgent] = useState({
     name: '',
     commissionPercentage: '',
     flatCommission: '',
-    phone: ''
+    phone: '',
+    email: ''
   });
   const [loading, setLoading] = useState(true);
+  const [issuingInviteFor, setIssuingInviteFor] = useState<string | null>(null);
+  const [issuedInvite, setIssuedInvite] = useState<{ name: string; link: string; expiresAt: Date } | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
 
   useEffect(() => {
     fetchAgents();
@@ -40,11 +59,10 @@ export default function Agents() {
 
   const fetchAgents = async () => {
     try {
-      const agentsSnapshot = await getDocs(collection(db, 'agents'));
-      const agentsData = agentsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date()
+      const agentsData = (await loadAgents()).filter(agent => !isDeleted(agent)).map(agent => ({
+        ...agent,
+        createdAt: agent.createdAt?.toDate() || new Date(),
+        portalInviteExpiresAt: agent.portalInviteExpiresAt?.toDate()
       })) as Agent[];
       setAgents(agentsData);
     } catch (error) {
@@ -59,14 +77,15 @@ export default function Agents() {
     if (!newAgent.name.trim() || newAgent.commissionPercentage < 0) return;
 
     try {
-      await addDoc(collection(db, 'agents'), {
+      await auditedAdd(collection(db, 'agents'), {
         name: newAgent.name.trim(),
         commissionPercentage: newAgent.commissionPercentage,
         flatCommission: Number(newAgent.flatCommission) || 0,
         phone: (newAgent as any).phone ? String((newAgent as any).phone).trim() : '',
+        email: newAgent.email.trim(),
         createdAt: new Date()
       });
-      setNewAgent({ name: '', commissionPercentage: 0, flatCommission: 0, phone: '' } as any);
+      setNewAgent({ name: '', commissionPercentage: 0, flatCommission: 0, phone: '', email: '' } as any);
       setShowModal(false);
       fetchAgents();
     } catch (error) {
@@ -79,11 +98,26 @@ export default function Agents() {
     if (!editingAgent || !editingAgent.name.trim()) return;
 
     try {
-      await updateDoc(doc(db, 'agents', editingAgent.id), {
-        name: editingAgent.name.trim(),
+      // Record the new terms as a dated version so older entries keep their deal
+      const original = agents.find(a => a.id === editingAgent.id) || editingAgent;
+      const nextTerms = {
         commissionPercentage: editingAgent.commissionPercentage,
-        flatCommission: Number(editingAgent.flatCommission) || 0,
-        phone: editingAgent.phone ? String(editingAgent.phone).trim() : '',
+        flatCommission: Number(editingAgent.flatCommission) || 0
+      };
+      const termsHistory = appendTermsVersion(original, nextTerms, AGENT_TERM_FIELDS, effectiveFrom);
+      const current = termsAsOf({ ...original, termsHistory }, format(new Date(), 'yyyy-MM-dd'));
+      // Bookkeepers change terms only; other staff only the contact details
+      await auditedUpdate(doc(db, 'agents', editingAgent.id), {
+        ...(can('manageAccounts') && {
+          name: editingAgent.name.trim(),
+          phone: editingAgent.phone ? String(editingAgent.phone).trim() : '',
+          email: editingAgent.email ? editingAgent.email.trim() : ''
+        }),
+        ...(can('editTerms') && {
+          commissionPercentage: current.commissionPercentage,
+          flatCommission: Number(current.flatCommission) || 0,
+          termsHistory
+        }),
         updatedAt: new Date()
       });
       setEditingAgent(null);
@@ -93,14 +127,29 @@ export default function Agents() {
     }
   };
 
+  // Portal logins are created by the holder from a single-use invite link
+  const handleIssuePortalInvite = async (agent: Agent) => {
+    if (!userData || !agent.email) return;
+    setIssuingInviteFor(agent.id);
+    try {
+      const { code, expiresAt } = await issuePortalInvite('agent', { id: agent.id, name: agent.name, email: agent.email }, userData.uid);
+      setIssuedInvite({ name: agent.name, link: inviteLink(code), expiresAt });
+      fetchAgents();
+    } catch (error) {
+      console.error('Error issuing portal invite:', error);
+    } finally {
+      setIssuingInviteFor(null);
+    }
+  };
+
   const handleDeleteAgent = async (agentId: string) => {
-    if (window.confirm('Are you sure you want to delete this account holder?')) {
-      try {
-        await deleteDoc(doc(db, 'agents', agentId));
-        fetchAgents();
-      } catch (error) {
-        console.error('Error deleting agent:', error);
-      }
+    try {
+      const plan = await planDelete(doc(db, 'agents', agentId));
+      if (!confirmDelete(plan, 'this account holder')) return;
+      await moveToRecycleBin(plan);
+      fetchAgents();
+    } catch (error) {
+      console.error('Error deleting agent:', error);
     }
   };
 
@@ -115,13 +164,15 @@ export default function Agents() {
           <p className="text-gray-400 mt-1">Manage your account holders and their commission rates</p>
         </div>
         
-        <button
-          onClick={() => setShowModal(true)}
-          className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add New Account Holder</span>
-        </button>
+        {can('manageAccounts') && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add New Account Holder</span>
+          </button>
+        )}
       </div>
 
       {/* Search Bar */}
@@ -163,16 +214,26 @@ export default function Agents() {
                     type="text"
                     value={editingAgent.name}
                     onChange={(e) => setEditingAgent({ ...editingAgent, name: e.target.value })}
-                    className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-lg font-semibold"
+                    className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-lg font-semibold disabled:opacity-50"
+                    disabled={!can('manageAccounts')}
                     required
                   />
                   <input
                     type="tel"
                     value={editingAgent.phone || ''}
                     onChange={(e) => setEditingAgent({ ...editingAgent, phone: e.target.value })}
-                    className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white"
+                    className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                    disabled={!can('manageAccounts')}
                     placeholder="Phone Number"
                   />
+                  <input
+                    type="email"
+                    value={editingAgent.email || ''}
+                    onChange={(e) => setEditingAgent({ ...editingAgent, email: e.target.value })}
+                    className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                    disabled={!can('manageAccounts') || !!editingAgent.portalUid}
+                    placeholder="Email (for portal access)"
+                  />
                   <div>
                     <label className="block text-sm text-gray-400 mb-1">Commission %</label>
                     <div className="relative">
@@ -183,7 +244,8 @@ export default function Agents() {
                         max="100"
                         value={editingAgent.commissionPercentage}
                         onChange={(e) => setEditingAgent({ ...editingAgent, commissionPercentage: parseFloat(e.target.value) || null })}
-                        className="w-full px-3 py-2 pr-8 bg-white/5 border border-purple-500/20 rounded-lg text-white"
+                        className="w-full px-3 py-2 pr-8 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                        disabled={!can('editTerms')}
                         required
                       />
                       <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">%</span>
@@ -198,13 +260,25 @@ export default function Agents() {
                         step="0.01"
                         value={editingAgent?.flatCommission}
                         onChange={(e) => setEditingAgent(editingAgent ? { ...editingAgent, flatCommission: Number(e.target.value) } : null)}
-                        className="w-full px-3 py-2 pr-8 bg-white/5 border border-purple-500/20 rounded-lg text-white"
+                        className="w-full px-3 py-2 pr-8 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                        disabled={!can('editTerms')}
                         placeholder="Flat Commission (absolute)"
                         required
                       />
                       <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">$</span>
                     </div>
                   </div>
+                  <div>
+                    <label className="block text-sm text-gray-400 mb-1">Terms Effective From</label>
+                    <input
+                      type="date"
+                      value={effectiveFrom}
+                      onChange={(e) => setEffectiveFrom(e.target.value)}
+                      className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                      disabled={!can('editTerms')}
+                      required
+                    />
+                  </div>
                   <div className="flex space-x-2">
                     <button
                       type="submit"
@@ -236,26 +310,63 @@ export default function Agents() {
                         {agent.phone && (
                           <p className="text-sm text-gray-400">Phone: {agent.phone}</p>
                         )}
+                        {agent.email && (
+                          <p className="text-sm text-gray-400">Email: {agent.email}</p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => setEditingAgent(agent)}
+                        onClick={() => setHistoryFor({ path: `agents/${agent.id}`, title: agent.name })}
                         className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                        title="History"
                       >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteAgent(agent.id)}
-                        className="p-2 text-gray-400 hover:text-red-400 transition-colors"
-                      >
-                        <Trash2 className="w-4 h-4" />
+                        <History className="w-4 h-4" />
                       </button>
+                      {(can('manageAccounts') || can('editTerms')) && (
+                        <button
+                          onClick={() => { setEditingAgent(agent); setEffectiveFrom(format(new Date(), 'yyyy-MM-dd')); }}
+                          className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                      )}
+                      {can('manageAccounts') && (
+                        <button
+                          onClick={() => handleDeleteAgent(agent.id)}
+                          className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                   <div className="text-sm text-gray-400">
                     Created: {agent.createdAt.toLocaleDateString()}
                   </div>
+                  <div className="text-sm text-gray-400">
+                    Portal: {agent.portalUid
+                      ? <span className="text-green-400">active</span>
+                      : !agent.portalInviteExpiresAt
+                        ? <span className="text-gray-500">{agent.email ? 'not invited' : 'add an email to invite'}</span>
+                        : agent.portalInviteExpiresAt < new Date()
+                          ? <span className="text-red-400">invite expired {agent.portalInviteExpiresAt.toLocaleDateString()}</span>
+                          : <span className="text-cyan-400">invite expires {agent.portalInviteExpiresAt.toLocaleDateString()}</span>}
+                  </div>
+                  {can('manageAccounts') && !agent.portalUid && agent.email && (
+                    <button
+                      onClick={() => handleIssuePortalInvite(agent)}
+                      disabled={issuingInviteFor === agent.id}
+                      className="mt-4 w-full flex items-center justify-center space-x-2 bg-white/5 hover:bg-white/10 border border-purple-500/20 text-white py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Link2 className="w-4 h-4" />
+                      <span>{issuingInviteFor === agent.id ? 'Creating...' : agent.portalInviteExpiresAt ? 'New Portal Invite' : 'Invite to Portal'}</span>
+                    </button>
+                  )}
+                  <TermsHistory
+                    history={agent.termsHistory}
+                    describe={(v) => `${v.commissionPercentage ?? 0}% + $${v.flatCommission ?? 0} flat`}
+                  />
                 </>
               )}
             </div>
@@ -294,6 +405,18 @@ export default function Agents() {
                   placeholder="Enter phone number"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  value={newAgent.email}
+                  onChange={(e) => setNewAgent({ ...newAgent, email: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  placeholder="Needed to invite them to the portal"
+                />
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   Commission Percentage (%)
@@ -347,6 +470,43 @@ export default function Agents() {
           </div>
         </div>
       )}
+
+      {/* Issued Portal Invite Modal */}
+      {issuedInvite && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-md">
+            <h2 className="text-2xl font-bold text-white mb-2">Portal Invite for {issuedInvite.name}</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Send this link to the account holder. It works once, expires {issuedInvite.expiresAt.toLocaleDateString()}, and will not be shown again.
+            </p>
+            <input
+              type="text"
+              readOnly
+              value={issuedInvite.link}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm font-mono"
+            />
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                onClick={() => navigator.clipboard.writeText(issuedInvite.link)}
+                className="px-6 py-3 text-cyan-400 hover:text-cyan-300 transition-colors"
+              >
+                Copy Link
+              </button>
+              <button
+                onClick={() => setIssuedInvite(null)}
+                className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {historyFor && (
+        <AuditHistory path={historyFor.path} title={historyFor.title} onClose={() => setHistoryFor(null)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
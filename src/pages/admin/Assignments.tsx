@@ -1,17 +1,25 @@
-import React, { useState, useEffect } from 'react';
-import { collection, getDocs, query, where, doc, updateDoc } from 'firebase/firestore';
+import React, { useState } from 'react';
+import { collection, query, where, QuerySnapshot } from 'firebase/firestore';
+import { format } from 'date-fns';
 import { db } from '../../firebase';
-import { Settings, User, CreditCard, CheckCircle, XCircle } from 'lucide-react';
+import { notDeleted } from '../../lib/recycle';
+import { useLiveQueries } from '../../lib/live';
+import { indexBy, loadAgents } from '../../lib/repository';
+import { AccountStatus, accountStatus } from '../../lib/lifecycle';
+import { Assignment, assignAccount, clickerOnDate, fetchAssignments, lastEndingBalance, unassignAccount } from '../../lib/assignments';
+import LiveIndicator from '../../components/LiveIndicator';
+import { Settings, User, CreditCard, CheckCircle, XCircle, ArrowRightLeft, CalendarSearch, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
 
 interface Account {
   id: string;
   type: 'pph' | 'legal';
   username?: string;
   name?: string;
-  websiteURL?: string;
   agentName: string;
   assignedToPlayerUid?: string;
   assignedToPlayerName?: string;
+  status: AccountStatus;
 }
 
 interface Player {
@@ -21,54 +29,74 @@ interface Player {
   email: string;
 }
 
+interface Handover {
+  account: Account;
+  toPlayer: string;
+  date: string;
+  note: string;
+  // undefined while it is being looked up
+  carriedBalance?: number | null;
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const accountTitle = (account: Account) => (account.type === 'pph' ? account.username : account.name) || 'Unnamed';
+
 export default function Assignments() {
+  const { can } = useAuth();
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [selectedAccount, setSelectedAccount] = useState<string>('');
   const [selectedPlayer, setSelectedPlayer] = useState<string>('');
+  const [assignDate, setAssignDate] = useState(today());
+  const [handover, setHandover] = useState<Handover | null>(null);
+  const [reportDate, setReportDate] = useState(today());
+  const [reportAccount, setReportAccount] = useState('');
+  const [error, setError] = useState('');
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const updatedAt = useLiveQueries(
+    'assignments',
+    [
+      collection(db, 'accounts'),
+      query(collection(db, 'users'), where('role', '==', 'player')),
+      collection(db, 'assignments')
+    ],
+    ([accountsSnapshot, playersSnapshot]) => fetchData(accountsSnapshot, playersSnapshot)
+  );
 
-  const fetchData = async () => {
+  const fetchData = async (accountsSnapshot: QuerySnapshot, playersSnapshot: QuerySnapshot) => {
     try {
-      // Fetch accounts
-      const accountsSnapshot = await getDocs(collection(db, 'accounts'));
-      const accountsData = await Promise.all(
-        accountsSnapshot.docs.map(async (accountDoc) => {
-          const accountData = accountDoc.data();
-
-          // Get agent name
-          const agentDoc = await getDocs(query(collection(db, 'agents'), where('__name__', '==', accountData.agentId)));
-          const agentName = agentDoc.docs[0]?.data().name || 'Unknown Agent';
-
-          // Get assigned player name if exists
-          let assignedToPlayerName = '';
-          if (accountData.assignedToPlayerUid) {
-            const playerDoc = await getDocs(query(collection(db, 'users'), where('uid', '==', accountData.assignedToPlayerUid)));
-            assignedToPlayerName = playerDoc.docs[0]?.data().name || 'Unknown Player';
-          }
-
-          return {
-            id: accountDoc.id,
-            type: accountData.type || 'pph',
-            username: accountData.username,
-            name: accountData.name,
-            websiteURL: accountData.websiteURL,
-            agentName,
-            assignedToPlayerUid: accountData.assignedToPlayerUid,
-            assignedToPlayerName
-          };
-        })
-      );
+      const [agentsById, history] = await Promise.all([
+        loadAgents().then(agents => indexBy(agents)),
+        fetchAssignments()
+      ]);
+      const playerNames = new Map(playersSnapshot.docs.map(doc => [doc.data().uid || doc.id, doc.data().name]));
+      const accountsData = accountsSnapshot.docs.filter(notDeleted).map((accountDoc) => {
+        const accountData = accountDoc.data();
+        const agentName = agentsById.get(accountData.agentId)?.name || 'Unknown Agent';
+
+        let assignedToPlayerName = '';
+        if (accountData.assignedToPlayerUid) {
+          assignedToPlayerName = playerNames.get(accountData.assignedToPlayerUid) || 'Unknown Player';
+        }
+
+        return {
+          id: accountDoc.id,
+          type: accountData.type || 'pph',
+          username: accountData.username,
+          name: accountData.name,
+          agentName,
+          assignedToPlayerUid: accountData.assignedToPlayerUid,
+          assignedToPlayerName,
+          status: accountStatus(accountData)
+        };
+      });
       setAccounts(accountsData);
+      setAssignments(history);
 
-      // Fetch players
-      const playersQuery = query(collection(db, 'users'), where('role', '==', 'player'));
-      const playersSnapshot = await getDocs(playersQuery);
-      const playersData = playersSnapshot.docs.map(doc => ({
+      const playersData = playersSnapshot.docs.filter(notDeleted).map(doc => ({
         id: doc.id,
         uid: doc.data().uid,
         name: doc.data().name,
@@ -82,34 +110,69 @@ export default function Assignments() {
     }
   };
 
+  const playerName = (uid: string | null | undefined) =>
+    (uid && players.find(p => p.uid === uid)?.name) || 'Unknown Player';
+
   const handleAssignAccount = async () => {
-    if (!selectedAccount || !selectedPlayer) return;
+    const account = accounts.find(a => a.id === selectedAccount);
+    if (!account || !selectedPlayer) return;
 
+    setError('');
     try {
-      await updateDoc(doc(db, 'accounts', selectedAccount), {
-        assignedToPlayerUid: selectedPlayer
-      });
+      await assignAccount(account, selectedPlayer, playerName(selectedPlayer), assignDate);
       setSelectedAccount('');
       setSelectedPlayer('');
-      fetchData();
+      setAssignDate(today());
     } catch (error) {
       console.error('Error assigning account:', error);
+      setError(error instanceof Error ? error.message : 'Could not assign the account');
     }
   };
 
-  const handleUnassignAccount = async (accountId: string) => {
-    if (window.confirm('Are you sure you want to unassign this account?')) {
+  const handleUnassignAccount = async (account: Account) => {
+    if (window.confirm(`Unassign this account? Today will be ${account.assignedToPlayerName}'s last day on it.`)) {
+      setError('');
       try {
-        await updateDoc(doc(db, 'accounts', accountId), {
-          assignedToPlayerUid: null
-        });
-        fetchData();
+        await unassignAccount(account, today());
       } catch (error) {
         console.error('Error unassigning account:', error);
+        setError(error instanceof Error ? error.message : 'Could not unassign the account');
       }
     }
   };
 
+  const openHandover = async (account: Account) => {
+    setError('');
+    setHandover({ account, toPlayer: '', date: today(), note: '' });
+    try {
+      const carriedBalance = await lastEndingBalance(account.id);
+      setHandover(current => current && current.account.id === account.id ? { ...current, carriedBalance } : current);
+    } catch (error) {
+      console.error('Error loading last balance:', error);
+    }
+  };
+
+  const handleHandover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!handover || !handover.toPlayer) return;
+
+    setError('');
+    try {
+      await assignAccount(handover.account, handover.toPlayer, playerName(handover.toPlayer), handover.date, handover.note);
+      setHandover(null);
+    } catch (error) {
+      console.error('Error handing over account:', error);
+      setError(error instanceof Error ? error.message : 'Could not hand over the account');
+    }
+  };
+
+  // Accounts with no assignment record covering the date are left out, so
+  // the report only names clickers the history can account for
+  const report = accounts
+    .filter(account => !reportAccount || account.id === reportAccount)
+    .map(account => ({ account, assignment: clickerOnDate(assignments, account.id, reportDate) }))
+    .filter(row => reportAccount || row.assignment);
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -119,84 +182,103 @@ export default function Assignments() {
             Account Assignments
           </h1>
           <p className="text-gray-400 mt-1">Assign accounts to players for management</p>
+          <div className="mt-2"><LiveIndicator updatedAt={updatedAt} /></div>
         </div>
       </div>
 
       {/* Assignment Form */}
-      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
-        <h2 className="text-xl font-bold text-white mb-6 flex items-center">
-          <Settings className="w-6 h-6 mr-2" />
-          New Assignment
-        </h2>
+      {can('manageAssignments') && (
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <h2 className="text-xl font-bold text-white mb-6 flex items-center">
+            <Settings className="w-6 h-6 mr-2" />
+            New Assignment
+          </h2>
 
-        <div>
-          {/* Account Dropdown */}
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Select Account
-            </label>
-            <select
-              value={selectedAccount}
-              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedAccount(e.target.value)}
-              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 appearance-none pr-10 bg-[length:20px_20px] bg-[position:right_10px_center] bg-no-repeat"
-              style={{
-                backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`
-              }}
-            >
-              <option value="" className="bg-gray-800 text-white">
-                Choose an account
-              </option>
-              {accounts.filter(account => !account.assignedToPlayerUid).map((account) => (
-                <option
-                  key={account.id}
-                  value={account.id}
-                  className="bg-gray-800 text-white hover:bg-cyan-500"
-                >
-                  {(account.type === 'pph' ? account.username : account.name) || 'Unnamed'} (Account Holder: {account.agentName})
+          <div>
+            {/* Account Dropdown */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Select Account
+              </label>
+              <select
+                value={selectedAccount}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedAccount(e.target.value)}
+                className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 appearance-none pr-10 bg-[length:20px_20px] bg-[position:right_10px_center] bg-no-repeat"
+                style={{
+                  backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`
+                }}
+              >
+                <option value="" className="bg-gray-800 text-white">
+                  Choose an account
                 </option>
-              ))}
-            </select>
+                {accounts.filter(account => !account.assignedToPlayerUid).map((account) => (
+                  <option
+                    key={account.id}
+                    value={account.id}
+                    className="bg-gray-800 text-white hover:bg-cyan-500"
+                  >
+                    {accountTitle(account)} (Account Holder: {account.agentName})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Player Dropdown */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Choose a Clicker
+              </label>
+              <select
+                value={selectedPlayer}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedPlayer(e.target.value)}
+                className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 appearance-none pr-10 bg-[length:20px_20px] bg-[position:right_10px_center] bg-no-repeat"
+                style={{
+                  backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`
+                }}
+              >
+                <option value="" className="bg-gray-800 text-white">
+                  Choose a clicker
+                </option>
+                {players.map((player) => (
+                  <option
+                    key={player.id}
+                    value={player.uid}
+                    className="bg-gray-800 text-white hover:bg-cyan-500"
+                  >
+                    {player.name} ({player.email})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Responsible From
+              </label>
+              <input
+                type="date"
+                value={assignDate}
+                onChange={(e) => setAssignDate(e.target.value)}
+                className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+              />
+            </div>
           </div>
 
-          {/* Player Dropdown */}
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Choose a Clicker
-            </label>
-            <select
-              value={selectedPlayer}
-              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedPlayer(e.target.value)}
-              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 appearance-none pr-10 bg-[length:20px_20px] bg-[position:right_10px_center] bg-no-repeat"
-              style={{
-                backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`
-              }}
+          <div className="mt-6">
+            <button
+              onClick={handleAssignAccount}
+              disabled={!selectedAccount || !selectedPlayer || !assignDate}
+              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
             >
-              <option value="" className="bg-gray-800 text-white">
-                Choose a clicker
-              </option>
-              {players.map((player) => (
-                <option
-                  key={player.id}
-                  value={player.uid}
-                  className="bg-gray-800 text-white hover:bg-cyan-500"
-                >
-                  {player.name} ({player.email})
-                </option>
-              ))}
-            </select>
+              Assign Account
+            </button>
           </div>
         </div>
+      )}
 
-        <div className="mt-6">
-          <button
-            onClick={handleAssignAccount}
-            disabled={!selectedAccount || !selectedPlayer}
-            className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-          >
-            Assign Account
-          </button>
-        </div>
-      </div>
+      {error && !handover && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 text-sm text-red-400">{error}</div>
+      )}
 
       {/* Current Assignments */}
       <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
@@ -224,7 +306,7 @@ export default function Assignments() {
                     <CreditCard className="w-5 h-5 text-white" />
                   </div>
                   <div>
-                    <h3 className="font-medium text-white">{(account.type === 'pph' ? account.username : account.name) || 'Unnamed'}</h3>
+                    <h3 className="font-medium text-white">{accountTitle(account)}</h3>
                     <p className="text-sm text-gray-400">Agent: {account.agentName}</p>
                   </div>
                 </div>
@@ -241,12 +323,22 @@ export default function Assignments() {
                           <span className="text-xs text-green-400">Active</span>
                         </div>
                       </div>
-                      <button
-                        onClick={() => handleUnassignAccount(account.id)}
-                        className="px-3 py-1 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors"
-                      >
-                        Unassign
-                      </button>
+                      {can('manageAssignments') && (
+                        <>
+                          <button
+                            onClick={() => openHandover(account)}
+                            className="px-3 py-1 bg-cyan-500/20 text-cyan-400 rounded-lg hover:bg-cyan-500/30 transition-colors"
+                          >
+                            Hand Over
+                          </button>
+                          <button
+                            onClick={() => handleUnassignAccount(account)}
+                            className="px-3 py-1 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors"
+                          >
+                            Unassign
+                          </button>
+                        </>
+                      )}
                     </>
                   ) : (
                     <div className="flex items-center space-x-2">
@@ -260,6 +352,158 @@ export default function Assignments() {
           </div>
         )}
       </div>
+
+      {/* Responsibility Report */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-bold text-white mb-2 flex items-center">
+          <CalendarSearch className="w-6 h-6 mr-2" />
+          Who Ran It
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">The clicker responsible for each account on a given day</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Date</label>
+            <input
+              type="date"
+              value={reportDate}
+              onChange={(e) => setReportDate(e.target.value)}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Account</label>
+            <select
+              value={reportAccount}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setReportAccount(e.target.value)}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            >
+              <option value="" className="bg-gray-800 text-white">All assigned accounts</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id} className="bg-gray-800 text-white">{accountTitle(account)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {report.length === 0 ? (
+          <p className="text-sm text-gray-400">No account had a clicker on {reportDate || 'that day'}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-purple-500/20">
+                  <th className="py-2 pr-4">Account</th>
+                  <th className="py-2 pr-4">Clicker</th>
+                  <th className="py-2 pr-4">From</th>
+                  <th className="py-2 pr-4">To</th>
+                  <th className="py-2 pr-4">Carried Over</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map(({ account, assignment }) => (
+                  <tr key={account.id} className="border-b border-purple-500/10">
+                    <td className="py-2 pr-4 text-white">{accountTitle(account)}</td>
+                    <td className="py-2 pr-4 text-gray-300">{assignment ? playerName(assignment.playerUid) : 'Nobody'}</td>
+                    <td className="py-2 pr-4 text-gray-400">{assignment ? assignment.from || 'Before history' : '-'}</td>
+                    <td className="py-2 pr-4 text-gray-400">{assignment ? assignment.to || 'Current' : '-'}</td>
+                    <td className="py-2 pr-4 text-gray-400">
+                      {assignment?.startingBalance != null ? `$${assignment.startingBalance.toLocaleString()}` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Handover Modal */}
+      {handover && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-lg">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-white flex items-center">
+                <ArrowRightLeft className="w-6 h-6 mr-2 text-cyan-400" />
+                Hand Over: {accountTitle(handover.account)}
+              </h2>
+              <button onClick={() => setHandover(null)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleHandover} className="space-y-4">
+              <p className="text-sm text-gray-400">
+                From <span className="text-white">{handover.account.assignedToPlayerName}</span>, whose last day will be
+                the day before the handover.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">New Clicker</label>
+                <select
+                  value={handover.toPlayer}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setHandover({ ...handover, toPlayer: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  required
+                >
+                  <option value="" className="bg-gray-800 text-white">Choose a clicker</option>
+                  {players.filter(player => player.uid !== handover.account.assignedToPlayerUid).map((player) => (
+                    <option key={player.id} value={player.uid} className="bg-gray-800 text-white">
+                      {player.name} ({player.email})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Handover Date</label>
+                <input
+                  type="date"
+                  value={handover.date}
+                  onChange={(e) => setHandover({ ...handover, date: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Note</label>
+                <textarea
+                  value={handover.note}
+                  onChange={(e) => setHandover({ ...handover, note: e.target.value })}
+                  rows={2}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  placeholder="e.g. Covering while Sam is away"
+                />
+              </div>
+              <div className="flex items-center space-x-2 text-sm bg-white/5 rounded-lg p-3 border border-purple-500/10">
+                <User className="w-4 h-4 text-cyan-400" />
+                <span className="text-gray-300">
+                  {handover.carriedBalance === undefined
+                    ? 'Looking up the last ending balance...'
+                    : handover.carriedBalance === null
+                    ? 'No entries yet, so there is no balance to carry over.'
+                    : `Carries over an ending balance of $${handover.carriedBalance.toLocaleString()}.`}
+                </span>
+              </div>
+              {error && <p className="text-sm text-red-400">{error}</p>}
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setHandover(null)}
+                  className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!handover.toPlayer || !handover.date}
+                  className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-2 px-6 rounded-lg transition-all duration-200 disabled:opacity-50"
+                >
+                  Hand Over
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,7 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { collection, addDoc, getDocs, deleteDoc, doc, updateDoc } from 'firebase/firestore';
+import { collection, doc } from 'firebase/firestore';
 import { db } from '../../firebase';
-import { Plus, Trash2, Edit, Save, X, Search, Briefcase } from 'lucide-react';
+import { auditedAdd, auditedUpdate } from '../../lib/audit';
+import { confirmDelete, isDeleted, moveToRecycleBin, planDelete } from '../../lib/recycle';
+import { loadBrokers } from '../../lib/repository';
+import { Plus, Trash2, Edit, Save, X, Search, Briefcase, Link2, History } from 'lucide-react';
+import AuditHistory from '../../components/AuditHistory';
+import { format } from 'date-fns';
+import { BROKER_SCENARIOS, normalizeScenarios, ScenarioKey, ScenarioRule } from '../../lib/commission';
+import { appendTermsVersion, BROKER_TERM_FIELDS, termsAsOf, TermsVersion } from '../../lib/terms';
+import TermsHistory from '../../components/TermsHistory';
+import { useAuth } from '../../contexts/AuthContext';
+import { inviteLink, issuePortalInvite } from '../../lib/invites';
 
 interface Broker {
   id: string;
@@ -11,26 +21,34 @@ interface Broker {
   flatCommission?: number;
   referralPercentage?: number;
   referralFlat?: number;
-  specialScenarios: string[];
+  specialScenarios: ScenarioRule[];
+  email?: string;
+  portalUid?: string;
+  portalInviteExpiresAt?: Date;
+  termsHistory?: TermsVersion[];
   createdAt: Date;
 }
 
 export default function Brokers() {
+  const { userData, can } = useAuth();
   const [brokers, setBrokers] = useState<Broker[]>([]);
   const [filteredBrokers, setFilteredBrokers] = useState<Broker[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [editingBroker, setEditingBroker] = useState<Broker | null>(null);
+  const [historyFor, setHistoryFor] = useState<{ path: string; title: string } | null>(null);
   const [newBroker, setNewBroker] = useState<{
     name: string;
+    email: string;
     commissionType: 'percentage' | 'flat' | 'both';
     commissionPercentage: string;
     flatCommission: string;
     referralPercentage: string;
     referralFlat: string;
-    specialScenarios: string[];
+    specialScenarios: ScenarioRule[];
   }>({
     name: '',
+    email: '',
     commissionType: 'both',
     commissionPercentage: '',
     flatCommission: '',
@@ -39,6 +57,9 @@ export default function Brokers() {
     specialScenarios: []
   });
   const [loading, setLoading] = useState(true);
+  const [issuingInviteFor, setIssuingInviteFor] = useState<string | null>(null);
+  const [issuedInvite, setIssuedInvite] = useState<{ name: string; link: string; expiresAt: Date } | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
 
   useEffect(() => {
     fetchBrokers();
@@ -54,12 +75,11 @@ export default function Brokers() {
 
   const fetchBrokers = async () => {
     try {
-      const brokersSnapshot = await getDocs(collection(db, 'brokers'));
-      const brokersData = brokersSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-        specialScenarios: doc.data().specialScenarios || []
+      const brokersData = (await loadBrokers()).filter(broker => !isDeleted(broker)).map(broker => ({
+        ...broker,
+        createdAt: broker.createdAt?.toDate() || new Date(),
+        portalInviteExpiresAt: broker.portalInviteExpiresAt?.toDate(),
+        specialScenarios: normalizeScenarios(broker)
       })) as Broker[];
       setBrokers(brokersData);
     } catch (error) {
@@ -74,8 +94,9 @@ export default function Brokers() {
     if (!newBroker.name.trim()) return;
 
     try {
-      await addDoc(collection(db, 'brokers'), {
+      await auditedAdd(collection(db, 'brokers'), {
         name: newBroker.name.trim(),
+        email: newBroker.email.trim(),
         commissionType: newBroker.commissionType,
         commissionPercentage: newBroker.commissionPercentage ? Number(newBroker.commissionPercentage) : 0,
         flatCommission: newBroker.flatCommission ? Number(newBroker.flatCommission) : 0,
@@ -86,6 +107,7 @@ export default function Brokers() {
       });
       setNewBroker({
         name: '',
+        email: '',
         commissionType: 'both',
         commissionPercentage: '',
         flatCommission: '',
@@ -105,14 +127,32 @@ export default function Brokers() {
     if (!editingBroker || !editingBroker.name.trim()) return;
 
     try {
-      await updateDoc(doc(db, 'brokers', editingBroker.id), {
-        name: editingBroker.name.trim(),
+      // Record the new terms as a dated version so older entries keep their deal
+      const original = brokers.find(b => b.id === editingBroker.id) || editingBroker;
+      const nextTerms = {
         commissionType: editingBroker.commissionType,
         commissionPercentage: editingBroker.commissionPercentage || 0,
         flatCommission: editingBroker.flatCommission || 0,
         referralPercentage: editingBroker.referralPercentage || 0,
         referralFlat: editingBroker.referralFlat || 0,
-        specialScenarios: editingBroker.specialScenarios || [],
+        specialScenarios: editingBroker.specialScenarios || []
+      };
+      const termsHistory = appendTermsVersion(original, nextTerms, BROKER_TERM_FIELDS, effectiveFrom);
+      const current = termsAsOf({ ...original, termsHistory }, format(new Date(), 'yyyy-MM-dd'));
+      await auditedUpdate(doc(db, 'brokers', editingBroker.id), {
+        ...(can('manageAccounts') && {
+          name: editingBroker.name.trim(),
+          email: editingBroker.email ? editingBroker.email.trim() : ''
+        }),
+        ...(can('editTerms') && {
+          commissionType: current.commissionType,
+          commissionPercentage: current.commissionPercentage || 0,
+          flatCommission: current.flatCommission || 0,
+          referralPercentage: current.referralPercentage || 0,
+          referralFlat: current.referralFlat || 0,
+          specialScenarios: current.specialScenarios || [],
+          termsHistory
+        }),
         updatedAt: new Date()
       });
       setEditingBroker(null);
@@ -122,43 +162,145 @@ export default function Brokers() {
     }
   };
 
+  // Portal logins are created by the broker from a single-use invite link
+  const handleIssuePortalInvite = async (broker: Broker) => {
+    if (!userData || !broker.email) return;
+    setIssuingInviteFor(broker.id);
+    try {
+      const { code, expiresAt } = await issuePortalInvite('broker', { id: broker.id, name: broker.name, email: broker.email }, userData.uid);
+      setIssuedInvite({ name: broker.name, link: inviteLink(code), expiresAt });
+      fetchBrokers();
+    } catch (error) {
+      console.error('Error issuing portal invite:', error);
+    } finally {
+      setIssuingInviteFor(null);
+    }
+  };
+
   const handleDeleteBroker = async (brokerId: string) => {
-    if (window.confirm('Are you sure you want to delete this broker?')) {
-      try {
-        await deleteDoc(doc(db, 'brokers', brokerId));
-        fetchBrokers();
-      } catch (error) {
-        console.error('Error deleting broker:', error);
-      }
+    try {
+      const plan = await planDelete(doc(db, 'brokers', brokerId));
+      if (!confirmDelete(plan, 'this broker')) return;
+      await moveToRecycleBin(plan);
+      fetchBrokers();
+    } catch (error) {
+      console.error('Error deleting broker:', error);
     }
   };
 
-  const toggleScenario = (scenario: string, isNew: boolean = false) => {
+  const scenarioRules = (isNew: boolean) =>
+    isNew ? newBroker.specialScenarios : editingBroker?.specialScenarios || [];
+
+  const setScenarioRules = (rules: ScenarioRule[], isNew: boolean) => {
     if (isNew) {
-      setNewBroker(prev => ({
-        ...prev,
-        specialScenarios: prev.specialScenarios.includes(scenario)
-          ? prev.specialScenarios.filter(s => s !== scenario)
-          : [...prev.specialScenarios, scenario]
-      }));
+      setNewBroker(prev => ({ ...prev, specialScenarios: rules }));
     } else if (editingBroker) {
-      setEditingBroker(prev => ({
-        ...prev!,
-        specialScenarios: prev!.specialScenarios.includes(scenario)
-          ? prev!.specialScenarios.filter(s => s !== scenario)
-          : [...prev!.specialScenarios, scenario]
-      }));
+      setEditingBroker(prev => ({ ...prev!, specialScenarios: rules }));
+    }
+  };
+
+  // New scenario rules start from the broker's default terms
+  const toggleScenario = (key: ScenarioKey, isNew: boolean = false) => {
+    const rules = scenarioRules(isNew);
+    if (rules.some(r => r.key === key)) {
+      setScenarioRules(rules.filter(r => r.key !== key), isNew);
+      return;
     }
+    const source = isNew ? newBroker : editingBroker;
+    setScenarioRules([...rules, {
+      key,
+      commissionType: source?.commissionType || 'percentage',
+      commissionPercentage: Number(source?.commissionPercentage) || 0,
+      flatCommission: Number(source?.flatCommission) || 0,
+      base: 'gross'
+    }], isNew);
+  };
+
+  const updateScenario = (key: ScenarioKey, changes: Partial<ScenarioRule>, isNew: boolean = false) => {
+    setScenarioRules(scenarioRules(isNew).map(r => (r.key === key ? { ...r, ...changes } : r)), isNew);
+  };
+
+  const describeRule = (rule: ScenarioRule) => {
+    const base = rule.base === 'net' ? 'net' : 'gross';
+    if (rule.commissionType === 'percentage') return `${rule.commissionPercentage}% of ${base}`;
+    if (rule.commissionType === 'flat') return `$${rule.flatCommission} flat`;
+    return `${rule.commissionPercentage}% of ${base} + $${rule.flatCommission} flat`;
+  };
+
+  const describeTerms = (version: TermsVersion) => {
+    const commission = version.commissionType === 'flat'
+      ? `$${version.flatCommission ?? 0} flat`
+      : version.commissionType === 'percentage'
+      ? `${version.commissionPercentage ?? 0}%`
+      : `${version.commissionPercentage ?? 0}% + $${version.flatCommission ?? 0} flat`;
+    const scenarios = normalizeScenarios({ specialScenarios: version.specialScenarios as ScenarioRule[] }).length;
+    return scenarios ? `${commission}, ${scenarios} scenario${scenarios === 1 ? '' : 's'}` : commission;
   };
 
-  const commonScenarios = [
-    "Accounts Brokered (No Referral & No Funding)",
-    "Accounts Brokered (With a Referral But No Funding)",
-    "Accounts Brokered (No Referral)",
-    "Accounts Brokered (With a Referral)",
-    "Accounts Brokered & Funded",
-    "Accounts Brokered (With a Referral & Funding)"
-  ];
+  const renderScenarioEditor = (isNew: boolean) => (
+    <div className="grid grid-cols-1 gap-2 max-h-64 overflow-y-auto">
+      {BROKER_SCENARIOS.map(scenario => {
+        const rule = scenarioRules(isNew).find(r => r.key === scenario.key);
+        return (
+          <div key={scenario.key} className="space-y-2">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={!!rule}
+                onChange={() => toggleScenario(scenario.key, isNew)}
+                className="rounded bg-white/5 border-orange-500/20 text-amber-500 focus:ring-amber-500"
+              />
+              <span className="text-sm text-gray-300">{scenario.label}</span>
+            </label>
+            {rule && (
+              <div className="grid grid-cols-2 gap-2 pl-6">
+                <select
+                  value={rule.commissionType}
+                  onChange={(e) => updateScenario(scenario.key, { commissionType: e.target.value as ScenarioRule['commissionType'] }, isNew)}
+                  className="px-2 py-1 bg-white/5 border border-orange-500/20 rounded text-white text-sm"
+                >
+                  <option className="text-gray-900" value="percentage">Percentage</option>
+                  <option className="text-gray-900" value="flat">Flat</option>
+                  <option className="text-gray-900" value="both">Both</option>
+                </select>
+                <select
+                  value={rule.base}
+                  onChange={(e) => updateScenario(scenario.key, { base: e.target.value as ScenarioRule['base'] }, isNew)}
+                  className="px-2 py-1 bg-white/5 border border-orange-500/20 rounded text-white text-sm"
+                >
+                  <option className="text-gray-900" value="gross">Gross</option>
+                  <option className="text-gray-900" value="net">Net after tax</option>
+                </select>
+                {rule.commissionType !== 'flat' && (
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={rule.commissionPercentage || ''}
+                    onChange={(e) => updateScenario(scenario.key, { commissionPercentage: parseFloat(e.target.value) || 0 }, isNew)}
+                    placeholder="%"
+                    className="px-2 py-1 bg-white/5 border border-orange-500/20 rounded text-white text-sm"
+                  />
+                )}
+                {rule.commissionType !== 'percentage' && (
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={rule.flatCommission || ''}
+                    onChange={(e) => updateScenario(scenario.key, { flatCommission: parseFloat(e.target.value) || 0 }, isNew)}
+                    placeholder="$ flat"
+                    className="px-2 py-1 bg-white/5 border border-orange-500/20 rounded text-white text-sm"
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
 
   return (
     <div className="space-y-8">
@@ -171,13 +313,15 @@ export default function Brokers() {
           <p className="text-gray-400 mt-1">Manage brokers and their commission structures</p>
         </div>
         
-        <button
-          onClick={() => setShowModal(true)}
-          className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add New Broker</span>
-        </button>
+        {can('manageAccounts') && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add New Broker</span>
+          </button>
+        )}
       </div>
 
       {/* Search Bar */}
@@ -219,110 +363,120 @@ export default function Brokers() {
                     type="text"
                     value={editingBroker.name}
                     onChange={(e) => setEditingBroker({ ...editingBroker, name: e.target.value })}
-                    className="w-full px-3 py-2 bg-white/5 border border-orange-500/20 rounded-lg text-white text-lg font-semibold"
+                    className="w-full px-3 py-2 bg-white/5 border border-orange-500/20 rounded-lg text-white text-lg font-semibold disabled:opacity-50"
+                    disabled={!can('manageAccounts')}
                     required
                   />
+                  <input
+                    type="email"
+                    value={editingBroker.email || ''}
+                    onChange={(e) => setEditingBroker({ ...editingBroker, email: e.target.value })}
+                    className="w-full px-3 py-2 bg-white/5 border border-orange-500/20 rounded-lg text-white disabled:opacity-50"
+                    disabled={!can('manageAccounts') || !!editingBroker.portalUid}
+                    placeholder="Email (for portal access)"
+                  />
                   
-                  <div>
-                    <label className="block text-sm text-gray-400 mb-1">Commission Type</label>
-                    <select
-                      value={editingBroker.commissionType}
-                      onChange={(e) => setEditingBroker({ 
-                        ...editingBroker, 
-                        commissionType: e.target.value as 'percentage' | 'flat' | 'both' 
-                      })}
-                      className="w-full px-3 py-2 bg-white/5 border border-orange-500/20 rounded-lg text-white"
-                    >
-                      <option className="text-gray-900" value="percentage">Percentage Only</option>
-                      <option className="text-gray-900" value="flat">Flat Only</option>
-                      <option className="text-gray-900" value="both">Both Percentage and Flat</option>
-                    </select>
-                  </div>
+                  <fieldset disabled={!can('editTerms')} className="space-y-4 disabled:opacity-50">
+                    <div>
+                      <label className="block text-sm text-gray-400 mb-1">Commission Type</label>
+                      <select
+                        value={editingBroker.commissionType}
+                        onChange={(e) => setEditingBroker({ 
+                          ...editingBroker, 
+                          commissionType: e.target.value as 'percentage' | 'flat' | 'both' 
+                        })}
+                        className="w-full px-3 py-2 bg-white/5 border border-orange-500/20 rounded-lg text-white"
+                      >
+                        <option className="text-gray-900" value="percentage">Percentage Only</option>
+                        <option className="text-gray-900" value="flat">Flat Only</option>
+                        <option className="text-gray-900" value="both">Both Percentage and Flat</option>
+                      </select>
+                    </div>
+                  
+                    {(editingBroker.commissionType === 'percentage' || editingBroker.commissionType === 'both') && (
+                      <div>
+                        <label className="block text-sm text-gray-400 mb-1">Commission Percentage</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="100"
+                            value={editingBroker.commissionPercentage || ''}
+                            onChange={(e) => setEditingBroker({ ...editingBroker, commissionPercentage: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-3 py-2 pr-8 bg-white/5 border border-orange-500/20 rounded-lg text-white"
+                            required={true}
+                          />
+                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">%</span>
+                        </div>
+                      </div>
+                    )}
+                  
+                    {(editingBroker.commissionType === 'flat' || editingBroker.commissionType === 'both') && (
+                      <div>
+                        <label className="block text-sm text-gray-400 mb-1">Flat Commission</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={editingBroker.flatCommission || ''}
+                            onChange={(e) => setEditingBroker({ ...editingBroker, flatCommission: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-3 py-2 pr-8 bg-white/5 border border-orange-500/20 rounded-lg text-white"
+                            required={true}
+                          />
+                          <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">$</span>
+                        </div>
+                      </div>
+                    )}
                   
-                  {(editingBroker.commissionType === 'percentage' || editingBroker.commissionType === 'both') && (
                     <div>
-                      <label className="block text-sm text-gray-400 mb-1">Commission Percentage</label>
+                      <label className="block text-sm text-gray-400 mb-1">Referral Percentage (if applicable)</label>
                       <div className="relative">
                         <input
                           type="number"
                           step="0.01"
                           min="0"
                           max="100"
-                          value={editingBroker.commissionPercentage || ''}
-                          onChange={(e) => setEditingBroker({ ...editingBroker, commissionPercentage: parseFloat(e.target.value) || 0 })}
+                          value={editingBroker.referralPercentage || ''}
+                          onChange={(e) => setEditingBroker({ ...editingBroker, referralPercentage: parseFloat(e.target.value) || 0 })}
                           className="w-full px-3 py-2 pr-8 bg-white/5 border border-orange-500/20 rounded-lg text-white"
-                          required={true}
                         />
                         <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">%</span>
                       </div>
                     </div>
-                  )}
                   
-                  {(editingBroker.commissionType === 'flat' || editingBroker.commissionType === 'both') && (
                     <div>
-                      <label className="block text-sm text-gray-400 mb-1">Flat Commission</label>
+                      <label className="block text-sm text-gray-400 mb-1">Flat Referral (if applicable)</label>
                       <div className="relative">
                         <input
                           type="number"
                           min="0"
                           step="0.01"
-                          value={editingBroker.flatCommission || ''}
-                          onChange={(e) => setEditingBroker({ ...editingBroker, flatCommission: parseFloat(e.target.value) || 0 })}
+                          value={editingBroker.referralFlat || ''}
+                          onChange={(e) => setEditingBroker({ ...editingBroker, referralFlat: parseFloat(e.target.value) || 0 })}
                           className="w-full px-3 py-2 pr-8 bg-white/5 border border-orange-500/20 rounded-lg text-white"
-                          required={true}
                         />
                         <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">$</span>
                       </div>
                     </div>
-                  )}
                   
-                  <div>
-                    <label className="block text-sm text-gray-400 mb-1">Referral Percentage (if applicable)</label>
-                    <div className="relative">
-                      <input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        max="100"
-                        value={editingBroker.referralPercentage || ''}
-                        onChange={(e) => setEditingBroker({ ...editingBroker, referralPercentage: parseFloat(e.target.value) || 0 })}
-                        className="w-full px-3 py-2 pr-8 bg-white/5 border border-orange-500/20 rounded-lg text-white"
-                      />
-                      <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">%</span>
+                    <div>
+                      <label className="block text-sm text-gray-400 mb-1">Special Scenarios</label>
+                      {renderScenarioEditor(false)}
                     </div>
-                  </div>
-                  
-                  <div>
-                    <label className="block text-sm text-gray-400 mb-1">Flat Referral (if applicable)</label>
-                    <div className="relative">
+
+                    <div>
+                      <label className="block text-sm text-gray-400 mb-1">Terms Effective From</label>
                       <input
-                        type="number"
-                        min="0"
-                        step="0.01"
-                        value={editingBroker.referralFlat || ''}
-                        onChange={(e) => setEditingBroker({ ...editingBroker, referralFlat: parseFloat(e.target.value) || 0 })}
-                        className="w-full px-3 py-2 pr-8 bg-white/5 border border-orange-500/20 rounded-lg text-white"
+                        type="date"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                        className="w-full px-3 py-2 bg-white/5 border border-orange-500/20 rounded-lg text-white"
+                        required
                       />
-                      <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">$</span>
                     </div>
-                  </div>
-                  
-                  <div>
-                    <label className="block text-sm text-gray-400 mb-1">Special Scenarios</label>
-                    <div className="grid grid-cols-1 gap-2 max-h-32 overflow-y-auto">
-                      {commonScenarios.map(scenario => (
-                        <label key={scenario} className="flex items-center space-x-2">
-                          <input
-                            type="checkbox"
-                            checked={editingBroker.specialScenarios.includes(scenario)}
-                            onChange={() => toggleScenario(scenario)}
-                            className="rounded bg-white/5 border-orange-500/20 text-amber-500 focus:ring-amber-500"
-                          />
-                          <span className="text-sm text-gray-300">{scenario}</span>
-                        </label>
-                      ))}
-                    </div>
-                  </div>
+                  </fieldset>
                   
                   <div className="flex space-x-2">
                     <button
@@ -370,17 +524,28 @@ export default function Brokers() {
                     </div>
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => setEditingBroker(broker)}
+                        onClick={() => setHistoryFor({ path: `brokers/${broker.id}`, title: broker.name })}
                         className="p-2 text-gray-400 hover:text-amber-400 transition-colors"
+                        title="History"
                       >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteBroker(broker.id)}
-                        className="p-2 text-gray-400 hover:text-red-400 transition-colors"
-                      >
-                        <Trash2 className="w-4 h-4" />
+                        <History className="w-4 h-4" />
                       </button>
+                      {(can('manageAccounts') || can('editTerms')) && (
+                        <button
+                          onClick={() => { setEditingBroker(broker); setEffectiveFrom(format(new Date(), 'yyyy-MM-dd')); }}
+                          className="p-2 text-gray-400 hover:text-amber-400 transition-colors"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                      )}
+                      {can('manageAccounts') && (
+                        <button
+                          onClick={() => handleDeleteBroker(broker.id)}
+                          className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                   
@@ -388,10 +553,13 @@ export default function Brokers() {
                     <div className="mb-4">
                       <h4 className="text-sm font-medium text-gray-300 mb-2">Special Scenarios:</h4>
                       <ul className="text-sm text-gray-400 space-y-1">
-                        {broker.specialScenarios.map((scenario, index) => (
-                          <li key={index} className="flex items-start">
+                        {broker.specialScenarios.map((rule) => (
+                          <li key={rule.key} className="flex items-start">
                             <span className="text-amber-400 mr-2">•</span>
-                            <span>{scenario}</span>
+                            <span>
+                              {BROKER_SCENARIOS.find(s => s.key === rule.key)?.label}
+                              <span className="text-gray-500"> — {describeRule(rule)}</span>
+                            </span>
                           </li>
                         ))}
                       </ul>
@@ -401,6 +569,29 @@ export default function Brokers() {
                   <div className="text-sm text-gray-400">
                     Created: {broker.createdAt.toLocaleDateString()}
                   </div>
+                  {broker.email && (
+                    <div className="text-sm text-gray-400">Email: {broker.email}</div>
+                  )}
+                  <div className="text-sm text-gray-400">
+                    Portal: {broker.portalUid
+                      ? <span className="text-green-400">active</span>
+                      : !broker.portalInviteExpiresAt
+                        ? <span className="text-gray-500">{broker.email ? 'not invited' : 'add an email to invite'}</span>
+                        : broker.portalInviteExpiresAt < new Date()
+                          ? <span className="text-red-400">invite expired {broker.portalInviteExpiresAt.toLocaleDateString()}</span>
+                          : <span className="text-amber-400">invite expires {broker.portalInviteExpiresAt.toLocaleDateString()}</span>}
+                  </div>
+                  {can('manageAccounts') && !broker.portalUid && broker.email && (
+                    <button
+                      onClick={() => handleIssuePortalInvite(broker)}
+                      disabled={issuingInviteFor === broker.id}
+                      className="mt-4 w-full flex items-center justify-center space-x-2 bg-white/5 hover:bg-white/10 border border-orange-500/20 text-white py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Link2 className="w-4 h-4" />
+                      <span>{issuingInviteFor === broker.id ? 'Creating...' : broker.portalInviteExpiresAt ? 'New Portal Invite' : 'Invite to Portal'}</span>
+                    </button>
+                  )}
+                  <TermsHistory history={broker.termsHistory} describe={describeTerms} />
                 </>
               )}
             </div>
@@ -427,6 +618,19 @@ export default function Brokers() {
                   required
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  value={newBroker.email}
+                  onChange={(e) => setNewBroker({ ...newBroker, email: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/5 border border-orange-500/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                  placeholder="Needed to invite them to the portal"
+                />
+              </div>
               
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -530,19 +734,7 @@ export default function Brokers() {
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   Special Scenarios
                 </label>
-                <div className="grid grid-cols-1 gap-2 max-h-32 overflow-y-auto">
-                  {commonScenarios.map(scenario => (
-                    <label key={scenario} className="flex items-center space-x-2">
-                      <input
-                        type="checkbox"
-                        checked={newBroker.specialScenarios.includes(scenario)}
-                        onChange={() => toggleScenario(scenario, true)}
-                        className="rounded bg-white/5 border-orange-500/20 text-amber-500 focus:ring-amber-500"
-                      />
-                      <span className="text-sm text-gray-300">{scenario}</span>
-                    </label>
-                  ))}
-                </div>
+                {renderScenarioEditor(true)}
               </div>
               
               <div className="flex justify-end space-x-4 mt-6">
@@ -564,6 +756,43 @@ export default function Brokers() {
           </div>
         </div>
       )}
+
+      {/* Issued Portal Invite Modal */}
+      {issuedInvite && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-orange-500/20 w-full max-w-md">
+            <h2 className="text-2xl font-bold text-white mb-2">Portal Invite for {issuedInvite.name}</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Send this link to the broker. It works once, expires {issuedInvite.expiresAt.toLocaleDateString()}, and will not be shown again.
+            </p>
+            <input
+              type="text"
+              readOnly
+              value={issuedInvite.link}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-4 py-3 bg-white/5 border border-orange-500/20 rounded-lg text-white text-sm font-mono"
+            />
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                onClick={() => navigator.clipboard.writeText(issuedInvite.link)}
+                className="px-6 py-3 text-amber-400 hover:text-amber-300 transition-colors"
+              >
+                Copy Link
+              </button>
+              <button
+                onClick={() => setIssuedInvite(null)}
+                className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {historyFor && (
+        <AuditHistory path={historyFor.path} title={historyFor.title} onClose={() => setHistoryFor(null)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { collection, getDocs, query, where, orderBy, doc, getDoc, setDoc, addDoc, updateDoc } from 'firebase/firestore';
+import { collection, getDocs, query, where, orderBy, doc, getDoc, QuerySnapshot } from 'firebase/firestore';
 import { db } from '../../firebase';
-import { Users, CreditCard, UserPlus, Calendar, Filter, BarChart3, Settings, Download } from 'lucide-react';
+import { auditedSet } from '../../lib/audit';
+import { isDeleted, notDeleted } from '../../lib/recycle';
+import { loadAgents, loadBrokers, loadClickers } from '../../lib/repository';
+import { ACCOUNT_STATUS_LABELS, AccountStatus, STOPPED_STATUSES, accountStatus } from '../../lib/lifecycle';
+import { DayRollup, emptyRollupTotals, refreshRollups, sumRollups } from '../../lib/rollups';
+import { useAuth } from '../../contexts/AuthContext';
+import { Link } from 'react-router-dom';
+import { Users, CreditCard, UserPlus, Calendar, Filter, BarChart3, Settings, Download, Upload, History } from 'lucide-react';
+import AuditHistory from '../../components/AuditHistory';
+import LiveIndicator from '../../components/LiveIndicator';
+import AccountStatusBadge from '../../components/AccountStatusBadge';
+import { useLiveQueries } from '../../lib/live';
 import { format, subDays, startOfDay, endOfDay, parseISO } from 'date-fns';
 import * as XLSX from 'xlsx';
+import { computeSplits } from '../../lib/commission';
+import { entryObligations, Settlement, SettlementPartyType } from '../../lib/settlements';
+import { accountNumber, accountStartDate, entryPayments, overflowsPaymentSlots, VJACK_PAYMENT_SLOTS, VjackEntry, vjackRow } from '../../lib/vjack';
 
 interface DashboardStats {
   totalAgents: number;
@@ -43,43 +57,26 @@ interface AccountStats {
   id: string;
   name: string;
   type: 'pph' | 'legal';
-  status: 'active' | 'inactive';
+  status: AccountStatus;
   agentName: string;
   assignedToPlayerName?: string;
   totalProfit: number;
   totalEntries: number;
 }
 
-interface EntryData {
+interface EntryData extends VjackEntry {
   id: string;
-  date: string;
   accountId: string;
   accountName: string;
   accountType: string;
-  accHolderName?: string;
-  accNumber?: string;
-  brokerName?: string;
-  fundedByName?: string;
-  referredByName?: string;
-  promoAmount?: number;
-  playerName: string;
   playerUid: string;
-  startingBalance: number;
-  endingBalance: number;
-  refillAmount: number;
-  withdrawal: number;
-  profitLoss: number;
-  clickerAmount: number;
-  accHolderAmount: number;
-  companyAmount: number;
-  taxableAmount: number;
-  referralAmount: number;
   accountStatus: string;
   complianceReview: string;
-  notes: string;
 }
 
 export default function Dashboard() {
+  const { can } = useAuth();
+  const [showTaxHistory, setShowTaxHistory] = useState(false);
   const [stats, setStats] = useState<DashboardStats>({
     totalAgents: 0,
     totalAccounts: 0,
@@ -95,7 +92,6 @@ export default function Dashboard() {
   const [agentStats, setAgentStats] = useState<AgentStats[]>([]);
   const [playerStats, setPlayerStats] = useState<PlayerStats[]>([]);
   const [accountStats, setAccountStats] = useState<AccountStats[]>([]);
-  const [allEntries, setAllEntries] = useState<EntryData[]>([]);
   const [dateFilter, setDateFilter] = useState('today');
   const [customDateRange, setCustomDateRange] = useState({
     startDate: format(new Date(), 'yyyy-MM-dd'),
@@ -107,14 +103,18 @@ export default function Dashboard() {
   const [showTaxModal, setShowTaxModal] = useState(false);
   const [newTaxRate, setNewTaxRate] = useState(10);
   const [isUpdatingTax, setIsUpdatingTax] = useState(false);
-  const [isImporting, setIsImporting] = useState(false);
-  const [importStatus, setImportStatus] = useState('');
 
   useEffect(() => {
-    fetchStats();
+    setLoading(true);
     fetchTaxRate();
   }, [dateFilter, customDateRange]);
 
+  // Catch up on writes whose own refresh never ran, e.g. the tab closed right
+  // after saving; the live rollups pick up whatever this rebuilds
+  useEffect(() => {
+    refreshRollups().catch(error => console.error('Error refreshing rollups:', error));
+  }, []);
+
   const fetchTaxRate = async () => {
     try {
       const taxDoc = await getDoc(doc(db, 'settings', 'taxRate'));
@@ -128,298 +128,6 @@ export default function Dashboard() {
     }
   };
 
-  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    setIsImporting(true);
-    setImportStatus('Reading file...');
-    try {
-      const text = await file.text();
-      const lines = text.replace(/\uFEFF/g, '').split(/\r?\n/).filter(l => l.trim().length > 0);
-      if (lines.length < 2) {
-        setImportStatus('No data rows found.');
-        setIsImporting(false);
-        return;
-      }
-
-      const header = lines[0].split(/\t/).map(h => h.trim());
-      const rows = lines.slice(1).map(line => line.split(/\t/));
-
-      // Helpers
-      const money = (val: any): number => {
-        if (val === undefined || val === null) return 0;
-        if (typeof val === 'number') return val;
-        const s = String(val).trim();
-        if (!s) return 0;
-        const sign = s.includes('(') && s.includes(')') ? -1 : 1;
-        const cleaned = s.replace(/[^0-9\.-]/g, '');
-        const num = parseFloat(cleaned || '0');
-        return sign * (isNaN(num) ? 0 : num);
-      };
-
-      const parseDate = (raw: any): string => {
-        if (!raw) return format(new Date(), 'yyyy-MM-dd');
-        let s = String(raw).trim();
-        if (!s) return format(new Date(), 'yyyy-MM-dd');
-        s = s.replace(/(st|nd|rd|th)/gi, '');
-        const parts = s.split(/\s+/).filter(Boolean);
-        const monthMap: Record<string, number> = {
-          jan: 0, january: 0,
-          feb: 1, february: 1,
-          mar: 2, march: 2,
-          apr: 3, april: 3,
-          may: 4,
-          jun: 5, june: 5,
-          jul: 6, july: 6,
-          aug: 7, august: 7,
-          sep: 8, sept: 8, september: 8,
-          oct: 9, october: 9,
-          nov: 10, november: 10,
-          dec: 11, december: 11
-        };
-        let day = new Date().getDate();
-        let month = new Date().getMonth();
-        let year = new Date().getFullYear();
-        if (parts.length >= 2) {
-          const maybeDay = parseInt(parts[0], 10);
-          const maybeMonth = monthMap[parts[1].toLowerCase()] ?? monthMap[parts[1].slice(0,3).toLowerCase()];
-          if (!isNaN(maybeDay)) day = maybeDay;
-          if (typeof maybeMonth === 'number') month = maybeMonth;
-          if (parts[2]) {
-            const maybeYear = parseInt(parts[2], 10);
-            if (!isNaN(maybeYear) && maybeYear > 1990 && maybeYear < 2100) year = maybeYear;
-          }
-        }
-        const d = new Date(year, month, day);
-        return format(d, 'yyyy-MM-dd');
-      };
-
-      const getVal = (obj: Record<string, any>, keys: string[], fallback: any = ''): any => {
-        for (const k of keys) {
-          if (k in obj && obj[k] !== '' && obj[k] !== undefined) return obj[k];
-        }
-        return fallback;
-      };
-
-      const toObj = (arr: string[]) => {
-        const obj: Record<string, any> = {};
-        header.forEach((h, i) => { obj[h] = (arr[i] ?? '').trim(); });
-        return obj;
-      };
-
-      const toEmail = (name: string): string => {
-        const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '').slice(0, 64);
-        return `${base}@vjack.com`;
-      };
-
-      setImportStatus('Fetching existing agents/brokers/players cache...');
-      const agentsSnapshot = await getDocs(collection(db, 'agents'));
-      const brokersSnapshot = await getDocs(collection(db, 'brokers'));
-      const usersSnapshot = await getDocs(query(collection(db, 'users'), where('role', '==', 'player')));
-
-      const agentNameToId = new Map<string, string>();
-      agentsSnapshot.forEach(d => agentNameToId.set((d.data().name || '').toString().trim().toLowerCase(), d.id));
-      const brokerNameToId = new Map<string, string>();
-      brokersSnapshot.forEach(d => brokerNameToId.set((d.data().name || '').toString().trim().toLowerCase(), d.id));
-      const playerNameToUid = new Map<string, string>();
-      usersSnapshot.forEach(d => playerNameToUid.set((d.data().name || '').toString().trim().toLowerCase(), (d.data() as any).uid));
-
-      const safeId = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
-
-      let processed = 0;
-      for (const row of rows) {
-        const obj = toObj(row);
-        const accHolderName = (getVal(obj, ['Acc holder name', 'Acc holder', 'Account Holder', 'Accs Holder name']) || '').toString().trim();
-        if (!accHolderName) continue;
-        const agentKey = accHolderName.toLowerCase();
-
-        // Ensure agent
-        let agentId = agentNameToId.get(agentKey);
-        if (!agentId) {
-          const agentDoc = await addDoc(collection(db, 'agents'), {
-            name: accHolderName,
-            commissionPercentage: 0,
-            flatCommission: 0,
-            createdAt: new Date(),
-            phone: (obj['Number'] || '').toString().trim()
-          });
-          agentId = agentDoc.id;
-          agentNameToId.set(agentKey, agentId);
-        }
-
-        // Ensure brokered-by (optional)
-        const brokerNameRaw = (getVal(obj, ['Brokered By', 'Broker', 'Brokered']) || '').toString().trim();
-        let brokerId: string | undefined = undefined;
-        if (brokerNameRaw) {
-          const brokerKey = brokerNameRaw.toLowerCase();
-          brokerId = brokerNameToId.get(brokerKey);
-          if (!brokerId) {
-            const brokerDoc = await addDoc(collection(db, 'brokers'), {
-              name: brokerNameRaw,
-              commissionType: 'both',
-              commissionPercentage: 0,
-              flatCommission: 0,
-              createdAt: new Date(),
-              specialScenarios: []
-            });
-            brokerId = brokerDoc.id;
-            brokerNameToId.set(brokerKey, brokerId);
-          }
-        }
-
-        // Ensure funded-by (optional)
-        const fundedByRaw = (getVal(obj, ['Funded By', 'Funder', 'Funded']) || '').toString().trim();
-        let fundedById: string | undefined = undefined;
-        if (fundedByRaw) {
-          const fundKey = fundedByRaw.toLowerCase();
-          fundedById = brokerNameToId.get(fundKey);
-          if (!fundedById) {
-            const fundDoc = await addDoc(collection(db, 'brokers'), {
-              name: fundedByRaw,
-              commissionType: 'both',
-              commissionPercentage: 0,
-              flatCommission: 0,
-              createdAt: new Date(),
-              specialScenarios: []
-            });
-            fundedById = fundDoc.id;
-            brokerNameToId.set(fundKey, fundedById);
-          }
-        }
-
-        // Ensure referred-by (optional)
-        const referredByRaw = (getVal(obj, ['Referred By', 'Referral By', 'Referral']) || '').toString().trim();
-        let referredById: string | undefined = undefined;
-        if (referredByRaw) {
-          const refKey = referredByRaw.toLowerCase();
-          referredById = brokerNameToId.get(refKey);
-          if (!referredById) {
-            const refDoc = await addDoc(collection(db, 'brokers'), {
-              name: referredByRaw,
-              commissionType: 'both',
-              commissionPercentage: 0,
-              flatCommission: 0,
-              createdAt: new Date(),
-              specialScenarios: []
-            });
-            referredById = refDoc.id;
-            brokerNameToId.set(refKey, referredById);
-          }
-        }
-
-        // Build account id and upsert account
-        const accNumber = (obj['Number'] || '').toString().trim();
-        const startDate = parseDate(getVal(obj, ['Start date', 'Start Date', 'Start']));
-        const accountDocId = `import-${safeId(accHolderName)}-${safeId(accNumber || 'na')}-${startDate}`;
-        const startingBalance = money(getVal(obj, ['Starting balance', 'Accs Holder existing balance']));
-        const promoAmount = money(getVal(obj, ['Promo $', 'Promo']));
-
-        // Determine clicker/player by name (no stub creation)
-        const clickerNameRaw = (getVal(obj, ['Clicker Name', 'Clicker', 'Clicker Name ']) || '').toString().trim();
-        let assignedToPlayerUid = clickerNameRaw ? (playerNameToUid.get(clickerNameRaw.toLowerCase()) || null) : null;
-
-        // Ensure an inactive player record exists if user not found (no stub uid creation)
-        if (clickerNameRaw && !assignedToPlayerUid) {
-          try {
-            const existingPlayersSnap = await getDocs(query(collection(db, 'players'), where('name', '==', clickerNameRaw)));
-            if (existingPlayersSnap.empty) {
-              await addDoc(collection(db, 'players'), {
-                name: clickerNameRaw,
-                email: toEmail(clickerNameRaw),
-                password: 'vjack@123',
-                role: 'player',
-                status: 'pending',
-                percentage: 50,
-                createdAt: new Date()
-              });
-            }
-          } catch (e) {
-            console.error('Error ensuring inactive player:', e);
-          }
-        }
-
-        await setDoc(doc(db, 'accounts', accountDocId), {
-          type: 'legal',
-          name: accNumber ? `${accHolderName} (${accNumber})` : accHolderName,
-          agentId,
-          brokerId: brokerId || null,
-          brokeredById: brokerId || null,
-          fundedById: fundedById || null,
-          referredById: referredById || null,
-          status: assignedToPlayerUid ? 'active' : 'unused',
-          depositAmount: startingBalance,
-          promoAmount,
-          assignedToPlayerUid,
-          createdAt: new Date()
-        }, { merge: true });
-
-        // Ensure clicker percentage = 50% if we have an assigned user
-        if (assignedToPlayerUid) {
-          try {
-            const uSnap = await getDocs(query(collection(db, 'users'), where('uid', '==', assignedToPlayerUid)));
-            if (!uSnap.empty) {
-              const userDocRef = doc(db, 'users', uSnap.docs[0].id);
-              const existing = uSnap.docs[0].data() as any;
-              if (typeof existing.percentage !== 'number' || existing.percentage <= 0) {
-                await updateDoc(userDocRef, { percentage: 50, updatedAt: new Date() });
-              }
-            }
-          } catch (e) {
-            console.error('Error setting player percentage:', e);
-          }
-        }
-
-        // Prepare entry
-        const endDate = parseDate(getVal(obj, ['Settled Date', 'End Date', 'End date', 'End Date ' , 'End']));
-        const endingBalance = money(getVal(obj, ['Ending Balance', 'Ending balance']));
-        const refillAmountsKeys = header.filter(h => /refill \$/i.test(h));
-        const refillAmount = refillAmountsKeys.reduce((sum, k) => sum + money(obj[k]), 0);
-        const grossProfit = money(getVal(obj, ['Gross Profit', 'Gross']));
-        const taxAmount = money(getVal(obj, ['30% tax', 'Tax']));
-        const companyAmount = money(getVal(obj, ['JACK', 'Company Way']));
-        const clickerAmount = money(getVal(obj, ['Clicker Way 50% Fix', 'Clicker Way']));
-        const accHolderAmount = money(getVal(obj, ['Accs Holder Way']));
-        const referralAmount = money(getVal(obj, ['Referral Way']));
-        const brokerAmount = money(getVal(obj, ['Broker Way']));
-        const notes = (getVal(obj, ['Notes , in between settlement', 'Notes']) || '').toString();
-
-        const entryDocId = `import-${accountDocId}-${endDate}`;
-        await setDoc(doc(db, 'entries', entryDocId), {
-          accountId: accountDocId,
-          playerUid: assignedToPlayerUid || 'import',
-          date: endDate,
-          startingBalance,
-          endingBalance,
-          refillAmount,
-          withdrawal: 0,
-          profitLoss: grossProfit || (endingBalance - startingBalance - refillAmount),
-          clickerAmount,
-          accHolderAmount,
-          companyAmount,
-          taxableAmount: taxAmount,
-          referralAmount,
-          brokerAmount,
-          accountStatus: assignedToPlayerUid ? 'active' : 'unused',
-          complianceReview: 'N/A',
-          notes,
-          createdAt: new Date()
-        }, { merge: true });
-
-        processed += 1;
-        if (processed % 10 === 0) setImportStatus(`Imported ${processed} rows...`);
-      }
-
-      setImportStatus(`Import complete. Processed ${processed} rows.`);
-      fetchStats();
-    } catch (err) {
-      console.error(err);
-      setImportStatus('Import failed. See console for details.');
-    } finally {
-      setIsImporting(false);
-      e.target.value = '';
-    }
-  };
   const updateTaxRate = async () => {
     if (!newTaxRate || isNaN(Number(newTaxRate))) {
       return;
@@ -432,7 +140,7 @@ export default function Dashboard() {
 
     setIsUpdatingTax(true);
     try {
-      await setDoc(doc(db, 'settings', 'taxRate'), {
+      await auditedSet(doc(db, 'settings', 'taxRate'), {
         value: rate,
         updatedAt: new Date()
       }, { merge: true });
@@ -453,147 +161,51 @@ export default function Dashboard() {
     }
   };
 
-  const fetchStats = async () => {
-    setLoading(true);
+  const fetchStats = async (accountsSnapshot: QuerySnapshot, playersSnapshot: QuerySnapshot, rollupsSnapshot: QuerySnapshot) => {
     try {
-      const { startDate, endDate } = getDateRange();
-
-      // Fetch agents
-      const agentsSnapshot = await getDocs(collection(db, 'agents'));
-      const totalAgents = agentsSnapshot.size;
-      const agents = agentsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...(doc.data() as any)
-      })) as any[];
+      const [agents, brokers] = await Promise.all([loadAgents(), loadBrokers()]) as [any[], any[]];
+      // Deleted agents and clickers are left out of the stats but kept for
+      // naming the accounts they were on
+      const liveAgents = agents.filter(agent => !isDeleted(agent));
+      const totalAgents = liveAgents.length;
 
-      // Fetch accounts
-      const accountsSnapshot = await getDocs(collection(db, 'accounts'));
-      const totalAccounts = accountsSnapshot.size;
-      const accounts = accountsSnapshot.docs.map(doc => ({
+      const accounts = accountsSnapshot.docs.filter(notDeleted).map(doc => ({
         id: doc.id,
         ...(doc.data() as any)
       })) as any[];
-      const activeAccounts = accounts.filter(acc => acc.status === 'active').length;
-      const inactiveAccounts = accounts.filter(acc => acc.status === 'inactive').length;
+      const totalAccounts = accounts.length;
+      const activeAccounts = accounts.filter(acc => accountStatus(acc) === 'active').length;
+      const inactiveAccounts = accounts.filter(acc => STOPPED_STATUSES.includes(accountStatus(acc))).length;
       const pphAccounts = accounts.filter(acc => acc.type === 'pph').length;
       const legalAccounts = accounts.filter(acc => acc.type === 'legal').length;
 
-      // Fetch players
-      const playersQuery = query(collection(db, 'users'), where('role', '==', 'player'));
-      const playersSnapshot = await getDocs(playersQuery);
-      const totalPlayers = playersSnapshot.size;
       const players = playersSnapshot.docs.map(doc => ({
         uid: (doc.data() as any).uid,
         ...(doc.data() as any)
       })) as any[];
+      const livePlayers = players.filter(player => !isDeleted(player));
+      const totalPlayers = livePlayers.length;
 
-      // Fetch brokers for name lookup
-      const brokersSnapshot = await getDocs(collection(db, 'brokers'));
-      const brokers = brokersSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...(doc.data() as any)
-      })) as any[];
-
-      // Fetch entries for the selected date range
-      const entriesQuery = query(
-        collection(db, 'entries'),
-        where('date', '>=', format(startDate, 'yyyy-MM-dd')),
-        where('date', '<=', format(endDate, 'yyyy-MM-dd')),
-        orderBy('date', 'desc')
-      );
-      const entriesSnapshot = await getDocs(entriesQuery);
-      const totalTransactions = entriesSnapshot.size;
-      const entries = entriesSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...(doc.data() as any)
-      })) as any[];
-
-      // Calculate total profit
-      let totalProfit = 0;
-      entries.forEach((entry) => {
-        totalProfit += entry.profitLoss || 0;
-      });
+      const taxDoc = await getDoc(doc(db, 'settings', 'taxRate'));
+      const taxRate = taxDoc.exists() ? taxDoc.data().value : stats.taxRate;
 
-      // Prepare entry data for export
-      const entriesData: EntryData[] = await Promise.all(
-        entries.map(async (entry: any) => {
-          const account = accounts.find((acc: any) => acc.id === entry.accountId);
-          const player = players.find((p: any) => p.uid === entry.playerUid);
-          let accHolderName = 'Unknown Account Holder';
-          let accNumber = '';
-          let brokerName = '';
-          let fundedByName = '';
-          let referredByName = '';
-          if (account) {
-            const agent = agents.find((a: any) => a.id === account.agentId);
-            accHolderName = agent?.name || accHolderName;
-            if (account.type === 'legal' && typeof account.name === 'string') {
-              const m = account.name.match(/\(([^)]+)\)/);
-              accNumber = m ? m[1] : '';
-            }
-            if (account.brokerId) {
-              const broker = brokers.find((b: any) => b.id === account.brokerId);
-              brokerName = broker?.name || '';
-            }
-            if (account.fundedById) {
-              const funder = brokers.find((b: any) => b.id === account.fundedById);
-              fundedByName = funder?.name || '';
-            }
-            if (account.referredById) {
-              const ref = brokers.find((b: any) => b.id === account.referredById);
-              referredByName = ref?.name || '';
-            }
-          }
-          
-          return {
-            id: entry.id,
-            date: entry.date,
-            accountId: entry.accountId,
-            accountName: account ? (account.type === 'pph' ? account.username : account.name) : 'Unknown Account',
-            accountType: account?.type || 'pph',
-            accHolderName,
-            accNumber,
-            brokerName,
-            fundedByName,
-            referredByName,
-            promoAmount: account?.promoAmount || 0,
-            playerName: player?.name || 'Unknown Player',
-            playerUid: entry.playerUid,
-            startingBalance: entry.startingBalance || 0,
-            endingBalance: entry.endingBalance || 0,
-            refillAmount: entry.refillAmount || 0,
-            withdrawal: entry.withdrawal || 0,
-            profitLoss: entry.profitLoss || 0,
-            clickerAmount: entry.clickerAmount || 0,
-            accHolderAmount: entry.accHolderAmount || 0,
-            companyAmount: entry.companyAmount || 0,
-            taxableAmount: entry.taxableAmount || 0,
-            referralAmount: entry.referralAmount || 0,
-            accountStatus: entry.accountStatus || 'active',
-            complianceReview: entry.complianceReview || 'N/A',
-            notes: entry.notes || ''
-          };
-        })
-      );
-      setAllEntries(entriesData);
+      // One document per day in the range, summed
+      const range = sumRollups(rollupsSnapshot.docs.map(doc => doc.data() as DayRollup));
+      const totalTransactions = range.totals.entries;
+      const totalProfit = range.totals.profitLoss;
 
       // Calculate agent stats
       const agentStatsData: AgentStats[] = await Promise.all(
-        agents.map(async (agent: any) => {
+        liveAgents.map(async (agent: any) => {
           const agentAccounts = accounts.filter((acc: any) => acc.agentId === agent.id);
           const assignedPlayerUids = [...new Set(agentAccounts.map(acc => acc.assignedToPlayerUid).filter(Boolean))];
 
-          const agentEntries = entries.filter(entry =>
-            agentAccounts.some(acc => acc.id === entry.accountId)
-          );
-          const agentProfit = agentEntries.reduce((sum, entry) => sum + (entry.profitLoss || 0), 0);
-
           return {
             id: agent.id,
             name: agent.name,
             accountCount: agentAccounts.length,
             playerCount: assignedPlayerUids.length,
-            totalProfit: agentProfit,
+            totalProfit: range.agents[agent.id]?.profitLoss || 0,
             commissionPercentage: (agent as any).commissionPercentage || 0,
             flatCommission: (agent as any).flatCommission || 0
           };
@@ -602,23 +214,28 @@ export default function Dashboard() {
 
       // Calculate player stats
       const playerStatsData: PlayerStats[] = await Promise.all(
-        players.map(async (player: any) => {
+        livePlayers.map(async (player: any) => {
           const playerAccounts = accounts.filter((acc: any) => acc.assignedToPlayerUid === player.uid);
-          const playerEntries = entries.filter((entry: any) => entry.playerUid === player.uid);
-          const playerProfit = playerEntries.reduce((sum, entry) => sum + (entry.profitLoss || 0), 0);
+          const playerTotals = range.clickers[player.uid] || emptyRollupTotals();
           const pct = typeof player.percentage === 'number' ? player.percentage : 0;
-          const totalClickerCommission = playerEntries.reduce((sum, entry) => {
-            if (typeof entry.clickerAmount === 'number') {
-              return sum + (entry.clickerAmount || 0);
-            }
-            // Fallback: compute using account-level percentage if present else player's percentage; apply on net-after-tax
-            const acc = accounts.find((a: any) => a.id === entry.accountId);
-            const accPct = typeof acc?.playerPercentage === 'number' && acc.playerPercentage > 0 ? acc.playerPercentage : undefined;
-            const usedPct = typeof accPct === 'number' ? accPct : pct;
-            const taxAmount = (entry.taxableAmount || 0);
-            const netAfterTax = (entry.profitLoss || 0) - taxAmount;
-            const computed = netAfterTax * ((usedPct || 30) / 100);
-            return sum + computed;
+
+          // Fallback: recompute with the shared commission engine for
+          // entries saved without a clickerAmount
+          const unsplitEntries = await Promise.all(
+            (playerTotals.unsplitEntryIds || []).map(async (id) => (await getDoc(doc(db, 'entries', id))).data())
+          );
+          const unsplitCommission = unsplitEntries.reduce((sum: number, entry) => {
+            const acc = entry && accounts.find((a: any) => a.id === entry.accountId);
+            if (!acc) return sum;
+            const agent = agents.find((a: any) => a.id === acc.agentId) || null;
+            const broker = brokers.find((b: any) => b.id === acc.brokerId) || null;
+            const roles = {
+              brokeredBy: brokers.find(b => b.id === acc.brokeredById) || null,
+              fundedBy: brokers.find(b => b.id === acc.fundedById) || null,
+              referredBy: brokers.find(b => b.id === acc.referredById) || null
+            };
+            const splits = computeSplits(entry, acc, agent, broker, { taxRate, clickerPercentage: pct, clickerTerms: player.termsHistory }, roles);
+            return sum + splits.clickerAmount;
           }, 0);
 
           return {
@@ -626,10 +243,10 @@ export default function Dashboard() {
             name: player.name,
             email: player.email,
             accountCount: playerAccounts.length,
-            totalProfit: playerProfit,
-            totalEntries: playerEntries.length,
+            totalProfit: playerTotals.profitLoss,
+            totalEntries: playerTotals.entries,
             percentage: pct,
-            totalClickerCommission
+            totalClickerCommission: playerTotals.clickerAmount + unsplitCommission
           };
         })
       );
@@ -646,18 +263,15 @@ export default function Dashboard() {
             assignedToPlayerName = player?.name || 'Unknown Player';
           }
 
-          const accountEntries = entries.filter((entry: any) => entry.accountId === account.id);
-          const accountProfit = accountEntries.reduce((sum, entry) => sum + (entry.profitLoss || 0), 0);
-
           return {
             id: account.id,
             name: account.type === 'pph' ? account.username : account.name,
             type: account.type || 'pph',
-            status: account.status || 'active',
+            status: accountStatus(account),
             agentName,
             assignedToPlayerName,
-            totalProfit: accountProfit,
-            totalEntries: accountEntries.length
+            totalProfit: range.accounts[account.id]?.profitLoss || 0,
+            totalEntries: range.accounts[account.id]?.entries || 0
           };
         })
       );
@@ -684,6 +298,94 @@ export default function Dashboard() {
     }
   };
 
+  // The overview export lists every entry in the range, so it reads them when
+  // asked rather than with every change to the dashboard
+  const fetchExportEntries = async (): Promise<EntryData[]> => {
+    const [agents, brokers, players] = await Promise.all([loadAgents(), loadBrokers(), loadClickers()]);
+    const [accountsSnapshot, entriesSnapshot, settlementsSnapshot] = await Promise.all([
+      getDocs(collection(db, 'accounts')),
+      getDocs(query(
+        collection(db, 'entries'),
+        where('date', '>=', format(startDate, 'yyyy-MM-dd')),
+        where('date', '<=', format(endDate, 'yyyy-MM-dd')),
+        orderBy('date', 'desc')
+      )),
+      getDocs(collection(db, 'settlements'))
+    ]);
+    const accounts = accountsSnapshot.docs.filter(notDeleted).map(doc => ({ id: doc.id, ...(doc.data() as any) })) as any[];
+    const settlements = settlementsSnapshot.docs.map(doc => doc.data() as Settlement);
+    const payeeName = (partyType: SettlementPartyType, partyId: string) =>
+      (partyType === 'clicker'
+        ? players.find(p => p.uid === partyId)?.name
+        : (partyType === 'accHolder' ? agents : brokers).find(p => p.id === partyId)?.name) || '';
+
+    return entriesSnapshot.docs.filter(notDeleted).map((snapshot) => {
+      const entry = { id: snapshot.id, ...(snapshot.data() as any) };
+      const account = accounts.find((acc: any) => acc.id === entry.accountId);
+      const player = players.find((p: any) => p.uid === entry.playerUid);
+      let accHolderName = 'Unknown Account Holder';
+      let brokerName = '';
+      let fundedByName = '';
+      let referredByName = '';
+      if (account) {
+        const agent = agents.find((a: any) => a.id === account.agentId);
+        accHolderName = agent?.name || accHolderName;
+        const brokeredById = account.brokeredById || account.brokerId;
+        if (brokeredById) {
+          const broker = brokers.find((b: any) => b.id === brokeredById);
+          brokerName = broker?.name || '';
+        }
+        if (account.fundedById) {
+          const funder = brokers.find((b: any) => b.id === account.fundedById);
+          fundedByName = funder?.name || '';
+        }
+        if (account.referredById) {
+          const ref = brokers.find((b: any) => b.id === account.referredById);
+          referredByName = ref?.name || '';
+        }
+      }
+
+      return {
+        id: entry.id,
+        date: entry.date,
+        accountId: entry.accountId,
+        accountName: account ? (account.type === 'pph' ? account.username : account.name) : 'Unknown Account',
+        accountType: account?.type || 'pph',
+        accHolderName,
+        accNumber: account ? accountNumber(account) : '',
+        startDate: account ? accountStartDate(account) : '',
+        brokerName,
+        fundedByName,
+        referredByName,
+        promoAmount: account?.promoAmount || 0,
+        playerName: player?.name || 'Unknown Player',
+        playerUid: entry.playerUid,
+        withdrawalSubmitted: entry.withdrawalSubmitted || '',
+        startingBalance: entry.startingBalance || 0,
+        endingBalance: entry.endingBalance || 0,
+        refillAmount: entry.refillAmount || 0,
+        refills: entry.refills || [],
+        withdrawal: entry.withdrawal || 0,
+        profitLoss: entry.profitLoss || 0,
+        clickerAmount: entry.clickerAmount || 0,
+        accHolderAmount: entry.accHolderAmount || 0,
+        accHolderPromo150: entry.accHolderPromo150 || 0,
+        companyAmount: entry.companyAmount || 0,
+        companyFunded: entry.companyFunded || 0,
+        taxableAmount: entry.taxableAmount || 0,
+        referralAmount: entry.referralAmount || 0,
+        brokerAmount: entry.brokerAmount || 0,
+        funderWayAmount: entry.funderWayAmount || 0,
+        initialsReturnedOut: entry.initialsReturnedOut || '',
+        payments: entryPayments(entry, account, settlements, payeeName),
+        totalOwed: entryObligations(entry, account).reduce((sum, o) => sum + o.amount, 0),
+        accountStatus: entry.accountStatus || 'active',
+        complianceReview: entry.complianceReview || 'N/A',
+        notes: entry.notes || ''
+      };
+    });
+  };
+
   const getDateRange = () => {
     const now = new Date();
     switch (dateFilter) {
@@ -703,6 +405,23 @@ export default function Dashboard() {
     }
   };
 
+  // Accounts, clickers and the selected range's day rollups are followed
+  // live; the rest only feeds names and terms into the numbers
+  const { startDate, endDate } = getDateRange();
+  const updatedAt = useLiveQueries(
+    `dashboard:${dateFilter}:${customDateRange.startDate}:${customDateRange.endDate}`,
+    [
+      collection(db, 'accounts'),
+      query(collection(db, 'users'), where('role', '==', 'player')),
+      query(
+        collection(db, 'rollups'),
+        where('date', '>=', format(startDate, 'yyyy-MM-dd')),
+        where('date', '<=', format(endDate, 'yyyy-MM-dd'))
+      )
+    ],
+    ([accountsSnapshot, playersSnapshot, rollupsSnapshot]) => fetchStats(accountsSnapshot, playersSnapshot, rollupsSnapshot)
+  );
+
   const getFilteredStats = () => {
     switch (overviewFilter) {
       case 'active':
@@ -719,10 +438,10 @@ export default function Dashboard() {
         return {
           accounts: stats.inactiveAccounts,
           agents: agentStats.filter(agent =>
-            accountStats.some(acc => acc.agentName === agent.name && acc.status === 'inactive')
+            accountStats.some(acc => acc.agentName === agent.name && STOPPED_STATUSES.includes(acc.status))
           ).length,
           players: playerStats.filter(player =>
-            accountStats.some(acc => acc.assignedToPlayerName === player.name && acc.status === 'inactive')
+            accountStats.some(acc => acc.assignedToPlayerName === player.name && STOPPED_STATUSES.includes(acc.status))
           ).length
         };
       default:
@@ -734,7 +453,7 @@ export default function Dashboard() {
     }
   };
 
-  const exportToExcel = () => {
+  const exportToExcel = async () => {
     // Prepare data based on current view mode
     let dataToExport: any[] = [];
     let fileName = '';
@@ -742,61 +461,18 @@ export default function Dashboard() {
     switch (viewMode) {
       case 'overview':
         // Export with the exact format/columns of the provided TXT file
-        dataToExport = allEntries.map((entry, idx) => {
-          const endDate = entry.date || '';
-          const startDate = '';
-          const netProfit = (entry.profitLoss || 0) - (entry.taxableAmount || 0);
-          return {
-            'Sr No': idx + 1,
-            'Acc holder name': entry.accHolderName || '',
-            'Number': entry.accNumber || '',
-            'Funded By': entry.fundedByName || '',
-            'Brokered By': entry.brokerName || '',
-            'Referred By': entry.referredByName || '',
-            'Start date': startDate,
-            'End Date': endDate,
-            'Withdrawal submitted': '',
-            'Starting balance': entry.startingBalance || 0,
-            'Refill By 1': '',
-            'Refill $': entry.refillAmount || 0,
-            'Refill By 2': '',
-            'Refill $ ': '',
-            'Refill By 2 ': '',
-            'Refill $  ': '',
-            'Promo $': entry.promoAmount || 0,
-            'Accs Holder existing balance': entry.startingBalance || 0,
-            'Ending Balance': entry.endingBalance || 0,
-            'Gross Profit': entry.profitLoss || 0,
-            '30% tax': entry.taxableAmount || 0,
-            'JACK': entry.companyAmount || 0,
-            'Net Profit': netProfit,
-            'Settled $': '',
-            'Settled Date': endDate,
-            'Company Way': entry.companyAmount || 0,
-            'Clicker Name': entry.playerName || '',
-            'Clicker Way 50% Fix': entry.clickerAmount || 0,
-            'Accs Holder Way': entry.accHolderAmount || 0,
-            'Accs Holder promo $150': '',
-            'Referral Way': entry.referralAmount || 0,
-            'Broker Way': (entry as any).brokerAmount || 0,
-            'Funder Way': '',
-            'Company Funded': '',
-            'initials Returned Out ': '',
-            'Payment $': '',
-            'Payment Methods ': '',
-            'Payment $  ': '',
-            'Payment Methods  ': '',
-            'Payment $   ': '',
-            'Payment Methods   ': '',
-            'Payment $    ': '',
-            'Payment Methods    ': '',
-            'Date ': endDate,
-            'Total Recived': '',
-            'Total Paid': '',
-            'ALL clear': '',
-            'Notes , in between settlement ': entry.notes || ''
-          };
-        });
+        {
+          const exportEntries = await fetchExportEntries();
+          const overflowing = exportEntries.filter(overflowsPaymentSlots);
+          if (overflowing.length > 0) {
+            window.alert(
+              `${overflowing.length} entries have more than ${VJACK_PAYMENT_SLOTS.length} payments, which the sheet has no columns for ` +
+              `(first: ${overflowing[0].accHolderName} on ${overflowing[0].date}). Pick a date range without them; their payments are on the Settlements page.`
+            );
+            return;
+          }
+          dataToExport = exportEntries.map((entry, idx) => vjackRow(entry, idx));
+        }
         fileName = `VJACK_Export_${format(new Date(), 'yyyyMMdd_HHmmss')}`;
         break;
       case 'agents':
@@ -825,7 +501,7 @@ export default function Dashboard() {
         dataToExport = accountStats.map(account => ({
           'Account Name': account.name,
           'Account Type': account.type.toUpperCase(),
-          Status: account.status.toUpperCase(),
+          Status: ACCOUNT_STATUS_LABELS[account.status].toUpperCase(),
           'Agent Name': account.agentName,
           'Assigned Player': account.assignedToPlayerName || 'N/A',
           'Total Entries': account.totalEntries,
@@ -886,16 +562,25 @@ export default function Dashboard() {
             Admin Dashboard
           </h1>
           <p className="text-gray-400 mt-1">Monitor your business platform performance</p>
+          <div className="mt-2"><LiveIndicator updatedAt={updatedAt} /></div>
         </div>
 
         <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-4 sm:space-y-0 sm:space-x-4">
           <button
             onClick={() => setShowTaxModal(true)}
-            className="flex items-center space-x-2 bg-white/5 hover:bg-white/10 border border-purple-500/20 px-3 py-2 rounded-lg transition-colors"
+            disabled={!can('changeTaxRate')}
+            className="flex items-center space-x-2 bg-white/5 hover:bg-white/10 border border-purple-500/20 px-3 py-2 rounded-lg transition-colors disabled:cursor-default disabled:hover:bg-white/5"
           >
             <Settings className="w-5 h-5 text-gray-400" />
             <span className="text-sm text-white">Tax Rate: <span className="text-gray-400">{stats.taxRate}%</span></span>
           </button>
+          <button
+            onClick={() => setShowTaxHistory(true)}
+            className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+            title="Tax rate history"
+          >
+            <History className="w-5 h-5" />
+          </button>
           <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-4 sm:space-y-0 sm:space-x-4">
             <div className="flex items-center space-x-2">
               <Filter className="w-5 h-5 text-gray-400" />
@@ -1024,13 +709,14 @@ export default function Dashboard() {
           <span className="text-sm lg:text-base">Export to Excel</span>
         </button>
         {/* Import Button */}
-        <label className="flex items-center space-x-2 px-3 lg:px-4 py-2 rounded-lg transition-all duration-200 bg-green-500/10 text-green-400 hover:bg-green-500/20 hover:text-green-300 cursor-pointer">
-          <input type="file" accept=".txt,.tsv,.csv" className="hidden" onChange={handleImportFile} />
-          <Download className="w-4 h-4 lg:w-5 lg:h-5" />
-          <span className="text-sm lg:text-base">Import TSV</span>
-        </label>
-        {importStatus && (
-          <span className="text-xs text-gray-400">{isImporting ? importStatus : importStatus}</span>
+        {can('runImports') && (
+          <Link
+            to="/admin/import"
+            className="flex items-center space-x-2 px-3 lg:px-4 py-2 rounded-lg transition-all duration-200 bg-green-500/10 text-green-400 hover:bg-green-500/20 hover:text-green-300"
+          >
+            <Upload className="w-4 h-4 lg:w-5 lg:h-5" />
+            <span className="text-sm lg:text-base">Import Spreadsheet</span>
+          </Link>
         )}
       </div>
 
@@ -1273,7 +959,7 @@ export default function Dashboard() {
                 <div
                   key={account.id}
                   className={`rounded-lg p-4 border ${
-                    account.status === 'active'
+                    !STOPPED_STATUSES.includes(account.status)
                       ? 'bg-gradient-to-r from-green-500/10 to-emerald-500/10 border-green-500/20'
                       : 'bg-gradient-to-r from-red-500/10 to-pink-500/10 border-red-500/20'
                   }`}
@@ -1290,13 +976,7 @@ export default function Dashboard() {
                           }`}>
                             {account.type.toUpperCase()}
                           </span>
-                          <span className={`px-2 py-1 rounded-full text-xs ${
-                            account.status === 'active'
-                              ? 'bg-green-500/20 text-green-400'
-                              : 'bg-red-500/20 text-red-400'
-                          }`}>
-                            {account.status}
-                          </span>
+                          <AccountStatusBadge account={account} />
                         </div>
                       </div>
                       <p className="text-sm text-gray-400">Agent: {account.agentName}</p>
@@ -1323,6 +1003,10 @@ export default function Dashboard() {
           )}
         </div>
       )}
+
+      {showTaxHistory && (
+        <AuditHistory path="settings/taxRate" title="Tax Rate" onClose={() => setShowTaxHistory(false)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,461 @@
+import React, { useState } from 'react';
+import { collection, getDocs, getDoc, doc, writeBatch } from 'firebase/firestore';
+import { Link } from 'react-router-dom';
+import { db } from '../../firebase';
+import { auditedUpdate, auditedSet, recordAudit } from '../../lib/audit';
+import { isDeleted, notDeleted } from '../../lib/recycle';
+import { loadAgents, loadBrokers, loadClickers } from '../../lib/repository';
+import { fetchPeriodLocks, lockCovering } from '../../lib/workflow';
+import { assignAccount } from '../../lib/assignments';
+import { WithAccountStatus } from '../../lib/lifecycle';
+import { useAuth } from '../../contexts/AuthContext';
+import { Upload, ArrowLeft, ArrowRight, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import {
+  autoMapColumns,
+  ColumnMapping,
+  IMPORT_COLLECTION_LABELS,
+  IMPORT_FIELDS,
+  ImportCollection,
+  ImportDocRef,
+  ImportManifest,
+  ImportPlan,
+  ParsedSheet,
+  parseImportFile,
+  planImport,
+  PlannedDoc,
+  previousSnapshotId,
+  WRITE_BATCH_SIZE
+} from '../../lib/importer';
+import { Settlement } from '../../lib/settlements';
+import { accountNumber, accountStartDate } from '../../lib/vjack';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const dropdownArrowSvg = `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`;
+
+export default function Import() {
+  const { userData } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setWorking(true);
+    setStatus('Reading file...');
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.rows.length === 0) {
+        setStatus('No data rows found.');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(autoMapColumns(parsed.header));
+      setStatus('');
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setStatus('Could not read that file. Use CSV, TSV or XLSX.');
+    } finally {
+      setWorking(false);
+      e.target.value = '';
+    }
+  };
+
+  const buildPreview = async () => {
+    if (!sheet || !mapping) return;
+
+    setWorking(true);
+    setStatus('Checking existing records...');
+    try {
+      // Matching against a stale list would create duplicates, so skip the cache
+      const [agents, brokers, clickers, playersSnapshot, accountsSnapshot, entriesSnapshot, settlementsSnapshot] = await Promise.all([
+        loadAgents(true),
+        loadBrokers(true),
+        loadClickers(true),
+        getDocs(collection(db, 'players')),
+        getDocs(collection(db, 'accounts')),
+        getDocs(collection(db, 'entries')),
+        getDocs(collection(db, 'settlements'))
+      ]);
+
+      const nextPlan = planImport(
+        sheet,
+        mapping,
+        {
+          agents: agents.filter(a => !isDeleted(a)).map(a => ({ id: a.id, name: a.name || '' })),
+          brokers: brokers.filter(b => !isDeleted(b)).map(b => ({ id: b.id, name: b.name || '' })),
+          users: clickers.filter(c => !isDeleted(c)).map(c => ({ id: c.id, uid: c.uid, name: c.name || '', percentage: c.percentage })),
+          pendingPlayers: playersSnapshot.docs.filter(notDeleted).map(d => ({ id: d.id, name: d.data().name || '' })),
+          accounts: accountsSnapshot.docs.filter(notDeleted).map(d => ({
+            id: d.id,
+            agentId: d.data().agentId,
+            number: accountNumber(d.data()),
+            startDate: accountStartDate(d.data()),
+            assignedToPlayerUid: d.data().assignedToPlayerUid || null
+          })),
+          entries: entriesSnapshot.docs.filter(notDeleted).map(d => ({ id: d.id, accountId: d.data().accountId, date: d.data().date })),
+          settlements: settlementsSnapshot.docs.map(d => d.data() as Settlement)
+        },
+        (collectionName) => doc(collection(db, collectionName)).id
+      );
+      setPlan(nextPlan);
+      setStatus('');
+      setStep('preview');
+    } catch (error) {
+      console.error('Error building import preview:', error);
+      setStatus('Could not build the preview. See console for details.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const commitImport = async () => {
+    if (!plan || !userData) return;
+
+    // Entries in a closed period stay as they were reviewed
+    const locks = await fetchPeriodLocks();
+    const locked = plan.docs.filter(d => d.collection === 'entries' && lockCovering(d.data.date, locks));
+    if (locked.length > 0) {
+      const lock = lockCovering(locked[0].data.date, locks);
+      window.alert(
+        `${locked.length} entries in this file fall in the locked period ${lock?.from} to ${lock?.to}. Unlock it on the Review page or remove those rows.`
+      );
+      return;
+    }
+    if (!window.confirm(`Write ${plan.docs.length} documents to the database?`)) return;
+
+    setWorking(true);
+    try {
+      const batchRef = doc(collection(db, 'imports'));
+      const toRef = (planned: PlannedDoc): ImportDocRef => ({ collection: planned.collection, id: planned.id });
+
+      // Snapshot everything this run will merge over before touching it, so
+      // the manifest is complete even if the write fails part way through.
+      setStatus('Saving import manifest...');
+      const updates = plan.docs.filter(d => d.action === 'update');
+      const previous = await Promise.all(updates.map(d => getDoc(doc(db, d.collection, d.id))));
+      const modified = updates.filter((_, i) => previous[i].exists());
+      const manifest: ImportManifest = {
+        fileName,
+        rowCount: plan.rowCount,
+        created: plan.docs.filter(d => !modified.includes(d)).map(toRef),
+        modified: modified.map(toRef),
+        status: 'pending',
+        createdBy: userData.uid,
+        createdByName: userData.name || userData.email
+      };
+      await auditedSet(batchRef, { ...manifest, createdAt: new Date() });
+
+      const snapshots = previous.filter(snapshot => snapshot.exists());
+      const before = new Map(snapshots.map(snapshot => [snapshot.ref.path, snapshot.data()]));
+      for (let i = 0; i < snapshots.length; i += WRITE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        snapshots.slice(i, i + WRITE_BATCH_SIZE).forEach((snapshot, j) => {
+          const ref = manifest.modified[i + j];
+          batch.set(doc(batchRef, 'previous', previousSnapshotId(ref)), { ...ref, data: snapshot.data() });
+        });
+        await batch.commit();
+      }
+
+      for (let i = 0; i < plan.docs.length; i += WRITE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        plan.docs.slice(i, i + WRITE_BATCH_SIZE).forEach((planned) => {
+          const ref = doc(db, planned.collection, planned.id);
+          const data = { ...planned.data, importBatchId: batchRef.id };
+          if (planned.collection === 'users') {
+            batch.update(ref, data);
+          } else {
+            batch.set(ref, data, { merge: true });
+          }
+          recordAudit(batch, before.has(ref.path) ? 'update' : 'create', ref, before.get(ref.path), data);
+        });
+        await batch.commit();
+        setStatus(`Written ${Math.min(i + WRITE_BATCH_SIZE, plan.docs.length)} of ${plan.docs.length} documents...`);
+      }
+
+      await auditedUpdate(batchRef, { status: 'committed', updatedAt: new Date() });
+
+      // Clicker changes go through the assignment history one account at a
+      // time, after the accounts they point at exist
+      const failed: string[] = [];
+      for (const planned of plan.assignments) {
+        try {
+          const snapshot = await getDoc(doc(db, 'accounts', planned.accountId));
+          const account = { id: snapshot.id, ...(snapshot.data() as WithAccountStatus) };
+          if (account.assignedToPlayerUid === planned.playerUid) continue;
+          await assignAccount(account, planned.playerUid, planned.playerName, planned.date, `Imported from ${fileName}`, batchRef.id);
+        } catch (error) {
+          console.error('Error assigning imported account:', error);
+          failed.push(`${planned.accountLabel} (${error instanceof Error ? error.message : 'failed'})`);
+        }
+      }
+      setStatus(failed.length > 0 ? `Imported, but these accounts could not be given to their clicker: ${failed.join('; ')}` : '');
+      setStep('done');
+    } catch (error) {
+      console.error('Error committing import:', error);
+      setStatus('Import failed part way. It can be rolled back from the Imports page.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setPlan(null);
+    setStatus('');
+  };
+
+  const setFieldColumns = (key: keyof ColumnMapping, columns: string[]) => {
+    if (mapping) setMapping({ ...mapping, [key]: columns });
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(f => f.required && mapping[f.key].length === 0)
+    : [];
+
+  const sampleValue = (column?: string) => {
+    if (!sheet || !column) return '';
+    const i = sheet.header.indexOf(column);
+    return sheet.rows.find(row => row[i])?.[i] || '';
+  };
+
+  const summary = plan
+    ? (Object.keys(IMPORT_COLLECTION_LABELS) as ImportCollection[]).map(collectionName => {
+        const docs = plan.docs.filter(d => d.collection === collectionName);
+        return {
+          collectionName,
+          docs,
+          creates: docs.filter(d => d.action === 'create').length,
+          updates: docs.filter(d => d.action === 'update').length
+        };
+      }).filter(s => s.docs.length > 0)
+    : [];
+
+  const errorCount = plan?.issues.filter(i => i.severity === 'error').length || 0;
+  const warningCount = plan?.issues.filter(i => i.severity === 'warning').length || 0;
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+            Import Spreadsheet
+          </h1>
+          <p className="text-gray-400 mt-1">Upload, map columns, check the preview, then confirm</p>
+        </div>
+        <Link to="/admin/imports" className="text-cyan-400 hover:text-cyan-300 transition-colors">
+          Past Imports
+        </Link>
+      </div>
+
+      {/* Steps */}
+      <div className="flex flex-wrap gap-2">
+        {(['upload', 'map', 'preview', 'done'] as Step[]).map((s, i) => (
+          <span
+            key={s}
+            className={`px-4 py-2 rounded-lg text-sm ${
+              step === s ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white' : 'bg-white/5 text-gray-400'
+            }`}
+          >
+            {i + 1}. {s === 'upload' ? 'Upload' : s === 'map' ? 'Map Columns' : s === 'preview' ? 'Preview' : 'Done'}
+          </span>
+        ))}
+      </div>
+
+      {status && <p className="text-sm text-gray-400">{status}</p>}
+
+      {step === 'upload' && (
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-8 border border-purple-500/20 text-center">
+          <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-300 mb-6">Choose a CSV, TSV or XLSX file. The first row must be the header.</p>
+          <label className="inline-flex items-center space-x-2 px-6 py-3 rounded-lg bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white cursor-pointer">
+            <input type="file" accept=".csv,.tsv,.txt,.xlsx,.xls" className="hidden" onChange={handleFile} disabled={working} />
+            <Upload className="w-5 h-5" />
+            <span>{working ? 'Reading...' : 'Choose File'}</span>
+          </label>
+        </div>
+      )}
+
+      {step === 'map' && sheet && mapping && (
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20 space-y-6">
+          <p className="text-gray-300">
+            {fileName}: {sheet.rows.length} rows, {sheet.header.length} columns
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  {field.label}{field.required && <span className="text-red-400"> *</span>}
+                </label>
+                <select
+                  value={mapping[field.key][0] || ''}
+                  onChange={(e) => setFieldColumns(field.key, e.target.value ? [e.target.value] : [])}
+                  className="appearance-none w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 pr-10 bg-no-repeat bg-[length:20px_20px] bg-[position:right_10px_center]"
+                  style={{ backgroundImage: dropdownArrowSvg }}
+                >
+                  <option value="" className="bg-gray-800 text-white">Not in this file</option>
+                  {sheet.header.map(column => (
+                    <option key={column} value={column} className="bg-gray-800 text-white">{column}</option>
+                  ))}
+                </select>
+                {mapping[field.key][0] && (
+                  <p className="text-xs text-gray-500 mt-1">e.g. {sampleValue(mapping[field.key][0]) || '(empty)'}</p>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between">
+            <button onClick={reset} className="px-6 py-3 text-gray-400 hover:text-white transition-colors flex items-center space-x-2">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Start Over</span>
+            </button>
+            <button
+              onClick={buildPreview}
+              disabled={working || missingRequired.length > 0}
+              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <span>{working ? 'Checking...' : 'Preview Import'}</span>
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && plan && (
+        <div className="space-y-6">
+          <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+            <h2 className="text-xl font-bold text-white mb-2">Dry Run</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              {plan.rowCount} rows read, {plan.rowCount - plan.skippedRows} will be imported, {plan.skippedRows} skipped.
+              Nothing has been written yet.
+            </p>
+            <div className="space-y-2">
+              {summary.map(({ collectionName, docs, creates, updates }) => (
+                <div key={collectionName} className="bg-white/5 rounded-lg">
+                  <button
+                    onClick={() => setExpanded(expanded === collectionName ? null : collectionName)}
+                    className="w-full flex items-center justify-between p-3 text-left"
+                  >
+                    <span className="text-white">{IMPORT_COLLECTION_LABELS[collectionName]}</span>
+                    <span className="text-sm">
+                      <span className="text-green-400">{creates} new</span>
+                      <span className="text-gray-500"> · </span>
+                      <span className="text-yellow-400">{updates} updated</span>
+                    </span>
+                  </button>
+                  {expanded === collectionName && (
+                    <ul className="px-3 pb-3 max-h-64 overflow-y-auto text-sm space-y-1">
+                      {docs.map(d => (
+                        <li key={d.id} className="flex justify-between text-gray-400">
+                          <span>{d.label}</span>
+                          <span className={d.action === 'create' ? 'text-green-400' : 'text-yellow-400'}>
+                            {d.action === 'create' ? 'create' : 'update'} · row {d.rows.join(', ')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              {plan.assignments.length > 0 && (
+                <div className="bg-white/5 rounded-lg">
+                  <button
+                    onClick={() => setExpanded(expanded === 'assignments' ? null : 'assignments')}
+                    className="w-full flex items-center justify-between p-3 text-left"
+                  >
+                    <span className="text-white">Clicker Assignments</span>
+                    <span className="text-sm text-yellow-400">{plan.assignments.length} changed</span>
+                  </button>
+                  {expanded === 'assignments' && (
+                    <div className="px-3 pb-3 text-sm">
+                      <p className="text-gray-500 mb-2">
+                        Applied after the documents as handovers in each account's assignment history. Rolling the import back undoes them too.
+                      </p>
+                      <ul className="max-h-64 overflow-y-auto space-y-1">
+                        {plan.assignments.map(a => (
+                          <li key={`${a.accountId}-${a.playerUid}-${a.date}`} className="flex justify-between text-gray-400">
+                            <span>{a.accountLabel} → {a.playerName}</span>
+                            <span className="text-yellow-400">from {a.date} · row {a.rows.join(', ')}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+            <h2 className="text-xl font-bold text-white mb-4">
+              Validation Report
+              <span className="text-sm font-normal text-gray-400 ml-2">{errorCount} errors, {warningCount} warnings</span>
+            </h2>
+            {plan.issues.length === 0 ? (
+              <p className="text-green-400 flex items-center"><CheckCircle className="w-4 h-4 mr-2" />Every row passed.</p>
+            ) : (
+              <ul className="space-y-1 text-sm max-h-80 overflow-y-auto">
+                {plan.issues.map((issue, index) => (
+                  <li key={index} className="flex items-start space-x-2">
+                    {issue.severity === 'error'
+                      ? <XCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                      : <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />}
+                    <span className="text-gray-300">
+                      Row {issue.row}{issue.field ? ` · ${issue.field}` : ''}: {issue.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex justify-between">
+            <button onClick={() => setStep('map')} className="px-6 py-3 text-gray-400 hover:text-white transition-colors flex items-center space-x-2">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back to Mapping</span>
+            </button>
+            <button
+              onClick={commitImport}
+              disabled={working || plan.docs.length === 0}
+              className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-medium py-3 px-6 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {working ? 'Importing...' : `Confirm Import (${plan.docs.length} documents)`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && plan && (
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-8 border border-green-500/20 text-center">
+          <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-4" />
+          <p className="text-white text-lg mb-2">Import complete</p>
+          <p className="text-gray-400 mb-6">
+            {plan.docs.length} documents written from {plan.rowCount - plan.skippedRows} rows.
+          </p>
+          <button
+            onClick={reset}
+            className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg"
+          >
+            Import Another File
+          </button>
+          <p className="text-sm text-gray-500 mt-4">
+            Something wrong? This run can be undone from <Link to="/admin/imports" className="text-cyan-400 hover:text-cyan-300">Imports</Link>.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
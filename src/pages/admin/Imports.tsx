@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs, getDoc, doc, writeBatch } from 'firebase/firestore';
+import { Link } from 'react-router-dom';
+import { db } from '../../firebase';
+import { undoImportAssignments } from '../../lib/assignments';
+import { auditedUpdate, recordAudit } from '../../lib/audit';
+import { useAuth } from '../../contexts/AuthContext';
+import { FileSpreadsheet, Upload, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  IMPORT_COLLECTION_LABELS,
+  ImportCollection,
+  ImportDocRef,
+  ImportManifest,
+  previousSnapshotId,
+  WRITE_BATCH_SIZE
+} from '../../lib/importer';
+
+const STATUS_STYLES: Record<ImportManifest['status'], { label: string; className: string }> = {
+  pending: { label: 'Incomplete', className: 'bg-yellow-500/20 text-yellow-400' },
+  committed: { label: 'Imported', className: 'bg-green-500/20 text-green-400' },
+  rolledBack: { label: 'Rolled Back', className: 'bg-gray-500/20 text-gray-400' }
+};
+
+const countByCollection = (refs: ImportDocRef[]) =>
+  refs.reduce((counts, ref) => {
+    counts[ref.collection] = (counts[ref.collection] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<ImportCollection, number>>);
+
+export default function Imports() {
+  const { userData, can } = useAuth();
+  const [imports, setImports] = useState<ImportManifest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    fetchImports();
+  }, []);
+
+  const fetchImports = async () => {
+    try {
+      const snapshot = await getDocs(collection(db, 'imports'));
+      setImports(
+        (snapshot.docs.map(doc => ({
+          id: doc.id,
+          ...doc.data(),
+          createdAt: doc.data().createdAt?.toDate() || new Date(),
+          rolledBackAt: doc.data().rolledBackAt?.toDate()
+        })) as ImportManifest[])
+          .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      );
+    } catch (error) {
+      console.error('Error fetching imports:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRollback = async (manifest: ImportManifest) => {
+    if (!manifest.id || !userData) return;
+    const total = manifest.created.length + manifest.modified.length;
+    if (!window.confirm(
+      `Roll back "${manifest.fileName}"? ${manifest.created.length} documents will be deleted and ${manifest.modified.length} restored to how they were before the import.`
+    )) return;
+
+    setRollingBack(manifest.id);
+    try {
+      // A later import that wrote the same documents would lose its changes,
+      // so that one has to be undone first.
+      setStatus('Checking for later imports...');
+      const refs = [...manifest.created, ...manifest.modified];
+      const current = await Promise.all(refs.map(ref => getDoc(doc(db, ref.collection, ref.id))));
+      const overwritten = current.filter(snapshot =>
+        snapshot.exists() && snapshot.data().importBatchId && snapshot.data().importBatchId !== manifest.id
+      );
+      if (overwritten.length > 0) {
+        const laterBatches = new Set(overwritten.map(snapshot => snapshot.data()?.importBatchId));
+        const names = imports
+          .filter(i => i.id && laterBatches.has(i.id))
+          .map(i => i.fileName);
+        window.alert(
+          `${overwritten.length} of these documents were changed by a later import (${names.join(', ') || 'unknown'}). Roll that import back first.`
+        );
+        return;
+      }
+      const locked = current.filter(snapshot => snapshot.exists() && snapshot.data().periodLockId);
+      if (locked.length > 0) {
+        window.alert(
+          `${locked.length} of these documents are entries in a locked period. Unlock it on the Review page first.`
+        );
+        return;
+      }
+
+      // Assignment records come out before the accounts they point at are
+      // restored or removed
+      setStatus('Undoing clicker assignments...');
+      try {
+        await undoImportAssignments(manifest.id);
+      } catch (error) {
+        window.alert(error instanceof Error ? error.message : 'Could not undo the clicker assignments.');
+        return;
+      }
+
+      const previousSnapshot = await getDocs(collection(db, 'imports', manifest.id, 'previous'));
+      const previous = new Map(previousSnapshot.docs.map(d => [d.id, d.data().data]));
+      const before = new Map(current.map(snapshot => [snapshot.ref.path, snapshot.data()]));
+
+      const operations = [
+        ...manifest.created.map(ref => ({ ref, data: undefined })),
+        ...manifest.modified.map(ref => ({ ref, data: previous.get(previousSnapshotId(ref)) }))
+      ];
+      for (let i = 0; i < operations.length; i += WRITE_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        operations.slice(i, i + WRITE_BATCH_SIZE).forEach(({ ref, data }) => {
+          const target = doc(db, ref.collection, ref.id);
+          if (data) {
+            batch.set(target, data);
+            recordAudit(batch, 'update', target, before.get(target.path), data);
+          } else {
+            batch.delete(target);
+            recordAudit(batch, 'delete', target, before.get(target.path), null);
+          }
+        });
+        await batch.commit();
+        setStatus(`Rolled back ${Math.min(i + WRITE_BATCH_SIZE, total)} of ${total} documents...`);
+      }
+
+      await auditedUpdate(doc(db, 'imports', manifest.id), {
+        status: 'rolledBack',
+        rolledBackBy: userData.uid,
+        rolledBackByName: userData.name || userData.email,
+        rolledBackAt: new Date(),
+        updatedAt: new Date()
+      });
+      fetchImports();
+    } catch (error) {
+      console.error('Error rolling back import:', error);
+    } finally {
+      setRollingBack(null);
+      setStatus('');
+    }
+  };
+
+  const describeCounts = (refs: ImportDocRef[]) => {
+    const counts = countByCollection(refs);
+    return (Object.keys(IMPORT_COLLECTION_LABELS) as ImportCollection[])
+      .filter(c => counts[c])
+      .map(c => `${counts[c]} ${IMPORT_COLLECTION_LABELS[c]}`)
+      .join(', ') || 'none';
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+            Imports
+          </h1>
+          <p className="text-gray-400 mt-1">Every spreadsheet import, with what it created and changed</p>
+        </div>
+        {can('runImports') && (
+          <Link
+            to="/admin/import"
+            className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg flex items-center space-x-2"
+          >
+            <Upload className="w-5 h-5" />
+            <span>New Import</span>
+          </Link>
+        )}
+      </div>
+
+      {status && <p className="text-sm text-gray-400">{status}</p>}
+
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="text-gray-400">Loading imports...</div>
+          </div>
+        ) : imports.length === 0 ? (
+          <div className="text-center py-8">
+            <FileSpreadsheet className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-400">No imports yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {imports.map(manifest => {
+              const style = STATUS_STYLES[manifest.status] || STATUS_STYLES.committed;
+              return (
+                <div key={manifest.id} className="bg-white/5 rounded-lg p-4 border border-purple-500/10">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center space-x-3">
+                        <h3 className="text-lg font-semibold text-white">{manifest.fileName || 'Untitled import'}</h3>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${style.className}`}>{style.label}</span>
+                      </div>
+                      <p className="text-sm text-gray-400 mt-1">
+                        {manifest.createdAt ? format(manifest.createdAt, 'yyyy-MM-dd HH:mm') : ''} · {manifest.rowCount} rows · by {manifest.createdByName || manifest.createdBy}
+                      </p>
+                      <p className="text-sm text-gray-300 mt-2">Created: {describeCounts(manifest.created)}</p>
+                      <p className="text-sm text-gray-300">Modified: {describeCounts(manifest.modified)}</p>
+                      {manifest.status === 'rolledBack' && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          Rolled back {manifest.rolledBackAt ? format(manifest.rolledBackAt, 'yyyy-MM-dd HH:mm') : ''} by {manifest.rolledBackByName || manifest.rolledBackBy}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">Batch {manifest.id}</p>
+                    </div>
+                    {manifest.status !== 'rolledBack' && can('runImports') && (
+                      <button
+                        onClick={() => handleRollback(manifest)}
+                        disabled={rollingBack !== null}
+                        className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 hover:text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        <span>{rollingBack === manifest.id ? 'Rolling Back...' : 'Roll Back'}</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { collection, getDocs, query, where, doc, updateDoc, deleteDoc } from 'firebase/firestore';
-import { doc as firestoreDoc, setDoc, addDoc } from 'firebase/firestore';
+import { collection, getDocs, query, doc } from 'firebase/firestore';
 import { db } from '../../firebase';
-import { Plus, UserPlus, Trash2, Edit, Save, X, Search, ChevronDown, ChevronUp, UserCheck, UserX } from 'lucide-react';
+import { auditedAdd, auditedUpdate, auditedDelete } from '../../lib/audit';
+import { confirmDelete, isDeleted, moveToRecycleBin, notDeleted, planDelete } from '../../lib/recycle';
+import { loadClickers } from '../../lib/repository';
+import { Plus, UserPlus, Trash2, Edit, Save, X, Search, ChevronDown, ChevronUp, UserCheck, UserX, Link2, History } from 'lucide-react';
+import AuditHistory from '../../components/AuditHistory';
 import { createUserWithEmailAndPassword } from 'firebase/auth';
+import { format } from 'date-fns';
+import { appendTermsVersion, CLICKER_TERM_FIELDS, termsAsOf, TermsVersion } from '../../lib/terms';
+import TermsHistory from '../../components/TermsHistory';
+import { useAuth } from '../../contexts/AuthContext';
+import { INVITE_TTL_DAYS, inviteLink, issueInvite } from '../../lib/invites';
 
 interface Player {
   id: string;
@@ -13,7 +21,9 @@ interface Player {
   role: string;
   createdAt: Date;
   status?: string; // For inactive players
+  inviteExpiresAt?: Date;
   percentage?: number; // Player's winning percentage
+  termsHistory?: TermsVersion[];
 }
 
 export default function Players() {
@@ -24,17 +34,22 @@ export default function Players() {
   const [searchTerm, setSearchTerm] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [editingPlayer, setEditingPlayer] = useState<Player | null>(null);
+  const [historyFor, setHistoryFor] = useState<{ path: string; title: string } | null>(null);
+  const { userData, can } = useAuth();
   const [newPlayer, setNewPlayer] = useState({
     email: '',
-    password: '',
     name: '',
     percentage: ''
   });
+  // The invite code is only ever shown here, right after it is issued
+  const [issuedInvite, setIssuedInvite] = useState<{ name: string; link: string; expiresAt: Date } | null>(null);
+  const [issuingInviteFor, setIssuingInviteFor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [activePlayersExpanded, setActivePlayersExpanded] = useState(true);
   const [inactivePlayersExpanded, setInactivePlayersExpanded] = useState(true);
   // Add local state for editing percentage input
   const [editingPercentage, setEditingPercentage] = useState<string>('');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
 
   useEffect(() => {
     fetchPlayers();
@@ -60,22 +75,20 @@ export default function Players() {
       setLoading(true);
       
       // Fetch active players (from users collection)
-      const activeQuery = query(collection(db, 'users'), where('role', '==', 'player'));
-      const activeSnapshot = await getDocs(activeQuery);
-      const activeData = activeSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date()
+      const activeData = (await loadClickers()).filter(clicker => !isDeleted(clicker)).map(clicker => ({
+        ...clicker,
+        createdAt: clicker.createdAt?.toDate() || new Date()
       })) as Player[];
       setActivePlayers(activeData);
 
       // Fetch inactive players (from players collection)
       const inactiveQuery = query(collection(db, 'players'));
       const inactiveSnapshot = await getDocs(inactiveQuery);
-      const inactiveData = inactiveSnapshot.docs.map(doc => ({
+      const inactiveData = inactiveSnapshot.docs.filter(notDeleted).map(doc => ({
         id: doc.id,
         ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date()
+        createdAt: doc.data().createdAt?.toDate() || new Date(),
+        inviteExpiresAt: doc.data().inviteExpiresAt?.toDate()
       })) as Player[];
       setInactivePlayers(inactiveData);
     } catch (error) {
@@ -87,21 +100,22 @@ export default function Players() {
 
   const handleAddPlayer = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newPlayer.email || !newPlayer.password || !newPlayer.name) return;
+    if (!newPlayer.email || !newPlayer.name) return;
 
     try {
-      // Create player in the players collection (inactive)
-      await addDoc(collection(db, 'players'), {
-        email: newPlayer.email,
-        password: newPlayer.password, // Note: In production, this should be hashed
-        name: newPlayer.name,
+      // Create player in the players collection (inactive); they set their
+      // own password from the invite link
+      const playerRef = await auditedAdd(collection(db, 'players'), {
+        email: newPlayer.email.trim(),
+        name: newPlayer.name.trim(),
         role: 'player',
         status: 'pending',
         createdAt: new Date(),
         percentage: Number(newPlayer.percentage) || 0
       });
+      await handleIssueInvite({ id: playerRef.id, name: newPlayer.name.trim(), email: newPlayer.email.trim() });
       
-      setNewPlayer({ email: '', password: '', name: '', percentage: '' });
+      setNewPlayer({ email: '', name: '', percentage: '' });
       setShowModal(false);
       fetchPlayers();
     } catch (error) {
@@ -109,6 +123,20 @@ export default function Players() {
     }
   };
 
+  const handleIssueInvite = async (player: { id: string; name: string; email: string }) => {
+    if (!userData) return;
+    setIssuingInviteFor(player.id);
+    try {
+      const { code, expiresAt } = await issueInvite(player, userData.uid);
+      setIssuedInvite({ name: player.name, link: inviteLink(code), expiresAt });
+      fetchPlayers();
+    } catch (error) {
+      console.error('Error issuing invite:', error);
+    } finally {
+      setIssuingInviteFor(null);
+    }
+  };
+
   const handleEditPlayer = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingPlayer || !editingPlayer.name.trim()) return;
@@ -116,12 +144,24 @@ export default function Players() {
     try {
       // Determine which collection to update based on player status
       const collectionName = editingPlayer.status ? 'players' : 'users';
-      await updateDoc(doc(db, collectionName, editingPlayer.id), {
-        name: editingPlayer.name.trim(),
-        email: editingPlayer.email.trim(),
-        percentage: editingPlayer.percentage === undefined ? 0 : editingPlayer.percentage,
-        updatedAt: new Date()
-      });
+      const percentage = editingPlayer.percentage === undefined ? 0 : editingPlayer.percentage;
+      if (collectionName === 'users') {
+        // Active clickers have entries, so keep their percentage history dated
+        const original = activePlayers.find(p => p.id === editingPlayer.id) || editingPlayer;
+        const termsHistory = appendTermsVersion(original, { percentage }, CLICKER_TERM_FIELDS, effectiveFrom);
+        const current = termsAsOf({ ...original, termsHistory }, format(new Date(), 'yyyy-MM-dd'));
+        await auditedUpdate(doc(db, collectionName, editingPlayer.id), {
+          ...(can('manageClickers') && { name: editingPlayer.name.trim(), email: editingPlayer.email.trim() }),
+          ...(can('editTerms') && { percentage: current.percentage ?? 0, termsHistory }),
+          updatedAt: new Date()
+        });
+      } else {
+        await auditedUpdate(doc(db, collectionName, editingPlayer.id), {
+          ...(can('manageClickers') && { name: editingPlayer.name.trim(), email: editingPlayer.email.trim() }),
+          ...(can('editTerms') && { percentage }),
+          updatedAt: new Date()
+        });
+      }
       setEditingPlayer(null);
       fetchPlayers();
     } catch (error) {
@@ -130,15 +170,15 @@ export default function Players() {
   };
 
   const handleDeletePlayer = async (playerId: string, isActive: boolean) => {
-    if (window.confirm('Are you sure you want to delete this player? This action cannot be undone.')) {
-      try {
-        // Delete from appropriate collection
-        const collectionName = isActive ? 'users' : 'players';
-        await deleteDoc(doc(db, collectionName, playerId));
-        fetchPlayers();
-      } catch (error) {
-        console.error('Error deleting player:', error);
-      }
+    try {
+      // Delete from appropriate collection
+      const collectionName = isActive ? 'users' : 'players';
+      const plan = await planDelete(doc(db, collectionName, playerId));
+      if (!confirmDelete(plan, 'this player')) return;
+      await moveToRecycleBin(plan);
+      fetchPlayers();
+    } catch (error) {
+      console.error('Error deleting player:', error);
     }
   };
 
@@ -149,7 +189,7 @@ export default function Players() {
         if (!playerToActivate) return;
 
         // Create user in users collection (active)
-        await addDoc(collection(db, 'users'), {
+        await auditedAdd(collection(db, 'users'), {
           email: playerToActivate.email,
           name: playerToActivate.name,
           role: 'player',
@@ -157,7 +197,7 @@ export default function Players() {
         });
         
         // Remove from inactive players
-        await deleteDoc(doc(db, 'players', playerId));
+        await auditedDelete(doc(db, 'players', playerId));
         
         fetchPlayers();
       } catch (error) {
@@ -177,13 +217,15 @@ export default function Players() {
           <p className="text-gray-400 mt-1">Manage active and inactive clicker accounts</p>
         </div>
         
-        <button
-          onClick={() => setShowModal(true)}
-          className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
-        >
-          <Plus className="w-5 h-5" />
-          <span>Add New Clicker</span>
-        </button>
+        {can('manageClickers') && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 flex items-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add New Clicker</span>
+          </button>
+        )}
       </div>
 
       {/* Search Bar */}
@@ -248,7 +290,8 @@ export default function Players() {
                           type="text"
                           value={editingPlayer.name}
                           onChange={(e) => setEditingPlayer({ ...editingPlayer, name: e.target.value })}
-                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-lg font-semibold"
+                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-lg font-semibold disabled:opacity-50"
+                          disabled={!can('manageClickers')}
                           placeholder="Player Name"
                           required
                         />
@@ -256,7 +299,8 @@ export default function Players() {
                           type="email"
                           value={editingPlayer.email}
                           onChange={(e) => setEditingPlayer({ ...editingPlayer, email: e.target.value })}
-                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white"
+                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                          disabled={!can('manageClickers')}
                           placeholder="Email Address"
                           required
                         />
@@ -268,12 +312,24 @@ export default function Players() {
                             value={editingPercentage}
                             onChange={(e) => setEditingPercentage(e.target.value)}
                             onBlur={() => setEditingPlayer(editingPlayer ? { ...editingPlayer, percentage: editingPercentage === '' ? undefined : Number(editingPercentage) } : null)}
-                            className="w-full px-3 py-2 pr-8 bg-white/5 border border-purple-500/20 rounded-lg text-white"
+                            className="w-full px-3 py-2 pr-8 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                            disabled={!can('editTerms')}
                             placeholder="Percentage (%)"
                             required
                           />
                           <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400">%</span>
                         </div>
+                        <div>
+                          <label className="block text-sm text-gray-400 mb-1">Percentage Effective From</label>
+                          <input
+                            type="date"
+                            value={effectiveFrom}
+                            onChange={(e) => setEffectiveFrom(e.target.value)}
+                            className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                            disabled={!can('editTerms')}
+                            required
+                          />
+                        </div>
                         <div className="flex space-x-2">
                           <button
                             type="submit"
@@ -304,17 +360,28 @@ export default function Players() {
                           </div>
                           <div className="flex items-center space-x-2">
                             <button
-                              onClick={() => { setEditingPlayer(player); setEditingPercentage(player.percentage !== undefined ? String(player.percentage) : ''); }}
+                              onClick={() => setHistoryFor({ path: `users/${player.id}`, title: player.name })}
                               className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                              title="History"
                             >
-                              <Edit className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDeletePlayer(player.id, true)}
-                              className="p-2 text-gray-400 hover:text-red-400 transition-colors"
-                            >
-                              <Trash2 className="w-4 h-4" />
+                              <History className="w-4 h-4" />
                             </button>
+                            {(can('manageClickers') || can('editTerms')) && (
+                              <button
+                                onClick={() => { setEditingPlayer(player); setEditingPercentage(player.percentage !== undefined ? String(player.percentage) : ''); setEffectiveFrom(format(new Date(), 'yyyy-MM-dd')); }}
+                                className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                            )}
+                            {can('manageClickers') && (
+                              <button
+                                onClick={() => handleDeletePlayer(player.id, true)}
+                                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
                           </div>
                         </div>
                         
@@ -328,7 +395,25 @@ export default function Players() {
                           <div className="text-gray-400">
                             Commission: {typeof player.percentage === 'number' ? player.percentage : 0}%
                           </div>
+                          <div className="text-gray-400">
+                            Invite: {!player.inviteExpiresAt
+                              ? <span className="text-gray-500">not sent</span>
+                              : player.inviteExpiresAt < new Date()
+                                ? <span className="text-red-400">expired {player.inviteExpiresAt.toLocaleDateString()}</span>
+                                : <span className="text-cyan-400">expires {player.inviteExpiresAt.toLocaleDateString()}</span>}
+                          </div>
                         </div>
+                        {can('manageClickers') && (
+                          <button
+                            onClick={() => handleIssueInvite(player)}
+                            disabled={issuingInviteFor === player.id}
+                            className="mt-4 w-full flex items-center justify-center space-x-2 bg-white/5 hover:bg-white/10 border border-purple-500/20 text-white py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            <Link2 className="w-4 h-4" />
+                            <span>{issuingInviteFor === player.id ? 'Creating...' : player.inviteExpiresAt ? 'New Invite Link' : 'Create Invite Link'}</span>
+                          </button>
+                        )}
+                        <TermsHistory history={player.termsHistory} describe={(v) => `${v.percentage ?? 0}%`} />
                       </>
                     )}
                   </div>
@@ -387,7 +472,8 @@ export default function Players() {
                           type="text"
                           value={editingPlayer.name}
                           onChange={(e) => setEditingPlayer({ ...editingPlayer, name: e.target.value })}
-                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-lg font-semibold"
+                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white text-lg font-semibold disabled:opacity-50"
+                          disabled={!can('manageClickers')}
                           placeholder="Player Name"
                           required
                         />
@@ -395,7 +481,8 @@ export default function Players() {
                           type="email"
                           value={editingPlayer.email}
                           onChange={(e) => setEditingPlayer({ ...editingPlayer, email: e.target.value })}
-                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white"
+                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                          disabled={!can('manageClickers')}
                           placeholder="Email Address"
                           required
                         />
@@ -405,7 +492,8 @@ export default function Players() {
                           max="100"
                           value={editingPlayer?.percentage ?? 0}
                           onChange={(e) => setEditingPlayer(editingPlayer ? { ...editingPlayer, percentage: Number(e.target.value) } : null)}
-                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white"
+                          className="w-full px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white disabled:opacity-50"
+                          disabled={!can('editTerms')}
                           placeholder="Percentage (%)"
                           required
                         />
@@ -439,17 +527,28 @@ export default function Players() {
                           </div>
                           <div className="flex items-center space-x-2">
                             <button
-                              onClick={() => setEditingPlayer(player)}
+                              onClick={() => setHistoryFor({ path: `players/${player.id}`, title: player.name })}
                               className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                              title="History"
                             >
-                              <Edit className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDeletePlayer(player.id, false)}
-                              className="p-2 text-gray-400 hover:text-red-400 transition-colors"
-                            >
-                              <Trash2 className="w-4 h-4" />
+                              <History className="w-4 h-4" />
                             </button>
+                            {(can('manageClickers') || can('editTerms')) && (
+                              <button
+                                onClick={() => setEditingPlayer(player)}
+                                className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                            )}
+                            {can('manageClickers') && (
+                              <button
+                                onClick={() => handleDeletePlayer(player.id, false)}
+                                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
                           </div>
                         </div>
                         
@@ -508,19 +607,6 @@ export default function Players() {
                   required
                 />
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Password
-                </label>
-                <input
-                  type="password"
-                  value={newPlayer.password}
-                  onChange={(e) => setNewPlayer({ ...newPlayer, password: e.target.value })}
-                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-400"
-                  placeholder="Enter password"
-                  required
-                />
-              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   Percentage (%)
@@ -551,10 +637,50 @@ export default function Players() {
                   Add Clicker
                 </button>
               </div>
+              <p className="text-xs text-gray-500">
+                An invite link is created for the clicker to set their own password. It works once and expires in {INVITE_TTL_DAYS} days.
+              </p>
             </form>
           </div>
         </div>
       )}
+
+      {/* Issued Invite Modal */}
+      {issuedInvite && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-md">
+            <h2 className="text-2xl font-bold text-white mb-2">Invite Link for {issuedInvite.name}</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Send this link to the clicker. It works once, expires {issuedInvite.expiresAt.toLocaleDateString()}, and will not be shown again.
+            </p>
+            <input
+              type="text"
+              readOnly
+              value={issuedInvite.link}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white text-sm font-mono"
+            />
+            <div className="flex justify-end space-x-4 mt-6">
+              <button
+                onClick={() => navigator.clipboard.writeText(issuedInvite.link)}
+                className="px-6 py-3 text-cyan-400 hover:text-cyan-300 transition-colors"
+              >
+                Copy Link
+              </button>
+              <button
+                onClick={() => setIssuedInvite(null)}
+                className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {historyFor && (
+        <AuditHistory path={historyFor.path} title={historyFor.title} onClose={() => setHistoryFor(null)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs, query, where, doc, DocumentData, DocumentReference } from 'firebase/firestore';
+import { db } from '../../firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Trash2, RotateCcw, XCircle } from 'lucide-react';
+import { Permission } from '../../lib/permissions';
+import { accountNumber } from '../../lib/vjack';
+import { loadUsers } from '../../lib/repository';
+import {
+  describeCounts,
+  purgeFromRecycleBin,
+  RECYCLE_LABELS,
+  RecyclableCollection,
+  restoreFromRecycleBin
+} from '../../lib/recycle';
+
+interface DeletedItem {
+  ref: DocumentReference;
+  collection: RecyclableCollection;
+  data: DocumentData;
+  deletedAt: Date;
+  // What went to the bin along with it
+  dependents: DocumentReference[];
+}
+
+// Restoring needs the same permission as deleting did
+const RESTORE_PERMISSIONS: Record<RecyclableCollection, Permission> = {
+  agents: 'manageAccounts',
+  brokers: 'manageAccounts',
+  accounts: 'manageAccounts',
+  users: 'manageClickers',
+  players: 'manageClickers',
+  entries: 'manageAccounts'
+};
+
+const COLLECTIONS = Object.keys(RECYCLE_LABELS) as RecyclableCollection[];
+
+const itemName = (item: DeletedItem) => {
+  switch (item.collection) {
+    case 'accounts':
+      return accountNumber(item.data) || item.ref.id;
+    case 'entries':
+      return `${item.data.date || ''} entry`;
+    default:
+      return item.data.name || item.data.email || item.ref.id;
+  }
+};
+
+export default function RecycleBin() {
+  const { can } = useAuth();
+  const [items, setItems] = useState<DeletedItem[]>([]);
+  const [deletedIds, setDeletedIds] = useState<Set<string>>(new Set());
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchItems();
+    fetchUserNames();
+  }, []);
+
+  const fetchItems = async () => {
+    try {
+      const snapshots = await Promise.all(
+        COLLECTIONS.map((name) => getDocs(query(collection(db, name), where('deletedAt', '!=', null))))
+      );
+      const deleted = snapshots.flatMap((snapshot) => snapshot.docs);
+      const dependents = new Map<string, DocumentReference[]>();
+      deleted.forEach((snapshot) => {
+        const parent = snapshot.data().deletedWith;
+        if (parent) dependents.set(parent, [...(dependents.get(parent) || []), snapshot.ref]);
+      });
+
+      setDeletedIds(new Set(deleted.map((snapshot) => snapshot.ref.path)));
+      setItems(
+        deleted
+          .filter((snapshot) => !snapshot.data().deletedWith)
+          .map((snapshot) => ({
+            ref: snapshot.ref,
+            collection: snapshot.ref.parent.id as RecyclableCollection,
+            data: snapshot.data(),
+            deletedAt: snapshot.data().deletedAt?.toDate() || new Date(),
+            dependents: dependents.get(snapshot.ref.path) || []
+          }))
+          .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+      );
+    } catch (error) {
+      console.error('Error fetching recycle bin:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUserNames = async () => {
+    try {
+      setUserNames(Object.fromEntries(
+        (await loadUsers()).map(user => [user.uid, user.name || user.email || user.id])
+      ));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  // Something deleted on its own can't come back while what it belongs to is
+  // still in the bin
+  const restoreBlocker = (item: DeletedItem) => {
+    if (item.collection === 'accounts' && deletedIds.has(doc(db, 'agents', item.data.agentId || '-').path)) {
+      return 'Restore its account holder first.';
+    }
+    if (item.collection === 'entries' && deletedIds.has(doc(db, 'accounts', item.data.accountId || '-').path)) {
+      return 'Restore its account first.';
+    }
+    return '';
+  };
+
+  const handleRestore = async (item: DeletedItem) => {
+    setWorking(item.ref.path);
+    try {
+      await restoreFromRecycleBin(item.ref);
+      fetchItems();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handlePurge = async (item: DeletedItem) => {
+    const along = item.dependents.length > 0 ? ` and ${describeCounts(item.dependents)}` : '';
+    if (!window.confirm(`Permanently delete ${itemName(item)}${along}? This cannot be undone.`)) return;
+
+    setWorking(item.ref.path);
+    try {
+      await purgeFromRecycleBin(item.ref);
+      fetchItems();
+    } catch (error) {
+      console.error('Error purging item:', error);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+          Recycle Bin
+        </h1>
+        <p className="text-gray-400 mt-1">Deleted records, with everything that was deleted along with them</p>
+      </div>
+
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="text-gray-400">Loading recycle bin...</div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-8">
+            <Trash2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-400">The recycle bin is empty.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {items.map(item => {
+              const blocker = restoreBlocker(item);
+              return (
+                <div key={item.ref.path} className="bg-white/5 rounded-lg p-4 border border-purple-500/10">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center space-x-3">
+                        <h3 className="text-lg font-semibold text-white">{itemName(item)}</h3>
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-500/20 text-purple-300 capitalize">
+                          {RECYCLE_LABELS[item.collection].one}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-400 mt-1">
+                        Deleted {item.deletedAt.toLocaleString()} by {userNames[item.data.deletedBy] || item.data.deletedBy}
+                      </p>
+                      {item.dependents.length > 0 && (
+                        <p className="text-sm text-gray-300 mt-1">Along with {describeCounts(item.dependents)}</p>
+                      )}
+                      {blocker && <p className="text-xs text-yellow-400 mt-2">{blocker}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {can(RESTORE_PERMISSIONS[item.collection]) && (
+                        <button
+                          onClick={() => handleRestore(item)}
+                          disabled={working !== null || Boolean(blocker)}
+                          className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-cyan-500/10 text-cyan-400 hover:bg-cyan-500/20 hover:text-cyan-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>{working === item.ref.path ? 'Working...' : 'Restore'}</span>
+                        </button>
+                      )}
+                      {can('purgeDeleted') && (
+                        <button
+                          onClick={() => handlePurge(item)}
+                          disabled={working !== null}
+                          className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 hover:text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <XCircle className="w-4 h-4" />
+                          <span>Purge</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import React, { useState, useEffect } from 'react';
+import { collection, doc, getDoc, getDocs } from 'firebase/firestore';
+import { db } from '../../firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import { AlertTriangle, CheckCircle, ClipboardCheck, Lock, Unlock, Undo2, X } from 'lucide-react';
+import { format, startOfWeek, endOfWeek, subWeeks } from 'date-fns';
+import { auditedSet } from '../../lib/audit';
+import { money } from '../../lib/commission';
+import { DEFAULT_PROFIT_THRESHOLD, ENTRY_FLAG_LABELS, FlaggableEntry, flagEntries } from '../../lib/anomalies';
+import { notDeleted } from '../../lib/recycle';
+import { loadClickers } from '../../lib/repository';
+import { accountNumber } from '../../lib/vjack';
+import { fetchPeriodLocks, lockPeriod, PeriodLock, reviewEntries, unlockPeriod } from '../../lib/workflow';
+
+interface SubmittedEntry {
+  id: string;
+  accountId: string;
+  playerUid: string;
+  date: string;
+  startingBalance?: number;
+  endingBalance?: number;
+  profitLoss?: number;
+  clickerAmount?: number;
+  notes?: string;
+}
+
+export default function Review() {
+  const { userData } = useAuth();
+  const [entries, setEntries] = useState<SubmittedEntry[]>([]);
+  const [allEntries, setAllEntries] = useState<FlaggableEntry[]>([]);
+  const [accounts, setAccounts] = useState<{ id: string; status?: string; assignedToPlayerUid?: string }[]>([]);
+  const [accountNames, setAccountNames] = useState<Record<string, string>>({});
+  const [clickerNames, setClickerNames] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<string[]>([]);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [profitThreshold, setProfitThreshold] = useState(DEFAULT_PROFIT_THRESHOLD);
+  const [newProfitThreshold, setNewProfitThreshold] = useState(String(DEFAULT_PROFIT_THRESHOLD));
+  const [sendingBack, setSendingBack] = useState<string[] | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
+  // Defaults to last week, the period most often closed
+  const [lockRange, setLockRange] = useState({
+    from: format(startOfWeek(subWeeks(new Date(), 1)), 'yyyy-MM-dd'),
+    to: format(endOfWeek(subWeeks(new Date(), 1)), 'yyyy-MM-dd')
+  });
+  const [lockError, setLockError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+    fetchLocks();
+    fetchProfitThreshold();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      // Every live entry, since the flags compare against previous days
+      const [entriesSnapshot, accountsSnapshot, clickers] = await Promise.all([
+        getDocs(collection(db, 'entries')),
+        getDocs(collection(db, 'accounts')),
+        loadClickers()
+      ]);
+      const liveEntries = entriesSnapshot.docs.filter(notDeleted).map(doc => ({ id: doc.id, ...doc.data() })) as (SubmittedEntry & { status?: string })[];
+      setAllEntries(liveEntries);
+      setEntries(
+        liveEntries
+          .filter(entry => entry.status === 'submitted')
+          .sort((a, b) => a.date.localeCompare(b.date))
+      );
+      setAccounts(accountsSnapshot.docs.map(doc => ({ id: doc.id, status: doc.data().status, assignedToPlayerUid: doc.data().assignedToPlayerUid })));
+      setAccountNames(Object.fromEntries(accountsSnapshot.docs.map(doc => [doc.id, accountNumber(doc.data()) || doc.id])));
+      setClickerNames(Object.fromEntries(clickers.map(clicker => [clicker.uid, clicker.name || clicker.email || clicker.id])));
+      setSelected([]);
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProfitThreshold = async () => {
+    try {
+      const settingsDoc = await getDoc(doc(db, 'settings', 'review'));
+      if (settingsDoc.exists() && typeof settingsDoc.data().profitThreshold === 'number') {
+        setProfitThreshold(settingsDoc.data().profitThreshold);
+        setNewProfitThreshold(String(settingsDoc.data().profitThreshold));
+      }
+    } catch (error) {
+      console.error('Error fetching review settings:', error);
+    }
+  };
+
+  const updateProfitThreshold = async () => {
+    const threshold = Number(newProfitThreshold);
+    if (!newProfitThreshold || isNaN(threshold) || threshold < 0) return;
+
+    try {
+      await auditedSet(doc(db, 'settings', 'review'), {
+        profitThreshold: threshold,
+        updatedAt: new Date()
+      }, { merge: true });
+      setProfitThreshold(threshold);
+    } catch (error) {
+      console.error('Error updating profit threshold:', error);
+    }
+  };
+
+  const fetchLocks = async () => {
+    try {
+      setLocks(await fetchPeriodLocks());
+    } catch (error) {
+      console.error('Error fetching locked periods:', error);
+    }
+  };
+
+  const toggleSelected = (entryId: string) => {
+    setSelected(selected.includes(entryId) ? selected.filter(id => id !== entryId) : [...selected, entryId]);
+  };
+
+  const handleApprove = async (entryIds: string[]) => {
+    setWorking(true);
+    try {
+      await reviewEntries(entryIds, 'approved');
+      fetchData();
+    } catch (error) {
+      console.error('Error approving entries:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSendBack = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sendingBack) return;
+
+    setWorking(true);
+    try {
+      await reviewEntries(sendingBack, 'draft', reviewNote.trim());
+      setSendingBack(null);
+      setReviewNote('');
+      fetchData();
+    } catch (error) {
+      console.error('Error sending entries back:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleLock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userData) return;
+    if (!window.confirm(`Lock ${lockRange.from} to ${lockRange.to}? Nobody will be able to add or change entries in it until it is unlocked.`)) return;
+
+    setWorking(true);
+    setLockError('');
+    try {
+      await lockPeriod(lockRange.from, lockRange.to, userData.name || userData.email);
+      fetchLocks();
+    } catch (error) {
+      console.error('Error locking period:', error);
+      setLockError(error instanceof Error ? error.message : 'Could not lock this period.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleUnlock = async (lock: PeriodLock) => {
+    if (!window.confirm(`Unlock ${lock.from} to ${lock.to}? Entries in it can be changed again.`)) return;
+
+    setWorking(true);
+    try {
+      await unlockPeriod(lock);
+      fetchLocks();
+    } catch (error) {
+      console.error('Error unlocking period:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const flags = flagEntries(entries, allEntries, accounts, profitThreshold);
+  const flaggedCount = entries.filter(entry => flags.get(entry.id)?.length).length;
+  const shown = flaggedOnly ? entries.filter(entry => flags.get(entry.id)?.length) : entries;
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+            Review
+          </h1>
+          <p className="text-gray-400 mt-1">Approve submitted entries and close finished periods</p>
+        </div>
+        {selected.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setSendingBack(selected)}
+              disabled={working}
+              className="bg-white/10 hover:bg-white/20 text-white font-medium py-3 px-6 rounded-lg flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Undo2 className="w-5 h-5" />
+              <span>Send Back {selected.length}</span>
+            </button>
+            <button
+              onClick={() => handleApprove(selected)}
+              disabled={working}
+              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg flex items-center space-x-2 disabled:opacity-50"
+            >
+              <CheckCircle className="w-5 h-5" />
+              <span>Approve {selected.length}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Queue */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Waiting for Review</h2>
+            {flaggedCount > 0 && (
+              <p className="text-sm text-yellow-400 mt-1">{flaggedCount} of {entries.length} flagged</p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-300">
+              <input type="checkbox" checked={flaggedOnly} onChange={() => { setFlaggedOnly(!flaggedOnly); setSelected([]); }} />
+              <span>Flagged only</span>
+            </label>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-300">Flag profit over $</span>
+              <input
+                type="number"
+                min="0"
+                value={newProfitThreshold}
+                onChange={(e) => setNewProfitThreshold(e.target.value)}
+                className="w-28 px-3 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+              />
+              {Number(newProfitThreshold) !== profitThreshold && (
+                <button
+                  onClick={updateProfitThreshold}
+                  className="px-3 py-2 rounded-lg bg-cyan-500/10 text-cyan-400 hover:bg-cyan-500/20 text-sm"
+                >
+                  Save
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="text-gray-400">Loading entries...</div>
+          </div>
+        ) : shown.length === 0 ? (
+          <div className="text-center py-8">
+            <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-400">{flaggedOnly ? 'No flagged entries.' : 'Nothing is waiting for review.'}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-purple-500/20">
+                  <th className="py-2 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={selected.length === shown.length}
+                      onChange={() => setSelected(selected.length === shown.length ? [] : shown.map(entry => entry.id))}
+                    />
+                  </th>
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Account</th>
+                  <th className="py-2 pr-4">Clicker</th>
+                  <th className="py-2 pr-4 text-right">Starting</th>
+                  <th className="py-2 pr-4 text-right">Ending</th>
+                  <th className="py-2 pr-4 text-right">Profit/Loss</th>
+                  <th className="py-2 pr-4 text-right">Clicker Amount</th>
+                  <th className="py-2 pr-4">Flags</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(entry => (
+                  <tr key={entry.id} className="border-b border-purple-500/10 text-gray-300">
+                    <td className="py-2 pr-4">
+                      <input type="checkbox" checked={selected.includes(entry.id)} onChange={() => toggleSelected(entry.id)} />
+                    </td>
+                    <td className="py-2 pr-4 text-white">{entry.date}</td>
+                    <td className="py-2 pr-4">{accountNames[entry.accountId] || 'Unknown Account'}</td>
+                    <td className="py-2 pr-4">{clickerNames[entry.playerUid] || 'Unknown Clicker'}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.startingBalance)}</td>
+                    <td className="py-2 pr-4 text-right">{money(entry.endingBalance)}</td>
+                    <td className={`py-2 pr-4 text-right font-medium ${(entry.profitLoss || 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {money(entry.profitLoss)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{money(entry.clickerAmount)}</td>
+                    <td className="py-2 pr-4">
+                      <div className="flex flex-wrap gap-1">
+                        {flags.get(entry.id)?.map(({ flag, message }) => (
+                          <span
+                            key={flag}
+                            title={message}
+                            className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-400 whitespace-nowrap"
+                          >
+                            <AlertTriangle className="w-3 h-3" />
+                            <span>{ENTRY_FLAG_LABELS[flag]}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-2">
+                      <div className="flex items-center justify-end space-x-1">
+                        <button
+                          onClick={() => handleApprove([entry.id])}
+                          disabled={working}
+                          className="p-2 text-gray-400 hover:text-green-400 transition-colors disabled:opacity-50"
+                          title="Approve"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setSendingBack([entry.id])}
+                          disabled={working}
+                          className="p-2 text-gray-400 hover:text-yellow-400 transition-colors disabled:opacity-50"
+                          title="Send back"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Locked periods */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-bold text-white mb-2">Locked Periods</h2>
+        <p className="text-sm text-gray-400 mb-6">Entries in a locked period can't be added, changed or deleted by anyone.</p>
+        <form onSubmit={handleLock} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">From</label>
+            <input
+              type="date"
+              value={lockRange.from}
+              onChange={(e) => e.target.value && setLockRange({ ...lockRange, from: e.target.value })}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">To</label>
+            <input
+              type="date"
+              value={lockRange.to}
+              onChange={(e) => e.target.value && setLockRange({ ...lockRange, to: e.target.value })}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={working}
+            className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            <Lock className="w-5 h-5" />
+            <span>Lock Period</span>
+          </button>
+        </form>
+        {lockError && <p className="text-sm text-red-400 mb-4">{lockError}</p>}
+
+        {locks.length === 0 ? (
+          <p className="text-gray-400 text-sm">No periods are locked.</p>
+        ) : (
+          <div className="space-y-2">
+            {locks.map(lock => (
+              <div key={lock.id} className="flex items-center justify-between bg-white/5 rounded-lg p-4 border border-purple-500/10">
+                <div>
+                  <p className="text-white font-medium">{lock.from} to {lock.to}</p>
+                  <p className="text-xs text-gray-500">
+                    Locked {format(lock.lockedAt, 'yyyy-MM-dd HH:mm')} by {lock.lockedByName || lock.lockedBy}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleUnlock(lock)}
+                  disabled={working}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 hover:text-red-300 transition-colors disabled:opacity-50"
+                >
+                  <Unlock className="w-4 h-4" />
+                  <span>Unlock</span>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Send back modal */}
+      {sendingBack && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-md">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-2xl font-bold text-white">
+                Send Back {sendingBack.length === 1 ? 'Entry' : `${sendingBack.length} Entries`}
+              </h2>
+              <button onClick={() => setSendingBack(null)} className="text-gray-400 hover:text-white">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSendBack} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">What needs fixing</label>
+                <textarea
+                  value={reviewNote}
+                  onChange={(e) => setReviewNote(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  placeholder="The clicker sees this next to the entry"
+                  required
+                />
+              </div>
+              <div className="flex space-x-4">
+                <button
+                  type="button"
+                  onClick={() => setSendingBack(null)}
+                  className="flex-1 bg-gray-500 hover:bg-gray-600 text-white font-medium py-3 px-6 rounded-lg"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={working}
+                  className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg disabled:opacity-50"
+                >
+                  Send Back
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
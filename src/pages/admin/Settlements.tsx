@@ -0,0 +1,506 @@
+import React, { useState, useEffect } from 'react';
+import { collection, getDocs, doc } from 'firebase/firestore';
+import { db } from '../../firebase';
+import { auditedAdd, auditedDelete } from '../../lib/audit';
+import { money } from '../../lib/commission';
+import { notDeleted } from '../../lib/recycle';
+import { loadAgents, loadBrokers, loadClickers } from '../../lib/repository';
+import { isPayable, syncSettledStatus, WorkflowEntry } from '../../lib/workflow';
+import { useAuth } from '../../contexts/AuthContext';
+import { Wallet, Plus, Trash2, X, FileText, Download } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import {
+  entryObligations,
+  LedgerEntry,
+  partyBalances,
+  partyKey,
+  PartyBalance,
+  Settlement,
+  SETTLEMENT_METHODS,
+  SETTLEMENT_PARTY_LABELS,
+  SettlementPartyType,
+  unsettledEntryIds
+} from '../../lib/settlements';
+import { buildStatement, downloadStatementPdf, downloadStatementXlsx, StatementAccount } from '../../lib/statements';
+
+interface Entry extends LedgerEntry, WorkflowEntry {
+  date: string;
+}
+
+interface NamedParty {
+  id: string;
+  name: string;
+}
+
+const dropdownArrowSvg = `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`;
+
+export default function Settlements() {
+  const { userData, can } = useAuth();
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [accounts, setAccounts] = useState<StatementAccount[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [clickers, setClickers] = useState<NamedParty[]>([]);
+  const [agents, setAgents] = useState<NamedParty[]>([]);
+  const [brokers, setBrokers] = useState<NamedParty[]>([]);
+  const [partyFilter, setPartyFilter] = useState<'all' | SettlementPartyType>('all');
+  const [payingBalance, setPayingBalance] = useState<PartyBalance | null>(null);
+  const [payment, setPayment] = useState({
+    amount: '',
+    method: SETTLEMENT_METHODS[0],
+    date: format(new Date(), 'yyyy-MM-dd'),
+    entryIds: [] as string[],
+    notes: ''
+  });
+  const [statementBalance, setStatementBalance] = useState<PartyBalance | null>(null);
+  const [statementRange, setStatementRange] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [entriesSnapshot, accountsSnapshot, settlementsSnapshot, clickerRecords, agentRecords, brokerRecords] = await Promise.all([
+        getDocs(collection(db, 'entries')),
+        getDocs(collection(db, 'accounts')),
+        getDocs(collection(db, 'settlements')),
+        loadClickers(),
+        loadAgents(),
+        loadBrokers()
+      ]);
+
+      setEntries(
+        (entriesSnapshot.docs.filter(notDeleted).map(doc => ({ id: doc.id, ...doc.data() })) as Entry[]).filter(isPayable)
+      );
+      setAccounts(accountsSnapshot.docs.filter(notDeleted).map(doc => ({ id: doc.id, ...doc.data() })) as StatementAccount[]);
+      setSettlements(
+        (settlementsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Settlement[])
+          .sort((a, b) => b.date.localeCompare(a.date))
+      );
+      setClickers(clickerRecords.map(clicker => ({ id: clicker.uid, name: clicker.name || '' })));
+      setAgents(agentRecords.map(agent => ({ id: agent.id, name: agent.name || '' })));
+      setBrokers(brokerRecords.map(broker => ({ id: broker.id, name: broker.name || '' })));
+    } catch (error) {
+      console.error('Error fetching settlements:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const partyName = (partyType: SettlementPartyType, partyId: string) => {
+    const parties = partyType === 'clicker' ? clickers : partyType === 'accHolder' ? agents : brokers;
+    return parties.find(p => p.id === partyId)?.name || 'Unknown';
+  };
+
+  const balances = partyBalances(entries, accounts, settlements)
+    .filter(balance => partyFilter === 'all' || balance.partyType === partyFilter)
+    .sort((a, b) => b.outstanding - a.outstanding);
+
+  // What a single entry owes the party being paid
+  const entryAmountFor = (balance: PartyBalance, entryId: string) => {
+    const entry = entries.find(e => e.id === entryId);
+    if (!entry) return 0;
+    const account = accounts.find(a => a.id === entry.accountId);
+    return entryObligations(entry, account)
+      .find(o => o.partyType === balance.partyType && o.partyId === balance.partyId)?.amount || 0;
+  };
+
+  const openPayment = (balance: PartyBalance) => {
+    setPayingBalance(balance);
+    setPayment({
+      amount: balance.outstanding > 0 ? balance.outstanding.toFixed(2) : '',
+      method: SETTLEMENT_METHODS[0],
+      date: format(new Date(), 'yyyy-MM-dd'),
+      entryIds: unsettledEntryIds(balance, settlements),
+      notes: ''
+    });
+  };
+
+  const toggleEntry = (entryId: string) => {
+    if (!payingBalance) return;
+    const entryIds = payment.entryIds.includes(entryId)
+      ? payment.entryIds.filter(id => id !== entryId)
+      : [...payment.entryIds, entryId];
+    const total = entryIds.reduce((sum, id) => sum + entryAmountFor(payingBalance, id), 0);
+    setPayment({ ...payment, entryIds, amount: total.toFixed(2) });
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingBalance || !userData || !Number(payment.amount)) return;
+
+    setSaving(true);
+    try {
+      const settlement: Settlement = {
+        partyType: payingBalance.partyType,
+        partyId: payingBalance.partyId,
+        amount: Number(payment.amount),
+        method: payment.method,
+        date: payment.date,
+        entryIds: payment.entryIds,
+        recordedBy: userData.uid,
+        recordedByName: userData.name || userData.email,
+        notes: payment.notes.trim()
+      };
+      await auditedAdd(collection(db, 'settlements'), {
+        ...settlement,
+        createdAt: new Date()
+      });
+      await syncSettledStatus(
+        entries.filter(entry => settlement.entryIds.includes(entry.id)),
+        accounts,
+        [...settlements, settlement]
+      );
+      setPayingBalance(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error recording settlement:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSettlement = async (settlementId: string) => {
+    if (window.confirm('Are you sure you want to delete this payment? The party\'s balance will go back up.')) {
+      try {
+        await auditedDelete(doc(db, 'settlements', settlementId));
+        const deleted = settlements.find(s => s.id === settlementId);
+        await syncSettledStatus(
+          entries.filter(entry => deleted?.entryIds?.includes(entry.id)),
+          accounts,
+          settlements.filter(s => s.id !== settlementId)
+        );
+        fetchData();
+      } catch (error) {
+        console.error('Error deleting settlement:', error);
+      }
+    }
+  };
+
+  const statement = statementBalance && buildStatement(
+    statementBalance.partyType,
+    statementBalance.partyId,
+    partyName(statementBalance.partyType, statementBalance.partyId),
+    statementRange.from,
+    statementRange.to,
+    entries,
+    accounts,
+    settlements
+  );
+
+  const partyTabs: ('all' | SettlementPartyType)[] = ['all', 'clicker', 'accHolder', 'broker'];
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+            Settlements
+          </h1>
+          <p className="text-gray-400 mt-1">Record payments and track what each party is owed</p>
+        </div>
+      </div>
+
+      {/* Party Filter */}
+      <div className="flex flex-wrap gap-2">
+        {partyTabs.map(tab => (
+          <button
+            key={tab}
+            onClick={() => setPartyFilter(tab)}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+              partyFilter === tab
+                ? 'bg-gradient-to-r from-cyan-500 to-purple-500 text-white'
+                : 'bg-white/5 text-gray-400 hover:text-white'
+            }`}
+          >
+            {tab === 'all' ? 'All Parties' : `${SETTLEMENT_PARTY_LABELS[tab]}s`}
+          </button>
+        ))}
+      </div>
+
+      {/* Balances */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-4 lg:p-6 border border-purple-500/20">
+        <h2 className="text-lg lg:text-xl font-bold text-white flex items-center mb-4 lg:mb-6">
+          <Wallet className="w-5 h-5 lg:w-6 lg:h-6 mr-2" />
+          Balances
+        </h2>
+
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="text-gray-400">Loading balances...</div>
+          </div>
+        ) : balances.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-400">No balances yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {balances.map(balance => (
+              <div
+                key={partyKey(balance.partyType, balance.partyId)}
+                className="bg-gradient-to-r from-purple-500/10 to-cyan-500/10 rounded-lg p-4 border border-purple-500/20"
+              >
+                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+                  <div>
+                    <h3 className="text-lg font-semibold text-white">{partyName(balance.partyType, balance.partyId)}</h3>
+                    <p className="text-sm text-gray-400">
+                      {SETTLEMENT_PARTY_LABELS[balance.partyType]} · {balance.entryIds.length} entries
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-6">
+                    <div className="grid grid-cols-3 gap-4 lg:gap-6 text-center">
+                      <div>
+                        <p className="text-sm text-gray-400">Owed</p>
+                        <p className="text-lg font-bold text-cyan-400">{money(balance.owed)}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-400">Paid</p>
+                        <p className="text-lg font-bold text-green-400">{money(balance.paid)}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-400">Outstanding</p>
+                        <p className={`text-lg font-bold ${balance.outstanding > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>
+                          {money(balance.outstanding)}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setStatementBalance(balance)}
+                      className="bg-white/5 hover:bg-white/10 text-gray-300 py-2 px-4 rounded-lg flex items-center space-x-1"
+                    >
+                      <FileText className="w-4 h-4" />
+                      <span>Statement</span>
+                    </button>
+                    {can('recordPayments') && (
+                      <button
+                        onClick={() => openPayment(balance)}
+                        className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white py-2 px-4 rounded-lg flex items-center space-x-1"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Pay</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-4 lg:p-6 border border-purple-500/20">
+        <h2 className="text-lg lg:text-xl font-bold text-white mb-4 lg:mb-6">Payment Ledger</h2>
+        {settlements.filter(s => partyFilter === 'all' || s.partyType === partyFilter).length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No payments recorded.</p>
+        ) : (
+          <div className="space-y-2">
+            {settlements
+              .filter(s => partyFilter === 'all' || s.partyType === partyFilter)
+              .map(settlement => (
+                <div key={settlement.id} className="flex items-center justify-between bg-white/5 rounded-lg p-3 text-sm">
+                  <div>
+                    <p className="text-white">
+                      {partyName(settlement.partyType, settlement.partyId)}
+                      <span className="text-gray-500"> · {SETTLEMENT_PARTY_LABELS[settlement.partyType]}</span>
+                    </p>
+                    <p className="text-gray-400">
+                      {settlement.date} · {settlement.method} · {settlement.entryIds?.length || 0} entries · recorded by {settlement.recordedByName || settlement.recordedBy}
+                    </p>
+                    {settlement.notes && <p className="text-gray-500">{settlement.notes}</p>}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-green-400 font-semibold">{money(Number(settlement.amount) || 0)}</span>
+                    {can('recordPayments') && (
+                      <button
+                        onClick={() => handleDeleteSettlement(settlement.id!)}
+                        className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {/* Statement Modal */}
+      {statement && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-white">Statement: {statement.partyName}</h2>
+              <button onClick={() => setStatementBalance(null)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">From</label>
+                <input
+                  type="date"
+                  value={statementRange.from}
+                  onChange={(e) => setStatementRange({ ...statementRange, from: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">To</label>
+                <input
+                  type="date"
+                  value={statementRange.to}
+                  onChange={(e) => setStatementRange({ ...statementRange, to: e.target.value })}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                />
+              </div>
+            </div>
+            <div className="space-y-2 text-sm mb-6">
+              <div className="flex justify-between text-gray-400">
+                <span>Opening balance</span>
+                <span className="text-white">{money(statement.openingBalance)}</span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Owed this period ({statement.lines.length} entries)</span>
+                <span className="text-cyan-400">{money(statement.totalOwed)}</span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Paid this period ({statement.payments.length} payments)</span>
+                <span className="text-green-400">{money(statement.totalPaid)}</span>
+              </div>
+              <div className="flex justify-between text-gray-300 font-semibold border-t border-purple-500/20 pt-2">
+                <span>Closing balance owed</span>
+                <span className="text-yellow-400">{money(statement.closingBalance)}</span>
+              </div>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                onClick={() => downloadStatementXlsx(statement)}
+                className="bg-white/5 hover:bg-white/10 text-gray-300 py-3 px-6 rounded-lg flex items-center space-x-2"
+              >
+                <Download className="w-4 h-4" />
+                <span>XLSX</span>
+              </button>
+              <button
+                onClick={() => downloadStatementPdf(statement)}
+                className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg flex items-center space-x-2"
+              >
+                <Download className="w-4 h-4" />
+                <span>PDF</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Record Payment Modal */}
+      {payingBalance && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black/80 backdrop-blur-lg rounded-xl p-8 border border-purple-500/20 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-white">
+                Pay {partyName(payingBalance.partyType, payingBalance.partyId)}
+              </h2>
+              <button onClick={() => setPayingBalance(null)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleRecordPayment} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Amount</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={payment.amount}
+                    onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                    className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Date</label>
+                  <input
+                    type="date"
+                    value={payment.date}
+                    onChange={(e) => setPayment({ ...payment, date: e.target.value })}
+                    className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Method</label>
+                <select
+                  value={payment.method}
+                  onChange={(e) => setPayment({ ...payment, method: e.target.value })}
+                  className="appearance-none w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 pr-10 bg-no-repeat bg-[length:20px_20px] bg-[position:right_10px_center]"
+                  style={{ backgroundImage: dropdownArrowSvg }}
+                >
+                  {SETTLEMENT_METHODS.map(method => (
+                    <option key={method} value={method} className="bg-gray-800 text-white">{method}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Entries Covered</label>
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {payingBalance.entryIds.map(entryId => {
+                    const entry = entries.find(e => e.id === entryId);
+                    return (
+                      <label key={entryId} className="flex items-center justify-between text-sm bg-white/5 rounded px-3 py-2">
+                        <span className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={payment.entryIds.includes(entryId)}
+                            onChange={() => toggleEntry(entryId)}
+                            className="rounded bg-white/5 border-purple-500/20 text-cyan-500 focus:ring-cyan-500"
+                          />
+                          <span className="text-gray-300">{entry?.date || entryId}</span>
+                        </span>
+                        <span className="text-gray-400">{money(entryAmountFor(payingBalance, entryId))}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Notes</label>
+                <textarea
+                  value={payment.notes}
+                  onChange={(e) => setPayment({ ...payment, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+                  placeholder="Reference, memo..."
+                />
+              </div>
+              <div className="flex justify-end space-x-4 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setPayingBalance(null)}
+                  className="px-6 py-3 text-gray-400 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Record Payment'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
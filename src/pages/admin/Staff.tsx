@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs, query, where, doc } from 'firebase/firestore';
+import { db } from '../../firebase';
+import { auditedUpdate } from '../../lib/audit';
+import { useAuth } from '../../contexts/AuthContext';
+import { ShieldCheck, Check } from 'lucide-react';
+import { ADMIN_ROLES, AdminRole, PERMISSIONS, Permission, adminRoleOf } from '../../lib/permissions';
+
+const dropdownArrowSvg = `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23ffffff'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E")`;
+
+interface StaffMember {
+  id: string;
+  name: string;
+  email: string;
+  role: 'admin';
+  adminRole?: AdminRole;
+}
+
+export default function Staff() {
+  const { userData } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const fetchStaff = async () => {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'users'), where('role', '==', 'admin')));
+      setStaff(
+        (snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as StaffMember[])
+          .sort((a, b) => (a.name || a.email || '').localeCompare(b.name || b.email || ''))
+      );
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, adminRole: AdminRole) => {
+    setSavingId(member.id);
+    try {
+      await auditedUpdate(doc(db, 'users', member.id), {
+        adminRole,
+        updatedAt: new Date()
+      });
+      fetchStaff();
+    } catch (error) {
+      console.error('Error updating staff role:', error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const roles = Object.keys(ADMIN_ROLES) as AdminRole[];
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+          Staff
+        </h1>
+        <p className="text-gray-400 mt-1">Choose what each admin can see and change</p>
+      </div>
+
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="text-gray-400">Loading staff...</div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {staff.map(member => {
+              // Owners cannot change their own role, so there is always someone left who can
+              const isSelf = member.id === userData?.uid;
+              return (
+                <div key={member.id} className="bg-white/5 rounded-lg p-4 border border-purple-500/10 flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-white">{member.name || member.email}</h3>
+                    <p className="text-sm text-gray-400">{member.email}{isSelf ? ' · you' : ''}</p>
+                  </div>
+                  <select
+                    value={adminRoleOf(member) || ''}
+                    onChange={(e) => handleRoleChange(member, e.target.value as AdminRole)}
+                    disabled={isSelf || savingId === member.id}
+                    className="appearance-none px-4 py-2 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 pr-10 bg-no-repeat bg-[length:20px_20px] bg-[position:right_10px_center] disabled:opacity-50"
+                    style={{ backgroundImage: dropdownArrowSvg }}
+                  >
+                    {!adminRoleOf(member) && (
+                      <option value="" className="bg-gray-800 text-white">Unknown role ({member.adminRole})</option>
+                    )}
+                    {roles.map(role => (
+                      <option key={role} value={role} className="bg-gray-800 text-white">{ADMIN_ROLES[role].label}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* What each role can do */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <div className="flex items-center space-x-2 mb-4">
+          <ShieldCheck className="w-5 h-5 text-cyan-400" />
+          <h2 className="text-xl font-semibold text-white">Role Permissions</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {roles.map(role => (
+            <div key={role} className="bg-white/5 rounded-lg p-4 border border-purple-500/10">
+              <h3 className="text-white font-semibold mb-2">{ADMIN_ROLES[role].label}</h3>
+              <ul className="space-y-1">
+                {ADMIN_ROLES[role].permissions.map((permission: Permission) => (
+                  <li key={permission} className="flex items-center space-x-2 text-sm text-gray-300">
+                    <Check className="w-4 h-4 text-green-400" />
+                    <span>{PERMISSIONS[permission]}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { format, startOfMonth } from 'date-fns';
+import { CreditCard, Wallet, CheckCircle, Clock, ChevronDown, ChevronUp, Download } from 'lucide-react';
+import { PortalData, PortalEntry, fetchPortal, portalStatement } from '../../lib/portal';
+import { downloadStatementPdf, downloadStatementXlsx } from '../../lib/statements';
+import { ACCOUNT_STATUS_LABELS, accountStatus } from '../../lib/lifecycle';
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const accountLabel = (account: PortalData['accounts'][number]) =>
+  (account.type === 'legal' ? account.name : account.username) || account.name || 'Unnamed account';
+
+// The three ways a broker earns on an entry, and the account link behind each
+const WAYS = [
+  { amount: 'brokerAmount', link: 'brokeredById', label: 'Broker Way', role: 'Brokered' },
+  { amount: 'funderWayAmount', link: 'fundedById', label: 'Funder Way', role: 'Funded' },
+  { amount: 'referralAmount', link: 'referredById', label: 'Referral Way', role: 'Referred' }
+] as const;
+
+const earned = (entry: PortalEntry) =>
+  WAYS.reduce((sum, way) => sum + (Number(entry[way.amount]) || 0), 0);
+
+export default function BrokerDashboard() {
+  const { userData } = useAuth();
+  const [portal, setPortal] = useState<PortalData | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [expandedAccountId, setExpandedAccountId] = useState<string | null>(null);
+  const [exportRange, setExportRange] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  useEffect(() => {
+    fetchPortalData();
+  }, []);
+
+  const fetchPortalData = async () => {
+    try {
+      setPortal(await fetchPortal());
+    } catch (error) {
+      console.error('Error fetching portal:', error);
+      setError(error instanceof Error ? error.message : 'Could not load your accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const accounts = portal?.accounts || [];
+  const entries = portal?.entries || [];
+  const payments = [...(portal?.settlements || [])].sort((a, b) => b.date.localeCompare(a.date));
+
+  const owed = entries.reduce((sum, entry) => sum + earned(entry), 0);
+  const paid = payments.reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+  const outstanding = owed - paid;
+
+  const entriesFor = (accountId: string) =>
+    entries.filter(entry => entry.accountId === accountId).sort((a, b) => b.date.localeCompare(a.date));
+
+  const handleExport = (kind: 'xlsx' | 'pdf') => {
+    if (!portal) return;
+    const statement = portalStatement('broker', portal, exportRange.from, exportRange.to);
+    if (kind === 'xlsx') downloadStatementXlsx(statement);
+    else downloadStatementPdf(statement);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+          My Accounts
+        </h1>
+        <p className="text-gray-400 mt-1">Welcome back, {portal?.holder.name || userData?.name}</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 text-red-400">{error}</div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-400">Accounts</p>
+              <p className="text-2xl font-bold text-cyan-400">{accounts.length}</p>
+            </div>
+            <CreditCard className="w-8 h-8 text-cyan-400" />
+          </div>
+        </div>
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-400">Total Earned</p>
+              <p className="text-2xl font-bold text-white">{money(owed)}</p>
+            </div>
+            <Wallet className="w-8 h-8 text-purple-400" />
+          </div>
+          <div className="mt-3 space-y-1">
+            {WAYS.map(way => (
+              <p key={way.amount} className="text-xs text-gray-400 flex justify-between">
+                <span>{way.label}</span>
+                <span>{money(entries.reduce((sum, entry) => sum + (Number(entry[way.amount]) || 0), 0))}</span>
+              </p>
+            ))}
+          </div>
+        </div>
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-400">Paid To You</p>
+              <p className="text-2xl font-bold text-green-400">{money(paid)}</p>
+            </div>
+            <CheckCircle className="w-8 h-8 text-green-400" />
+          </div>
+        </div>
+        <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-400">Still Owed</p>
+              <p className={`text-2xl font-bold ${outstanding > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>{money(outstanding)}</p>
+            </div>
+            <Clock className="w-8 h-8 text-yellow-400" />
+          </div>
+        </div>
+      </div>
+
+      {/* Export */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-semibold text-white mb-4">Export Statement</h2>
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">From</label>
+            <input
+              type="date"
+              value={exportRange.from}
+              onChange={(e) => setExportRange({ ...exportRange, from: e.target.value })}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">To</label>
+            <input
+              type="date"
+              value={exportRange.to}
+              onChange={(e) => setExportRange({ ...exportRange, to: e.target.value })}
+              className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            />
+          </div>
+          <div className="flex space-x-4">
+            <button
+              onClick={() => handleExport('xlsx')}
+              disabled={!portal}
+              className="bg-white/5 hover:bg-white/10 text-gray-300 py-3 px-6 rounded-lg flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>XLSX</span>
+            </button>
+            <button
+              onClick={() => handleExport('pdf')}
+              disabled={!portal}
+              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>PDF</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Accounts */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-semibold text-white mb-4">Accounts</h2>
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="text-gray-400">Loading accounts...</div>
+          </div>
+        ) : accounts.length === 0 ? (
+          <div className="text-center py-8">
+            <CreditCard className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-400">No accounts are linked to you yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {accounts.map(account => {
+              const accountEntries = entriesFor(account.id);
+              const accountEarned = accountEntries.reduce((sum, entry) => sum + earned(entry), 0);
+              const ways = WAYS.filter(way => account[way.link]);
+              const expanded = expandedAccountId === account.id;
+              return (
+                <div key={account.id} className="bg-white/5 rounded-lg border border-purple-500/10">
+                  <button
+                    onClick={() => setExpandedAccountId(expanded ? null : account.id)}
+                    className="w-full flex items-center justify-between p-4 text-left"
+                  >
+                    <div>
+                      <h3 className="text-lg font-semibold text-white">{accountLabel(account)}</h3>
+                      <p className="text-sm text-gray-400">
+                        {account.type === 'legal' ? 'Legal' : 'PPH'} · {ACCOUNT_STATUS_LABELS[accountStatus(account)]}
+                        {account.startDate ? ` · since ${account.startDate}` : ''}
+                        {` · ${accountEntries.length} entries`}
+                      </p>
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {ways.map(way => (
+                          <span key={way.link} className="px-2 py-0.5 rounded text-xs bg-purple-500/20 text-purple-300">{way.role}</span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <div className="text-right">
+                        <p className="text-xs text-gray-400">You earned</p>
+                        <p className="text-white font-semibold">{money(accountEarned)}</p>
+                      </div>
+                      {expanded ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+                    </div>
+                  </button>
+                  {expanded && (
+                    <div className="px-4 pb-4 overflow-x-auto">
+                      {accountEntries.length === 0 ? (
+                        <p className="text-sm text-gray-500">No entries recorded yet.</p>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-400 border-b border-purple-500/20">
+                              <th className="py-2 pr-4">Date</th>
+                              <th className="py-2 pr-4 text-right">Profit/Loss</th>
+                              {ways.map(way => (
+                                <th key={way.amount} className="py-2 pr-4 text-right">{way.label}</th>
+                              ))}
+                              <th className="py-2 text-right">Total</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {accountEntries.map(entry => (
+                              <tr key={entry.id} className="border-b border-purple-500/10 text-gray-300">
+                                <td className="py-2 pr-4">{entry.date}</td>
+                                <td className={`py-2 pr-4 text-right ${(entry.profitLoss || 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                  {money(Number(entry.profitLoss) || 0)}
+                                </td>
+                                {ways.map(way => (
+                                  <td key={way.amount} className="py-2 pr-4 text-right">{money(Number(entry[way.amount]) || 0)}</td>
+                                ))}
+                                <td className="py-2 text-right text-white">{money(earned(entry))}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Payments */}
+      <div className="bg-black/20 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+        <h2 className="text-xl font-semibold text-white mb-4">Payments Received</h2>
+        {payments.length === 0 ? (
+          <p className="text-gray-400">No payments recorded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {payments.map(payment => (
+              <div key={payment.id} className="flex items-center justify-between bg-white/5 rounded-lg p-3 border border-purple-500/10">
+                <div>
+                  <p className="text-white">{payment.date}</p>
+                  <p className="text-sm text-gray-400">
+                    {payment.method} · {payment.entryIds?.length || 0} entries
+                  </p>
+                </div>
+                <p className="text-green-400 font-semibold">{money(Number(payment.amount) || 0)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { collection, addDoc, getDocs, query, where, doc, getDoc, updateDoc, deleteDoc, orderBy } from 'firebase/firestore';
+import { collection, getDocs, query, where, doc, getDoc, orderBy } from 'firebase/firestore';
 import { db } from '../../firebase';
+import { auditedAdd, auditedUpdate } from '../../lib/audit';
+import { confirmDelete, isDeleted, moveToRecycleBin, notDeleted, planDelete } from '../../lib/recycle';
 import { useAuth } from '../../contexts/AuthContext';
-import { ArrowLeft, Save, Calendar, DollarSign, ToggleLeft, ToggleRight, Edit, Trash2, Plus, User, Briefcase } from 'lucide-react';
+import { ArrowLeft, Save, Calendar, DollarSign, ToggleLeft, ToggleRight, Edit, Trash2, Plus, User, Briefcase, Send } from 'lucide-react';
 import { format } from 'date-fns';
+import { computeProfitLoss, computeSplits, pickOverrides, splitFields, SplitAccount, SplitAgent, SplitBroker, SplitRoles } from '../../lib/commission';
+import { clickerCanEdit, EntryStatus, fetchPeriodLocks, lockCovering, PeriodLock, WorkflowEntry } from '../../lib/workflow';
+import { ACCOUNT_STATUS_LABELS, AccountStatus, CLICKER_MOVABLE_STATUSES, STOPPED_STATUSES, accountStatus, accountStatusUpdate, canChangeStatus } from '../../lib/lifecycle';
+import { fetchCurrentAssignment } from '../../lib/assignments';
+import EntryStatusBadge from '../../components/EntryStatusBadge';
 
-interface Account {
+interface Account extends SplitAccount {
   id: string;
   type: 'pph' | 'legal';
   username?: string;
   name?: string;
-  websiteURL?: string;
   agentId: string;
   agentName: string;
   brokerId?: string;
   brokerName?: string;
-  status: 'active' | 'inactive' | 'unused';
+  status: AccountStatus;
   depositAmount?: number;
   referralPercentage?: number;
   promoAmount?: number;
@@ -29,7 +35,7 @@ interface Account {
   playerPercentage?: number;
 }
 
-interface Entry {
+interface Entry extends WorkflowEntry {
   id?: string;
   accountId: string;
   playerUid: string;
@@ -40,13 +46,9 @@ interface Entry {
   withdrawal: number;
   complianceReview: string;
   profitLoss: number;
-  clickerSettled: string;
   clickerAmount: number;
-  accHolderSettled: string;
   accHolderAmount: number;
-  brokerSettled: string;
   brokerAmount: number;
-  companySettled: string;
   companyAmount: number;
   taxableAmount: number;
   referralAmount: number;
@@ -56,7 +58,6 @@ interface Entry {
   promoCode?: string;
   promoAmount?: number;
   refills?: { by: string; amount: number }[];
-  payments?: { amount: number; method: string; date: string }[];
   withdrawalSubmitted?: string;
   settledAmount?: number;
   settledDate?: string;
@@ -83,6 +84,8 @@ export default function AccountEntry() {
   const navigate = useNavigate();
   const [account, setAccount] = useState<Account | null>(null);
   const [broker, setBroker] = useState<Broker | null>(null);
+  const [agent, setAgent] = useState<SplitAgent | null>(null);
+  const [roles, setRoles] = useState<SplitRoles>({});
   const [entries, setEntries] = useState<Entry[]>([]);
   const [editingEntry, setEditingEntry] = useState<Entry | null>(null);  
   const [currentEntry, setCurrentEntry] = useState<Entry>({
@@ -95,13 +98,9 @@ export default function AccountEntry() {
     withdrawal: 0,
     complianceReview: 'Requested Document',
     profitLoss: 0,
-    clickerSettled: 'No',
     clickerAmount: 0,
-    accHolderSettled: 'No',
     accHolderAmount: 0,
-    brokerSettled: 'No',
     brokerAmount: 0,
-    companySettled: 'No',
     companyAmount: 0,
     taxableAmount: 0,
     referralAmount: 0,
@@ -111,7 +110,6 @@ export default function AccountEntry() {
     promoCode: '',
     promoAmount: 0,
     refills: [],
-    payments: [],
     withdrawalSubmitted: '',
     settledAmount: 0,
     settledDate: '',
@@ -123,14 +121,24 @@ export default function AccountEntry() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [taxRate, setTaxRate] = useState(10); // Default tax rate
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
 
   useEffect(() => {
     if (id && userData?.uid) {
       fetchAccountData();
       fetchTaxRate();
+      fetchLocks();
     }
   }, [id, userData]);
 
+  const fetchLocks = async () => {
+    try {
+      setLocks(await fetchPeriodLocks());
+    } catch (error) {
+      console.error('Error fetching locked periods:', error);
+    }
+  };
+
   const fetchTaxRate = async () => {
     try {
       const taxDoc = await getDoc(doc(db, 'settings', 'taxRate'));
@@ -160,169 +168,51 @@ export default function AccountEntry() {
 
   // Calculate all amounts whenever relevant fields change
   useEffect(() => {
-    const calculateAmounts = async () => {
-      const effectiveStarting = (currentEntry.startingBalance || 0) + (account?.promoAmount || 0);
-      const profitLoss = 
-        (currentEntry.endingBalance || 0) - 
-        effectiveStarting + 
-        (currentEntry.withdrawal || 0) - 
-        (currentEntry.refillAmount || 0);
-      
-      if (!account || !userData) {
-        setCurrentEntry(prev => ({
-          ...prev,
-          profitLoss
-        }));
-        return;
-      }
-
-      try {
-        // Calculate Clicker Amount using account-specific player percentage, fallback to player setting, else 30% of net-after-tax
-        const taxAmount = (profitLoss * taxRate) / 100;
-        const netAfterTax = profitLoss - taxAmount;
-        const acctPctRaw = (account as any).playerPercentage;
-        const userPctRaw = (userData as any)?.percentage;
-        const playerPct = (typeof acctPctRaw === 'number' && acctPctRaw > 0)
-          ? acctPctRaw
-          : (typeof userPctRaw === 'number' && userPctRaw > 0 ? userPctRaw : 30);
-        const clickerAmount = (netAfterTax * (playerPct / 100));
-        
-        // Get agent data for commission calculation
-        const agent = await getDoc(doc(db, 'agents', account.agentId));
-        const agentData = agent.data();
-        
-        // Calculate Account Holder Amount
-        const accHolderAmount = agentData ? 
-          ((profitLoss * (agentData.commissionPercentage || 0)) / 100) + 
-          (agentData.flatCommission || 0) : 0;
-        
-        // Calculate Broker Amount if broker exists
-        let brokerAmount = 0;
-        if (broker && account.brokerId) {
-          if (broker.commissionType === 'percentage') {
-            brokerAmount = (profitLoss * (broker.commissionPercentage || 0)) / 100;
-          } else if (broker.commissionType === 'flat') {
-            brokerAmount = broker.flatCommission || 0;
-          } else if (broker.commissionType === 'both') {
-            brokerAmount = ((profitLoss * (broker.commissionPercentage || 0)) / 100) + 
-                          (broker.flatCommission || 0);
-          }
-        }
-        
-        // Tax amount already computed above
-        
-        // Calculate Referral Amount only if referralPercentage exists
-        const referralAmount = account.referralPercentage ? 
-          (profitLoss * account.referralPercentage) / 100 : 0;
-        
-        // Calculate Company Amount
-        const companyAmount = profitLoss - clickerAmount - accHolderAmount - brokerAmount - taxAmount - referralAmount;
-        
-        // Update all calculated amounts
-        setCurrentEntry(prev => ({
-          ...prev,
-          profitLoss,
-          clickerAmount,
-          accHolderAmount,
-          brokerAmount,
-          companyAmount,
-          taxableAmount: taxAmount,
-          referralAmount
-        }));
-      } catch (error) {
-        console.error('Error calculating amounts:', error);
-      }
-    };
+    if (!account || !userData) {
+      setCurrentEntry(prev => ({
+        ...prev,
+        profitLoss: computeProfitLoss(prev, account)
+      }));
+      return;
+    }
 
-    calculateAmounts();
+    setCurrentEntry(prev => ({
+      ...prev,
+      ...splitFields(computeSplits(prev, account, agent, broker, { taxRate, clickerPercentage: userData.percentage, clickerTerms: userData.termsHistory }, roles))
+    }));
   }, [
+    currentEntry.date,
     currentEntry.startingBalance,
     currentEntry.endingBalance,
     currentEntry.withdrawal,
     currentEntry.refillAmount,
     currentEntry.promoAmount,
     account,
+    agent,
+    roles,
     userData,
     taxRate,
     broker
   ]);
 
-  // Similar calculation for editing mode
+  // Same calculation for editing mode
   useEffect(() => {
     if (!editingEntry || !account || !userData) return;
-    
-    const calculateEditingAmounts = async () => {
-      const effectiveStarting = (editingEntry.startingBalance || 0) + (account?.promoAmount || 0);
-      const profitLoss = 
-        (editingEntry.endingBalance || 0) - 
-        effectiveStarting + 
-        (editingEntry.withdrawal || 0) - 
-        (editingEntry.refillAmount || 0);
-      
-      try {
-        // Calculate Clicker Amount using same fallback logic on net-after-tax
-        const taxAmount = (profitLoss * taxRate) / 100;
-        const netAfterTax = profitLoss - taxAmount;
-        const acctPctRaw = (account as any).playerPercentage;
-        const userPctRaw = (userData as any)?.percentage;
-        const playerPct = (typeof acctPctRaw === 'number' && acctPctRaw > 0)
-          ? acctPctRaw
-          : (typeof userPctRaw === 'number' && userPctRaw > 0 ? userPctRaw : 30);
-        const clickerAmount = (netAfterTax * (playerPct / 100));
-        
-        // Get agent data for commission calculation
-        const agent = await getDoc(doc(db, 'agents', account.agentId));
-        const agentData = agent.data();
-        
-        // Calculate Account Holder Amount
-        const accHolderAmount = agentData ? 
-          ((profitLoss * (agentData.commissionPercentage || 0)) / 100) + 
-          (agentData.flatCommission || 0) : 0;
-        
-        // Calculate Broker Amount if broker exists
-        let brokerAmount = 0;
-        if (broker && account.brokerId) {
-          if (broker.commissionType === 'percentage') {
-            brokerAmount = (profitLoss * (broker.commissionPercentage || 0)) / 100;
-          } else if (broker.commissionType === 'flat') {
-            brokerAmount = broker.flatCommission || 0;
-          } else if (broker.commissionType === 'both') {
-            brokerAmount = ((profitLoss * (broker.commissionPercentage || 0)) / 100) + 
-                          (broker.flatCommission || 0);
-          }
-        }
-        
-        // Calculate Referral Amount only if referralPercentage exists
-        const referralAmount = account.referralPercentage ? 
-          (profitLoss * account.referralPercentage) / 100 : 0;
-        
-        // Calculate Company Amount
-        const companyAmount = profitLoss - clickerAmount - accHolderAmount - brokerAmount - taxAmount - referralAmount;
-        
-        // Update all calculated amounts
-        setEditingEntry(prev => prev ? ({
-          ...prev,
-          profitLoss,
-          clickerAmount,
-          accHolderAmount,
-          brokerAmount,
-          companyAmount,
-          taxableAmount: taxAmount,
-          referralAmount
-        }) : null);
-      } catch (error) {
-        console.error('Error calculating amounts:', error);
-      }
-    };
 
-    calculateEditingAmounts();
+    setEditingEntry(prev => prev ? ({
+      ...prev,
+      ...splitFields(computeSplits(prev, account, agent, broker, { taxRate, clickerPercentage: userData.percentage, clickerTerms: userData.termsHistory }, roles))
+    }) : null);
   }, [
+    editingEntry?.date,
     editingEntry?.startingBalance,
     editingEntry?.endingBalance,
     editingEntry?.withdrawal,
     editingEntry?.refillAmount,
     editingEntry?.promoAmount,
     account,
+    agent,
+    roles,
     userData,
     taxRate,
     broker
@@ -333,11 +223,12 @@ export default function AccountEntry() {
       if (!id) return;
       
       const accountDoc = await getDoc(doc(db, 'accounts', id));
-      if (accountDoc.exists()) {
+      if (accountDoc.exists() && !isDeleted(accountDoc.data())) {
         const accountData = accountDoc.data();
         
         const agentDoc = await getDoc(doc(db, 'agents', accountData.agentId));
         const agentName = agentDoc.exists() ? agentDoc.data().name : 'Unknown Agent';
+        setAgent(agentDoc.exists() ? agentDoc.data() as SplitAgent : null);
         
         // Fetch broker data if exists
         let brokerName = '';
@@ -350,40 +241,37 @@ export default function AccountEntry() {
           // Fetch detailed broker data for calculations
           await fetchBrokerData(accountData.brokerId);
         }
+        const nextRoles: SplitRoles = {};
         if (accountData.brokeredById) {
           const b = await getDoc(doc(db, 'brokers', accountData.brokeredById));
           brokeredByName = b.exists() ? b.data().name : '';
+          nextRoles.brokeredBy = b.exists() ? b.data() as SplitBroker : null;
         }
         if (accountData.fundedById) {
           const b = await getDoc(doc(db, 'brokers', accountData.fundedById));
           fundedByName = b.exists() ? b.data().name : '';
+          nextRoles.fundedBy = b.exists() ? b.data() as SplitBroker : null;
         }
         if (accountData.referredById) {
           const b = await getDoc(doc(db, 'brokers', accountData.referredById));
           referredByName = b.exists() ? b.data().name : '';
+          nextRoles.referredBy = b.exists() ? b.data() as SplitBroker : null;
         }
+        setRoles(nextRoles);
         
-        // Check if account has any entries to determine status
-        let status = accountData.status || 'unused';
+        const status = accountStatus(accountData);
         const entriesQuery = query(
           collection(db, 'entries'),
           where('accountId', '==', id),
           where('playerUid', '==', userData?.uid)
         );
-        const entriesSnapshot = await getDocs(entriesQuery);
-        
-        if (entriesSnapshot.size > 0) {
-          status = 'active'; // Account has entries, set to active
-        } else if (status !== 'inactive') {
-          status = 'unused'; // No entries and not manually set to inactive
-        }
+        const liveEntries = (await getDocs(entriesQuery)).docs.filter(notDeleted);
         
         setAccount({
           id: accountDoc.id,
           type: accountData.type || 'pph',
           username: accountData.username,
           name: accountData.name,
-          websiteURL: accountData.websiteURL,
           agentId: accountData.agentId,
           agentName,
           brokerId: accountData.brokerId,
@@ -392,15 +280,17 @@ export default function AccountEntry() {
           depositAmount: accountData.depositAmount,
           referralPercentage: accountData.referralPercentage,
           promoAmount: accountData.promoAmount,
+          playerPercentage: accountData.playerPercentage,
           brokeredById: accountData.brokeredById,
           fundedById: accountData.fundedById,
           referredById: accountData.referredById,
           brokeredByName,
           fundedByName,
-          referredByName
+          referredByName,
+          ...pickOverrides(accountData)
         });
         
-        const entriesData = entriesSnapshot.docs.map(doc => ({
+        const entriesData = liveEntries.map(doc => ({
           id: doc.id,
           ...doc.data()
         })) as Entry[];
@@ -411,17 +301,20 @@ export default function AccountEntry() {
         if (todayEntry) {
           setCurrentEntry(todayEntry);
         } else {
-          // For PPH accounts, prefill starting balance with previous entry's ending
+          // For PPH accounts, prefill starting balance with previous entry's ending,
+          // or with the balance carried over when the account was handed over
           let prefillStarting = 0;
           if ((accountData.type || 'pph') === 'pph') {
             const sorted = [...entriesData].sort((a, b) => (b.date > a.date ? 1 : -1));
             if (sorted.length > 0) {
               prefillStarting = sorted[0].endingBalance || 0;
+            } else if (userData?.uid) {
+              prefillStarting = (await fetchCurrentAssignment(id, userData.uid))?.startingBalance || 0;
             }
           }
           setCurrentEntry(prev => ({
             ...prev,
-            accountStatus: status === 'unused' ? 'active' : status,
+            accountStatus: STOPPED_STATUSES.includes(status) ? 'inactive' : 'active',
             startingBalance: accountData.type === 'legal' ? (accountData.depositAmount || 0) : prefillStarting
           }));
         }
@@ -451,13 +344,30 @@ export default function AccountEntry() {
     }) : null);
   };
 
+  // Tells the clicker up front that a date is in a closed period. The rules
+  // refuse the write anyway (dateLocked reads the lockedDates markers)
+  const lockedPeriodMessage = (date: string) => {
+    const lock = lockCovering(date, locks);
+    return lock ? `${lock.from} to ${lock.to} is locked. Entries in it can no longer be added or changed.` : '';
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    saveEntry('draft');
+  };
+
+  const saveEntry = async (status: EntryStatus) => {
+    const locked = lockedPeriodMessage(currentEntry.date);
+    if (locked) {
+      window.alert(locked);
+      return;
+    }
     setSaving(true);
     
     try {
       const entryToSave = {
         ...currentEntry,
+        status,
         startingBalance: currentEntry.startingBalance || 0,
         endingBalance: currentEntry.endingBalance || 0,
         refillAmount: currentEntry.refillAmount || 0,
@@ -469,35 +379,38 @@ export default function AccountEntry() {
         companyAmount: currentEntry.companyAmount || 0,
         taxableAmount: currentEntry.taxableAmount || 0,
         referralAmount: currentEntry.referralAmount || 0,
+        funderWayAmount: currentEntry.funderWayAmount || 0,
         promoCode: currentEntry.promoCode || '',
         promoAmount: currentEntry.promoAmount || 0
       };
 
       if (currentEntry.id) {
-        await updateDoc(doc(db, 'entries', currentEntry.id), {
+        await auditedUpdate(doc(db, 'entries', currentEntry.id), {
           ...entryToSave,
           updatedAt: new Date()
         });
       } else {
-        await addDoc(collection(db, 'entries'), {
+        await auditedAdd(collection(db, 'entries'), {
           ...entryToSave,
           createdAt: new Date()
         });
-        
-        // If account was unused, update to active
-        if (account?.status === 'unused') {
-          await updateDoc(doc(db, 'accounts', id!), {
-            status: 'active',
-            updatedAt: new Date()
-          });
-        }
       }
-      
-      if (account && currentEntry.accountStatus !== account.status) {
-        await updateDoc(doc(db, 'accounts', id!), {
-          status: currentEntry.accountStatus,
-          updatedAt: new Date()
-        });
+
+      // The first entry makes an assigned account active, and the entry's
+      // account status toggle pauses or resumes it
+      let accountState = account?.status;
+      const moveTo = async (to: AccountStatus, reason: string) => {
+        if (!accountState || !CLICKER_MOVABLE_STATUSES.includes(accountState) || !canChangeStatus(accountState, to)) return;
+        await auditedUpdate(doc(db, 'accounts', id!), accountStatusUpdate({ status: accountState }, to, reason));
+        accountState = to;
+      };
+      if (!currentEntry.id && accountState === 'assigned') {
+        await moveTo('active', `First entry recorded for ${currentEntry.date}`);
+      }
+      if (currentEntry.accountStatus === 'inactive' && accountState && !STOPPED_STATUSES.includes(accountState)) {
+        await moveTo('paused', `Marked inactive on the ${currentEntry.date} entry`);
+      } else if (currentEntry.accountStatus === 'active' && accountState !== 'active') {
+        await moveTo('active', `Marked active on the ${currentEntry.date} entry`);
       }
       
       fetchAccountData(); // Refresh data to reflect changes
@@ -511,6 +424,11 @@ export default function AccountEntry() {
   const handleEditEntry = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingEntry) return;
+    const locked = lockedPeriodMessage(editingEntry.date);
+    if (locked) {
+      window.alert(locked);
+      return;
+    }
     
     setSaving(true);
     try {
@@ -527,11 +445,12 @@ export default function AccountEntry() {
         companyAmount: editingEntry.companyAmount || 0,
         taxableAmount: editingEntry.taxableAmount || 0,
         referralAmount: editingEntry.referralAmount || 0,
+        funderWayAmount: editingEntry.funderWayAmount || 0,
         promoCode: editingEntry.promoCode || '',
         promoAmount: editingEntry.promoAmount || 0
       };
 
-      await updateDoc(doc(db, 'entries', editingEntry.id!), {
+      await auditedUpdate(doc(db, 'entries', editingEntry.id!), {
         ...entryToSave,
         updatedAt: new Date()
       });
@@ -544,33 +463,26 @@ export default function AccountEntry() {
     }
   };
 
+  const handleSubmitEntry = async (entryId: string) => {
+    try {
+      await auditedUpdate(doc(db, 'entries', entryId), {
+        status: 'submitted',
+        updatedAt: new Date()
+      });
+      fetchAccountData();
+    } catch (error) {
+      console.error('Error submitting entry:', error);
+    }
+  };
+
   const handleDeleteEntry = async (entryId: string) => {
-    if (window.confirm('Are you sure you want to delete this entry?')) {
-      try {
-        await deleteDoc(doc(db, 'entries', entryId));
-        
-        // Check if this was the last entry
-        const entriesQuery = query(
-          collection(db, 'entries'),
-          where('accountId', '==', id),
-          where('playerUid', '==', userData?.uid)
-        );
-        const entriesSnapshot = await getDocs(entriesQuery);
-        
-        if (entriesSnapshot.size === 0) {
-          // No entries left, set account status to 'unused' if not manually set to inactive
-          if (account?.status !== 'inactive') {
-            await updateDoc(doc(db, 'accounts', id!), {
-              status: 'unused',
-              updatedAt: new Date()
-            });
-          }
-        }
-        
-        fetchAccountData();
-      } catch (error) {
-        console.error('Error deleting entry:', error);
-      }
+    try {
+      const plan = await planDelete(doc(db, 'entries', entryId));
+      if (!confirmDelete(plan, 'this entry')) return;
+      await moveToRecycleBin(plan);
+      fetchAccountData();
+    } catch (error) {
+      console.error('Error deleting entry:', error);
     }
   };
 
@@ -620,6 +532,31 @@ export default function AccountEntry() {
     </div>
   );
 
+  // Shows which rule produced each line of the split
+  const renderSplitRules = (entry: Entry) => {
+    const splits = computeSplits(entry, account, agent, broker, { taxRate, clickerPercentage: userData?.percentage, clickerTerms: userData?.termsHistory }, roles);
+    return (
+      <div className="bg-white/5 rounded-lg p-4 border border-purple-500/20">
+        <p className="text-sm font-medium text-gray-300 mb-2">Split Breakdown</p>
+        {splits.scenario && (
+          <p className="text-xs text-amber-400 mb-2">Scenario: {splits.scenario}</p>
+        )}
+        <div className="space-y-1">
+          {splits.lines.map((line) => (
+            <div key={line.party} className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">
+                {line.label} <span className="text-gray-500">({line.rule})</span>
+              </span>
+              <span className={line.amount >= 0 ? 'text-green-400' : 'text-red-400'}>
+                ${line.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-8">
       <div className="flex items-center justify-between">
@@ -663,6 +600,24 @@ export default function AccountEntry() {
                   Broker: {account.brokerName}
                 </p>
               )}
+              {account.brokeredByName && account.brokeredByName !== account.brokerName && (
+                <p className="text-amber-400 flex items-center">
+                  <Briefcase className="w-4 h-4 mr-1" />
+                  Brokered By: {account.brokeredByName}
+                </p>
+              )}
+              {account.fundedByName && (
+                <p className="text-amber-400 flex items-center">
+                  <Briefcase className="w-4 h-4 mr-1" />
+                  Funded By: {account.fundedByName}
+                </p>
+              )}
+              {account.referredByName && (
+                <p className="text-amber-400 flex items-center">
+                  <Briefcase className="w-4 h-4 mr-1" />
+                  Referred By: {account.referredByName}
+                </p>
+              )}
             </div>
             {account.type === 'legal' && account.depositAmount && (
               <p className="text-sm text-cyan-400">Starting Balance: ${account.depositAmount.toLocaleString()}</p>
@@ -701,24 +656,30 @@ export default function AccountEntry() {
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Account Status
               </label>
-              <div className="flex items-center space-x-4">
-                <button
-                  type="button"
-                  onClick={() => handleInputChange('accountStatus', currentEntry.accountStatus === 'active' ? 'inactive' : 'active')}
-                  className={`flex items-center space-x-2 px-4 py-3 rounded-lg transition-all duration-200 ${
-                    currentEntry.accountStatus === 'active'
-                      ? 'bg-green-500/20 text-green-400 border border-green-500/30'
-                      : 'bg-red-500/20 text-red-400 border border-red-500/30'
-                  }`}
-                >
-                  {currentEntry.accountStatus === 'active' ? (
-                    <ToggleRight className="w-5 h-5" />
-                  ) : (
-                    <ToggleLeft className="w-5 h-5" />
-                  )}
-                  <span className="capitalize">{currentEntry.accountStatus}</span>
-                </button>
-              </div>
+              {account.status && !CLICKER_MOVABLE_STATUSES.includes(account.status) ? (
+                <p className="px-4 py-3 rounded-lg bg-red-500/20 text-red-400 border border-red-500/30 text-sm">
+                  {ACCOUNT_STATUS_LABELS[account.status]}. Only staff can reopen this account.
+                </p>
+              ) : (
+                <div className="flex items-center space-x-4">
+                  <button
+                    type="button"
+                    onClick={() => handleInputChange('accountStatus', currentEntry.accountStatus === 'active' ? 'inactive' : 'active')}
+                    className={`flex items-center space-x-2 px-4 py-3 rounded-lg transition-all duration-200 ${
+                      currentEntry.accountStatus === 'active'
+                        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                    }`}
+                  >
+                    {currentEntry.accountStatus === 'active' ? (
+                      <ToggleRight className="w-5 h-5" />
+                    ) : (
+                      <ToggleLeft className="w-5 h-5" />
+                    )}
+                    <span className="capitalize">{currentEntry.accountStatus}</span>
+                  </button>
+                </div>
+              )}
             </div>
             
             <div>
@@ -859,46 +820,18 @@ export default function AccountEntry() {
             
             {renderAmountInput('Profit/Loss', currentEntry.profitLoss, true, currentEntry.profitLoss >= 0)}
             
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">
-                Clicker Settled
-              </label>
-              <select
-                value={currentEntry.clickerSettled}
-                onChange={(e) => handleInputChange('clickerSettled', e.target.value)}
-                className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:bg-gray-800"
-              >
-                <option className="bg-gray-800 text-white" value="No">No</option>
-                <option className="bg-gray-800 text-white" value="Yes">Yes</option>
-              </select>
-            </div>
-            
             {renderAmountInput('Clicker Amount', currentEntry.clickerAmount)}
             {renderAmountInput('Account Holder Amount', currentEntry.accHolderAmount)}
             
-            {account.brokerId && (
-              <>
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Broker Settled
-                  </label>
-                  <select
-                    value={currentEntry.brokerSettled}
-                    onChange={(e) => handleInputChange('brokerSettled', e.target.value)}
-                    className="w-full px-4 py-3 bg-white/5 border border-purple-500/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:bg-gray-800"
-                  >
-                    <option className="bg-gray-800 text-white" value="No">No</option>
-                    <option className="bg-gray-800 text-white" value="Yes">Yes</option>
-                  </select>
-                </div>
-                {renderAmountInput('Broker Amount', currentEntry.brokerAmount)}
-              </>
-            )}
+            {(account.brokerId || account.brokeredById) && renderAmountInput('Broker Way', currentEntry.brokerAmount)}
+            {account.fundedById && renderAmountInput('Funder Way', currentEntry.funderWayAmount || 0)}
             
             {renderAmountInput('Company Amount', currentEntry.companyAmount, true, currentEntry.companyAmount >= 0)}
             {renderAmountInput('Taxable Amount', currentEntry.taxableAmount, true, false)}
-            {account?.referralPercentage && renderAmountInput('Referral Amount', currentEntry.referralAmount)}
+            {(account.referralPercentage || account.referredById) && renderAmountInput('Referral Way', currentEntry.referralAmount)}
           </div>
+
+          {renderSplitRules(currentEntry)}
           
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -913,23 +846,43 @@ export default function AccountEntry() {
             />
           </div>
           
-          <div className="flex justify-end space-x-4">
-            <button
-              type="button"
-              onClick={() => navigate('/player/dashboard')}
-              className="px-6 py-3 text-gray-400 hover:text-white transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={saving}
-              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
-            >
-              <Save className="w-5 h-5" />
-              <span>{saving ? 'Saving...' : 'Save Entry'}</span>
-            </button>
-          </div>
+          {currentEntry.reviewNote && currentEntry.status === 'draft' && (
+            <p className="text-sm text-yellow-400">Sent back: {currentEntry.reviewNote}</p>
+          )}
+          
+          {currentEntry.id && !clickerCanEdit(currentEntry) ? (
+            <div className="flex justify-end items-center space-x-3">
+              <EntryStatusBadge entry={currentEntry} />
+              <span className="text-sm text-gray-400">This entry has been approved and can no longer be changed.</span>
+            </div>
+          ) : (
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => navigate('/player/dashboard')}
+                className="px-6 py-3 text-gray-400 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-white/10 hover:bg-white/20 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Save className="w-5 h-5" />
+                <span>{saving ? 'Saving...' : 'Save Draft'}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => saveEntry('submitted')}
+                disabled={saving}
+                className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white font-medium py-3 px-6 rounded-lg transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Send className="w-5 h-5" />
+                <span>Submit for Review</span>
+              </button>
+            </div>
+          )}
         </form>
       </div>
 
@@ -1017,11 +970,13 @@ export default function AccountEntry() {
                       {renderAmountInput('Profit/Loss', editingEntry?.profitLoss || 0, true, (editingEntry?.profitLoss || 0) >= 0)}
                       {renderAmountInput('Clicker Amount', editingEntry?.clickerAmount || 0)}
                       {renderAmountInput('Account Holder Amount', editingEntry?.accHolderAmount || 0)}
-                      {account.brokerId && renderAmountInput('Broker Amount', editingEntry?.brokerAmount || 0)}
+                      {(account.brokerId || account.brokeredById) && renderAmountInput('Broker Way', editingEntry?.brokerAmount || 0)}
+                      {account.fundedById && renderAmountInput('Funder Way', editingEntry?.funderWayAmount || 0)}
                       {renderAmountInput('Company Amount', editingEntry?.companyAmount || 0, true, (editingEntry?.companyAmount || 0) >= 0)}
                       {renderAmountInput('Taxable Amount', editingEntry?.taxableAmount || 0, true, false)}
-                      {account?.referralPercentage && renderAmountInput('Referral Amount', editingEntry?.referralAmount || 0)}
+                      {(account.referralPercentage || account.referredById) && renderAmountInput('Referral Way', editingEntry?.referralAmount || 0)}
                     </div>
+                    {editingEntry && renderSplitRules(editingEntry)}
                     <div>
                       <label className="block text-sm text-gray-400 mb-1">Notes</label>
                       <textarea
@@ -1055,6 +1010,10 @@ export default function AccountEntry() {
                       <div>
                         <p className="text-sm text-gray-400">Date</p>
                         <p className="text-white font-medium">{entry.date}</p>
+                        <div className="mt-1"><EntryStatusBadge entry={entry} /></div>
+                        {entry.reviewNote && entry.status === 'draft' && (
+                          <p className="text-xs text-yellow-400 mt-1">Sent back: {entry.reviewNote}</p>
+                        )}
                       </div>
                       <div>
                         <p className="text-sm text-gray-400">Starting Balance</p>
@@ -1071,20 +1030,31 @@ export default function AccountEntry() {
                         </p>
                       </div>
                     </div>
-                    <div className="flex items-center space-x-2 ml-4">
-                      <button
-                        onClick={() => setEditingEntry(entry)}
-                        className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => entry?.id && handleDeleteEntry(entry.id)}
-                        className="p-2 text-gray-400 hover:text-red-400 transition-colors"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
+                    {clickerCanEdit(entry) && (
+                      <div className="flex items-center space-x-2 ml-4">
+                        {entry.status === 'draft' && (
+                          <button
+                            onClick={() => entry?.id && handleSubmitEntry(entry.id)}
+                            className="p-2 text-gray-400 hover:text-green-400 transition-colors"
+                            title="Submit for review"
+                          >
+                            <Send className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingEntry(entry)}
+                          className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => entry?.id && handleDeleteEntry(entry.id)}
+                          className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
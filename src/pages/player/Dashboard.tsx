@@ -1,22 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { collection, getDocs, query, where, orderBy, updateDoc, deleteDoc, doc, getDoc } from 'firebase/firestore';
+import { collection, getDocs, query, where, orderBy, doc, getDoc, QuerySnapshot } from 'firebase/firestore';
 import { db } from '../../firebase';
+import { auditedUpdate } from '../../lib/audit';
+import { confirmDelete, moveToRecycleBin, notDeleted, planDelete } from '../../lib/recycle';
 import { useAuth } from '../../contexts/AuthContext';
-import { CreditCard, TrendingUp, Calendar, ExternalLink, Filter, Edit, Trash2, Save, X } from 'lucide-react';
+import { CreditCard, TrendingUp, Calendar, Filter, Edit, Trash2, Save, X, Send } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import VaultCredentials from '../../components/VaultCredentials';
+import { computeProfitLoss, computeSplits, splitFields } from '../../lib/commission';
+import { clickerCanEdit, fetchPeriodLocks, lockCovering, PeriodLock, WorkflowEntry } from '../../lib/workflow';
+import { ACCOUNT_STATUS_LABELS, STOPPED_STATUSES, accountStatus } from '../../lib/lifecycle';
+import EntryStatusBadge from '../../components/EntryStatusBadge';
+import LiveIndicator from '../../components/LiveIndicator';
+import { useLiveQueries } from '../../lib/live';
+import { loadRecords } from '../../lib/repository';
 
 interface Account {
   id: string;
   type: 'pph' | 'legal';
   username?: string;
   name?: string;
-  websiteURL?: string;
+  hasVaultCredentials?: boolean;
   agentName: string;
+  // Whether the account is still being worked; statusLabel has the lifecycle status
   status: 'active' | 'inactive';
+  statusLabel: string;
   depositAmount?: number;
+  promoAmount?: number;
 }
 
-interface Entry {
+interface Entry extends WorkflowEntry {
   id: string;
   accountId: string;
   date: string;
@@ -37,71 +50,75 @@ export default function PlayerDashboard() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [playerPercentage, setPlayerPercentage] = useState<number>(0);
+  const [taxRate, setTaxRate] = useState(10); // Default tax rate
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
 
   useEffect(() => {
     if (userData?.uid) {
-      fetchPlayerData();
       fetchPlayerPercentage();
+      fetchTaxRate();
+      fetchLocks();
     }
   }, [userData]);
 
-  const fetchPlayerData = async () => {
-    if (!userData?.uid) return;
-    
+  const fetchTaxRate = async () => {
     try {
-      // Fetch assigned accounts
-      const accountsQuery = query(collection(db, 'accounts'), where('assignedToPlayerUid', '==', userData.uid));
-      const accountsSnapshot = await getDocs(accountsQuery);
-      const accountsData = await Promise.all(
-        accountsSnapshot.docs.map(async (accountDoc) => {
-          const accountData = accountDoc.data();
-          
-          // Get agent name
-          try {
-            const agentDoc = await getDoc(doc(db, 'agents', accountData.agentId));
-            const agentName = agentDoc.exists() ? agentDoc.data().name : 'Unknown Agent';
-            
-            return {
-              id: accountDoc.id,
-              type: accountData.type || 'pph',
-              username: accountData.username,
-              name: accountData.name,
-              websiteURL: accountData.websiteURL,
-              agentName,
-              status: accountData.status || 'active',
-              depositAmount: accountData.depositAmount
-            };
-          } catch (error) {
-            console.error('Error fetching agent data:', error);
-            return {
-              id: accountDoc.id,
-              type: accountData.type || 'pph',
-              username: accountData.username,
-              name: accountData.name,
-              websiteURL: accountData.websiteURL,
-              agentName: 'Unknown Agent',
-              status: accountData.status || 'active',
-              depositAmount: accountData.depositAmount
-            };
-          }
-        })
-      );
+      const taxDoc = await getDoc(doc(db, 'settings', 'taxRate'));
+      if (taxDoc.exists()) {
+        setTaxRate(taxDoc.data().value);
+      }
+    } catch (error) {
+      console.error('Error fetching tax rate:', error);
+    }
+  };
+
+  const fetchLocks = async () => {
+    try {
+      setLocks(await fetchPeriodLocks());
+    } catch (error) {
+      console.error('Error fetching locked periods:', error);
+    }
+  };
+
+  // Assigned accounts and the clicker's own entries, followed live so
+  // assignment changes and reviews show up straight away
+  const updatedAt = useLiveQueries(
+    `player:${userData?.uid || ''}`,
+    userData?.uid
+      ? [
+          query(collection(db, 'accounts'), where('assignedToPlayerUid', '==', userData.uid)),
+          query(collection(db, 'entries'), where('playerUid', '==', userData.uid), orderBy('date', 'desc'))
+        ]
+      : [],
+    ([accountsSnapshot, entriesSnapshot]) => fetchPlayerData(accountsSnapshot, entriesSnapshot)
+  );
+
+  const fetchPlayerData = async (accountsSnapshot: QuerySnapshot, entriesSnapshot: QuerySnapshot) => {
+    try {
+      const accountDocs = accountsSnapshot.docs.filter(notDeleted);
+      const agents = await loadRecords('agents', accountDocs.map(accountDoc => accountDoc.data().agentId));
+      const accountsData = accountDocs.map((accountDoc) => {
+        const accountData = accountDoc.data();
+        return {
+          id: accountDoc.id,
+          type: accountData.type || 'pph',
+          username: accountData.username,
+          name: accountData.name,
+          hasVaultCredentials: accountData.hasVaultCredentials,
+          agentName: agents.get(accountData.agentId)?.name || 'Unknown Agent',
+          status: STOPPED_STATUSES.includes(accountStatus(accountData)) ? 'inactive' as const : 'active' as const,
+          statusLabel: ACCOUNT_STATUS_LABELS[accountStatus(accountData)],
+          depositAmount: accountData.depositAmount,
+          promoAmount: accountData.promoAmount
+        };
+      });
       setAccounts(accountsData);
   
-      // Fetch entries for assigned accounts with proper ordering
-      if (accountsData.length > 0) {
-        const entriesQuery = query(
-          collection(db, 'entries'), 
-          where('playerUid', '==', userData.uid),
-          orderBy('date', 'desc')
-        );
-        const entriesSnapshot = await getDocs(entriesQuery);
-        const entriesData = entriesSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Entry[];
-        setEntries(entriesData);
-      }
+      const entriesData = entriesSnapshot.docs.filter(notDeleted).map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Entry[];
+      setEntries(accountsData.length > 0 ? entriesData : []);
     } catch (error) {
       console.error('Error fetching player data:', error);
     } finally {
@@ -133,19 +150,44 @@ export default function PlayerDashboard() {
   const handleEditEntry = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingEntry) return;
+    const lock = lockCovering(editingEntry.date, locks);
+    if (lock) {
+      window.alert(`${lock.from} to ${lock.to} is locked. Entries in it can no longer be added or changed.`);
+      return;
+    }
     
     setSaving(true);
     try {
-      // Calculate profit/loss
-      const profitLoss = editingEntry.endingBalance - editingEntry.startingBalance + editingEntry.withdrawal - editingEntry.refillAmount;
+      // Recalculate the full split with the same engine the entry page uses
+      const accountDoc = await getDoc(doc(db, 'accounts', editingEntry.accountId));
+      const accountData = accountDoc.exists() ? accountDoc.data() : {};
+      const agentDoc = accountData.agentId ? await getDoc(doc(db, 'agents', accountData.agentId)) : null;
+      const brokerDoc = accountData.brokerId ? await getDoc(doc(db, 'brokers', accountData.brokerId)) : null;
+      const loadBroker = async (id?: string | null) => {
+        if (!id) return null;
+        const roleDoc = await getDoc(doc(db, 'brokers', id));
+        return roleDoc.exists() ? roleDoc.data() : null;
+      };
+      const roles = {
+        brokeredBy: await loadBroker(accountData.brokeredById),
+        fundedBy: await loadBroker(accountData.fundedById),
+        referredBy: await loadBroker(accountData.referredById)
+      };
+      const splits = computeSplits(
+        editingEntry,
+        accountData,
+        agentDoc?.exists() ? agentDoc.data() : null,
+        brokerDoc?.exists() ? brokerDoc.data() : null,
+        { taxRate, clickerPercentage: playerPercentage, clickerTerms: userData?.termsHistory },
+        roles
+      );
       
-      await updateDoc(doc(db, 'entries', editingEntry.id), {
+      await auditedUpdate(doc(db, 'entries', editingEntry.id), {
         ...editingEntry,
-        profitLoss,
+        ...splitFields(splits),
         updatedAt: new Date()
       });
       setEditingEntry(null);
-      fetchPlayerData();
     } catch (error) {
       console.error('Error updating entry:', error);
     } finally {
@@ -153,14 +195,24 @@ export default function PlayerDashboard() {
     }
   };
 
+  const handleSubmitEntry = async (entryId: string) => {
+    try {
+      await auditedUpdate(doc(db, 'entries', entryId), {
+        status: 'submitted',
+        updatedAt: new Date()
+      });
+    } catch (error) {
+      console.error('Error submitting entry:', error);
+    }
+  };
+
   const handleDeleteEntry = async (entryId: string) => {
-    if (window.confirm('Are you sure you want to delete this entry?')) {
-      try {
-        await deleteDoc(doc(db, 'entries', entryId));
-        fetchPlayerData();
-      } catch (error) {
-        console.error('Error deleting entry:', error);
-      }
+    try {
+      const plan = await planDelete(doc(db, 'entries', entryId));
+      if (!confirmDelete(plan, 'this entry')) return;
+      await moveToRecycleBin(plan);
+    } catch (error) {
+      console.error('Error deleting entry:', error);
     }
   };
 
@@ -188,6 +240,7 @@ export default function PlayerDashboard() {
           Clicker's Dashboard
         </h1>
         <p className="text-cyberpunk-yellow mt-1">Welcome back, {userData?.name}!</p>
+        <div className="mt-2"><LiveIndicator updatedAt={updatedAt} /></div>
       </div>
 
       {/* Stats Cards */}
@@ -320,7 +373,7 @@ export default function PlayerDashboard() {
                               ? 'bg-cyberpunk-green/20 text-cyberpunk-green' 
                               : 'bg-cyberpunk-red/20 text-cyberpunk-red'
                           }`}>
-                            {account.status}
+                            {account.statusLabel}
                           </span>
                         </div>
                       </div>
@@ -330,18 +383,8 @@ export default function PlayerDashboard() {
                 </div>
                 
                 <div className="space-y-3">
-                  {account.type === 'pph' && account.websiteURL && (
-                    <div className="flex items-center space-x-2">
-                      <ExternalLink className="w-4 h-4 text-gray-400" />
-                      <a
-                        href={account.websiteURL}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-cyberpunk-blue hover:text-cyberpunk-blue-light transition-colors text-xs lg:text-sm truncate"
-                      >
-                        {account.websiteURL}
-                      </a>
-                    </div>
+                  {account.type === 'pph' && account.hasVaultCredentials && (
+                    <VaultCredentials accountId={account.id} />
                   )}
                   
                   {account.type === 'legal' && account.depositAmount && (
@@ -455,9 +498,9 @@ export default function PlayerDashboard() {
                           <input
                             type="number"
                             step="0.01"
-                            value={editingEntry.endingBalance - editingEntry.startingBalance + editingEntry.withdrawal - editingEntry.refillAmount}
+                            value={computeProfitLoss(editingEntry, account)}
                             className={`w-full px-3 py-2 bg-white/5 border border-cyberpunk-violet/20 rounded text-sm cursor-not-allowed ${
-                              (editingEntry.endingBalance - editingEntry.startingBalance + editingEntry.withdrawal - editingEntry.refillAmount) >= 0 ? 'text-cyberpunk-green' : 'text-cyberpunk-red'
+                              computeProfitLoss(editingEntry, account) >= 0 ? 'text-cyberpunk-green' : 'text-cyberpunk-red'
                             }`}
                             disabled
                           />
@@ -497,8 +540,14 @@ export default function PlayerDashboard() {
                           <p className="font-medium text-white">
                             {account?.type === 'pph' ? account?.username : account?.name}
                           </p>
-                          <p className="text-sm text-gray-400">{entry.date}</p>
+                          <div className="flex items-center space-x-2">
+                            <EntryStatusBadge entry={entry} />
+                            <p className="text-sm text-gray-400">{entry.date}</p>
+                          </div>
                         </div>
+                        {entry.reviewNote && entry.status === 'draft' && (
+                          <p className="text-xs text-yellow-400 mb-2">Sent back: {entry.reviewNote}</p>
+                        )}
                         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
                           <div>
                             <p className="text-gray-400">Starting</p>
@@ -514,20 +563,31 @@ export default function PlayerDashboard() {
                               ${entry.profitLoss.toLocaleString()}
                             </p>
                           </div>
-                          <div className="flex items-center justify-end space-x-2 lg:justify-start">
-                            <button
-                              onClick={() => setEditingEntry(entry)}
-                              className="p-2 text-gray-400 hover:text-cyberpunk-blue transition-colors"
-                            >
-                              <Edit className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDeleteEntry(entry.id)}
-                              className="p-2 text-gray-400 hover:text-cyberpunk-red transition-colors"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
+                          {clickerCanEdit(entry) && (
+                            <div className="flex items-center justify-end space-x-2 lg:justify-start">
+                              {entry.status === 'draft' && (
+                                <button
+                                  onClick={() => handleSubmitEntry(entry.id)}
+                                  className="p-2 text-gray-400 hover:text-cyberpunk-green transition-colors"
+                                  title="Submit for review"
+                                >
+                                  <Send className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => setEditingEntry(entry)}
+                                className="p-2 text-gray-400 hover:text-cyberpunk-blue transition-colors"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDeleteEntry(entry.id)}
+                                className="p-2 text-gray-400 hover:text-cyberpunk-red transition-colors"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,497 @@
+/*
+  Firestore security rules, checked against the local emulator.
+  Run: npm run test:rules
+  (starts the Firestore emulator, which needs Java 11+, and runs this file)
+*/
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, deleteDoc, deleteField, doc, getDoc, getDocs, query, serverTimestamp, setDoc, updateDoc, where } from 'firebase/firestore';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const ADMIN = 'admin-1';
+const BOOKKEEPER = 'bookkeeper-1';
+const ASSIGNMENT_MANAGER = 'assignments-1';
+const AUDITOR = 'auditor-1';
+const CLICKER = 'clicker-1';
+const OTHER_CLICKER = 'clicker-2';
+const HOLDER = 'holder-1';
+const BROKER = 'broker-login-1';
+
+let testEnv;
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-vjack',
+    firestore: {
+      rules: fs.readFileSync(path.resolve(__dirname, '../firestore.rules'), 'utf8')
+    }
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, 'users', ADMIN), { uid: ADMIN, role: 'admin', name: 'Admin' });
+    await setDoc(doc(db, 'users', BOOKKEEPER), { uid: BOOKKEEPER, role: 'admin', adminRole: 'bookkeeper' });
+    await setDoc(doc(db, 'users', ASSIGNMENT_MANAGER), { uid: ASSIGNMENT_MANAGER, role: 'admin', adminRole: 'assignmentManager' });
+    await setDoc(doc(db, 'users', AUDITOR), { uid: AUDITOR, role: 'admin', adminRole: 'auditor' });
+    await setDoc(doc(db, 'users', CLICKER), { uid: CLICKER, role: 'player', name: 'Clicker', percentage: 50 });
+    await setDoc(doc(db, 'users', OTHER_CLICKER), { uid: OTHER_CLICKER, role: 'player', name: 'Other' });
+    await setDoc(doc(db, 'users', HOLDER), { uid: HOLDER, role: 'agent', agentId: 'agent-1', name: 'Agent' });
+    await setDoc(doc(db, 'users', BROKER), { uid: BROKER, role: 'broker', brokerId: 'broker-1', name: 'Broker' });
+    await setDoc(doc(db, 'accounts', 'mine'), { username: 'mine', agentId: 'agent-1', assignedToPlayerUid: CLICKER, status: 'unused' });
+    await setDoc(doc(db, 'accounts', 'theirs'), { username: 'theirs', agentId: 'agent-1', assignedToPlayerUid: OTHER_CLICKER, status: 'active' });
+    await setDoc(doc(db, 'entries', 'my-entry'), { accountId: 'mine', playerUid: CLICKER, date: '2025-01-01', status: 'draft' });
+    await setDoc(doc(db, 'entries', 'their-entry'), { accountId: 'theirs', playerUid: OTHER_CLICKER, date: '2025-01-01', status: 'draft' });
+    await setDoc(doc(db, 'entries', 'deleted-entry'), { accountId: 'mine', playerUid: CLICKER, date: '2024-12-31', deletedAt: new Date() });
+    await setDoc(doc(db, 'entries', 'submitted-entry'), { accountId: 'mine', playerUid: CLICKER, date: '2025-01-03', status: 'submitted' });
+    await setDoc(doc(db, 'entries', 'approved-entry'), { accountId: 'mine', playerUid: CLICKER, date: '2024-12-30', status: 'approved' });
+    await setDoc(doc(db, 'entries', 'locked-entry'), { accountId: 'mine', playerUid: CLICKER, date: '2024-12-01', status: 'approved', periodLockId: 'lock-1' });
+    await setDoc(doc(db, 'periodLocks', 'lock-1'), { from: '2024-12-01', to: '2024-12-07', lockedBy: ADMIN });
+    await setDoc(doc(db, 'lockedDates', '2024-12-05'), { lockId: 'lock-1' });
+    await setDoc(doc(db, 'users', 'deleted-clicker'), { uid: 'deleted-clicker', role: 'player', name: 'Gone', deletedAt: new Date() });
+    await setDoc(doc(db, 'agents', 'agent-1'), { name: 'Agent', percentage: 20 });
+    await setDoc(doc(db, 'brokers', 'broker-1'), { name: 'Broker', percentage: 10 });
+    await setDoc(doc(db, 'settings', 'taxRate'), { value: 30 });
+    await setDoc(doc(db, 'settings', 'global'), { theme: 'dark' });
+    await setDoc(doc(db, 'settlements', 's-1'), { partyType: 'broker', partyId: 'broker-1', amount: 10 });
+    await setDoc(doc(db, 'vault', 'mine'), { ciphertext: 'x' });
+    await setDoc(doc(db, 'vaultAccessLog', 'log-1'), { accountId: 'mine', action: 'reveal', uid: CLICKER });
+    await setDoc(doc(db, 'invites', 'hash-1'), { playerId: 'p-1', email: 'new@example.com' });
+    await setDoc(doc(db, 'assignments', 'mine-1'), { accountId: 'mine', playerUid: CLICKER, from: '2024-12-01', to: null });
+    await setDoc(doc(db, 'assignments', 'theirs-1'), { accountId: 'theirs', playerUid: OTHER_CLICKER, from: '2024-12-01', to: null });
+    await setDoc(doc(db, 'rollups', '2025-01-01'), { date: '2025-01-01', totals: { entries: 2 } });
+    await setDoc(doc(db, 'rollupState', 'cursor'), { at: new Date() });
+    await setDoc(doc(db, 'auditLog', 'audit-1'), { actorUid: CLICKER, action: 'update', path: 'entries/my-entry', at: new Date() });
+  });
+});
+
+const as = (uid) => testEnv.authenticatedContext(uid).firestore();
+const anonymous = () => testEnv.unauthenticatedContext().firestore();
+
+describe('signed out', () => {
+  it('cannot read anything', async () => {
+    await assertFails(getDoc(doc(anonymous(), 'accounts', 'mine')));
+    await assertFails(getDoc(doc(anonymous(), 'users', CLICKER)));
+    await assertFails(getDoc(doc(anonymous(), 'invites', 'hash-1')));
+  });
+});
+
+describe('admin', () => {
+  it('reads and writes the ledger', async () => {
+    const db = as(ADMIN);
+    await assertSucceeds(getDocs(collection(db, 'accounts')));
+    await assertSucceeds(getDocs(collection(db, 'entries')));
+    await assertSucceeds(setDoc(doc(db, 'agents', 'agent-2'), { name: 'New Agent' }));
+    await assertSucceeds(updateDoc(doc(db, 'users', CLICKER), { percentage: 40 }));
+    await assertSucceeds(setDoc(doc(db, 'settings', 'taxRate'), { value: 25 }));
+    await assertSucceeds(getDocs(collection(db, 'settlements')));
+    await assertSucceeds(setDoc(doc(db, 'imports', 'batch-1', 'previous', 'accounts__mine'), { collection: 'accounts', id: 'mine', data: {} }));
+  });
+
+  it('reads the vault access log but cannot write it', async () => {
+    const db = as(ADMIN);
+    await assertSucceeds(getDocs(collection(db, 'vaultAccessLog')));
+    await assertFails(setDoc(doc(db, 'vaultAccessLog', 'forged'), { action: 'reveal' }));
+  });
+
+  it('cannot read the vault directly', async () => {
+    await assertFails(getDoc(doc(as(ADMIN), 'vault', 'mine')));
+  });
+});
+
+describe('bookkeeper', () => {
+  it('records payments, changes terms and the tax rate', async () => {
+    const db = as(BOOKKEEPER);
+    await assertSucceeds(setDoc(doc(db, 'settlements', 's-2'), { partyType: 'broker', partyId: 'broker-1', amount: 5 }));
+    await assertSucceeds(updateDoc(doc(db, 'agents', 'agent-1'), { commissionPercentage: 25, termsHistory: [], updatedAt: new Date() }));
+    await assertSucceeds(updateDoc(doc(db, 'users', CLICKER), { percentage: 45, termsHistory: [] }));
+    await assertSucceeds(setDoc(doc(db, 'settings', 'taxRate'), { value: 25 }));
+  });
+
+  it('cannot rename parties, manage accounts or assign them', async () => {
+    const db = as(BOOKKEEPER);
+    await assertFails(updateDoc(doc(db, 'agents', 'agent-1'), { name: 'Renamed' }));
+    await assertFails(setDoc(doc(db, 'accounts', 'new'), { username: 'new' }));
+    await assertFails(updateDoc(doc(db, 'accounts', 'mine'), { assignedToPlayerUid: OTHER_CLICKER }));
+    await assertFails(updateDoc(doc(db, 'users', CLICKER), { name: 'Renamed' }));
+  });
+});
+
+describe('assignment manager', () => {
+  it('assigns accounts and manages clickers', async () => {
+    const db = as(ASSIGNMENT_MANAGER);
+    await assertSucceeds(updateDoc(doc(db, 'accounts', 'theirs'), { assignedToPlayerUid: CLICKER, updatedAt: new Date() }));
+    await assertSucceeds(updateDoc(doc(db, 'accounts', 'mine'), {
+      assignedToPlayerUid: null,
+      status: 'unused',
+      statusHistory: [{ from: 'assigned', to: 'unused', reason: 'Unassigned' }],
+      updatedAt: new Date()
+    }));
+    await assertFails(updateDoc(doc(db, 'accounts', 'theirs'), { status: 'closed', statusHistory: [{ to: 'closed' }] }));
+    await assertSucceeds(setDoc(doc(db, 'players', 'p-2'), { name: 'New', email: 'p2@example.com', status: 'pending' }));
+    await assertSucceeds(getDoc(doc(db, 'invites', 'hash-1')));
+    await assertSucceeds(setDoc(doc(db, 'invites', 'hash-2'), { playerId: 'p-2', name: 'New', email: 'p2@example.com' }));
+  });
+
+  it('cannot issue portal invites', async () => {
+    const db = as(ASSIGNMENT_MANAGER);
+    await assertFails(setDoc(doc(db, 'invites', 'hash-3'), { role: 'agent', agentId: 'agent-1', name: 'Me', email: 'me@example.com' }));
+    await assertFails(setDoc(doc(db, 'invites', 'hash-4'), { role: 'broker', brokerId: 'broker-1', name: 'Me', email: 'me@example.com' }));
+    await assertFails(setDoc(doc(db, 'invites', 'hash-5'), { playerId: 'p-2', role: 'agent', agentId: 'agent-1', email: 'me@example.com' }));
+    await assertSucceeds(setDoc(doc(as(ADMIN), 'invites', 'hash-6'), { role: 'agent', agentId: 'agent-1', name: 'Agent', email: 'a@example.com', createdBy: ADMIN }));
+    await assertFails(setDoc(doc(as(ADMIN), 'invites', 'hash-9'), { role: 'agent', agentId: 'agent-1', name: 'Agent', email: 'a@example.com', createdBy: ASSIGNMENT_MANAGER }));
+    await assertFails(setDoc(doc(as(ADMIN), 'invites', 'hash-7'), { role: 'admin', name: 'Me', email: 'me@example.com' }));
+    await assertFails(setDoc(doc(as(ADMIN), 'invites', 'hash-8'), { role: 'broker', brokerId: 'missing', name: 'Me', email: 'me@example.com' }));
+  });
+
+  it('cannot change terms, accounts or payments', async () => {
+    const db = as(ASSIGNMENT_MANAGER);
+    await assertFails(updateDoc(doc(db, 'accounts', 'theirs'), { deal: 'better' }));
+    await assertFails(updateDoc(doc(db, 'users', CLICKER), { percentage: 90 }));
+    await assertFails(setDoc(doc(db, 'settlements', 's-2'), { amount: 5 }));
+    await assertFails(setDoc(doc(db, 'settings', 'taxRate'), { value: 0 }));
+  });
+});
+
+describe('auditor', () => {
+  it('reads everything staff can see', async () => {
+    const db = as(AUDITOR);
+    await assertSucceeds(getDocs(collection(db, 'accounts')));
+    await assertSucceeds(getDocs(collection(db, 'entries')));
+    await assertSucceeds(getDocs(collection(db, 'settlements')));
+    await assertSucceeds(getDocs(collection(db, 'vaultAccessLog')));
+  });
+
+  it('cannot write anything', async () => {
+    const db = as(AUDITOR);
+    await assertFails(updateDoc(doc(db, 'accounts', 'mine'), { status: 'inactive' }));
+    await assertFails(updateDoc(doc(db, 'agents', 'agent-1'), { commissionPercentage: 0 }));
+    await assertFails(setDoc(doc(db, 'settlements', 's-2'), { amount: 5 }));
+    await assertFails(setDoc(doc(db, 'imports', 'batch-2'), { status: 'pending' }));
+  });
+});
+
+describe('staff roles', () => {
+  it('only owners change them', async () => {
+    await assertSucceeds(updateDoc(doc(as(ADMIN), 'users', AUDITOR), { adminRole: 'bookkeeper' }));
+    await assertFails(updateDoc(doc(as(BOOKKEEPER), 'users', BOOKKEEPER), { adminRole: 'owner' }));
+    await assertFails(updateDoc(doc(as(ASSIGNMENT_MANAGER), 'users', CLICKER), { role: 'admin' }));
+  });
+
+  it('grant nothing when the role is not one we know', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'users', 'mistyped'), { uid: 'mistyped', role: 'admin', adminRole: 'bookeeper' });
+    });
+    const db = as('mistyped');
+    await assertFails(setDoc(doc(db, 'settings', 'taxRate'), { value: 0 }));
+    await assertFails(setDoc(doc(db, 'accounts', 'new'), { username: 'new' }));
+    await assertFails(updateDoc(doc(db, 'users', AUDITOR), { adminRole: 'owner' }));
+  });
+});
+
+describe('clicker', () => {
+  it('reads only assigned accounts', async () => {
+    const db = as(CLICKER);
+    await assertSucceeds(getDoc(doc(db, 'accounts', 'mine')));
+    await assertSucceeds(getDocs(query(collection(db, 'accounts'), where('assignedToPlayerUid', '==', CLICKER))));
+    await assertFails(getDoc(doc(db, 'accounts', 'theirs')));
+    await assertFails(getDocs(collection(db, 'accounts')));
+  });
+
+  it('only changes the status of an assigned account', async () => {
+    const db = as(CLICKER);
+    const change = (to) => ({ status: to, statusHistory: [{ from: 'assigned', to, reason: 'test' }], updatedAt: new Date() });
+    await assertSucceeds(updateDoc(doc(db, 'accounts', 'mine'), change('active')));
+    await assertFails(updateDoc(doc(db, 'accounts', 'mine'), { assignedToPlayerUid: OTHER_CLICKER }));
+    await assertFails(updateDoc(doc(db, 'accounts', 'mine'), change('closed')));
+    await assertFails(updateDoc(doc(db, 'accounts', 'theirs'), change('paused')));
+    await assertFails(setDoc(doc(db, 'accounts', 'new'), { assignedToPlayerUid: CLICKER }));
+  });
+
+  it('cannot reopen a limited or closed account', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const admin = context.firestore();
+      await setDoc(doc(admin, 'accounts', 'limited'), { username: 'limited', assignedToPlayerUid: CLICKER, status: 'limited', statusHistory: [] });
+      await setDoc(doc(admin, 'accounts', 'closed'), { username: 'closed', assignedToPlayerUid: CLICKER, status: 'closed', statusHistory: [] });
+    });
+    const db = as(CLICKER);
+    const change = (to) => ({ status: to, statusHistory: [{ to, reason: 'test' }], updatedAt: new Date() });
+    await assertFails(updateDoc(doc(db, 'accounts', 'limited'), change('active')));
+    await assertFails(updateDoc(doc(db, 'accounts', 'closed'), change('paused')));
+  });
+
+  it('reads only their own entries', async () => {
+    const db = as(CLICKER);
+    await assertSucceeds(getDocs(query(collection(db, 'entries'), where('playerUid', '==', CLICKER))));
+    await assertSucceeds(getDocs(query(collection(db, 'entries'), where('accountId', '==', 'mine'), where('playerUid', '==', CLICKER))));
+    await assertFails(getDoc(doc(db, 'entries', 'their-entry')));
+    await assertFails(getDocs(collection(db, 'entries')));
+  });
+
+  it('creates entries only for themselves on assigned accounts', async () => {
+    const db = as(CLICKER);
+    await assertSucceeds(setDoc(doc(db, 'entries', 'new-1'), { status: 'draft', accountId: 'mine', playerUid: CLICKER, date: '2025-01-02' }));
+    await assertFails(setDoc(doc(db, 'entries', 'new-2'), { status: 'draft', accountId: 'mine', playerUid: OTHER_CLICKER, date: '2025-01-02' }));
+    await assertFails(setDoc(doc(db, 'entries', 'new-3'), { status: 'draft', accountId: 'theirs', playerUid: CLICKER, date: '2025-01-02' }));
+  });
+
+  it('edits and deletes only their own entries', async () => {
+    const db = as(CLICKER);
+    await assertSucceeds(updateDoc(doc(db, 'entries', 'my-entry'), { endingBalance: 100 }));
+    await assertFails(updateDoc(doc(db, 'entries', 'my-entry'), { playerUid: OTHER_CLICKER }));
+    await assertFails(updateDoc(doc(db, 'entries', 'my-entry'), { accountId: 'theirs' }));
+    await assertFails(updateDoc(doc(db, 'entries', 'their-entry'), { endingBalance: 100 }));
+    await assertFails(updateDoc(doc(db, 'entries', 'their-entry'), { deletedAt: new Date(), deletedBy: CLICKER }));
+    await assertSucceeds(updateDoc(doc(db, 'entries', 'my-entry'), { deletedAt: new Date(), deletedBy: CLICKER }));
+  });
+
+  it('cannot remove entries for good', async () => {
+    const db = as(CLICKER);
+    await assertFails(deleteDoc(doc(db, 'entries', 'my-entry')));
+    await assertFails(deleteDoc(doc(db, 'entries', 'deleted-entry')));
+  });
+
+  it('fetches agents, brokers and the tax rate by id without editing them', async () => {
+    const db = as(CLICKER);
+    await assertSucceeds(getDoc(doc(db, 'agents', 'agent-1')));
+    await assertSucceeds(getDoc(doc(db, 'brokers', 'broker-1')));
+    await assertSucceeds(getDoc(doc(db, 'settings', 'taxRate')));
+    await assertFails(getDocs(collection(db, 'agents')));
+    await assertFails(getDocs(collection(db, 'brokers')));
+    await assertFails(getDoc(doc(db, 'settings', 'global')));
+    await assertFails(updateDoc(doc(db, 'agents', 'agent-1'), { percentage: 0 }));
+    await assertFails(setDoc(doc(db, 'brokers', 'broker-2'), { name: 'Me' }));
+    await assertFails(setDoc(doc(db, 'settings', 'taxRate'), { value: 0 }));
+  });
+
+  it('reads their own user document only and cannot change it', async () => {
+    const db = as(CLICKER);
+    await assertSucceeds(getDoc(doc(db, 'users', CLICKER)));
+    await assertSucceeds(getDocs(query(collection(db, 'users'), where('uid', '==', CLICKER))));
+    await assertFails(getDoc(doc(db, 'users', OTHER_CLICKER)));
+    await assertFails(getDocs(collection(db, 'users')));
+    await assertFails(updateDoc(doc(db, 'users', CLICKER), { role: 'admin' }));
+    await assertFails(updateDoc(doc(db, 'users', CLICKER), { percentage: 100 }));
+  });
+
+  it('cannot reach admin-only collections', async () => {
+    const db = as(CLICKER);
+    await assertFails(getDocs(collection(db, 'players')));
+    await assertFails(getDocs(collection(db, 'settlements')));
+    await assertFails(getDocs(collection(db, 'imports')));
+    await assertFails(getDoc(doc(db, 'invites', 'hash-1')));
+    await assertFails(getDocs(collection(db, 'vaultAccessLog')));
+    await assertFails(getDoc(doc(db, 'vault', 'mine')));
+  });
+});
+
+describe('account holder', () => {
+  it('reads only their own user document', async () => {
+    const db = as(HOLDER);
+    await assertSucceeds(getDoc(doc(db, 'users', HOLDER)));
+    await assertFails(getDoc(doc(db, 'users', CLICKER)));
+    await assertFails(updateDoc(doc(db, 'users', HOLDER), { agentId: 'agent-2' }));
+  });
+
+  it('has no direct access to the ledger', async () => {
+    const db = as(HOLDER);
+    await assertFails(getDoc(doc(db, 'accounts', 'mine')));
+    await assertFails(getDocs(query(collection(db, 'accounts'), where('agentId', '==', 'agent-1'))));
+    await assertFails(getDoc(doc(db, 'entries', 'my-entry')));
+    await assertFails(getDoc(doc(db, 'agents', 'agent-1')));
+    await assertFails(getDocs(collection(db, 'settlements')));
+    await assertFails(getDoc(doc(db, 'vault', 'mine')));
+  });
+});
+
+describe('broker', () => {
+  it('has no direct access to the ledger', async () => {
+    const db = as(BROKER);
+    await assertSucceeds(getDoc(doc(db, 'users', BROKER)));
+    await assertFails(getDocs(query(collection(db, 'accounts'), where('brokerId', '==', 'broker-1'))));
+    await assertFails(getDoc(doc(db, 'entries', 'their-entry')));
+    await assertFails(getDoc(doc(db, 'brokers', 'broker-1')));
+    await assertFails(getDocs(query(collection(db, 'settlements'), where('partyId', '==', 'broker-1'))));
+  });
+});
+
+describe('entry workflow', () => {
+  it('keeps reviewed entries out of a clicker\'s hands', async () => {
+    const db = as(CLICKER);
+    await assertSucceeds(updateDoc(doc(db, 'entries', 'my-entry'), { status: 'submitted' }));
+    await assertSucceeds(updateDoc(doc(db, 'entries', 'submitted-entry'), { status: 'draft' }));
+    await assertFails(updateDoc(doc(db, 'entries', 'submitted-entry'), { status: 'approved' }));
+    await assertFails(updateDoc(doc(db, 'entries', 'approved-entry'), { endingBalance: 100 }));
+    await assertFails(updateDoc(doc(db, 'entries', 'approved-entry'), { deletedAt: new Date(), deletedBy: CLICKER }));
+    await assertFails(setDoc(doc(db, 'entries', 'new-4'), { accountId: 'mine', playerUid: CLICKER, date: '2025-01-02', status: 'approved' }));
+  });
+
+  it('lets reviewers approve or send back submitted entries', async () => {
+    const review = (status) => ({ status, reviewedBy: BOOKKEEPER, reviewedAt: new Date(), reviewNote: '' });
+    await assertSucceeds(updateDoc(doc(as(BOOKKEEPER), 'entries', 'submitted-entry'), review('approved')));
+    await assertFails(updateDoc(doc(as(BOOKKEEPER), 'entries', 'locked-entry'), review('approved')));
+    await assertFails(updateDoc(doc(as(ASSIGNMENT_MANAGER), 'entries', 'submitted-entry'), review('approved')));
+    await assertFails(updateDoc(doc(as(AUDITOR), 'entries', 'submitted-entry'), review('draft')));
+  });
+
+  it('lets the ledger move approved entries to settled', async () => {
+    await assertSucceeds(updateDoc(doc(as(BOOKKEEPER), 'entries', 'approved-entry'), { status: 'settled' }));
+    await assertSucceeds(updateDoc(doc(as(BOOKKEEPER), 'entries', 'locked-entry'), { status: 'settled' }));
+    await assertFails(updateDoc(doc(as(AUDITOR), 'entries', 'approved-entry'), { status: 'settled' }));
+  });
+
+  it('freezes entries in a locked period', async () => {
+    await assertFails(updateDoc(doc(as(ADMIN), 'entries', 'locked-entry'), { endingBalance: 100 }));
+    await assertFails(updateDoc(doc(as(ADMIN), 'entries', 'locked-entry'), { deletedAt: new Date(), deletedBy: ADMIN }));
+    await assertFails(updateDoc(doc(as(CLICKER), 'entries', 'locked-entry'), { status: 'draft' }));
+    await assertSucceeds(updateDoc(doc(as(BOOKKEEPER), 'entries', 'locked-entry'), { periodLockId: null }));
+  });
+
+  it('keeps clickers from dating entries into a locked period', async () => {
+    const db = as(CLICKER);
+    const entry = { status: 'draft', accountId: 'mine', playerUid: CLICKER };
+    await assertFails(setDoc(doc(db, 'entries', 'new-5'), { ...entry, date: '2024-12-05' }));
+    await assertFails(setDoc(doc(db, 'entries', 'new-6'), { ...entry, date: '2025-01-02', periodLockId: 'lock-9' }));
+    await assertFails(updateDoc(doc(db, 'entries', 'my-entry'), { date: '2024-12-05' }));
+    await assertFails(updateDoc(doc(db, 'entries', 'my-entry'), { periodLockId: 'lock-9' }));
+    await assertSucceeds(updateDoc(doc(db, 'entries', 'my-entry'), { date: '2025-01-04' }));
+  });
+
+  it('lets reviewers set the flag thresholds', async () => {
+    await assertSucceeds(setDoc(doc(as(BOOKKEEPER), 'settings', 'review'), { profitThreshold: 500 }));
+    await assertFails(setDoc(doc(as(ASSIGNMENT_MANAGER), 'settings', 'review'), { profitThreshold: 500 }));
+    await assertFails(getDoc(doc(as(CLICKER), 'settings', 'review')));
+  });
+
+  it('lets reviewers manage locked periods', async () => {
+    await assertSucceeds(getDoc(doc(as(CLICKER), 'periodLocks', 'lock-1')));
+    await assertSucceeds(setDoc(doc(as(BOOKKEEPER), 'periodLocks', 'lock-2'), { from: '2024-12-08', to: '2024-12-14', lockedBy: BOOKKEEPER }));
+    await assertFails(setDoc(doc(as(ASSIGNMENT_MANAGER), 'periodLocks', 'lock-3'), { from: '2024-12-15', to: '2024-12-21' }));
+    await assertFails(deleteDoc(doc(as(CLICKER), 'periodLocks', 'lock-1')));
+    await assertSucceeds(getDoc(doc(as(CLICKER), 'lockedDates', '2024-12-05')));
+    await assertSucceeds(setDoc(doc(as(BOOKKEEPER), 'lockedDates', '2024-12-08'), { lockId: 'lock-2' }));
+    await assertFails(deleteDoc(doc(as(CLICKER), 'lockedDates', '2024-12-05')));
+  });
+});
+
+describe('recycle bin', () => {
+  it('lets staff move records to the bin with the permission they edit them with', async () => {
+    await assertSucceeds(updateDoc(doc(as(ADMIN), 'agents', 'agent-1'), { deletedAt: new Date(), deletedBy: ADMIN }));
+    await assertSucceeds(updateDoc(doc(as(ADMIN), 'entries', 'their-entry'), {
+      deletedAt: new Date(), deletedBy: ADMIN, deletedWith: 'accounts/theirs'
+    }));
+    await assertSucceeds(updateDoc(doc(as(ASSIGNMENT_MANAGER), 'users', OTHER_CLICKER), { deletedAt: new Date(), deletedBy: ASSIGNMENT_MANAGER }));
+    await assertFails(updateDoc(doc(as(AUDITOR), 'accounts', 'mine'), { deletedAt: new Date(), deletedBy: AUDITOR }));
+  });
+
+  it('only purges records already in the bin, and only for owners', async () => {
+    await assertFails(deleteDoc(doc(as(ADMIN), 'accounts', 'mine')));
+    await assertFails(deleteDoc(doc(as(ADMIN), 'agents', 'agent-1')));
+    await assertFails(deleteDoc(doc(as(ASSIGNMENT_MANAGER), 'users', 'deleted-clicker')));
+    await assertSucceeds(deleteDoc(doc(as(ADMIN), 'users', 'deleted-clicker')));
+    await assertSucceeds(deleteDoc(doc(as(ADMIN), 'entries', 'deleted-entry')));
+  });
+
+  it('takes access away from a clicker in the bin', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'users', CLICKER), { deletedAt: new Date() });
+    });
+    await assertFails(getDoc(doc(as(CLICKER), 'accounts', 'mine')));
+  });
+});
+
+describe('rollups', () => {
+  it('are read by report viewers and written by nobody', async () => {
+    await assertSucceeds(getDoc(doc(as(AUDITOR), 'rollups', '2025-01-01')));
+    await assertFails(getDoc(doc(as(ASSIGNMENT_MANAGER), 'rollups', '2025-01-01')));
+    await assertFails(getDoc(doc(as(CLICKER), 'rollups', '2025-01-01')));
+    await assertFails(setDoc(doc(as(ADMIN), 'rollups', '2025-01-02'), { totals: { entries: 1 } }));
+    await assertFails(getDoc(doc(as(ADMIN), 'rollupState', 'cursor')));
+  });
+});
+
+describe('assignments', () => {
+  it('are read by staff and by the clicker they belong to', async () => {
+    await assertSucceeds(getDoc(doc(as(AUDITOR), 'assignments', 'theirs-1')));
+    await assertSucceeds(getDoc(doc(as(CLICKER), 'assignments', 'mine-1')));
+    await assertFails(getDoc(doc(as(CLICKER), 'assignments', 'theirs-1')));
+    await assertSucceeds(getDocs(query(
+      collection(as(CLICKER), 'assignments'),
+      where('accountId', '==', 'mine'),
+      where('playerUid', '==', CLICKER),
+      where('to', '==', null)
+    )));
+  });
+
+  it('are opened and closed by whoever assigns accounts, and not removed by them', async () => {
+    await assertSucceeds(updateDoc(doc(as(ASSIGNMENT_MANAGER), 'assignments', 'mine-1'), { to: '2025-01-05' }));
+    await assertSucceeds(setDoc(doc(as(ADMIN), 'assignments', 'mine-2'), { accountId: 'mine', playerUid: OTHER_CLICKER, from: '2025-01-06', to: null }));
+    await assertFails(setDoc(doc(as(BOOKKEEPER), 'assignments', 'mine-3'), { accountId: 'mine', playerUid: CLICKER, from: '2025-01-06', to: null }));
+    await assertFails(updateDoc(doc(as(CLICKER), 'assignments', 'mine-1'), { to: null }));
+    await assertFails(deleteDoc(doc(as(ADMIN), 'assignments', 'theirs-1')));
+  });
+
+  it('are written by imports only when stamped with the import, and removed only by its rollback', async () => {
+    await assertSucceeds(updateDoc(doc(as(BOOKKEEPER), 'assignments', 'mine-1'), { to: '2025-01-05', closedByImportBatchId: 'import-1' }));
+    await assertSucceeds(setDoc(doc(as(BOOKKEEPER), 'assignments', 'mine-3'), {
+      accountId: 'mine', playerUid: OTHER_CLICKER, from: '2025-01-06', to: null, importBatchId: 'import-1'
+    }));
+    await assertSucceeds(deleteDoc(doc(as(BOOKKEEPER), 'assignments', 'mine-3')));
+    await assertSucceeds(updateDoc(doc(as(BOOKKEEPER), 'assignments', 'mine-1'), { to: null, closedByImportBatchId: deleteField() }));
+    await assertFails(updateDoc(doc(as(BOOKKEEPER), 'assignments', 'theirs-1'), { to: '2025-01-05' }));
+    await assertFails(deleteDoc(doc(as(BOOKKEEPER), 'assignments', 'theirs-1')));
+  });
+});
+
+describe('audit log', () => {
+  const record = (actorUid, collectionName = 'entries', docId = 'my-entry') =>
+    ({ actorUid, action: 'update', path: `${collectionName}/${docId}`, collection: collectionName, docId, at: serverTimestamp() });
+
+  it('takes new records only in the writer\'s own name and at server time', async () => {
+    await assertSucceeds(setDoc(doc(as(CLICKER), 'auditLog', 'audit-2'), record(CLICKER)));
+    await assertFails(setDoc(doc(as(CLICKER), 'auditLog', 'audit-3'), record(OTHER_CLICKER)));
+    await assertFails(setDoc(doc(as(CLICKER), 'auditLog', 'audit-4'), { ...record(CLICKER), at: new Date('2020-01-01') }));
+    await assertFails(setDoc(doc(anonymous(), 'auditLog', 'audit-5'), record('nobody')));
+  });
+
+  it('takes records from clickers only about their own entries and accounts', async () => {
+    await assertSucceeds(setDoc(doc(as(CLICKER), 'auditLog', 'audit-6'), record(CLICKER, 'accounts', 'mine')));
+    await assertFails(setDoc(doc(as(CLICKER), 'auditLog', 'audit-7'), record(CLICKER, 'entries', 'their-entry')));
+    await assertFails(setDoc(doc(as(CLICKER), 'auditLog', 'audit-8'), record(CLICKER, 'accounts', 'theirs')));
+    await assertFails(setDoc(doc(as(CLICKER), 'auditLog', 'audit-9'), record(CLICKER, 'users', CLICKER)));
+    await assertFails(setDoc(doc(as(CLICKER), 'auditLog', 'audit-10'), { ...record(CLICKER), path: 'entries/their-entry' }));
+    await assertFails(setDoc(doc(as(HOLDER), 'auditLog', 'audit-11'), record(HOLDER, 'accounts', 'mine')));
+    await assertSucceeds(setDoc(doc(as(AUDITOR), 'auditLog', 'audit-12'), record(AUDITOR, 'settings', 'taxRate')));
+  });
+
+  it('cannot be changed or removed, even by owners', async () => {
+    await assertFails(updateDoc(doc(as(ADMIN), 'auditLog', 'audit-1'), { action: 'create' }));
+    await assertFails(deleteDoc(doc(as(ADMIN), 'auditLog', 'audit-1')));
+    await assertFails(updateDoc(doc(as(CLICKER), 'auditLog', 'audit-1'), { action: 'create' }));
+  });
+
+  it('is read by staff only', async () => {
+    await assertSucceeds(getDocs(collection(as(AUDITOR), 'auditLog')));
+    await assertFails(getDoc(doc(as(CLICKER), 'auditLog', 'audit-1')));
+    await assertFails(getDoc(doc(as(HOLDER), 'auditLog', 'audit-1')));
+  });
+});
+
+describe('signed in without a user document', () => {
+  it('is treated as neither admin nor clicker', async () => {
+    const db = as('stranger');
+    await assertFails(getDoc(doc(db, 'agents', 'agent-1')));
+    await assertFails(getDocs(query(collection(db, 'accounts'), where('assignedToPlayerUid', '==', 'stranger'))));
+  });
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,9 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // Unit tests sit next to the module they cover; tests/ holds the rules
+  // tests, which need the emulator (npm run test:rules)
+  test: {
+    include: ['src/**/*.test.ts', 'api/**/*.test.js'],
+  },
 });